@@ -0,0 +1,105 @@
+/**
+ * MediaPipe asset pipeline
+ *
+ * Copies the wasm that ships with the installed @mediapipe/tasks-vision
+ * into public/mediapipe/wasm, downloads the pinned landmarker models into
+ * public/mediapipe/models, and writes public/mediapipe/manifest.json with the
+ * package version and a SHA-256 for every file. The app refuses to run on
+ * assets whose version or hash doesn't match (src/lib/mediapipeAssets.ts).
+ *
+ * Usage: node scripts/mediapipe-assets.mjs [--force]
+ *   --force  Re-download models even if they already exist
+ */
+
+import { createHash } from 'node:crypto'
+import { copyFile, mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const packageDir = join(root, 'node_modules', '@mediapipe', 'tasks-vision')
+const outDir = join(root, 'public', 'mediapipe')
+
+// Pinned model releases (never "latest")
+const MODELS = {
+  hand_landmarker:
+    'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  pose_landmarker_lite:
+    'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task',
+  pose_landmarker_full:
+    'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task',
+  pose_landmarker_heavy:
+    'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_heavy/float16/1/pose_landmarker_heavy.task',
+}
+
+const force = process.argv.includes('--force')
+
+async function exists(path) {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Subresource-integrity style digest, matching what the browser computes
+async function sha256(path) {
+  const digest = createHash('sha256').update(await readFile(path)).digest('base64')
+  return `sha256-${digest}`
+}
+
+async function copyWasm() {
+  const from = join(packageDir, 'wasm')
+  const to = join(outDir, 'wasm')
+  await mkdir(to, { recursive: true })
+
+  const files = await readdir(from)
+  await Promise.all(files.map((file) => copyFile(join(from, file), join(to, file))))
+  return files.map((file) => `wasm/${file}`)
+}
+
+async function downloadModels() {
+  const to = join(outDir, 'models')
+  await mkdir(to, { recursive: true })
+
+  const paths = []
+  for (const [name, url] of Object.entries(MODELS)) {
+    const path = `models/${name}.task`
+    const target = join(outDir, path)
+    paths.push(path)
+
+    if (!force && (await exists(target))) continue
+
+    console.log(`Downloading ${name}...`)
+    const res = await fetch(url).catch((err) => {
+      throw new Error(`Failed to download ${url}: ${err.message}`)
+    })
+    if (!res.ok) {
+      throw new Error(`Failed to download ${url} (${res.status})`)
+    }
+    await writeFile(target, Buffer.from(await res.arrayBuffer()))
+  }
+  return paths
+}
+
+async function main() {
+  const { version } = JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf8'))
+
+  const paths = [...(await copyWasm()), ...(await downloadModels())]
+  const files = {}
+  for (const path of paths) {
+    files[path] = await sha256(join(outDir, path))
+  }
+
+  await writeFile(
+    join(outDir, 'manifest.json'),
+    JSON.stringify({ version, files }, null, 2) + '\n'
+  )
+  console.log(`MediaPipe ${version} assets ready in public/mediapipe (${paths.length} files)`)
+}
+
+main().catch((err) => {
+  console.error(err.message)
+  process.exit(1)
+})
@@ -1,68 +1,14 @@
+import { Suspense } from 'react'
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom'
+import CompatibilityBadge from './components/compatibility-badge'
+import LoadingScreen from './components/loading-screen'
+import { useCapabilities } from './hooks/useCapabilities'
+import { experiments } from './experiments/registry'
 import './App.css'
 
-// Experiments
-import ModelViewer from './experiments/01-model-viewer'
-import FaceTracking from './experiments/02-face-tracking'
-import ImageTracking from './experiments/03-image-tracking'
-import SurfaceDetection from './experiments/04-surface-detection'
-import WorldTracking from './experiments/05-world-tracking'
-import HandTracking from './experiments/06-hand-tracking'
-import BodyTracking from './experiments/07-body-tracking'
-
-const experiments = [
-  {
-    id: '01-model-viewer',
-    title: 'Model Viewer',
-    description: '3D model with AR quick-look support',
-    component: ModelViewer,
-    status: 'done' as const,
-  },
-  {
-    id: '02-face-tracking',
-    title: 'Face Tracking',
-    description: 'Face detection and filter overlays',
-    component: FaceTracking,
-    status: 'done' as const,
-  },
-  {
-    id: '03-image-tracking',
-    title: 'Image Tracking',
-    description: 'Recognize images and overlay 3D content',
-    component: ImageTracking,
-    status: 'done' as const,
-  },
-  {
-    id: '04-surface-detection',
-    title: 'Surface Detection',
-    description: 'Place objects on real-world surfaces',
-    component: SurfaceDetection,
-    status: 'done' as const,
-  },
-  {
-    id: '05-world-tracking',
-    title: 'World Tracking',
-    description: 'Persistent AR anchors in space',
-    component: WorldTracking,
-    status: 'done' as const,
-  },
-  {
-    id: '06-hand-tracking',
-    title: 'Hand Tracking',
-    description: 'MediaPipe hand detection & gesture recognition',
-    component: HandTracking,
-    status: 'done' as const,
-  },
-  {
-    id: '07-body-tracking',
-    title: 'Body Tracking',
-    description: 'Full-body pose detection & analysis',
-    component: BodyTracking,
-    status: 'done' as const,
-  },
-]
-
 function Gallery() {
+  const capabilities = useCapabilities()
+
   return (
     <div className="gallery">
       <header className="gallery-header">
@@ -74,17 +20,33 @@ function Gallery() {
         {experiments.map((exp) => (
           <div key={exp.id} className={`experiment-card ${exp.status}`}>
             {exp.status === 'done' ? (
-              <Link to={`/${exp.id}`} className="experiment-link">
+              <Link
+                to={`/${exp.id}`}
+                className="experiment-link"
+                // Start fetching the chunk as soon as the user shows intent;
+                // if that fails, the route's own load reports it on navigation
+                onPointerEnter={() => { exp.load().catch(() => {}) }}
+                onFocus={() => { exp.load().catch(() => {}) }}
+              >
+                <img className="experiment-thumbnail" src={exp.thumbnail} alt="" />
                 <div className="experiment-number">{exp.id.split('-')[0]}</div>
                 <h2>{exp.title}</h2>
                 <p>{exp.description}</p>
+                <ul className="experiment-tags">
+                  {exp.tags.map((tag) => <li key={tag}>{tag}</li>)}
+                </ul>
                 <span className="status-badge">Ready</span>
+                <CompatibilityBadge required={exp.capabilities} capabilities={capabilities} />
               </Link>
             ) : (
               <div className="experiment-placeholder">
+                <img className="experiment-thumbnail" src={exp.thumbnail} alt="" />
                 <div className="experiment-number">{exp.id.split('-')[0]}</div>
                 <h2>{exp.title}</h2>
                 <p>{exp.description}</p>
+                <ul className="experiment-tags">
+                  {exp.tags.map((tag) => <li key={tag}>{tag}</li>)}
+                </ul>
                 <span className="status-badge planned">Coming Soon</span>
               </div>
             )}
@@ -102,18 +64,20 @@ function Gallery() {
 function App() {
   return (
     <BrowserRouter basename="/ar-lab">
-      <Routes>
-        <Route path="/" element={<Gallery />} />
-        {experiments
-          .filter((exp) => exp.component)
-          .map((exp) => (
-            <Route
-              key={exp.id}
-              path={`/${exp.id}`}
-              element={exp.component ? <exp.component /> : null}
-            />
-          ))}
-      </Routes>
+      <Suspense fallback={<LoadingScreen />}>
+        <Routes>
+          <Route path="/" element={<Gallery />} />
+          {experiments
+            .filter((exp) => exp.status === 'done')
+            .map((exp) => (
+              <Route
+                key={exp.id}
+                path={`/${exp.id}`}
+                element={<exp.component />}
+              />
+            ))}
+        </Routes>
+      </Suspense>
     </BrowserRouter>
   )
 }
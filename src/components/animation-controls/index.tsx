@@ -0,0 +1,103 @@
+/**
+ * Animation Controls
+ *
+ * Clip picker and transport for a useAnimationPlayer instance: play/pause,
+ * a scrub slider over the clip, loop mode, playback speed and how long to
+ * crossfade when switching clips mid-play. Renders nothing for models
+ * without animations.
+ */
+
+import { useEffect, useState } from 'react'
+import type { AnimationPlayer } from '../../hooks/useAnimationPlayer'
+import { ANIMATION_LOOPS, ANIMATION_SPEEDS } from '../../lib/animationPlayer'
+import type { AnimationLoop } from '../../lib/animationPlayer'
+import './styles.css'
+
+const POSITION_UPDATE_INTERVAL = 100 // ms between playhead readouts
+
+// Scrub slider and time readout, polling the playhead on their own so the
+// page doesn't re-render with every animation frame
+function AnimationPosition({ player }: { player: AnimationPlayer }) {
+  const { getTime, seek, duration } = player
+  const [time, setTime] = useState(getTime)
+
+  useEffect(() => {
+    const interval = setInterval(() => setTime(getTime()), POSITION_UPDATE_INTERVAL)
+    return () => clearInterval(interval)
+  }, [getTime])
+
+  return (
+    <>
+      <input
+        type="range"
+        className="animation-seek"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={Math.min(time, duration)}
+        onChange={(e) => {
+          seek(Number(e.target.value))
+          setTime(getTime())
+        }}
+        aria-label="Scrub"
+      />
+      <span className="animation-position">
+        {time.toFixed(2)} / {duration.toFixed(2)} s
+      </span>
+    </>
+  )
+}
+
+export default function AnimationControls({ player }: { player: AnimationPlayer }) {
+  if (!player.isReady) return null
+
+  return (
+    <div className="animation-controls">
+      <div className="animation-row">
+        <select
+          className="animation-clip"
+          value={player.clip ?? ''}
+          onChange={(e) => player.select(e.target.value)}
+          aria-label="Animation clip"
+        >
+          {player.clips.map((clip) => <option key={clip} value={clip}>{clip}</option>)}
+        </select>
+        <span className="animation-count">{player.clips.length} {player.clips.length === 1 ? 'clip' : 'clips'}</span>
+      </div>
+
+      <div className="animation-row">
+        <button onClick={player.togglePlay} className="animation-button" aria-label={player.isPlaying ? 'Pause' : 'Play'}>
+          {player.isPlaying ? '⏸' : '▶️'}
+        </button>
+        <AnimationPosition player={player} />
+      </div>
+
+      <div className="animation-row animation-options">
+        <label>
+          Loop
+          <select value={player.loop} onChange={(e) => player.setLoop(e.target.value as AnimationLoop)}>
+            {ANIMATION_LOOPS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+        <label>
+          Speed
+          <select value={player.speed} onChange={(e) => player.setSpeed(Number(e.target.value))}>
+            {ANIMATION_SPEEDS.map((speed) => <option key={speed} value={speed}>{speed}×</option>)}
+          </select>
+        </label>
+        <label>
+          Crossfade
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={player.crossfade}
+            onChange={(e) => player.setCrossfade(Number(e.target.value))}
+          />
+          <span className="animation-crossfade">{player.crossfade.toFixed(1)} s</span>
+        </label>
+      </div>
+    </div>
+  )
+}
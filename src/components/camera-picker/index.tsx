@@ -0,0 +1,53 @@
+/**
+ * Camera Picker
+ *
+ * Device, facing mode and resolution controls for a useCameraSource instance.
+ * Sits in an experiment's controls bar next to its own buttons.
+ */
+
+import type { CameraSource, ResolutionPreset } from '../../hooks/useCameraSource'
+import { RESOLUTION_PRESETS } from '../../hooks/useCameraSource'
+import './styles.css'
+
+export default function CameraPicker({ camera }: { camera: CameraSource }) {
+  const { devices, selection, activeDeviceId } = camera
+
+  return (
+    <div className="camera-picker">
+      {devices.length > 1 && (
+        <button onClick={camera.flipCamera} className="control-button">
+          🔄 {selection.facingMode === 'user' ? 'Rear' : 'Front'}
+        </button>
+      )}
+
+      {devices.length > 0 && (
+        <select
+          className="camera-picker-select"
+          value={selection.deviceId ?? activeDeviceId ?? ''}
+          onChange={(e) => camera.selectDevice(e.target.value || null)}
+          aria-label="Camera"
+        >
+          {!activeDeviceId && !selection.deviceId && <option value="">Default camera</option>}
+          {devices.map((device, index) => (
+            <option key={device.deviceId || index} value={device.deviceId}>
+              {device.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        className="camera-picker-select"
+        value={selection.resolution}
+        onChange={(e) => camera.setResolution(e.target.value as ResolutionPreset)}
+        aria-label="Resolution"
+      >
+        {Object.entries(RESOLUTION_PRESETS).map(([key, preset]) => (
+          <option key={key} value={key}>
+            {preset.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+/**
+ * Compatibility Badge
+ *
+ * Gallery card footer showing whether an experiment's required capabilities
+ * are available on this device, and which ones are missing if not.
+ */
+
+import { missingCapabilities } from '../../lib/capabilities'
+import type { Capability, DeviceCapabilities } from '../../lib/capabilities'
+import './styles.css'
+
+interface CompatibilityBadgeProps {
+  required: Capability[]
+  capabilities: DeviceCapabilities | null // null while the probe is running
+}
+
+export default function CompatibilityBadge({ required, capabilities }: CompatibilityBadgeProps) {
+  if (!capabilities) {
+    return <div className="compatibility-badge checking">Checking device…</div>
+  }
+
+  const missing = missingCapabilities(required, capabilities)
+  if (missing.length === 0) {
+    return <div className="compatibility-badge supported">✓ Works on this device</div>
+  }
+
+  return (
+    <div className="compatibility-badge unsupported">
+      <span>✕ Won't work on this device</span>
+      <ul>
+        {missing.map(({ capability, reason }) => (
+          <li key={capability}>{reason}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+/**
+ * Error Screen
+ *
+ * Recovery overlay for an ExperimentError: what went wrong, one targeted
+ * recovery action, and copyable diagnostics. Extra actions (e.g. replaying
+ * a recorded session) can be passed as children.
+ *
+ * Renders inside the experiment's .error-overlay so it picks up the page's
+ * overlay styling.
+ */
+
+import { useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { formatDiagnostics } from '../../lib/experimentErrors'
+import type { ExperimentError } from '../../lib/experimentErrors'
+import './styles.css'
+
+interface ErrorScreenProps {
+  error: ExperimentError
+  onRecover: () => void // Runs the retry / reinitialize action
+  children?: ReactNode
+}
+
+function openHttps() {
+  window.location.href = window.location.href.replace(/^http:/, 'https:')
+}
+
+export default function ErrorScreen({ error, onRecover, children }: ErrorScreenProps) {
+  const detailsRef = useRef<HTMLPreElement>(null)
+  const [copied, setCopied] = useState(false)
+
+  const { icon, title, description, action, actionLabel } = error.info
+  const diagnostics = formatDiagnostics(error)
+
+  const copyDiagnostics = async () => {
+    try {
+      await navigator.clipboard.writeText(diagnostics)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard API is unavailable on insecure pages: select the text instead
+      if (detailsRef.current) {
+        window.getSelection()?.selectAllChildren(detailsRef.current)
+      }
+    }
+  }
+
+  return (
+    <div className="error-overlay error-screen" role="alert">
+      <span className="error-icon">{icon}</span>
+      <h3 className="error-screen-title">{title}</h3>
+      <p>{description}</p>
+      {error.message && <p className="error-screen-message">{error.message}</p>}
+
+      <div className="error-screen-actions">
+        <button onClick={action === 'open-https' ? openHttps : onRecover}>
+          {actionLabel}
+        </button>
+        {children}
+      </div>
+
+      <details className="error-screen-details">
+        <summary>Diagnostic details</summary>
+        <pre ref={detailsRef}>{diagnostics}</pre>
+        <button onClick={copyDiagnostics} className="error-screen-copy">
+          {copied ? '✓ Copied' : '📋 Copy'}
+        </button>
+      </details>
+    </div>
+  )
+}
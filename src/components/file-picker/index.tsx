@@ -0,0 +1,51 @@
+/**
+ * File Picker
+ *
+ * Buttons for choosing pre-recorded input: a video file, a set of images,
+ * or a whole folder of images (played back as a sequence).
+ */
+
+import { useRef } from 'react'
+import './styles.css'
+
+export default function FilePicker({ onFiles }: { onFiles: (files: File[]) => void }) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    // Reset so picking the same file again still fires change
+    e.target.value = ''
+    if (files.length > 0) onFiles(files)
+  }
+
+  return (
+    <div className="file-picker">
+      <button onClick={() => fileInputRef.current?.click()} className="file-picker-button">
+        🎞️ Video / Images
+      </button>
+      <button onClick={() => folderInputRef.current?.click()} className="file-picker-button">
+        📁 Image Folder
+      </button>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*,image/*"
+        multiple
+        hidden
+        onChange={handleChange}
+      />
+      <input
+        ref={(el) => {
+          folderInputRef.current = el
+          // webkitdirectory isn't in React's input typings
+          el?.setAttribute('webkitdirectory', '')
+        }}
+        type="file"
+        hidden
+        onChange={handleChange}
+      />
+    </div>
+  )
+}
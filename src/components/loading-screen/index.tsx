@@ -0,0 +1,21 @@
+/**
+ * Loading Screen
+ *
+ * Full-page placeholder shown while an experiment's chunk is downloading
+ * (the Suspense fallback for every experiment route).
+ */
+
+import './styles.css'
+
+interface LoadingScreenProps {
+  message?: string
+}
+
+export default function LoadingScreen({ message = 'Loading experiment...' }: LoadingScreenProps) {
+  return (
+    <div className="loading-screen" role="status" aria-live="polite">
+      <div className="loading-screen-spinner" />
+      <p>{message}</p>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * Model Drop Zone
+ *
+ * Drop target and file / folder buttons for adding local 3D models. Dropped
+ * folders are walked so a multi-file glTF arrives with its textures; the
+ * files are handed on with their relative paths.
+ */
+
+import { useRef, useState } from 'react'
+import { MODEL_FILE_ACCEPT, filesFromDataTransfer, filesFromInput } from '../../lib/localModels'
+import type { ModelFile } from '../../lib/localModels'
+import './styles.css'
+
+export default function ModelDropZone({
+  onFiles,
+  isBusy = false,
+}: {
+  onFiles: (files: ModelFile[]) => void
+  isBusy?: boolean
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const [isOver, setIsOver] = useState(false)
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsOver(true)
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsOver(false)
+    onFiles(await filesFromDataTransfer(e.dataTransfer))
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filesFromInput(e.target.files)
+    // Reset so picking the same file again still fires change
+    e.target.value = ''
+    if (files.length > 0) onFiles(files)
+  }
+
+  return (
+    <div
+      className={`model-drop-zone ${isOver ? 'over' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Moving onto a child element isn't leaving
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOver(false)
+      }}
+      onDrop={handleDrop}
+    >
+      <p>
+        {isBusy ? '⏳ Checking models…' : 'Drop .glb, .gltf (with its .bin and textures) or .usdz files here'}
+      </p>
+      <div className="model-drop-zone-actions">
+        <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="model-drop-zone-button">
+          📄 Choose Files
+        </button>
+        <button onClick={() => folderInputRef.current?.click()} disabled={isBusy} className="model-drop-zone-button">
+          📁 Choose Folder
+        </button>
+      </div>
+
+      <input ref={fileInputRef} type="file" accept={MODEL_FILE_ACCEPT} multiple hidden onChange={handleChange} />
+      <input
+        ref={(el) => {
+          folderInputRef.current = el
+          // webkitdirectory isn't in React's input typings
+          el?.setAttribute('webkitdirectory', '')
+        }}
+        type="file"
+        hidden
+        onChange={handleChange}
+      />
+    </div>
+  )
+}
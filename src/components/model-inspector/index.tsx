@@ -0,0 +1,128 @@
+/**
+ * Model Inspector
+ *
+ * Asset statistics for one glTF / GLB (lib/modelStats) against a mobile AR
+ * budget: geometry, materials and textures, download size, animation clips,
+ * extensions and the bounding box. Warnings come first, so a model that's
+ * too heavy says so before the numbers.
+ */
+
+import { useEffect, useState } from 'react'
+import { checkBudget, inspectModel } from '../../lib/modelStats'
+import type { ModelBudget, ModelDimensions, ModelStats } from '../../lib/modelStats'
+import './styles.css'
+
+const MB = 1024 * 1024
+
+const COMPRESSION_LABELS = {
+  draco: 'Draco',
+  meshopt: 'meshopt',
+  ktx2: 'KTX2',
+} as const
+
+function count(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 2 : 1)} MB`
+}
+
+export default function ModelInspector({
+  src,
+  dimensions,
+  budget,
+}: {
+  src: string
+  dimensions: ModelDimensions | null // From the viewer, once the model has loaded
+  budget: ModelBudget
+}) {
+  const [stats, setStats] = useState<ModelStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    inspectModel(src, controller.signal).then(setStats, (err) => {
+      if (controller.signal.aborted) return
+      console.error('Inspecting the model failed:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    })
+    return () => controller.abort()
+  }, [src])
+
+  if (error) return <div className="model-inspector"><p className="model-inspector-error">{error}</p></div>
+  if (!stats) return <div className="model-inspector"><p className="model-inspector-loading">Measuring…</p></div>
+
+  const warnings = checkBudget(stats, budget, dimensions)
+  const compression = (Object.keys(COMPRESSION_LABELS) as (keyof typeof COMPRESSION_LABELS)[])
+    .filter((key) => stats.compression[key])
+    .map((key) => COMPRESSION_LABELS[key])
+
+  return (
+    <div className="model-inspector">
+      {warnings.length > 0 ? (
+        <ul className="model-inspector-warnings">
+          {warnings.map((warning) => <li key={warning.metric}>⚠️ {warning.message}</li>)}
+        </ul>
+      ) : (
+        <p className="model-inspector-ok">✅ Within the mobile AR budget</p>
+      )}
+
+      <dl className="model-inspector-stats">
+        <dt>Triangles</dt>
+        <dd>{count(stats.triangles)}</dd>
+        <dt>Vertices</dt>
+        <dd>{count(stats.vertices)}</dd>
+        <dt>Draw calls</dt>
+        <dd>{count(stats.drawCalls)} ({stats.meshes} {stats.meshes === 1 ? 'mesh' : 'meshes'})</dd>
+        <dt>Materials</dt>
+        <dd>{stats.materials}</dd>
+        <dt>Textures</dt>
+        <dd>{stats.textures} · ~{megabytes(stats.textureMemory)} GPU</dd>
+        <dt>File size</dt>
+        <dd>{megabytes(stats.fileSize)}</dd>
+        <dt>Bounding box</dt>
+        <dd>{dimensions ? `${dimensions.x.toFixed(2)} × ${dimensions.y.toFixed(2)} × ${dimensions.z.toFixed(2)} m` : '–'}</dd>
+        <dt>Compression</dt>
+        <dd>{compression.length > 0 ? compression.join(', ') : 'None'}</dd>
+      </dl>
+
+      {stats.images.length > 0 && (
+        <details className="model-inspector-section">
+          <summary>Images ({stats.images.length})</summary>
+          <ul>
+            {stats.images.map((image, index) => (
+              <li key={index}>
+                {image.name}
+                <span>{image.width !== null ? `${image.width}×${image.height}` : 'unknown size'} · {megabytes(image.bytes)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {stats.animations.length > 0 && (
+        <details className="model-inspector-section">
+          <summary>Animations ({stats.animations.length})</summary>
+          <ul>
+            {stats.animations.map((animation, index) => (
+              <li key={index}>
+                {animation.name}
+                <span>{animation.duration.toFixed(2)} s</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {stats.extensions.length > 0 && (
+        <details className="model-inspector-section">
+          <summary>Extensions ({stats.extensions.length})</summary>
+          <ul>
+            {stats.extensions.map((extension) => <li key={extension}><code>{extension}</code></li>)}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
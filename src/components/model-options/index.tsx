@@ -0,0 +1,105 @@
+/**
+ * Model Options
+ *
+ * Live landmarker options for a useVisionTask instance: model variant,
+ * delegate, how many hands or poses to track and the confidence thresholds.
+ * The values are saved settings; each change rebuilds the landmarker in
+ * place, and a table compares the inference cost of every configuration
+ * tried since the page opened.
+ */
+
+import { useEffect, useState } from 'react'
+import type { ExperimentSettings } from '../../hooks/useExperimentSettings'
+import type { VisionTask } from '../../hooks/useVisionTask'
+import type { ModelRunSummary } from '../../lib/modelBenchmark'
+import type { SettingField } from '../../lib/settingsStore'
+import { SettingInput } from '../settings-panel'
+import './styles.css'
+
+const REFRESH_MS = 500
+
+function ms(value: number | null): string {
+  return value === null ? '–' : value.toFixed(1)
+}
+
+export default function ModelOptions<S>({
+  settings,
+  fields,
+  vision,
+}: {
+  settings: ExperimentSettings<S>
+  fields: readonly (keyof S & string)[] // Which saved settings to show, in order
+  vision: VisionTask
+}) {
+  const { benchmark, config, delegate, isRebuilding, rebuildError } = vision
+  const [runs, setRuns] = useState<ModelRunSummary[]>(() => benchmark.summaries())
+  const values = settings.settings as Record<string, unknown>
+  const definitions = settings.definition.fields as Record<string, SettingField<unknown>>
+
+  useEffect(() => {
+    const interval = setInterval(() => setRuns(benchmark.summaries()), REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [benchmark])
+
+  const handleClear = () => {
+    benchmark.clear()
+    setRuns(benchmark.summaries())
+  }
+
+  return (
+    <div className="model-options">
+      <div className="model-options-header">
+        <h3>Model</h3>
+        {isRebuilding && <span className="model-options-status">⏳ Rebuilding…</span>}
+        {!isRebuilding && config && delegate !== config.delegate && (
+          <span className="model-options-status">{config.delegate} unavailable, running on {delegate}</span>
+        )}
+      </div>
+
+      {fields.map((name) => (
+        <label key={name} className="model-options-field">
+          <span>{definitions[name].label}</span>
+          <SettingInput
+            field={definitions[name]}
+            value={values[name]}
+            onChange={(value) => settings.update({ [name]: value } as Partial<S>)}
+          />
+        </label>
+      ))}
+
+      {rebuildError && (
+        <p className="model-options-error" role="alert">
+          Couldn't switch: {rebuildError}. Still running the previous configuration.
+        </p>
+      )}
+
+      {runs.length > 0 && (
+        <table className="model-options-table">
+          <thead>
+            <tr>
+              <th>Configuration</th>
+              <th>Inference p50</th>
+              <th>p95</th>
+              <th>Results/s</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run) => (
+              <tr key={run.label} className={run.current ? 'current' : ''}>
+                <td>{run.label}</td>
+                <td>{ms(run.p50)} ms</td>
+                <td>{ms(run.p95)} ms</td>
+                <td>{run.rate ? run.rate.toFixed(1) : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {runs.length > 1 && (
+        <button className="model-options-clear" onClick={handleClear}>
+          Clear comparison
+        </button>
+      )}
+    </div>
+  )
+}
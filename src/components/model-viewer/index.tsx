@@ -0,0 +1,92 @@
+/**
+ * Model Viewer
+ *
+ * Typed React wrapper around Google's <model-viewer> custom element:
+ * - Attributes as props, with the same names as in HTML
+ * - ref to the element itself (activateAR(), toBlob(), play(), ...)
+ * - Callbacks for the element's load, progress, error and ar-status events
+ *
+ * Children go inside the element, so slotted content (slot="ar-button",
+ * slot="poster", hotspots) works as in plain HTML.
+ */
+
+import { useEffect, useImperativeHandle, useRef, useState } from 'react'
+import type { CSSProperties, ReactNode, Ref } from 'react'
+import '@google/model-viewer'
+import type { ModelViewerElement } from '@google/model-viewer'
+import type {
+  ModelViewerARStatus,
+  ModelViewerARStatusDetail,
+  ModelViewerAttributes,
+  ModelViewerErrorDetail,
+  ModelViewerLoadDetail,
+  ModelViewerProgressDetail,
+} from '../../types/model-viewer'
+
+export type { ModelViewerElement }
+
+interface ModelViewerCallbacks {
+  onLoad?: (detail: ModelViewerLoadDetail) => void
+  onProgress?: (progress: number) => void // 0–1
+  onError?: (detail: ModelViewerErrorDetail) => void
+  onARStatus?: (status: ModelViewerARStatus) => void
+}
+
+export interface ModelViewerProps extends ModelViewerAttributes, ModelViewerCallbacks {
+  ref?: Ref<ModelViewerElement | null>
+  id?: string
+  className?: string
+  style?: CSSProperties
+  children?: ReactNode
+}
+
+export default function ModelViewer({
+  ref,
+  onLoad,
+  onProgress,
+  onError,
+  onARStatus,
+  children,
+  ...attributes
+}: ModelViewerProps) {
+  const [element, setElement] = useState<ModelViewerElement | null>(null)
+  const callbacksRef = useRef<ModelViewerCallbacks>({ onLoad, onProgress, onError, onARStatus })
+
+  useImperativeHandle<ModelViewerElement | null, ModelViewerElement | null>(ref, () => element, [element])
+
+  useEffect(() => {
+    callbacksRef.current = { onLoad, onProgress, onError, onARStatus }
+  }, [onLoad, onProgress, onError, onARStatus])
+
+  // React only binds its own synthetic events, so listen on the element
+  useEffect(() => {
+    if (!element) return
+
+    const handleLoad = (e: Event) =>
+      callbacksRef.current.onLoad?.((e as CustomEvent<ModelViewerLoadDetail>).detail)
+    const handleProgress = (e: Event) =>
+      callbacksRef.current.onProgress?.((e as CustomEvent<ModelViewerProgressDetail>).detail.totalProgress)
+    const handleError = (e: Event) =>
+      callbacksRef.current.onError?.((e as CustomEvent<ModelViewerErrorDetail>).detail)
+    const handleARStatus = (e: Event) =>
+      callbacksRef.current.onARStatus?.((e as CustomEvent<ModelViewerARStatusDetail>).detail.status)
+
+    element.addEventListener('load', handleLoad)
+    element.addEventListener('progress', handleProgress)
+    element.addEventListener('error', handleError)
+    element.addEventListener('ar-status', handleARStatus)
+
+    return () => {
+      element.removeEventListener('load', handleLoad)
+      element.removeEventListener('progress', handleProgress)
+      element.removeEventListener('error', handleError)
+      element.removeEventListener('ar-status', handleARStatus)
+    }
+  }, [element])
+
+  return (
+    <model-viewer ref={setElement} {...attributes}>
+      {children}
+    </model-viewer>
+  )
+}
@@ -0,0 +1,113 @@
+/**
+ * Performance HUD
+ *
+ * Floating toggle plus an overlay with rolling frame, inference and draw
+ * percentiles from a usePerfMonitor instance, and a CSV export of the
+ * frame log. Pages without a loop of their own can set sampleFrames to
+ * have the HUD tick the monitor from requestAnimationFrame.
+ */
+
+import { useEffect, useState } from 'react'
+import type { PerfMonitorHandle } from '../../hooks/usePerfMonitor'
+import type { PerfSnapshot, PerfStage } from '../../lib/perfMonitor'
+import { downloadPerfCsv } from '../../lib/perfMonitor'
+import './styles.css'
+
+const REFRESH_MS = 500
+
+const STAGE_LABELS: Record<PerfStage, string> = {
+  frame: 'Frame',
+  inference: 'Inference',
+  draw: 'Draw',
+}
+
+function ms(value: number): string {
+  return value.toFixed(1)
+}
+
+export default function PerfHud({
+  perf,
+  sampleFrames = false,
+}: {
+  perf: PerfMonitorHandle
+  sampleFrames?: boolean
+}) {
+  const { name, monitor, enabled, toggle } = perf
+  const [snapshot, setSnapshot] = useState<PerfSnapshot | null>(null)
+
+  // Refresh the readout while open
+  useEffect(() => {
+    if (!enabled) return
+    const interval = setInterval(() => setSnapshot(monitor.snapshot()), REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [monitor, enabled])
+
+  // Stand-in loop for pages that render on their own (e.g. model-viewer)
+  useEffect(() => {
+    if (!enabled || !sampleFrames) return
+    let frame = requestAnimationFrame(function sample(now) {
+      monitor.tick(now)
+      frame = requestAnimationFrame(sample)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [monitor, enabled, sampleFrames])
+
+  const handleReset = () => {
+    monitor.reset()
+    setSnapshot(monitor.snapshot())
+  }
+
+  return (
+    <div className="perf-hud">
+      {enabled && (
+        <div className="perf-hud-panel" aria-live="off">
+          {snapshot && snapshot.frames > 0 ? (
+            <>
+              <div className="perf-hud-summary">
+                <span><strong>{Math.round(snapshot.fps)}</strong> fps</span>
+                <span><strong>{snapshot.dropped}</strong> dropped</span>
+              </div>
+              <table className="perf-hud-table">
+                <thead>
+                  <tr>
+                    <th>ms</th>
+                    <th>p50</th>
+                    <th>p95</th>
+                    <th>p99</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(STAGE_LABELS) as PerfStage[]).map((stage) => {
+                    const stats = snapshot.stages[stage]
+                    return (
+                      <tr key={stage}>
+                        <th>{STAGE_LABELS[stage]}</th>
+                        <td>{stats ? ms(stats.p50) : '–'}</td>
+                        <td>{stats ? ms(stats.p95) : '–'}</td>
+                        <td>{stats ? ms(stats.p99) : '–'}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </>
+          ) : (
+            <p className="perf-hud-waiting">Waiting for frames...</p>
+          )}
+          <div className="perf-hud-actions">
+            <button onClick={handleReset}>Reset</button>
+            <button onClick={() => downloadPerfCsv(monitor, name)}>Export CSV</button>
+          </div>
+        </div>
+      )}
+      <button
+        onClick={toggle}
+        className={`perf-hud-toggle ${enabled ? 'active' : ''}`}
+        aria-pressed={enabled}
+        title="Performance HUD"
+      >
+        📊
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+/**
+ * Perf Probe
+ *
+ * Reports React Three Fiber frames to a PerfMonitor. Mount it inside a
+ * Canvas while the HUD is open: it renders the scene itself (a positive
+ * useFrame priority turns off the automatic render) so the draw can be timed.
+ */
+
+import { useFrame } from '@react-three/fiber'
+import type { PerfMonitor } from '../../lib/perfMonitor'
+
+export default function PerfProbe({ monitor }: { monitor: PerfMonitor }) {
+  useFrame(({ gl, scene, camera }) => {
+    monitor.tick()
+    monitor.measure('draw', () => gl.render(scene, camera))
+  }, 1)
+
+  return null
+}
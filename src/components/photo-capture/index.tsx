@@ -0,0 +1,87 @@
+/**
+ * Photo Capture
+ *
+ * Capture button for a usePhotoCapture instance, plus the preview dialog
+ * with format / watermark settings and download / share actions.
+ * buttonClassName lets the button match the page's own controls.
+ */
+
+import type { PhotoCapture as PhotoCaptureHandle } from '../../hooks/usePhotoCapture'
+import type { PhotoFormat } from '../../lib/photoCapture'
+import { DEFAULT_WATERMARK, PHOTO_FORMATS } from '../../lib/photoCapture'
+import './styles.css'
+
+export default function PhotoCapture({
+  capture,
+  buttonClassName = 'photo-capture-button floating',
+}: {
+  capture: PhotoCaptureHandle
+  buttonClassName?: string
+}) {
+  const { options, photo, error } = capture
+
+  return (
+    <>
+      <button onClick={capture.capture} disabled={capture.isCapturing} className={buttonClassName}>
+        📸 Capture
+      </button>
+
+      {(photo || error) && (
+        <div className="photo-capture-backdrop" onClick={capture.dismiss}>
+          <div className="photo-capture-dialog" role="dialog" aria-label="Captured photo" onClick={(e) => e.stopPropagation()}>
+            {photo && (
+              <>
+                <img src={photo.url} alt="Captured photo" className="photo-capture-preview" />
+                <p className="photo-capture-meta">
+                  {photo.width} × {photo.height} · {PHOTO_FORMATS[options.format].label} · {Math.round(photo.blob.size / 1024)} KB
+                </p>
+
+                <div className="photo-capture-settings">
+                  <div className="photo-capture-formats">
+                    {(Object.keys(PHOTO_FORMATS) as PhotoFormat[]).map((format) => (
+                      <button
+                        key={format}
+                        className={`photo-capture-option ${options.format === format ? 'active' : ''}`}
+                        onClick={() => capture.update({ format })}
+                      >
+                        {PHOTO_FORMATS[format].label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="photo-capture-watermark">
+                    <input
+                      type="checkbox"
+                      checked={options.watermark !== null}
+                      onChange={(e) => capture.update({ watermark: e.target.checked ? DEFAULT_WATERMARK : null })}
+                    />
+                    Watermark
+                  </label>
+                </div>
+              </>
+            )}
+
+            {error && <p className="photo-capture-error">{error}</p>}
+
+            <div className="photo-capture-actions">
+              {photo && (
+                <>
+                  <button onClick={capture.download} className="photo-capture-option">
+                    ⬇️ Download
+                  </button>
+                  {capture.canShare && (
+                    <button onClick={capture.share} className="photo-capture-option">
+                      📤 Share
+                    </button>
+                  )}
+                </>
+              )}
+              <button onClick={capture.dismiss} className="photo-capture-option">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
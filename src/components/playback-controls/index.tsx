@@ -0,0 +1,54 @@
+/**
+ * Playback Controls
+ *
+ * Transport bar for a useFileSource instance: frame step, play/pause and a
+ * seek slider over the video duration or image sequence.
+ */
+
+import type { FileSource } from '../../hooks/useFileSource'
+import { VIDEO_STEP_FPS } from '../../hooks/useFileSource'
+import './styles.css'
+
+function formatPosition(source: FileSource, value: number): string {
+  if (source.kind === 'images') {
+    return `${value + 1} / ${source.length}`
+  }
+  const seconds = Math.floor(value)
+  const frames = Math.floor((value - seconds) * VIDEO_STEP_FPS)
+  return `${seconds}s ${String(frames).padStart(2, '0')}f`
+}
+
+export default function PlaybackControls({ source }: { source: FileSource }) {
+  if (!source.kind) return null
+
+  const max = source.kind === 'images' ? Math.max(source.length - 1, 0) : source.length
+  const step = source.kind === 'images' ? 1 : 1 / VIDEO_STEP_FPS
+
+  return (
+    <div className="playback-controls">
+      <span className="playback-name" title={source.name}>{source.name}</span>
+      <div className="playback-row">
+        <button onClick={() => source.stepFrame(-1)} className="playback-button" aria-label="Previous frame">
+          ⏮
+        </button>
+        <button onClick={source.togglePlay} className="playback-button" aria-label={source.isPlaying ? 'Pause' : 'Play'}>
+          {source.isPlaying ? '⏸' : '▶️'}
+        </button>
+        <button onClick={() => source.stepFrame(1)} className="playback-button" aria-label="Next frame">
+          ⏭
+        </button>
+        <input
+          type="range"
+          className="playback-seek"
+          min={0}
+          max={max}
+          step={step}
+          value={source.position}
+          onChange={(e) => source.seek(Number(e.target.value))}
+          aria-label="Seek"
+        />
+        <span className="playback-position">{formatPosition(source, source.position)}</span>
+      </div>
+    </div>
+  )
+}
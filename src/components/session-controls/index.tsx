@@ -0,0 +1,73 @@
+/**
+ * Session Controls
+ *
+ * Record / replay buttons for landmark sessions:
+ * - RecordButton toggles a recorder and downloads the JSON when stopped
+ * - ReplayButton picks a session file to replay
+ * - SimulateButton starts scripted landmarks in place of the camera
+ */
+
+import { useRef } from 'react'
+import type { SessionTask } from '../../lib/landmarkSession'
+import { downloadSession } from '../../lib/landmarkSession'
+import type { SessionRecorder } from '../../hooks/useSessionRecorder'
+import './styles.css'
+
+export function RecordButton<T extends SessionTask>({
+  recorder,
+  onStart,
+}: {
+  recorder: SessionRecorder<T>
+  onStart: () => void
+}) {
+  const handleClick = () => {
+    if (!recorder.isRecording) {
+      onStart()
+      return
+    }
+    const session = recorder.stop()
+    if (session && session.frames.length > 0) {
+      downloadSession(session)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`control-button session-record-button ${recorder.isRecording ? 'recording' : ''}`}
+    >
+      {recorder.isRecording ? '⏹ Save Session' : '⏺ Record Session'}
+    </button>
+  )
+}
+
+export function ReplayButton({ onFile }: { onFile: (file: File) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <>
+      <button onClick={() => inputRef.current?.click()} className="session-replay-button">
+        📼 Replay Session
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) onFile(file)
+        }}
+      />
+    </>
+  )
+}
+
+export function SimulateButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button onClick={onClick} className="session-replay-button">
+      🤖 Simulated Input
+    </button>
+  )
+}
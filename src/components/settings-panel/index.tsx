@@ -0,0 +1,178 @@
+/**
+ * Settings Panel
+ *
+ * Header button that opens an experiment's saved settings (useExperimentSettings):
+ * - One control per field, built from the field's definition
+ * - Export / import as a JSON file
+ * - Reset to defaults
+ *
+ * SettingInput is also used on its own by panels that edit a few saved
+ * settings inline.
+ */
+
+import { useRef, useState } from 'react'
+import type { ExperimentSettings } from '../../hooks/useExperimentSettings'
+import type { SettingField } from '../../lib/settingsStore'
+import './styles.css'
+
+// The control for one field, as described by its definition
+export function SettingInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: SettingField<unknown>
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  const { control } = field
+
+  switch (control.type) {
+    case 'toggle':
+      return (
+        <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+      )
+
+    case 'choice':
+      return (
+        <select value={String(value)} onChange={(e) => onChange(e.target.value)}>
+          {control.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )
+
+    case 'choices': {
+      const selected = Array.isArray(value) ? value : []
+      return (
+        <div className="settings-panel-options">
+          {control.options.map((option) => {
+            const isSelected = selected.includes(option.value)
+            return (
+              <button
+                key={option.value}
+                aria-pressed={isSelected}
+                className={`settings-panel-option ${isSelected ? 'active' : ''}`}
+                onClick={() => onChange(isSelected
+                  ? selected.filter((item) => item !== option.value)
+                  : control.options.map((o) => o.value).filter((id) => id === option.value || selected.includes(id))
+                )}
+              >
+                {option.label}
+              </button>
+            )
+          })}
+        </div>
+      )
+    }
+
+    case 'range':
+      return (
+        <span className="settings-panel-range">
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={Number(value)}
+            onChange={(e) => onChange(Number(e.target.value))}
+          />
+          <span className="settings-panel-value">{Number(value).toFixed(control.step < 1 ? 2 : 0)}</span>
+        </span>
+      )
+
+    case 'color':
+      return (
+        <div className="settings-panel-options">
+          {control.palette.map((color) => (
+            <button
+              key={color}
+              aria-label={color}
+              aria-pressed={value === color}
+              className={`settings-panel-swatch ${value === color ? 'active' : ''}`}
+              style={{ backgroundColor: color }}
+              onClick={() => onChange(color)}
+            />
+          ))}
+        </div>
+      )
+
+    case 'hidden':
+      return null
+  }
+}
+
+export default function SettingsPanel<S>({ settings }: { settings: ExperimentSettings<S> }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { definition, error } = settings
+  const values = settings.settings as Record<string, unknown>
+  const fields = Object.entries<SettingField<unknown>>(definition.fields)
+    .filter(([, field]) => field.control.type !== 'hidden')
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so picking the same file again still fires change
+    e.target.value = ''
+    if (file) settings.importFile(file)
+  }
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)} className="settings-panel-button" aria-haspopup="dialog">
+        ⚙️ Settings
+      </button>
+
+      {isOpen && (
+        <div className="settings-panel-backdrop" onClick={() => setIsOpen(false)}>
+          <div className="settings-panel-dialog" role="dialog" aria-label="Settings" onClick={(e) => e.stopPropagation()}>
+            <h2>Settings</h2>
+            <p className="settings-panel-note">Saved in this browser. Options in the page URL take precedence.</p>
+
+            {fields.map(([name, field]) => (
+              <div key={name} className="settings-panel-field">
+                <label>
+                  <span className="settings-panel-label">{field.label}</span>
+                  <SettingInput
+                    field={field}
+                    value={values[name]}
+                    onChange={(value) => settings.update({ [name]: value } as Partial<S>)}
+                  />
+                </label>
+                {field.hint && <p className="settings-panel-hint">{field.hint}</p>}
+              </div>
+            ))}
+
+            {error && (
+              <p className="settings-panel-error" role="alert">
+                {error}
+                <button onClick={settings.dismissError} className="settings-panel-dismiss" aria-label="Dismiss">
+                  ✕
+                </button>
+              </p>
+            )}
+
+            <div className="settings-panel-actions">
+              <button onClick={settings.exportFile} className="settings-panel-option">
+                ⬇️ Export
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className="settings-panel-option">
+                📂 Import
+              </button>
+              <button onClick={settings.reset} className="settings-panel-option">
+                Reset
+              </button>
+              <button onClick={() => setIsOpen(false)} className="settings-panel-option">
+                Close
+              </button>
+            </div>
+
+            <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,84 @@
+/**
+ * Smoothing Controls
+ *
+ * Live tuning panel for a useLandmarkSmoother instance: filter type plus
+ * sliders for the active filter's parameters.
+ */
+
+import type { LandmarkSmoothing } from '../../hooks/useLandmarkSmoother'
+import type { SmoothingConfig, SmoothingKind } from '../../lib/landmarkFilters'
+import './styles.css'
+
+type NumericSetting = Exclude<keyof SmoothingConfig, 'kind'>
+
+interface SliderSpec {
+  setting: NumericSetting
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+const KIND_LABELS: Record<SmoothingKind, string> = {
+  none: 'Off',
+  'one-euro': 'One Euro',
+  kalman: 'Kalman',
+}
+
+const SLIDERS: Record<Exclude<SmoothingKind, 'none'>, SliderSpec[]> = {
+  'one-euro': [
+    { setting: 'minCutoff', label: 'Min cutoff (Hz)', min: 0.1, max: 10, step: 0.1 },
+    { setting: 'beta', label: 'Speed response', min: 0, max: 50, step: 0.5 },
+    { setting: 'dCutoff', label: 'Speed cutoff (Hz)', min: 0.1, max: 5, step: 0.1 },
+  ],
+  kalman: [
+    { setting: 'processNoise', label: 'Responsiveness', min: 0.5, max: 50, step: 0.5 },
+    { setting: 'measurementNoise', label: 'Jitter estimate', min: 0.001, max: 0.03, step: 0.001 },
+  ],
+}
+
+const DROPOUT_SLIDER: SliderSpec = { setting: 'dropoutMs', label: 'Dropout reset (ms)', min: 50, max: 1000, step: 50 }
+
+export default function SmoothingControls({ smoothing }: { smoothing: LandmarkSmoothing }) {
+  const { config, update, restoreDefaults } = smoothing
+  const sliders = config.kind === 'none' ? [] : [...SLIDERS[config.kind], DROPOUT_SLIDER]
+
+  return (
+    <div className="smoothing-controls">
+      <div className="smoothing-header">
+        <h3>Smoothing</h3>
+        <div className="smoothing-kinds" role="radiogroup" aria-label="Smoothing filter">
+          {(Object.keys(KIND_LABELS) as SmoothingKind[]).map((kind) => (
+            <button
+              key={kind}
+              role="radio"
+              aria-checked={config.kind === kind}
+              className={`smoothing-kind ${config.kind === kind ? 'active' : ''}`}
+              onClick={() => update({ kind })}
+            >
+              {KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <button className="smoothing-reset" onClick={restoreDefaults}>
+          Defaults
+        </button>
+      </div>
+
+      {sliders.map(({ setting, label, min, max, step }) => (
+        <label key={setting} className="smoothing-slider">
+          <span>{label}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={config[setting]}
+            onChange={(e) => update({ [setting]: Number(e.target.value) })}
+          />
+          <span className="smoothing-value">{config[setting]}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
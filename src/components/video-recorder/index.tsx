@@ -0,0 +1,137 @@
+/**
+ * Video Recorder
+ *
+ * Record / stop button for a useVideoRecorder instance, with:
+ * - A settings popover (format, length limit, microphone, watermark)
+ * - A REC indicator pinned to the top of the screen while recording
+ * - A preview dialog with download / share actions for the finished clip
+ */
+
+import { useState } from 'react'
+import type { VideoRecorder as VideoRecorderHandle } from '../../hooks/useVideoRecorder'
+import { DEFAULT_WATERMARK } from '../../lib/photoCapture'
+import { MAX_DURATION_CHOICES, VIDEO_CONTAINERS, formatDuration } from '../../lib/videoRecording'
+import './styles.css'
+
+export default function VideoRecorder({
+  recorder,
+  buttonClassName = 'video-recorder-button',
+  floating = false,
+}: {
+  recorder: VideoRecorderHandle
+  buttonClassName?: string
+  floating?: boolean
+}) {
+  const [showSettings, setShowSettings] = useState(false)
+  const { options, isRecording, elapsedMs, clip, error } = recorder
+
+  if (!recorder.isSupported) return null
+
+  return (
+    <div className={`video-recorder ${floating ? 'floating' : ''}`}>
+      <button
+        onClick={isRecording ? recorder.stop : recorder.start}
+        className={`${buttonClassName} ${isRecording ? 'video-recorder-recording' : ''}`}
+      >
+        {isRecording ? `⏹ ${formatDuration(elapsedMs)}` : '🎬 Record Clip'}
+      </button>
+
+      {!isRecording && (
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={`video-recorder-gear ${showSettings ? 'active' : ''}`}
+          aria-label="Recording settings"
+          aria-expanded={showSettings}
+        >
+          ⚙️
+        </button>
+      )}
+
+      {showSettings && !isRecording && (
+        <div className="video-recorder-settings">
+          <div className="video-recorder-row">
+            {recorder.containers.map((container) => (
+              <button
+                key={container}
+                className={`video-recorder-option ${options.container === container ? 'active' : ''}`}
+                onClick={() => recorder.update({ container })}
+              >
+                {VIDEO_CONTAINERS[container].label}
+              </button>
+            ))}
+          </div>
+          <label className="video-recorder-field">
+            Max length
+            <select
+              value={options.maxDurationMs}
+              onChange={(e) => recorder.update({ maxDurationMs: Number(e.target.value) })}
+            >
+              {MAX_DURATION_CHOICES.map((ms) => (
+                <option key={ms} value={ms}>{formatDuration(ms)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="video-recorder-field">
+            <input
+              type="checkbox"
+              checked={options.microphone}
+              onChange={(e) => recorder.update({ microphone: e.target.checked })}
+            />
+            Microphone
+          </label>
+          <label className="video-recorder-field">
+            <input
+              type="checkbox"
+              checked={options.watermark !== null}
+              onChange={(e) => recorder.update({ watermark: e.target.checked ? DEFAULT_WATERMARK : null })}
+            />
+            Watermark
+          </label>
+        </div>
+      )}
+
+      {isRecording && (
+        <div className="video-recorder-indicator" role="status">
+          <span className="video-recorder-dot" />
+          REC {formatDuration(elapsedMs)} / {formatDuration(options.maxDurationMs)}
+        </div>
+      )}
+
+      {(clip || error) && (
+        <div className="video-recorder-backdrop" onClick={recorder.dismiss}>
+          <div className="video-recorder-dialog" role="dialog" aria-label="Recorded clip" onClick={(e) => e.stopPropagation()}>
+            {clip && (
+              <>
+                <video src={clip.url} className="video-recorder-preview" controls autoPlay loop playsInline />
+                <p className="video-recorder-meta">
+                  {clip.width} × {clip.height} · {formatDuration(clip.durationMs)} · {clip.filename.split('.').pop()?.toUpperCase()}
+                  {' · '}{(clip.blob.size / 1024 / 1024).toFixed(1)} MB{clip.hasAudio ? ' · 🎙️ audio' : ''}
+                </p>
+              </>
+            )}
+
+            {error && <p className="video-recorder-error">{error}</p>}
+
+            <div className="video-recorder-actions">
+              {clip && (
+                <>
+                  <button onClick={recorder.download} className="video-recorder-option">
+                    ⬇️ Download
+                  </button>
+                  {recorder.canShare && (
+                    <button onClick={recorder.share} className="video-recorder-option">
+                      📤 Share
+                    </button>
+                  )}
+                </>
+              )}
+              <button onClick={recorder.dismiss} className="video-recorder-option">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
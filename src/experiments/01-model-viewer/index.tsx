@@ -5,39 +5,219 @@
  * - 3D model display
  * - AR Quick Look (iOS) / Scene Viewer (Android)
  * - Gesture controls (rotate, zoom, pan)
+ * - A searchable catalog of sample models (public/models/catalog.json)
+ * - Local models (drag and drop), saved in this browser
+ * - Asset statistics per model, checked against a mobile AR budget
  */
 
-import { useEffect } from 'react'
+import { useRef, useState } from 'react'
 import { Link } from 'react-router-dom'
-import '@google/model-viewer'
+import { useAnimationPlayer } from '../../hooks/useAnimationPlayer'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { useLocalModels } from '../../hooks/useLocalModels'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import { useUrlState } from '../../hooks/useUrlState'
+import { modelViewerAnimation } from '../../lib/animationPlayer'
+import type { AnimationBackend } from '../../lib/animationPlayer'
+import type { LocalModel } from '../../lib/localModels'
+import { formatDimensions, paginate, searchCatalog } from '../../lib/modelCatalog'
+import type { CatalogModel, ModelLicense } from '../../lib/modelCatalog'
+import { MOBILE_AR_BUDGET } from '../../lib/modelStats'
+import type { ModelBudget, ModelDimensions } from '../../lib/modelStats'
+import { defineSettings, setting } from '../../lib/settingsStore'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import AnimationControls from '../../components/animation-controls'
+import ModelDropZone from '../../components/model-drop-zone'
+import ModelInspector from '../../components/model-inspector'
+import ModelViewer from '../../components/model-viewer'
+import type { ModelViewerElement } from '../../components/model-viewer'
+import PerfHud from '../../components/perf-hud'
+import PhotoCapture from '../../components/photo-capture'
+import SettingsPanel from '../../components/settings-panel'
 import './styles.css'
 
-// Sample models (free from Google)
-const models = [
-  {
-    name: 'Astronaut',
-    src: 'https://modelviewer.dev/shared-assets/models/Astronaut.glb',
-    poster: 'https://modelviewer.dev/shared-assets/models/Astronaut.webp',
-  },
-  {
-    name: 'Robot',
-    src: 'https://modelviewer.dev/shared-assets/models/RobotExpressive.glb',
-    poster: '',
-  },
-  {
-    name: 'Boom Box',
-    src: 'https://modelviewer.dev/shared-assets/models/glTF-Sample-Assets/Models/BoomBox/glTF-Binary/BoomBox.glb',
-    poster: '',
+const CATALOG_URL = `${import.meta.env.BASE_URL}models/catalog.json`
+const PAGE_SIZE = 6
+
+// Search, category and page are shareable
+const URL_STATE = defineUrlState({
+  query: { key: 'search', codec: urlParam.text(60), fallback: '' },
+  category: { key: 'category', codec: urlParam.text(40), fallback: '' },
+  page: { key: 'page', codec: urlParam.integer(1), fallback: 1 },
+})
+
+// The inspector's mobile AR budget, saved in this browser
+const SETTINGS = defineSettings({
+  experiment: '01-model-viewer',
+  version: 1,
+  fields: {
+    triangles: setting.range({
+      label: 'Triangle budget',
+      min: 10_000,
+      max: 1_000_000,
+      step: 10_000,
+      fallback: MOBILE_AR_BUDGET.triangles,
+    }),
+    drawCalls: setting.range({ label: 'Draw call budget', min: 5, max: 200, step: 5, fallback: MOBILE_AR_BUDGET.drawCalls }),
+    fileSizeMb: setting.range({ label: 'Download budget (MB)', min: 1, max: 100, step: 1, fallback: MOBILE_AR_BUDGET.fileSizeMb }),
+    textureSize: setting.range({
+      label: 'Largest texture (px)',
+      min: 512,
+      max: 8192,
+      step: 512,
+      fallback: MOBILE_AR_BUDGET.textureSize,
+    }),
+    textureMemoryMb: setting.range({
+      label: 'Texture memory budget (MB)',
+      hint: 'Estimated GPU memory for all textures, with mipmaps',
+      min: 16,
+      max: 512,
+      step: 16,
+      fallback: MOBILE_AR_BUDGET.textureMemoryMb,
+    }),
   },
-]
+  migrations: {},
+})
+
+const SAMPLE_AR_MODES = 'webxr scene-viewer quick-look'
+// Scene Viewer is a separate app and can't open this page's blob: URLs
+const LOCAL_AR_MODES = 'webxr quick-look'
+
+interface CardModel {
+  name: string
+  src: string | null
+  iosSrc?: string | null
+  poster?: string | null
+  arModes: string
+  note?: string
+  credit?: ModelLicense
+  onRemove?: () => void
+}
+
+function catalogCard(model: CatalogModel, categoryLabel: string): CardModel {
+  return {
+    name: model.name,
+    src: model.src,
+    iosSrc: model.iosSrc,
+    poster: model.poster,
+    arModes: SAMPLE_AR_MODES,
+    note: [categoryLabel, model.dimensions && formatDimensions(model.dimensions)].filter(Boolean).join(' · '),
+    credit: model.license,
+  }
+}
+
+function localCard(model: LocalModel, onRemove: () => void): CardModel {
+  const size = `${(model.size / (1024 * 1024)).toFixed(1)} MB`
+  return {
+    name: model.name,
+    src: model.src,
+    iosSrc: model.iosSrc,
+    arModes: LOCAL_AR_MODES,
+    note: model.src ? `Local ${model.format.toUpperCase()} · ${size}` : `USDZ · ${size} · AR Quick Look on iOS only`,
+    onRemove,
+  }
+}
+
+// One viewer with its own photo capture (model-viewer renders through toBlob)
+function ModelCard({ model, budget }: { model: CardModel; budget: ModelBudget }) {
+  const viewerRef = useRef<HTMLDivElement>(null)
+  const modelViewerRef = useRef<ModelViewerElement>(null)
+  const photoCapture = usePhotoCapture(viewerRef, { name: '01-model-viewer' })
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [dimensions, setDimensions] = useState<ModelDimensions | null>(null)
+  const [isInspecting, setIsInspecting] = useState(false)
+  const [animation, setAnimation] = useState<AnimationBackend | null>(null)
+  const animationPlayer = useAnimationPlayer(animation)
+
+  const handleLoad = () => {
+    setError(null)
+    const element = modelViewerRef.current
+    const size = element?.getDimensions()
+    setDimensions(size ? { x: size.x, y: size.y, z: size.z } : null)
+    setAnimation(element && element.availableAnimations.length > 0 ? modelViewerAnimation(element) : null)
+  }
+
+  return (
+    <div className="model-card">
+      <div className="model-card-stage">
+        <div ref={viewerRef}>
+          <ModelViewer
+            ref={modelViewerRef}
+            src={model.src ?? undefined}
+            ios-src={model.iosSrc ?? undefined}
+            poster={model.poster ?? undefined}
+            alt={model.name}
+            ar
+            ar-modes={model.arModes}
+            camera-controls
+            auto-rotate
+            shadow-intensity={1}
+            environment-image="neutral"
+            loading="lazy"
+            className="model-card-viewer"
+            onProgress={setProgress}
+            onLoad={handleLoad}
+            onError={({ type }) => setError(type === 'webglcontextlost' ? 'WebGL context lost' : "Couldn't load the model")}
+          >
+            <button slot="ar-button" className="ar-button">
+              👁️ View in AR
+            </button>
+          </ModelViewer>
+        </div>
+        {model.src && progress < 1 && !error && (
+          <div className="model-card-progress" role="progressbar" aria-valuenow={Math.round(progress * 100)}>
+            <div style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        {error && <p className="model-card-error" role="alert">{error}</p>}
+        <PhotoCapture capture={photoCapture} buttonClassName="photo-capture-button model-capture-button" />
+      </div>
+      <h3>
+        {model.name}
+        {model.note && <span className="model-card-note">{model.note}</span>}
+        {model.credit && (
+          <span className="model-card-credit">
+            {model.credit.source ? <a href={model.credit.source} target="_blank" rel="noreferrer">{model.credit.attribution}</a> : model.credit.attribution}
+            {' · '}
+            {model.credit.url ? <a href={model.credit.url} target="_blank" rel="noreferrer">{model.credit.name}</a> : model.credit.name}
+          </span>
+        )}
+      </h3>
+      <AnimationControls player={animationPlayer} />
+      <div className="model-card-actions">
+        {model.src && (
+          <button onClick={() => setIsInspecting((open) => !open)} aria-expanded={isInspecting} className="model-card-action">
+            📊 {isInspecting ? 'Hide stats' : 'Inspect'}
+          </button>
+        )}
+        {model.onRemove && (
+          <button onClick={model.onRemove} className="model-card-action" aria-label={`Remove ${model.name}`}>
+            ✕ Remove
+          </button>
+        )}
+      </div>
+      {isInspecting && model.src && <ModelInspector src={model.src} dimensions={dimensions} budget={budget} />}
+    </div>
+  )
+}
 
 export default function ModelViewerExperiment() {
-  useEffect(() => {
-    // Dynamically import model-viewer if not already loaded
-    if (!customElements.get('model-viewer')) {
-      import('@google/model-viewer')
-    }
-  }, [])
+  // model-viewer renders on its own, so the HUD samples page frames instead
+  const perf = usePerfMonitor('01-model-viewer')
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const budget = experimentSettings.settings
+  const localModels = useLocalModels()
+  const { catalog, error: catalogError, isLoading } = useModelCatalog(CATALOG_URL)
+  const [{ query, category, page }, setUrlState] = useUrlState(URL_STATE)
+
+  const categories = catalog?.categories ?? []
+  const activeCategory = categories.some((entry) => entry.id === category) ? category : ''
+  const results = catalog ? searchCatalog(catalog, { query, category: activeCategory }) : []
+  const shown = paginate(results, page, PAGE_SIZE)
+  const categoryLabel = (id: string) => categories.find((entry) => entry.id === id)?.label ?? id
 
   return (
     <div className="experiment-page model-viewer-page">
@@ -47,38 +227,91 @@ export default function ModelViewerExperiment() {
           <h1>Model Viewer</h1>
           <p>3D models with built-in AR support</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
+      <ModelDropZone onFiles={localModels.add} isBusy={localModels.isAdding} />
+
+      {localModels.errors.length > 0 && (
+        <div className="model-upload-errors" role="alert">
+          <ul>
+            {localModels.errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+          {localModels.broken.length > 0 && (
+            <button onClick={localModels.removeBroken} className="model-upload-remove">
+              Remove from saved models
+            </button>
+          )}
+          <button onClick={localModels.dismissErrors} aria-label="Dismiss">✕</button>
+        </div>
+      )}
+
+      <div className="model-catalog-controls">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setUrlState({ query: e.target.value, page: 1 })}
+          placeholder="Search models, tags, authors…"
+          aria-label="Search models"
+          className="model-catalog-search"
+        />
+        <div className="model-catalog-categories">
+          {[{ id: '', label: 'All' }, ...categories].map((entry) => (
+            <button
+              key={entry.id}
+              aria-pressed={activeCategory === entry.id}
+              className={`model-catalog-category ${activeCategory === entry.id ? 'active' : ''}`}
+              onClick={() => setUrlState({ category: entry.id, page: 1 })}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {catalogError && <p className="model-catalog-message error" role="alert">{catalogError}</p>}
+      {catalog && catalog.problems.length > 0 && (
+        <details className="model-catalog-problems">
+          <summary>{catalog.problems.length} catalog {catalog.problems.length === 1 ? 'entry was' : 'entries were'} skipped</summary>
+          <ul>
+            {catalog.problems.map((problem) => (
+              <li key={problem.entry}><code>{problem.entry}</code>: {problem.message}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {isLoading && <p className="model-catalog-message">Loading catalog…</p>}
+      {catalog && results.length === 0 && <p className="model-catalog-message">No models match.</p>}
+
       <main className="model-grid">
-        {models.map((model) => (
-          <div key={model.name} className="model-card">
-            <div
-              dangerouslySetInnerHTML={{
-                __html: `
-                  <model-viewer
-                    src="${model.src}"
-                    alt="${model.name}"
-                    ar
-                    ar-modes="webxr scene-viewer quick-look"
-                    camera-controls
-                    auto-rotate
-                    shadow-intensity="1"
-                    environment-image="neutral"
-                    loading="lazy"
-                    style="width: 100%; height: 300px; background-color: #1a1a1a;"
-                  >
-                    <button slot="ar-button" class="ar-button">
-                      👁️ View in AR
-                    </button>
-                  </model-viewer>
-                `
-              }}
-            />
-            <h3>{model.name}</h3>
-          </div>
+        {shown.items.map((model) => (
+          <ModelCard key={model.id} model={catalogCard(model, categoryLabel(model.category))} budget={budget} />
         ))}
       </main>
 
+      {shown.pageCount > 1 && (
+        <nav className="model-catalog-pages" aria-label="Catalog pages">
+          <button onClick={() => setUrlState({ page: shown.page - 1 })} disabled={shown.page === 1}>
+            ← Previous
+          </button>
+          <span>Page {shown.page} of {shown.pageCount}</span>
+          <button onClick={() => setUrlState({ page: shown.page + 1 })} disabled={shown.page === shown.pageCount}>
+            Next →
+          </button>
+        </nav>
+      )}
+
+      {localModels.models.length > 0 && (
+        <>
+          <h2 className="model-section-title">Your Models</h2>
+          <section className="model-grid">
+            {localModels.models.map((model) => (
+              <ModelCard key={model.id} model={localCard(model, () => localModels.remove(model.id))} budget={budget} />
+            ))}
+          </section>
+        </>
+      )}
+
       <section className="info-section">
         <h2>How It Works</h2>
         <ul>
@@ -92,6 +325,35 @@ export default function ModelViewerExperiment() {
           <li><strong>glTF / GLB</strong> — Best for web</li>
           <li><strong>USDZ</strong> — Required for iOS AR Quick Look</li>
         </ul>
+
+        <h2>Inspecting Models</h2>
+        <ul>
+          <li>📊 Inspect shows triangles, draw calls, textures, download size, animations and extensions</li>
+          <li>Warnings compare them against a mobile AR budget; change it under ⚙️ Settings</li>
+          <li>Counts come from the file, so Draco and meshopt compressed geometry is measured as drawn</li>
+        </ul>
+
+        <h2>Animated Models</h2>
+        <ul>
+          <li>Models with animation clips get a clip picker under the viewer</li>
+          <li>Scrub the slider to pose the model; loop, play once or ping-pong, at 0.25× to 2×</li>
+          <li>Switching clips while playing crossfades between them over the chosen time</li>
+        </ul>
+
+        <h2>Adding to the Catalog</h2>
+        <ul>
+          <li>Add an entry to <code>public/models/catalog.json</code>; <code>catalog.schema.json</code> describes the fields</li>
+          <li>Each model needs a name, src, category and license; iosSrc, poster, tags and real-world dimensions are optional</li>
+          <li><code>npm test</code> checks the catalog, and the page lists any entry it had to skip</li>
+        </ul>
+
+        <h2>Your Own Models</h2>
+        <ul>
+          <li>Drop a <strong>.glb</strong>, or a <strong>.gltf</strong> together with its .bin and textures (or its whole folder)</li>
+          <li>Add a <strong>.usdz</strong> with the same name to use it for AR Quick Look on iOS</li>
+          <li>Models stay in this browser (IndexedDB) until you remove them; nothing is uploaded</li>
+          <li>Android AR uses WebXR for local models, since Scene Viewer can only open public URLs</li>
+        </ul>
         
         <h2>Use Cases</h2>
         <ul>
@@ -100,6 +362,8 @@ export default function ModelViewerExperiment() {
           <li>Art & collectibles (NFTs, sculptures)</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} sampleFrames />
     </div>
   )
 }
@@ -7,46 +7,30 @@
  * - Virtual try-on filters (glasses, masks, effects)
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useRef, useCallback, useMemo } from 'react'
 import { Link } from 'react-router-dom'
 import * as THREE from 'three'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { disposeMindAR, loadMindAR, observeMindARUpdates } from '../../lib/mindar'
+import type { MindARFaceThree } from '../../lib/mindar'
+import { FACE_ANCHORS } from '../../lib/trackingCore'
+import { useExperimentSession } from '../../hooks/useExperimentSession'
+import type { SessionContext, SessionStep } from '../../hooks/useExperimentSession'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import { useVideoRecorder } from '../../hooks/useVideoRecorder'
+import { ExperimentError } from '../../lib/experimentErrors'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import SettingsPanel from '../../components/settings-panel'
+import PhotoCapture from '../../components/photo-capture'
+import VideoRecorder from '../../components/video-recorder'
 import './styles.css'
 
-// MindAR types
-interface MindARThreeInstance {
-  renderer: THREE.WebGLRenderer
-  scene: THREE.Scene
-  camera: THREE.Camera
-  addAnchor: (index: number) => { group: THREE.Group }
-  addFaceMesh: () => { material: THREE.Material; geometry: THREE.BufferGeometry; group: THREE.Group }
-  start: () => Promise<void>
-  stop: () => void
-}
-
-interface MindARThreeConstructor {
-  new (config: { container: HTMLElement }): MindARThreeInstance
-}
-
-declare global {
-  interface Window {
-    MindARThree: MindARThreeConstructor
-  }
-}
-
-// Face anchor indices (MediaPipe 468 landmarks)
-const ANCHORS = {
-  NOSE_TIP: 1,          // Tip of nose
-  NOSE_BRIDGE: 168,     // Between eyes (for glasses)
-  FOREHEAD: 10,         // Top of forehead (for hats)
-  LEFT_EAR: 127,        // Left ear
-  RIGHT_EAR: 356,       // Right ear
-  CHIN: 152,            // Bottom of chin
-  LEFT_EYE: 33,         // Left eye center
-  RIGHT_EYE: 263,       // Right eye center
-  MOUTH_CENTER: 13,     // Center of mouth
-} as const
-
 // Filter definitions
 interface Filter {
   id: string
@@ -65,7 +49,7 @@ const filters: Filter[] = [
     emoji: '👓',
     description: 'Classic black frames',
     type: 'primitive',
-    anchor: ANCHORS.NOSE_BRIDGE,
+    anchor: FACE_ANCHORS.NOSE_BRIDGE,
     create: () => {
       const group = new THREE.Group()
       
@@ -146,7 +130,7 @@ const filters: Filter[] = [
     emoji: '🔴',
     description: 'Big red nose',
     type: 'primitive',
-    anchor: ANCHORS.NOSE_TIP,
+    anchor: FACE_ANCHORS.NOSE_TIP,
     create: () => {
       const geometry = new THREE.SphereGeometry(0.03, 32, 16)
       const material = new THREE.MeshStandardMaterial({ 
@@ -165,7 +149,7 @@ const filters: Filter[] = [
     emoji: '👑',
     description: 'Royal golden crown',
     type: 'primitive',
-    anchor: ANCHORS.FOREHEAD,
+    anchor: FACE_ANCHORS.FOREHEAD,
     create: () => {
       const group = new THREE.Group()
       
@@ -221,7 +205,7 @@ const filters: Filter[] = [
     emoji: '🥸',
     description: 'Dapper stache',
     type: 'primitive',
-    anchor: ANCHORS.NOSE_TIP,
+    anchor: FACE_ANCHORS.NOSE_TIP,
     create: () => {
       const group = new THREE.Group()
       
@@ -264,7 +248,7 @@ const filters: Filter[] = [
     emoji: '😎',
     description: 'Cool shades',
     type: 'primitive',
-    anchor: ANCHORS.NOSE_BRIDGE,
+    anchor: FACE_ANCHORS.NOSE_BRIDGE,
     create: () => {
       const group = new THREE.Group()
       
@@ -333,7 +317,7 @@ const filters: Filter[] = [
     emoji: '✨',
     description: 'Floating particles',
     type: 'primitive',
-    anchor: ANCHORS.NOSE_BRIDGE,
+    anchor: FACE_ANCHORS.NOSE_BRIDGE,
     create: () => {
       const group = new THREE.Group()
       
@@ -379,97 +363,138 @@ const filters: Filter[] = [
   }
 ]
 
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  filters: { key: 'filters', codec: urlParam.listOf(filters.map((filter) => filter.id)), fallback: ['glasses'] },
+})
+
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '02-face-tracking',
+  version: 1,
+  fields: {
+    filters: setting.choices({
+      label: 'Filters on start',
+      options: filters.map((filter) => ({ value: filter.id, label: `${filter.emoji} ${filter.name}` })),
+      fallback: URL_STATE.filters.fallback,
+    }),
+  },
+  migrations: {},
+})
+
+// Session lifecycle steps
+type FaceSessionStep = 'load-mindar' | 'setup' | 'start-camera' | 'render'
+
+// Labels for exported performance logs
+const PERF_CONTEXT = { tracker: 'mindar-face' }
+
+const SESSION_STEPS: Record<FaceSessionStep, SessionStep> = {
+  'load-mindar': { label: 'Loading MindAR...', failure: 'asset-load' },
+  setup: { label: 'Setting up camera...', failure: 'model-init' },
+  'start-camera': { label: 'Starting camera...', failure: 'no-camera' },
+  render: { label: 'Running...', failure: 'webgl-context-lost' },
+}
+
 export default function FaceTrackingExperiment() {
   const containerRef = useRef<HTMLDivElement>(null)
-  const mindarRef = useRef<MindARThreeInstance | null>(null)
+  const mindarRef = useRef<MindARFaceThree | null>(null)
   const animationRef = useRef<number | null>(null)
   const activeFiltersRef = useRef<Map<string, THREE.Object3D>>(new Map())
   const anchorsRef = useRef<Map<number, THREE.Group>>(new Map())
+  const startedRef = useRef(false) // MindAR's stop() throws unless start() finished
+  const stopObservingRef = useRef<(() => void) | null>(null)
   
-  const [isLoading, setIsLoading] = useState(true)
-  const [isRunning, setIsRunning] = useState(false)
-  const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set(['glasses']))
-  const [error, setError] = useState<string | null>(null)
-  const [loadingProgress, setLoadingProgress] = useState<string>('Initializing...')
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const [urlState, setUrlState] = useUrlState(URL_STATE, experimentSettings.settings)
+  const activeFilters = useMemo(() => new Set(urlState.filters), [urlState.filters])
 
-  // Load MindAR from CDN
-  const loadMindAR = useCallback(async () => {
-    if (window.MindARThree) return true
+  // Initialize AR
+  const initAR = useCallback(async ({ signal, progress }: SessionContext<FaceSessionStep>) => {
+    const MindARThree = await loadMindAR('face')
+    if (signal.aborted) return
+    if (!containerRef.current) throw new Error('AR container is not mounted')
+    
+    progress('setup')
+    
+    const mindarThree = new MindARThree({
+      container: containerRef.current
+    })
+    
+    mindarRef.current = mindarThree
+    const { scene } = mindarThree
 
-    setLoadingProgress('Loading MindAR...')
+    // Add lighting
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.7)
+    scene.add(ambientLight)
     
-    return new Promise<boolean>((resolve) => {
-      // Use a script with src (more reliable on mobile Safari than textContent)
-      const script = document.createElement('script')
-      script.type = 'module'
-      // Use our loader file which imports MindAR and sets window.MindARThree
-      script.src = import.meta.env.BASE_URL + 'mindar-loader.js'
-      
-      const handleLoad = () => {
-        window.removeEventListener('mindar-loaded', handleLoad)
-        clearTimeout(timeoutId)
-        resolve(true)
-      }
-      
-      const handleError = () => {
-        clearTimeout(timeoutId)
-        console.error('MindAR script failed to load')
-        resolve(false)
-      }
-      
-      window.addEventListener('mindar-loaded', handleLoad)
-      script.addEventListener('error', handleError)
-      document.head.appendChild(script)
-      
-      // Timeout fallback
-      const timeoutId = setTimeout(() => {
-        if (!window.MindARThree) {
-          window.removeEventListener('mindar-loaded', handleLoad)
-          console.error('MindAR load timed out')
-          resolve(false)
-        }
-      }, 20000)
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5)
+    directionalLight.position.set(0, 1, 1)
+    scene.add(directionalLight)
+
+    // Create anchors for all anchor points we might need
+    const uniqueAnchors = new Set(filters.map(f => f.anchor))
+    uniqueAnchors.forEach((anchorIndex) => {
+      const anchor = mindarThree.addAnchor(anchorIndex)
+      anchorsRef.current.set(anchorIndex, anchor.group)
     })
   }, [])
 
-  // Initialize AR
-  const initAR = useCallback(async () => {
-    if (!containerRef.current || !window.MindARThree) return false
+  // Tear down the MindAR instance (unmount, or before a retried init)
+  const disposeAR = useCallback(() => {
+    if (mindarRef.current) {
+      disposeMindAR(mindarRef.current)
+      mindarRef.current = null
+    }
+    anchorsRef.current.clear()
+  }, [])
+
+  // Stop AR session (called by the session on stop)
+  const stopAR = useCallback(() => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current)
+      animationRef.current = null
+    }
     
-    try {
-      setLoadingProgress('Setting up camera...')
-      
-      const mindarThree = new window.MindARThree({
-        container: containerRef.current
-      })
-      
-      mindarRef.current = mindarThree
-      const { scene } = mindarThree
+    if (mindarRef.current && startedRef.current) {
+      mindarRef.current.stop()
+    }
+    startedRef.current = false
+    stopObservingRef.current?.()
+    stopObservingRef.current = null
+    
+    // Take filters off their anchors so the next start doesn't add them twice
+    activeFiltersRef.current.forEach((object) => object.removeFromParent())
+    activeFiltersRef.current.clear()
+  }, [])
 
-      // Add lighting
-      const ambientLight = new THREE.AmbientLight(0xffffff, 0.7)
-      scene.add(ambientLight)
-      
-      const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5)
-      directionalLight.position.set(0, 1, 1)
-      scene.add(directionalLight)
+  const perf = usePerfMonitor('02-face-tracking', PERF_CONTEXT)
+  const { monitor: perfMonitor } = perf
 
-      // Create anchors for all anchor points we might need
-      const uniqueAnchors = new Set(filters.map(f => f.anchor))
-      uniqueAnchors.forEach((anchorIndex) => {
-        const anchor = mindarThree.addAnchor(anchorIndex)
-        anchorsRef.current.set(anchorIndex, anchor.group)
-      })
+  const session = useExperimentSession({
+    steps: SESSION_STEPS,
+    initialStep: 'load-mindar',
+    init: initAR,
+    onStop: stopAR,
+    dispose: disposeAR,
+  })
+  const { start: startSession, stop: stopSession, fail: failSession, retry: retrySession } = session
 
-      setLoadingProgress('Ready!')
-      return true
-    } catch (err) {
-      console.error('AR init failed:', err)
-      setError('Failed to initialize AR. Please check camera permissions.')
-      return false
-    }
+  // The GPU dropped our context; MindAR can't recover it, so rebuild on retry
+  const handleContextLost = useCallback((event: Event) => {
+    event.preventDefault()
+    failSession('render', new ExperimentError('webgl-context-lost', 'WebGL context lost while rendering', { step: 'render' }))
+  }, [failSession])
+  const { isLoading, isRunning, error, progressLabel } = session
+
+  // MindAR's canvas doesn't keep its last frame, so draw a fresh one for the photo
+  const renderFrame = useCallback(() => {
+    const mindar = mindarRef.current
+    if (mindar) mindar.renderer.render(mindar.scene, mindar.camera)
   }, [])
 
+  const photoCapture = usePhotoCapture(containerRef, { name: '02-face-tracking', beforeDraw: renderFrame })
+  const videoRecorder = useVideoRecorder(containerRef, { name: '02-face-tracking', active: isRunning, beforeDraw: renderFrame })
+
   // Add filter to scene
   const addFilter = useCallback(async (filter: Filter) => {
     const anchorGroup = anchorsRef.current.get(filter.anchor)
@@ -494,109 +519,54 @@ export default function FaceTrackingExperiment() {
 
   // Toggle filter
   const toggleFilter = useCallback((filter: Filter) => {
-    setActiveFilters(prev => {
-      const next = new Set(prev)
-      if (next.has(filter.id)) {
-        next.delete(filter.id)
-        removeFilter(filter)
-      } else {
-        next.add(filter.id)
-        if (isRunning) {
-          addFilter(filter)
-        }
+    if (activeFilters.has(filter.id)) {
+      removeFilter(filter)
+      setUrlState((prev) => ({ filters: prev.filters.filter((id) => id !== filter.id) }))
+    } else {
+      if (isRunning) {
+        addFilter(filter)
       }
-      return next
-    })
-  }, [isRunning, addFilter, removeFilter])
+      setUrlState((prev) => ({ filters: [...prev.filters, filter.id] }))
+    }
+  }, [activeFilters, isRunning, addFilter, removeFilter, setUrlState])
 
   // Start AR session
-  const startAR = useCallback(async () => {
-    if (!mindarRef.current) return
+  const startAR = useCallback(() => startSession('start-camera', async () => {
+    if (!mindarRef.current) throw new Error('MindAR is not initialized')
     
-    try {
-      setLoadingProgress('Starting camera...')
-      await mindarRef.current.start()
-      
-      // Add currently selected filters
-      for (const filter of filters) {
-        if (activeFilters.has(filter.id)) {
-          await addFilter(filter)
-        }
-      }
-      
-      // Start render loop
-      const animate = () => {
-        if (!mindarRef.current) return
-        
-        const time = performance.now() / 1000
-        
-        // Animate any filters that have animation functions
-        activeFiltersRef.current.forEach((object) => {
-          if (object.userData.animate) {
-            object.userData.animate(time)
-          }
-        })
-        
-        mindarRef.current.renderer.render(
-          mindarRef.current.scene,
-          mindarRef.current.camera
-        )
-        animationRef.current = requestAnimationFrame(animate)
-      }
-      
-      animate()
-      setIsRunning(true)
-      setIsLoading(false)
-    } catch (err) {
-      console.error('Failed to start AR:', err)
-      setError('Failed to start camera. Please grant camera permissions and try again.')
-    }
-  }, [activeFilters, addFilter])
-
-  // Stop AR session
-  const stopAR = useCallback(() => {
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current)
-      animationRef.current = null
-    }
+    await mindarRef.current.start()
+    startedRef.current = true
+    stopObservingRef.current = observeMindARUpdates(mindarRef.current, (ms) => perfMonitor.record('inference', ms))
+    mindarRef.current.renderer.domElement.addEventListener('webglcontextlost', handleContextLost, { once: true })
     
-    if (mindarRef.current) {
-      mindarRef.current.stop()
+    // Add currently selected filters
+    for (const filter of filters) {
+      if (activeFilters.has(filter.id)) {
+        await addFilter(filter)
+      }
     }
     
-    activeFiltersRef.current.clear()
-    setIsRunning(false)
-  }, [])
-
-  // Initialize on mount
-  useEffect(() => {
-    let mounted = true
-    
-    const init = async () => {
-      const mindARLoaded = await loadMindAR()
-      if (!mounted) return
-      
-      if (!mindARLoaded) {
-        setError('Failed to load MindAR. Please check your internet connection.')
-        setIsLoading(false)
-        return
-      }
+    // Start render loop
+    const animate = () => {
+      if (!mindarRef.current) return
       
-      const arReady = await initAR()
-      if (!mounted) return
+      perfMonitor.tick()
+      const time = performance.now() / 1000
       
-      if (arReady) {
-        setIsLoading(false)
-      }
+      // Animate any filters that have animation functions
+      activeFiltersRef.current.forEach((object) => {
+        if (object.userData.animate) {
+          object.userData.animate(time)
+        }
+      })
+      
+      const { renderer, scene, camera } = mindarRef.current
+      perfMonitor.measure('draw', () => renderer.render(scene, camera))
+      animationRef.current = requestAnimationFrame(animate)
     }
     
-    init()
-    
-    return () => {
-      mounted = false
-      stopAR()
-    }
-  }, [loadMindAR, initAR, stopAR])
+    animate()
+  }), [startSession, activeFilters, addFilter, handleContextLost, perfMonitor])
 
   return (
     <div className="experiment-page face-tracking-page">
@@ -606,6 +576,7 @@ export default function FaceTrackingExperiment() {
           <h1>Face Tracking</h1>
           <p>AR filters with real-time face detection</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
@@ -616,19 +587,11 @@ export default function FaceTrackingExperiment() {
           {isLoading && (
             <div className="loading-overlay">
               <div className="loading-spinner" />
-              <p>{loadingProgress}</p>
+              <p>{progressLabel}</p>
             </div>
           )}
           
-          {error && (
-            <div className="error-overlay">
-              <span className="error-icon">⚠️</span>
-              <p>{error}</p>
-              <button onClick={() => window.location.reload()}>
-                Retry
-              </button>
-            </div>
-          )}
+          {error && <ErrorScreen error={error} onRecover={retrySession} />}
           
           {!isRunning && !isLoading && !error && (
             <div className="start-overlay">
@@ -643,10 +606,13 @@ export default function FaceTrackingExperiment() {
         </div>
 
         {isRunning && (
-          <button onClick={stopAR} className="stop-button">
+          <button onClick={stopSession} className="stop-button">
             ⏹ Stop
           </button>
         )}
+
+        {isRunning && <PhotoCapture capture={photoCapture} />}
+        {isRunning && <VideoRecorder recorder={videoRecorder} floating />}
       </div>
 
       <div className="filters-section">
@@ -708,6 +674,8 @@ export default function FaceTrackingExperiment() {
           <li>Interactive marketing experiences</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
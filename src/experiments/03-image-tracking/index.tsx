@@ -7,43 +7,32 @@
  * - Track image position and orientation in real-time
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useRef, useState, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 import * as THREE from 'three'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { MixerAnimation } from '../../lib/animationPlayer'
+import { disposeMindAR, loadMindAR, observeMindARUpdates } from '../../lib/mindar'
+import type { MindARImageThree } from '../../lib/mindar'
+import { useAnimationPlayer } from '../../hooks/useAnimationPlayer'
+import { useExperimentSession } from '../../hooks/useExperimentSession'
+import type { SessionContext, SessionStep } from '../../hooks/useExperimentSession'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import { useVideoRecorder } from '../../hooks/useVideoRecorder'
+import { ExperimentError } from '../../lib/experimentErrors'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
+import AnimationControls from '../../components/animation-controls'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import SettingsPanel from '../../components/settings-panel'
+import PhotoCapture from '../../components/photo-capture'
+import VideoRecorder from '../../components/video-recorder'
 import './styles.css'
 
-// MindAR Image Tracking types
-interface MindARThreeInstance {
-  renderer: THREE.WebGLRenderer
-  scene: THREE.Scene
-  camera: THREE.Camera
-  addAnchor: (index: number) => { 
-    group: THREE.Group
-    onTargetFound: () => void
-    onTargetLost: () => void
-  }
-  start: () => Promise<void>
-  stop: () => void
-}
-
-interface MindARThreeConstructor {
-  new (config: { 
-    container: HTMLElement
-    imageTargetSrc: string
-    maxTrack?: number
-    uiLoading?: string
-    uiScanning?: string
-    uiError?: string
-  }): MindARThreeInstance
-}
-
-declare global {
-  interface Window {
-    MindARThreeImage: MindARThreeConstructor
-  }
-}
-
 // 3D content options to place on detected images
 const CONTENT_OPTIONS = [
   {
@@ -68,53 +57,71 @@ const CONTENT_OPTIONS = [
   },
 ]
 
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  content: { key: 'content', codec: urlParam.oneOf(CONTENT_OPTIONS.map((option) => option.id)), fallback: 'cube' },
+})
+
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '03-image-tracking',
+  version: 1,
+  fields: {
+    content: setting.choice({
+      label: 'AR content',
+      options: CONTENT_OPTIONS.map((option) => ({ value: option.id, label: `${option.emoji} ${option.name}` })),
+      fallback: URL_STATE.content.fallback,
+    }),
+  },
+  migrations: {},
+})
+
+// Session lifecycle steps
+type ImageSessionStep = 'load-mindar' | 'setup' | 'start-camera' | 'render'
+
+// Labels for exported performance logs
+const PERF_CONTEXT = { tracker: 'mindar-image' }
+
+const SESSION_STEPS: Record<ImageSessionStep, SessionStep> = {
+  'load-mindar': { label: 'Loading MindAR Image Tracking...', failure: 'asset-load' },
+  setup: { label: 'Setting up image tracking...', failure: 'model-init' },
+  'start-camera': { label: 'Starting camera...', failure: 'no-camera' },
+  render: { label: 'Running...', failure: 'webgl-context-lost' },
+}
+
+// Free the geometry, materials and textures of a model that's being thrown away
+function disposeModel(root: THREE.Object3D) {
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return
+    object.geometry.dispose()
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material]
+    for (const material of materials) {
+      for (const value of Object.values(material)) {
+        if (value instanceof THREE.Texture) value.dispose()
+      }
+      material.dispose()
+    }
+  })
+}
+
+// The library is all there is to initialize; the tracker is built per start
+async function loadImageTracking() {
+  await loadMindAR('image')
+}
+
 export default function ImageTrackingExperiment() {
   const containerRef = useRef<HTMLDivElement>(null)
-  const mindarRef = useRef<MindARThreeInstance | null>(null)
+  const mindarRef = useRef<MindARImageThree | null>(null)
   const animationRef = useRef<number | null>(null)
   const contentRef = useRef<THREE.Object3D | null>(null)
+  const startedRef = useRef(false) // MindAR's stop() throws unless start() finished
   
-  const [isLoading, setIsLoading] = useState(true)
-  const [isRunning, setIsRunning] = useState(false)
-  const [selectedContent, setSelectedContent] = useState('cube')
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const [urlState, setUrlState] = useUrlState(URL_STATE, experimentSettings.settings)
+  const selectedContent = urlState.content
   const [targetFound, setTargetFound] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [loadingProgress, setLoadingProgress] = useState('Initializing...')
-
-  // Load MindAR Image tracking from CDN
-  const loadMindAR = useCallback(async () => {
-    if (window.MindARThreeImage) return true
-
-    setLoadingProgress('Loading MindAR Image Tracking...')
-    
-    return new Promise<boolean>((resolve) => {
-      const script = document.createElement('script')
-      script.src = 'https://cdn.jsdelivr.net/npm/mind-ar@1.2.5/dist/mindar-image-three.prod.js'
-      
-      script.onload = () => {
-        // MindAR exposes itself differently for image tracking
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const win = window as any
-        if (win.MINDAR?.IMAGE?.MindARThree) {
-          window.MindARThreeImage = win.MINDAR.IMAGE.MindARThree
-        }
-        resolve(!!window.MindARThreeImage)
-      }
-      
-      script.onerror = () => {
-        console.error('Failed to load MindAR Image script')
-        resolve(false)
-      }
-      
-      document.head.appendChild(script)
-      
-      setTimeout(() => {
-        if (!window.MindARThreeImage) {
-          resolve(false)
-        }
-      }, 15000)
-    })
-  }, [])
+  const [robotAnimation, setRobotAnimation] = useState<MixerAnimation | null>(null)
+  const animationPlayer = useAnimationPlayer(robotAnimation)
 
   // Create 3D content based on selection
   const createContent = useCallback((type: string, _scene: THREE.Scene): THREE.Object3D => {
@@ -142,15 +149,25 @@ export default function ImageTrackingExperiment() {
           'https://modelviewer.dev/shared-assets/models/RobotExpressive.glb',
           (gltf) => {
             const model = gltf.scene
+            // The session may have stopped or restarted while the robot was downloading
+            if (contentRef.current !== group) {
+              disposeModel(model)
+              return
+            }
+
             model.scale.set(0.15, 0.15, 0.15)
             model.position.set(0, 0, 0)
             group.add(model)
-            
-            // Simple bounce animation
+
+            // Its own clips, driven by the animation controls below the view
+            const animation = new MixerAnimation(model, gltf.animations, 'Idle')
+            animation.play('repeat')
+            let lastTime: number | null = null
             group.userData.animate = (time: number) => {
-              model.position.y = Math.sin(time * 2) * 0.05
-              model.rotation.y = time * 0.5
+              animation.update(lastTime === null ? 0 : time - lastTime)
+              lastTime = time
             }
+            setRobotAnimation(animation)
           },
           undefined,
           (err) => console.error('Failed to load model:', err)
@@ -274,97 +291,50 @@ export default function ImageTrackingExperiment() {
 
   // Initialize AR
   const initAR = useCallback(async () => {
-    if (!containerRef.current || !window.MindARThreeImage) return false
+    if (!containerRef.current) throw new Error('AR container is not mounted')
     
-    try {
-      setLoadingProgress('Setting up image tracking...')
-      
-      // Use the default MindAR target file
-      const mindarThree = new window.MindARThreeImage({
-        container: containerRef.current,
-        imageTargetSrc: 'https://cdn.jsdelivr.net/gh/nicolo-rancan/AR-mind-file-targets@main/targets.mind',
-        maxTrack: 1,
-        uiLoading: 'no',
-        uiScanning: 'no',
-        uiError: 'no'
-      })
-      
-      mindarRef.current = mindarThree
-      const { scene } = mindarThree
-
-      // Add lighting
-      const ambientLight = new THREE.AmbientLight(0xffffff, 0.8)
-      scene.add(ambientLight)
-      
-      const directionalLight = new THREE.DirectionalLight(0xffffff, 0.6)
-      directionalLight.position.set(0, 1, 1)
-      scene.add(directionalLight)
-
-      // Create anchor for the first target
-      const anchor = mindarThree.addAnchor(0)
-      
-      // Create and add content
-      const content = createContent(selectedContent, scene)
-      contentRef.current = content
-      anchor.group.add(content)
-      
-      // Target detection events
-      anchor.onTargetFound = () => {
-        setTargetFound(true)
-      }
-      
-      anchor.onTargetLost = () => {
-        setTargetFound(false)
-      }
+    const MindARThree = await loadMindAR('image')
+    
+    // Use the default MindAR target file
+    const mindarThree = new MindARThree({
+      container: containerRef.current,
+      imageTargetSrc: 'https://cdn.jsdelivr.net/gh/nicolo-rancan/AR-mind-file-targets@main/targets.mind',
+      maxTrack: 1,
+      uiLoading: 'no',
+      uiScanning: 'no',
+      uiError: 'no'
+    })
+    
+    mindarRef.current = mindarThree
+    const { scene } = mindarThree
 
-      setLoadingProgress('Ready!')
-      return true
-    } catch (err) {
-      console.error('AR init failed:', err)
-      setError('Failed to initialize AR. Please check camera permissions.')
-      return false
-    }
-  }, [createContent, selectedContent])
+    // Add lighting
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8)
+    scene.add(ambientLight)
+    
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.6)
+    directionalLight.position.set(0, 1, 1)
+    scene.add(directionalLight)
 
-  // Start AR session
-  const startAR = useCallback(async () => {
-    if (!mindarRef.current) {
-      const ready = await initAR()
-      if (!ready) return
+    // Create anchor for the first target
+    const anchor = mindarThree.addAnchor(0)
+    
+    // Create and add content
+    const content = createContent(selectedContent, scene)
+    contentRef.current = content
+    anchor.group.add(content)
+    
+    // Target detection events
+    anchor.onTargetFound = () => {
+      setTargetFound(true)
     }
     
-    try {
-      setLoadingProgress('Starting camera...')
-      await mindarRef.current!.start()
-      
-      // Start render loop
-      const animate = () => {
-        if (!mindarRef.current) return
-        
-        const time = performance.now() / 1000
-        
-        // Animate content
-        if (contentRef.current?.userData.animate) {
-          contentRef.current.userData.animate(time)
-        }
-        
-        mindarRef.current.renderer.render(
-          mindarRef.current.scene,
-          mindarRef.current.camera
-        )
-        animationRef.current = requestAnimationFrame(animate)
-      }
-      
-      animate()
-      setIsRunning(true)
-      setIsLoading(false)
-    } catch (err) {
-      console.error('Failed to start AR:', err)
-      setError('Failed to start camera. Please grant camera permissions and try again.')
+    anchor.onTargetLost = () => {
+      setTargetFound(false)
     }
-  }, [initAR])
+  }, [createContent, selectedContent])
 
-  // Stop AR session
+  // Stop AR session and tear down the tracker (called by the session on stop)
   const stopAR = useCallback(() => {
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current)
@@ -372,47 +342,88 @@ export default function ImageTrackingExperiment() {
     }
     
     if (mindarRef.current) {
-      mindarRef.current.stop()
+      if (startedRef.current) mindarRef.current.stop()
+      disposeMindAR(mindarRef.current)
       mindarRef.current = null
     }
     
+    startedRef.current = false
     contentRef.current = null
-    setIsRunning(false)
     setTargetFound(false)
+    setRobotAnimation(null)
   }, [])
 
-  // Change content type
-  const changeContent = useCallback((contentId: string) => {
-    setSelectedContent(contentId)
-    if (isRunning) {
-      stopAR()
-    }
-  }, [isRunning, stopAR])
+  const perf = usePerfMonitor('03-image-tracking', PERF_CONTEXT)
+  const { monitor: perfMonitor } = perf
+
+  const session = useExperimentSession({
+    steps: SESSION_STEPS,
+    initialStep: 'load-mindar',
+    init: loadImageTracking,
+    onStop: stopAR,
+  })
+  const { start: startSession, stop: stopSession, fail: failSession, retry: retrySession } = session
+
+  // The GPU dropped our context; MindAR can't recover it, so rebuild on retry
+  const handleContextLost = useCallback((event: Event) => {
+    event.preventDefault()
+    failSession('render', new ExperimentError('webgl-context-lost', 'WebGL context lost while rendering', { step: 'render' }))
+  }, [failSession])
+  const { isLoading, isRunning, error, progressLabel } = session
+
+  // MindAR's canvas doesn't keep its last frame, so draw a fresh one for the photo
+  const renderFrame = useCallback(() => {
+    const mindar = mindarRef.current
+    if (mindar) mindar.renderer.render(mindar.scene, mindar.camera)
+  }, [])
+
+  const photoCapture = usePhotoCapture(containerRef, { name: '03-image-tracking', beforeDraw: renderFrame })
+  const videoRecorder = useVideoRecorder(containerRef, { name: '03-image-tracking', active: isRunning, beforeDraw: renderFrame })
 
-  // Initialize on mount
-  useEffect(() => {
-    let mounted = true
+  // Start AR session
+  const startAR = useCallback(() => startSession('setup', async ({ signal, progress }: SessionContext<ImageSessionStep>) => {
+    await initAR()
+    const mindarThree = mindarRef.current!
+    
+    progress('start-camera')
+    await mindarThree.start()
+    if (signal.aborted) {
+      // Stopped while the camera was starting; the tracker is already torn down
+      mindarThree.stop()
+      return
+    }
+    startedRef.current = true
+    // The tracker is rebuilt on every start, so these hooks go with it
+    observeMindARUpdates(mindarThree, (ms) => perfMonitor.record('inference', ms))
+    mindarThree.renderer.domElement.addEventListener('webglcontextlost', handleContextLost, { once: true })
     
-    const init = async () => {
-      const mindARLoaded = await loadMindAR()
-      if (!mounted) return
+    // Start render loop
+    const animate = () => {
+      if (!mindarRef.current) return
       
-      if (!mindARLoaded) {
-        setError('Failed to load MindAR. Please check your internet connection.')
-        setIsLoading(false)
-        return
+      perfMonitor.tick()
+      const time = performance.now() / 1000
+      
+      // Animate content
+      if (contentRef.current?.userData.animate) {
+        contentRef.current.userData.animate(time)
       }
       
-      setIsLoading(false)
+      const { renderer, scene, camera } = mindarRef.current
+      perfMonitor.measure('draw', () => renderer.render(scene, camera))
+      animationRef.current = requestAnimationFrame(animate)
     }
     
-    init()
-    
-    return () => {
-      mounted = false
-      stopAR()
+    animate()
+  }), [startSession, initAR, handleContextLost, perfMonitor])
+
+  // Change content type
+  const changeContent = useCallback((contentId: string) => {
+    setUrlState({ content: contentId })
+    if (isRunning) {
+      stopSession()
     }
-  }, [loadMindAR, stopAR])
+  }, [isRunning, stopSession, setUrlState])
 
   return (
     <div className="experiment-page image-tracking-page">
@@ -422,6 +433,7 @@ export default function ImageTrackingExperiment() {
           <h1>Image Tracking</h1>
           <p>Recognize images and overlay 3D content</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
@@ -432,19 +444,11 @@ export default function ImageTrackingExperiment() {
           {isLoading && (
             <div className="loading-overlay">
               <div className="loading-spinner" />
-              <p>{loadingProgress}</p>
+              <p>{progressLabel}</p>
             </div>
           )}
           
-          {error && (
-            <div className="error-overlay">
-              <span className="error-icon">⚠️</span>
-              <p>{error}</p>
-              <button onClick={() => window.location.reload()}>
-                Retry
-              </button>
-            </div>
-          )}
+          {error && <ErrorScreen error={error} onRecover={retrySession} />}
           
           {!isRunning && !isLoading && !error && (
             <div className="start-overlay">
@@ -469,10 +473,13 @@ export default function ImageTrackingExperiment() {
         </div>
 
         {isRunning && (
-          <button onClick={stopAR} className="stop-button">
+          <button onClick={stopSession} className="stop-button">
             ⏹ Stop
           </button>
         )}
+
+        {isRunning && <PhotoCapture capture={photoCapture} />}
+        {isRunning && <VideoRecorder recorder={videoRecorder} floating />}
       </div>
 
       <div className="content-section">
@@ -490,6 +497,12 @@ export default function ImageTrackingExperiment() {
             </button>
           ))}
         </div>
+        {selectedContent === 'model' && isRunning && animationPlayer.isReady && (
+          <div className="robot-animation">
+            <h3>🤖 Robot Animation</h3>
+            <AnimationControls player={animationPlayer} />
+          </div>
+        )}
       </div>
 
       <div className="target-section">
@@ -560,6 +573,8 @@ export default function ImageTrackingExperiment() {
           <li>Book covers that come to life</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
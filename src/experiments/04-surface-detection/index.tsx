@@ -7,12 +7,27 @@
  * - Place 3D objects on real-world surfaces
  */
 
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import type { RootState } from '@react-three/fiber'
 import { XR, createXRStore, useXRHitTest, XROrigin } from '@react-three/xr'
 import { Environment } from '@react-three/drei'
 import * as THREE from 'three'
+import { useCapabilities } from '../../hooks/useCapabilities'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import SettingsPanel from '../../components/settings-panel'
+import PhotoCapture from '../../components/photo-capture'
+import PerfProbe from '../../components/perf-probe'
+import { ExperimentError } from '../../lib/experimentErrors'
+import { exitSession, watchSessionEnd } from '../../lib/xrSession'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
 import './styles.css'
 
 // Create XR store outside component
@@ -40,6 +55,25 @@ const OBJECT_OPTIONS = [
   { id: 'tree', name: 'Tree', emoji: '🌲' },
 ]
 
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  object: { key: 'object', codec: urlParam.oneOf(OBJECT_OPTIONS.map((option) => option.id)), fallback: 'cube' },
+})
+
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '04-surface-detection',
+  version: 1,
+  fields: {
+    object: setting.choice({
+      label: 'Object to place',
+      options: OBJECT_OPTIONS.map((option) => ({ value: option.id, label: `${option.emoji} ${option.name}` })),
+      fallback: URL_STATE.object.fallback,
+    }),
+  },
+  migrations: {},
+})
+
 // Reticle component for surface indicator
 function Reticle({ 
   onPlace, 
@@ -227,31 +261,19 @@ function FallbackScene({ placedObjects }: { placedObjects: PlacedObject[] }) {
 }
 
 export default function SurfaceDetectionExperiment() {
-  const [isARSupported, setIsARSupported] = useState<boolean | null>(null)
+  const capabilities = useCapabilities()
+  const arSupport = capabilities?.['webxr-ar']
+  const isARSupported = arSupport ? arSupport.supported : null
   const [isInAR, setIsInAR] = useState(false)
-  const [selectedObject, setSelectedObject] = useState('cube')
+  const [xrError, setXrError] = useState<ExperimentError | null>(null)
+  const perf = usePerfMonitor('04-surface-detection')
+  const containerRef = useRef<HTMLDivElement>(null)
+  const threeRef = useRef<RootState | null>(null)
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const [urlState, setUrlState] = useUrlState(URL_STATE, experimentSettings.settings)
+  const selectedObject = urlState.object
   const [placedObjects, setPlacedObjects] = useState<PlacedObject[]>([])
   
-  // Check WebXR support
-  const checkSupport = useCallback(async () => {
-    if (!navigator.xr) {
-      setIsARSupported(false)
-      return
-    }
-    
-    try {
-      const supported = await navigator.xr.isSessionSupported('immersive-ar')
-      setIsARSupported(supported)
-    } catch {
-      setIsARSupported(false)
-    }
-  }, [])
-  
-  // Check on mount
-  useState(() => {
-    checkSupport()
-  })
-  
   // Handle placing objects
   const handlePlace = useCallback((position: THREE.Vector3, rotation: THREE.Euler) => {
     const newObject: PlacedObject = {
@@ -269,9 +291,44 @@ export default function SurfaceDetectionExperiment() {
     setPlacedObjects([])
   }, [])
   
+  // The preview canvas doesn't keep its last frame, so draw a fresh one for the photo
+  const renderFrame = useCallback(() => {
+    const three = threeRef.current?.get()
+    if (three) three.gl.render(three.scene, three.camera)
+  }, [])
+
+  const photoCapture = usePhotoCapture(containerRef, { name: '04-surface-detection', beforeDraw: renderFrame })
+
+  // Drop back to the preview when a session ends; only one the browser or
+  // system took away (lib/xrSession) gets the error screen
+  useEffect(() => {
+    let unwatch: (() => void) | null = null
+    const unsubscribe = xrStore.subscribe((state, prev) => {
+      if (!state.session || state.session === prev.session) return
+      unwatch?.()
+      unwatch = watchSessionEnd(state.session, (reason) => {
+        setIsInAR(false)
+        if (reason === 'interrupted') {
+          setXrError(new ExperimentError('xr-session-ended', 'The AR session was interrupted'))
+        }
+      })
+    })
+    return () => {
+      unsubscribe()
+      unwatch?.()
+    }
+  }, [])
+
+  // Leave AR from the page's own button
+  const handleExitAR = useCallback(() => {
+    const session = xrStore.getState().session
+    if (session) exitSession(session)
+  }, [])
+
   // Enter AR
   const handleEnterAR = useCallback(async () => {
     try {
+      setXrError(null)
       await xrStore.enterAR()
       setIsInAR(true)
     } catch (err) {
@@ -287,16 +344,21 @@ export default function SurfaceDetectionExperiment() {
           <h1>Surface Detection</h1>
           <p>Place objects on real-world surfaces</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
-        <div className="ar-container">
+        <div ref={containerRef} className="ar-container">
           <Canvas
             shadows
             camera={{ position: [0, 1.5, 3], fov: 50 }}
             gl={{ alpha: true }}
+            onCreated={(state) => {
+              threeRef.current = state
+            }}
           >
             <XR store={xrStore}>
+              {perf.enabled && <PerfProbe monitor={perf.monitor} />}
               {isInAR ? (
                 <Scene 
                   placedObjects={placedObjects}
@@ -313,6 +375,7 @@ export default function SurfaceDetectionExperiment() {
               <span className="unsupported-icon">📱</span>
               <h3>WebXR AR Not Available</h3>
               <p>Surface detection requires WebXR AR support.</p>
+              <p>{arSupport?.reason}</p>
               <ul className="requirements-list">
                 <li>Chrome on Android (ARCore devices)</li>
                 <li>Safari on iOS 15+ (with WebXR flag)</li>
@@ -322,7 +385,13 @@ export default function SurfaceDetectionExperiment() {
             </div>
           )}
           
-          {!isInAR && isARSupported !== false && (
+          {xrError && (
+            <ErrorScreen error={xrError} onRecover={handleEnterAR}>
+              <button onClick={() => setXrError(null)}>Back to Preview</button>
+            </ErrorScreen>
+          )}
+
+          {!isInAR && !xrError && isARSupported !== false && (
             <div className="ar-start-overlay">
               <button onClick={handleEnterAR} className="start-ar-button">
                 🚀 Enter AR Mode
@@ -334,8 +403,13 @@ export default function SurfaceDetectionExperiment() {
           )}
         </div>
         
+        {!isInAR && !xrError && <PhotoCapture capture={photoCapture} />}
+
         {isInAR && (
           <div className="ar-controls">
+            <button onClick={handleExitAR} className="clear-button">
+              ✕ Exit AR
+            </button>
             <button onClick={handleClear} className="clear-button">
               🗑️ Clear All
             </button>
@@ -352,7 +426,7 @@ export default function SurfaceDetectionExperiment() {
             <button
               key={option.id}
               className={`object-button ${selectedObject === option.id ? 'active' : ''}`}
-              onClick={() => setSelectedObject(option.id)}
+              onClick={() => setUrlState({ object: option.id })}
             >
               <span className="object-emoji">{option.emoji}</span>
               <span className="object-name">{option.name}</span>
@@ -402,6 +476,8 @@ export default function SurfaceDetectionExperiment() {
           <li>Educational 3D models in context</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
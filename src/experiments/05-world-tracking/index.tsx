@@ -10,9 +10,24 @@
 import { useCallback, useRef, useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import type { RootState } from '@react-three/fiber'
 import { XR, createXRStore, useXRHitTest, XROrigin } from '@react-three/xr'
 import { Environment, Text, Float, MeshDistortMaterial } from '@react-three/drei'
 import * as THREE from 'three'
+import { useCapabilities } from '../../hooks/useCapabilities'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import SettingsPanel from '../../components/settings-panel'
+import PhotoCapture from '../../components/photo-capture'
+import PerfProbe from '../../components/perf-probe'
+import { ExperimentError } from '../../lib/experimentErrors'
+import { exitSession, watchSessionEnd } from '../../lib/xrSession'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
 import './styles.css'
 
 // Create XR store with anchor support
@@ -67,6 +82,28 @@ const ANCHOR_COLORS = [
   '#ef4444', '#f59e0b', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'
 ]
 
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  type: { key: 'type', codec: urlParam.oneOf(SCENE_PRESETS.map((preset) => preset.id)), fallback: 'markers' },
+  color: { key: 'color', codec: urlParam.color(ANCHOR_COLORS), fallback: ANCHOR_COLORS[4] },
+  note: { key: 'note', codec: urlParam.text(30), fallback: 'Hello!' },
+})
+
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '05-world-tracking',
+  version: 1,
+  fields: {
+    type: setting.choice({
+      label: 'Anchor type',
+      options: SCENE_PRESETS.map((preset) => ({ value: preset.id, label: `${preset.emoji} ${preset.name}` })),
+      fallback: URL_STATE.type.fallback,
+    }),
+    color: setting.color({ label: 'Anchor colour', palette: ANCHOR_COLORS, fallback: URL_STATE.color.fallback }),
+  },
+  migrations: {},
+})
+
 // Spatial Marker component
 function SpatialMarker({ anchor }: { anchor: WorldAnchor }) {
   const meshRef = useRef<THREE.Group>(null)
@@ -399,31 +436,19 @@ function PreviewScene({ anchors }: { anchors: WorldAnchor[] }) {
 }
 
 export default function WorldTrackingExperiment() {
-  const [isARSupported, setIsARSupported] = useState<boolean | null>(null)
+  const capabilities = useCapabilities()
+  const arSupport = capabilities?.['webxr-ar']
+  const isARSupported = arSupport ? arSupport.supported : null
   const [isInAR, setIsInAR] = useState(false)
-  const [selectedType, setSelectedType] = useState('markers')
-  const [selectedColor, setSelectedColor] = useState(ANCHOR_COLORS[4])
-  const [noteText, setNoteText] = useState('Hello!')
+  const [xrError, setXrError] = useState<ExperimentError | null>(null)
+  const perf = usePerfMonitor('05-world-tracking')
+  const containerRef = useRef<HTMLDivElement>(null)
+  const threeRef = useRef<RootState | null>(null)
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const [urlState, setUrlState] = useUrlState(URL_STATE, experimentSettings.settings)
+  const { type: selectedType, color: selectedColor, note: noteText } = urlState
   const [anchors, setAnchors] = useState<WorldAnchor[]>([])
   
-  // Check WebXR support
-  useEffect(() => {
-    const check = async () => {
-      if (!navigator.xr) {
-        setIsARSupported(false)
-        return
-      }
-      
-      try {
-        const supported = await navigator.xr.isSessionSupported('immersive-ar')
-        setIsARSupported(supported)
-      } catch {
-        setIsARSupported(false)
-      }
-    }
-    check()
-  }, [])
-  
   // Place anchor
   const handlePlace = useCallback((position: THREE.Vector3, rotation: THREE.Euler) => {
     const newAnchor: WorldAnchor = {
@@ -448,9 +473,44 @@ export default function WorldTrackingExperiment() {
     setAnchors(prev => prev.slice(0, -1))
   }, [])
   
+  // The preview canvas doesn't keep its last frame, so draw a fresh one for the photo
+  const renderFrame = useCallback(() => {
+    const three = threeRef.current?.get()
+    if (three) three.gl.render(three.scene, three.camera)
+  }, [])
+
+  const photoCapture = usePhotoCapture(containerRef, { name: '05-world-tracking', beforeDraw: renderFrame })
+
+  // Drop back to the preview when a session ends; only one the browser or
+  // system took away (lib/xrSession) gets the error screen
+  useEffect(() => {
+    let unwatch: (() => void) | null = null
+    const unsubscribe = xrStore.subscribe((state, prev) => {
+      if (!state.session || state.session === prev.session) return
+      unwatch?.()
+      unwatch = watchSessionEnd(state.session, (reason) => {
+        setIsInAR(false)
+        if (reason === 'interrupted') {
+          setXrError(new ExperimentError('xr-session-ended', 'The AR session was interrupted'))
+        }
+      })
+    })
+    return () => {
+      unsubscribe()
+      unwatch?.()
+    }
+  }, [])
+
+  // Leave AR from the page's own button
+  const handleExitAR = useCallback(() => {
+    const session = xrStore.getState().session
+    if (session) exitSession(session)
+  }, [])
+
   // Enter AR
   const handleEnterAR = useCallback(async () => {
     try {
+      setXrError(null)
       await xrStore.enterAR()
       setIsInAR(true)
     } catch (err) {
@@ -466,16 +526,21 @@ export default function WorldTrackingExperiment() {
           <h1>World Tracking</h1>
           <p>Persistent anchors in 3D space</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
-        <div className="ar-container">
+        <div ref={containerRef} className="ar-container">
           <Canvas
             shadows
             camera={{ position: [0, 1.5, 3], fov: 50 }}
             gl={{ alpha: true }}
+            onCreated={(state) => {
+              threeRef.current = state
+            }}
           >
             <XR store={xrStore}>
+              {perf.enabled && <PerfProbe monitor={perf.monitor} />}
               {isInAR ? (
                 <ARScene 
                   anchors={anchors}
@@ -493,6 +558,7 @@ export default function WorldTrackingExperiment() {
               <span className="unsupported-icon">🌐</span>
               <h3>WebXR AR Not Available</h3>
               <p>World tracking requires WebXR AR with anchor support.</p>
+              <p>{arSupport?.reason}</p>
               <ul className="requirements-list">
                 <li>Chrome on Android (ARCore)</li>
                 <li>Meta Quest Browser</li>
@@ -500,7 +566,13 @@ export default function WorldTrackingExperiment() {
             </div>
           )}
           
-          {!isInAR && isARSupported !== false && (
+          {xrError && (
+            <ErrorScreen error={xrError} onRecover={handleEnterAR}>
+              <button onClick={() => setXrError(null)}>Back to Preview</button>
+            </ErrorScreen>
+          )}
+
+          {!isInAR && !xrError && isARSupported !== false && (
             <div className="ar-start-overlay">
               <button onClick={handleEnterAR} className="start-ar-button">
                 🌍 Enter World AR
@@ -510,8 +582,13 @@ export default function WorldTrackingExperiment() {
           )}
         </div>
         
+        {!isInAR && !xrError && <PhotoCapture capture={photoCapture} />}
+
         {isInAR && (
           <div className="ar-controls">
+            <button onClick={handleExitAR} className="control-btn">
+              ✕ Exit AR
+            </button>
             <button onClick={handleUndo} className="control-btn" disabled={anchors.length === 0}>
               ↩️ Undo
             </button>
@@ -531,7 +608,7 @@ export default function WorldTrackingExperiment() {
               <button
                 key={preset.id}
                 className={`type-button ${selectedType === preset.id ? 'active' : ''}`}
-                onClick={() => setSelectedType(preset.id)}
+                onClick={() => setUrlState({ type: preset.id })}
               >
                 <span className="type-emoji">{preset.emoji}</span>
                 <span className="type-name">{preset.name}</span>
@@ -548,7 +625,7 @@ export default function WorldTrackingExperiment() {
                 key={color}
                 className={`color-button ${selectedColor === color ? 'active' : ''}`}
                 style={{ backgroundColor: color }}
-                onClick={() => setSelectedColor(color)}
+                onClick={() => setUrlState({ color })}
               />
             ))}
           </div>
@@ -560,7 +637,7 @@ export default function WorldTrackingExperiment() {
             <input
               type="text"
               value={noteText}
-              onChange={(e) => setNoteText(e.target.value)}
+              onChange={(e) => setUrlState({ note: e.target.value })}
               placeholder="Enter note text..."
               className="note-input"
               maxLength={30}
@@ -610,6 +687,8 @@ export default function WorldTrackingExperiment() {
           <li>Multi-user shared experiences</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
@@ -8,296 +8,234 @@
  * - Enable air drawing with pinch gesture
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import { Link } from 'react-router-dom'
-import {
-  FilesetResolver,
-  HandLandmarker,
-} from '@mediapipe/tasks-vision'
-import type {
-  HandLandmarkerResult,
-  NormalizedLandmark,
-} from '@mediapipe/tasks-vision'
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { HAND_CONNECTIONS, HAND_FINGERTIPS, HAND_LANDMARKS } from '../../lib/trackingCore'
+import { GESTURES, detectGesture } from '../../lib/gestureClassifier'
+import type { Gesture } from '../../lib/gestureClassifier'
+import type { VisionDelegate, VisionTaskConfig } from '../../lib/visionTasks'
+import { VISION_DELEGATES, VISION_MODELS } from '../../lib/visionModels'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
+import { CAMERA_SETTINGS, savedCameraSelection, useCameraSource } from '../../hooks/useCameraSource'
+import type { CameraSelection } from '../../hooks/useCameraSource'
+import { useFileSource } from '../../hooks/useFileSource'
+import type { InputFrame } from '../../hooks/useFileSource'
+import { useSessionRecorder } from '../../hooks/useSessionRecorder'
+import { useSessionReplay } from '../../hooks/useSessionReplay'
+import { useSimulatedInput } from '../../hooks/useSimulatedInput'
+import { useExperimentSession } from '../../hooks/useExperimentSession'
+import type { SessionContext, SessionStep } from '../../hooks/useExperimentSession'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import { useVideoRecorder } from '../../hooks/useVideoRecorder'
+import { useLandmarkSmoother } from '../../hooks/useLandmarkSmoother'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { useVisionTask } from '../../hooks/useVisionTask'
+import { downloadSession } from '../../lib/landmarkSession'
+import type { HandFrameResult } from '../../lib/landmarkSession'
+import CameraPicker from '../../components/camera-picker'
+import FilePicker from '../../components/file-picker'
+import PlaybackControls from '../../components/playback-controls'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import PhotoCapture from '../../components/photo-capture'
+import VideoRecorder from '../../components/video-recorder'
+import SmoothingControls from '../../components/smoothing-controls'
+import SettingsPanel from '../../components/settings-panel'
+import ModelOptions from '../../components/model-options'
+import { RecordButton, ReplayButton, SimulateButton } from '../../components/session-controls'
 import './styles.css'
 
-// Hand landmark indices
-const LANDMARKS = {
-  WRIST: 0,
-  THUMB_CMC: 1,
-  THUMB_MCP: 2,
-  THUMB_IP: 3,
-  THUMB_TIP: 4,
-  INDEX_MCP: 5,
-  INDEX_PIP: 6,
-  INDEX_DIP: 7,
-  INDEX_TIP: 8,
-  MIDDLE_MCP: 9,
-  MIDDLE_PIP: 10,
-  MIDDLE_DIP: 11,
-  MIDDLE_TIP: 12,
-  RING_MCP: 13,
-  RING_PIP: 14,
-  RING_DIP: 15,
-  RING_TIP: 16,
-  PINKY_MCP: 17,
-  PINKY_PIP: 18,
-  PINKY_DIP: 19,
-  PINKY_TIP: 20,
-}
-
-// Finger connections for drawing skeleton
-const FINGER_CONNECTIONS = [
-  // Thumb
-  [LANDMARKS.WRIST, LANDMARKS.THUMB_CMC],
-  [LANDMARKS.THUMB_CMC, LANDMARKS.THUMB_MCP],
-  [LANDMARKS.THUMB_MCP, LANDMARKS.THUMB_IP],
-  [LANDMARKS.THUMB_IP, LANDMARKS.THUMB_TIP],
-  // Index
-  [LANDMARKS.WRIST, LANDMARKS.INDEX_MCP],
-  [LANDMARKS.INDEX_MCP, LANDMARKS.INDEX_PIP],
-  [LANDMARKS.INDEX_PIP, LANDMARKS.INDEX_DIP],
-  [LANDMARKS.INDEX_DIP, LANDMARKS.INDEX_TIP],
-  // Middle
-  [LANDMARKS.WRIST, LANDMARKS.MIDDLE_MCP],
-  [LANDMARKS.MIDDLE_MCP, LANDMARKS.MIDDLE_PIP],
-  [LANDMARKS.MIDDLE_PIP, LANDMARKS.MIDDLE_DIP],
-  [LANDMARKS.MIDDLE_DIP, LANDMARKS.MIDDLE_TIP],
-  // Ring
-  [LANDMARKS.WRIST, LANDMARKS.RING_MCP],
-  [LANDMARKS.RING_MCP, LANDMARKS.RING_PIP],
-  [LANDMARKS.RING_PIP, LANDMARKS.RING_DIP],
-  [LANDMARKS.RING_DIP, LANDMARKS.RING_TIP],
-  // Pinky
-  [LANDMARKS.WRIST, LANDMARKS.PINKY_MCP],
-  [LANDMARKS.PINKY_MCP, LANDMARKS.PINKY_PIP],
-  [LANDMARKS.PINKY_PIP, LANDMARKS.PINKY_DIP],
-  [LANDMARKS.PINKY_DIP, LANDMARKS.PINKY_TIP],
-  // Palm connections
-  [LANDMARKS.INDEX_MCP, LANDMARKS.MIDDLE_MCP],
-  [LANDMARKS.MIDDLE_MCP, LANDMARKS.RING_MCP],
-  [LANDMARKS.RING_MCP, LANDMARKS.PINKY_MCP],
-]
-
-// Gesture types
-type Gesture = 'open_palm' | 'fist' | 'pointing' | 'thumbs_up' | 'pinch' | 'peace' | 'unknown'
-
-interface GestureInfo {
-  name: string
-  emoji: string
-  description: string
-}
-
-const GESTURES: Record<Gesture, GestureInfo> = {
-  open_palm: { name: 'Open Palm', emoji: '🖐️', description: 'All fingers extended' },
-  fist: { name: 'Fist', emoji: '✊', description: 'All fingers closed' },
-  pointing: { name: 'Pointing', emoji: '👆', description: 'Index finger up' },
-  thumbs_up: { name: 'Thumbs Up', emoji: '👍', description: 'Thumb extended up' },
-  pinch: { name: 'Pinch', emoji: '🤏', description: 'Thumb + index touching' },
-  peace: { name: 'Peace', emoji: '✌️', description: 'Index + middle up' },
-  unknown: { name: 'Unknown', emoji: '❓', description: 'Gesture not recognized' },
-}
-
 // Drawing stroke
 interface Stroke {
   points: { x: number; y: number }[]
   color: string
 }
 
-// Utility functions for gesture detection
-function distance(p1: NormalizedLandmark, p2: NormalizedLandmark): number {
-  const dx = p1.x - p2.x
-  const dy = p1.y - p2.y
-  return Math.sqrt(dx * dx + dy * dy)
-}
+// Color palette for drawing
+const COLORS = ['#06b6d4', '#8b5cf6', '#f43f5e', '#22c55e', '#f59e0b', '#ec4899']
 
-function isFingerExtended(
-  landmarks: NormalizedLandmark[],
-  tipIdx: number,
-  pipIdx: number,
-  mcpIdx: number
-): boolean {
-  const tip = landmarks[tipIdx]
-  const pip = landmarks[pipIdx]
-  const mcp = landmarks[mcpIdx]
-  
-  // Finger is extended if tip is further from palm than pip
-  // Using y coordinate (lower y = higher on screen = extended)
-  return tip.y < pip.y && pip.y < mcp.y
-}
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  draw: { key: 'draw', codec: urlParam.boolean, fallback: true },
+  color: { key: 'color', codec: urlParam.color(COLORS), fallback: COLORS[0] },
+})
 
-function isThumbExtended(landmarks: NormalizedLandmark[], isRightHand: boolean): boolean {
-  const thumbTip = landmarks[LANDMARKS.THUMB_TIP]
-  const thumbIP = landmarks[LANDMARKS.THUMB_IP]
-  const thumbMCP = landmarks[LANDMARKS.THUMB_MCP]
-  
-  // Thumb extends outward (x-axis dependent on handedness)
-  if (isRightHand) {
-    return thumbTip.x < thumbIP.x && thumbIP.x < thumbMCP.x
-  } else {
-    return thumbTip.x > thumbIP.x && thumbIP.x > thumbMCP.x
-  }
-}
+// The only hand landmarker MediaPipe publishes
+const HAND_MODEL = VISION_MODELS.hand[0].value
 
-function detectGesture(landmarks: NormalizedLandmark[], isRightHand: boolean): Gesture {
-  const thumbExtended = isThumbExtended(landmarks, isRightHand)
-  const indexExtended = isFingerExtended(
-    landmarks,
-    LANDMARKS.INDEX_TIP,
-    LANDMARKS.INDEX_PIP,
-    LANDMARKS.INDEX_MCP
-  )
-  const middleExtended = isFingerExtended(
-    landmarks,
-    LANDMARKS.MIDDLE_TIP,
-    LANDMARKS.MIDDLE_PIP,
-    LANDMARKS.MIDDLE_MCP
-  )
-  const ringExtended = isFingerExtended(
-    landmarks,
-    LANDMARKS.RING_TIP,
-    LANDMARKS.RING_PIP,
-    LANDMARKS.RING_MCP
-  )
-  const pinkyExtended = isFingerExtended(
-    landmarks,
-    LANDMARKS.PINKY_TIP,
-    LANDMARKS.PINKY_PIP,
-    LANDMARKS.PINKY_MCP
-  )
-  
-  // Check for pinch (thumb and index tips close together)
-  const pinchDistance = distance(
-    landmarks[LANDMARKS.THUMB_TIP],
-    landmarks[LANDMARKS.INDEX_TIP]
-  )
-  const isPinching = pinchDistance < 0.05
-  
-  if (isPinching) return 'pinch'
-  
-  // Thumbs up: thumb extended, all others closed
-  if (thumbExtended && !indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
-    return 'thumbs_up'
-  }
-  
-  // Open palm: all fingers extended
-  if (thumbExtended && indexExtended && middleExtended && ringExtended && pinkyExtended) {
-    return 'open_palm'
-  }
-  
-  // Fist: all fingers closed
-  if (!thumbExtended && !indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
-    return 'fist'
-  }
-  
-  // Pointing: only index extended
-  if (!thumbExtended && indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
-    return 'pointing'
-  }
-  
-  // Peace: index and middle extended, others closed
-  if (!thumbExtended && indexExtended && middleExtended && !ringExtended && !pinkyExtended) {
-    return 'peace'
-  }
-  
-  return 'unknown'
-}
+const confidenceSetting = (label: string) => setting.range({ label, min: 0.1, max: 0.9, step: 0.05, fallback: 0.5 })
 
-// Color palette for drawing
-const COLORS = ['#06b6d4', '#8b5cf6', '#f43f5e', '#22c55e', '#f59e0b', '#ec4899']
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '06-hand-tracking',
+  version: 1,
+  fields: {
+    ...CAMERA_SETTINGS,
+    delegate: setting.choice<VisionDelegate>({ label: 'Delegate', options: VISION_DELEGATES, fallback: 'GPU' }),
+    numHands: setting.range({ label: 'Max hands', min: 1, max: 4, step: 1, fallback: 2 }),
+    minHandDetectionConfidence: confidenceSetting('Hand detection confidence'),
+    minHandPresenceConfidence: confidenceSetting('Hand presence confidence'),
+    minTrackingConfidence: confidenceSetting('Tracking confidence'),
+    draw: setting.toggle({ label: 'Air drawing', fallback: URL_STATE.draw.fallback }),
+    color: setting.color({ label: 'Drawing colour', palette: COLORS, fallback: URL_STATE.color.fallback }),
+  },
+  migrations: {},
+})
+
+// Saved settings shown in the live model options panel
+const MODEL_FIELDS = [
+  'delegate',
+  'numHands',
+  'minHandDetectionConfidence',
+  'minHandPresenceConfidence',
+  'minTrackingConfidence',
+] as const
+
+const UI_UPDATE_INTERVAL = 100 // ms between React state updates from the render loop
+
+// Session lifecycle steps
+type HandSessionStep = 'load-mediapipe' | 'create-detector' | 'detect' | 'start-camera' | 'load-files' | 'load-session' | 'simulate'
+
+const SESSION_STEPS: Record<HandSessionStep, SessionStep> = {
+  'load-mediapipe': { label: 'Loading MediaPipe...', failure: 'asset-load' },
+  'create-detector': { label: 'Creating hand detector...', failure: 'model-init' },
+  'detect': { label: 'Detecting hands...', failure: 'model-init' },
+  'start-camera': { label: 'Starting camera...', failure: 'no-camera' },
+  'load-files': { label: 'Loading files...', failure: 'invalid-file' },
+  'load-session': { label: 'Loading session...', failure: 'invalid-file' },
+  'simulate': { label: 'Starting simulation...', failure: 'model-init' },
+}
 
 export default function HandTrackingExperiment() {
+  const containerRef = useRef<HTMLDivElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const drawCanvasRef = useRef<HTMLCanvasElement>(null)
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null)
+  const workerErrorRef = useRef<(err: Error) => void>(() => {})
   const animationRef = useRef<number | null>(null)
+  const processFrameRef = useRef<() => void>(() => {})
+  const stopInputsRef = useRef<() => void>(() => {})
   const lastVideoTimeRef = useRef(-1)
+  const lastUiUpdateRef = useRef(0)
   const strokesRef = useRef<Stroke[]>([])
   const currentStrokeRef = useRef<Stroke | null>(null)
   const wasPinchingRef = useRef(false)
   
-  const [isLoading, setIsLoading] = useState(true)
-  const [isRunning, setIsRunning] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [loadingProgress, setLoadingProgress] = useState('Initializing...')
+  const [inputMode, setInputMode] = useState<'camera' | 'file' | 'replay' | 'simulated'>('camera')
   const [detectedGestures, setDetectedGestures] = useState<Map<string, Gesture>>(new Map())
   const [handCount, setHandCount] = useState(0)
-  const [drawMode, setDrawMode] = useState(true)
-  const [currentColor, setCurrentColor] = useState(COLORS[0])
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const { settings, update: updateSettings } = experimentSettings
+  const [urlState, setUrlState] = useUrlState(URL_STATE, settings)
+  const { draw: drawMode, color: currentColor } = urlState
 
-  // Initialize HandLandmarker
-  const initHandLandmarker = useCallback(async () => {
-    try {
-      setLoadingProgress('Loading MediaPipe...')
-      
-      const vision = await FilesetResolver.forVisionTasks(
-        'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-      )
-      
-      setLoadingProgress('Creating hand detector...')
-      
-      const handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
-          delegate: 'GPU',
-        },
-        runningMode: 'VIDEO',
-        numHands: 2,
-        minHandDetectionConfidence: 0.5,
-        minHandPresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      })
-      
-      handLandmarkerRef.current = handLandmarker
-      setLoadingProgress('Ready!')
-      return true
-    } catch (err) {
-      console.error('Failed to initialize HandLandmarker:', err)
-      setError('Failed to load hand tracking model. Please check your internet connection.')
-      return false
-    }
-  }, [])
+  // Landmarker settings for the inference worker; changing them rebuilds it
+  const { delegate, numHands, minHandDetectionConfidence, minHandPresenceConfidence, minTrackingConfidence } = settings
+  const handTask = useMemo((): VisionTaskConfig<'hand'> => ({
+    model: HAND_MODEL,
+    delegate,
+    settings: { numHands, minHandDetectionConfidence, minHandPresenceConfidence, minTrackingConfidence },
+  }), [delegate, numHands, minHandDetectionConfidence, minHandPresenceConfidence, minTrackingConfidence])
 
-  // Start camera
-  const startCamera = useCallback(async () => {
-    try {
-      setLoadingProgress('Starting camera...')
-      
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          facingMode: 'user',
-        },
-      })
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
-        await new Promise<void>((resolve) => {
-          videoRef.current!.onloadedmetadata = () => {
-            videoRef.current!.play()
-            resolve()
-          }
-        })
-        
-        // Size canvases to match video
-        if (canvasRef.current && drawCanvasRef.current) {
-          canvasRef.current.width = videoRef.current.videoWidth
-          canvasRef.current.height = videoRef.current.videoHeight
-          drawCanvasRef.current.width = videoRef.current.videoWidth
-          drawCanvasRef.current.height = videoRef.current.videoHeight
-        }
-      }
-      
-      return true
-    } catch (err) {
-      console.error('Failed to start camera:', err)
-      setError('Failed to access camera. Please grant camera permission.')
-      return false
+  // Failures while running go through a ref: the session is created below
+  const handleWorkerError = useCallback((err: Error) => workerErrorRef.current(err), [])
+
+  const vision = useVisionTask('hand', handTask, { onError: handleWorkerError })
+  const { create: createWorker, close: closeHandLandmarker, detect: detectHands, takeResult } = vision
+
+  // Start the hand landmarker in the inference worker
+  const initHandLandmarker = useCallback(({ signal, progress }: SessionContext<HandSessionStep>) => {
+    return createWorker({ signal, onLoaded: () => progress('create-detector') })
+  }, [createWorker])
+
+  // Stopping goes through a ref: the inputs below are created after the session
+  const handleSessionStop = useCallback(() => stopInputsRef.current(), [])
+
+  const perf = usePerfMonitor('06-hand-tracking', {
+    model: vision.config?.model ?? HAND_MODEL,
+    delegate: vision.delegate,
+  })
+  const { monitor: perfMonitor } = perf
+
+  const smoothing = useLandmarkSmoother()
+  const { smoother } = smoothing
+
+  const photoCapture = usePhotoCapture(containerRef, { name: '06-hand-tracking' })
+
+  const session = useExperimentSession({
+    steps: SESSION_STEPS,
+    initialStep: 'load-mediapipe',
+    init: initHandLandmarker,
+    onStop: handleSessionStop,
+    dispose: closeHandLandmarker,
+  })
+  const { start: startSession, stop: stopTracking, fail: failSession, retry: retrySession } = session
+  const { isLoading, isRunning, error, progressLabel } = session
+
+  const videoRecorder = useVideoRecorder(containerRef, { name: '06-hand-tracking', active: isRunning })
+
+  useEffect(() => {
+    workerErrorRef.current = (err) => failSession('detect', err)
+  }, [failSession])
+
+  // Size canvases to match the input (runs again whenever the source changes)
+  const resizeCanvases = useCallback((width: number, height: number) => {
+    if (canvasRef.current && drawCanvasRef.current) {
+      canvasRef.current.width = width
+      canvasRef.current.height = height
+      drawCanvasRef.current.width = width
+      drawCanvasRef.current.height = height
     }
   }, [])
 
+  const handleCameraReady = useCallback((video: HTMLVideoElement) => {
+    resizeCanvases(video.videoWidth, video.videoHeight)
+  }, [resizeCanvases])
+
+  const handleCameraError = useCallback((err: unknown) => {
+    failSession('start-camera', err)
+  }, [failSession])
+
+  // Remember the camera picked in the camera picker
+  const handleCameraChoice = useCallback((selection: CameraSelection) => {
+    updateSettings(savedCameraSelection(selection))
+  }, [updateSettings])
+
+  const camera = useCameraSource(videoRef, {
+    onReady: handleCameraReady,
+    onError: handleCameraError,
+    onSelectionChange: handleCameraChoice,
+  })
+  const { start: startCameraSource, stop: stopCameraSource } = camera
+
+  const handleFileError = useCallback((err: unknown) => {
+    failSession('load-files', err)
+  }, [failSession])
+
+  const fileSource = useFileSource(videoRef, imageRef, { onReady: resizeCanvases, onError: handleFileError })
+  const { load: loadFiles, close: closeFileSource, getFrame: getFileFrame } = fileSource
+
+  const recorder = useSessionRecorder('hand')
+  const { start: startRecorder, record: recordResult, stop: stopRecorder } = recorder
+
+  const replay = useSessionReplay('hand', { onReady: resizeCanvases })
+  const { load: loadReplay, close: closeReplay, getFrame: getReplayFrame } = replay
+
+  const simulation = useSimulatedInput('hand', { onReady: resizeCanvases })
+  const { start: startSimulation, stop: stopSimulation, getFrame: getSimulatedFrame } = simulation
+
+  // Current frame from the loaded file, falling back to the camera
+  const getInputFrame = useCallback((): InputFrame | null => {
+    const fileFrame = getFileFrame()
+    if (fileFrame) return fileFrame
+    return videoRef.current ? { source: videoRef.current, time: videoRef.current.currentTime } : null
+  }, [getFileFrame])
+
   // Draw hand landmarks on canvas
   const drawLandmarks = useCallback(
     (ctx: CanvasRenderingContext2D, landmarks: NormalizedLandmark[], handedness: string) => {
@@ -312,7 +250,7 @@ export default function HandTrackingExperiment() {
       ctx.lineWidth = 3
       ctx.lineCap = 'round'
       
-      FINGER_CONNECTIONS.forEach(([start, end]) => {
+      HAND_CONNECTIONS.forEach(([start, end]) => {
         const startLandmark = landmarks[start]
         const endLandmark = landmarks[end]
         
@@ -328,7 +266,7 @@ export default function HandTrackingExperiment() {
         const y = landmark.y * height
         
         // Larger circle for fingertips
-        const isTip = [4, 8, 12, 16, 20].includes(index)
+        const isTip = HAND_FINGERTIPS.has(index)
         const radius = isTip ? 8 : 5
         
         ctx.beginPath()
@@ -375,44 +313,52 @@ export default function HandTrackingExperiment() {
     })
   }, [])
 
-  // Process video frame
-  const processFrame = useCallback(() => {
-    if (
-      !videoRef.current ||
-      !canvasRef.current ||
-      !handLandmarkerRef.current ||
-      videoRef.current.currentTime === lastVideoTimeRef.current
-    ) {
-      animationRef.current = requestAnimationFrame(processFrame)
-      return
+  // Next landmarker result: replayed or simulated, or the latest from the worker
+  const getFrameResults = useCallback((): HandFrameResult | null => {
+    const scriptedFrame = getReplayFrame() ?? getSimulatedFrame()
+    if (scriptedFrame) {
+      if (scriptedFrame.time === lastVideoTimeRef.current) return null
+      lastVideoTimeRef.current = scriptedFrame.time
+      return scriptedFrame.result
+    }
+    
+    // Hand a new input frame to the worker if it's free; otherwise try again next tick
+    const frame = getInputFrame()
+    if (frame && frame.time !== lastVideoTimeRef.current && detectHands(frame.source, performance.now())) {
+      lastVideoTimeRef.current = frame.time
     }
     
-    lastVideoTimeRef.current = videoRef.current.currentTime
+    const detection = takeResult()
+    if (!detection) return null
     
-    const results: HandLandmarkerResult = handLandmarkerRef.current.detectForVideo(
-      videoRef.current,
-      performance.now()
-    )
+    perfMonitor.record('inference', detection.inferenceMs)
+    recordResult(detection.result)
+    return detection.result
+  }, [getReplayFrame, getSimulatedFrame, getInputFrame, detectHands, takeResult, recordResult, perfMonitor])
+
+  // Process video frame
+  const processFrame = useCallback(() => {
+    const results = getFrameResults()
+    if (!results || !canvasRef.current) return
     
+    const drawStart = performance.now()
     const ctx = canvasRef.current.getContext('2d')
-    if (!ctx) {
-      animationRef.current = requestAnimationFrame(processFrame)
-      return
-    }
+    if (!ctx) return
     
     // Clear canvas
     ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
     
-    // Update hand count
-    setHandCount(results.landmarks.length)
+    // Smooth before drawing and classification (recordings keep the raw results)
+    const handLabels = results.landmarks.map((_, index) => results.handedness[index]?.[0]?.categoryName || 'Unknown')
+    const hands = smoother.apply(results.landmarks, handLabels)
     
     // Process each hand
     const newGestures = new Map<string, Gesture>()
     let isPinching = false
     let pinchPosition: { x: number; y: number } | null = null
     
-    results.landmarks.forEach((landmarks, index) => {
-      const handedness = results.handednesses[index]?.[0]?.categoryName || 'Unknown'
+    hands.forEach((landmarks, index) => {
+      const handedness = handLabels[index]
       const isRightHand = handedness === 'Right'
       
       // Draw landmarks
@@ -425,8 +371,8 @@ export default function HandTrackingExperiment() {
       // Check for pinch (for drawing)
       if (gesture === 'pinch' && drawMode) {
         isPinching = true
-        const thumbTip = landmarks[LANDMARKS.THUMB_TIP]
-        const indexTip = landmarks[LANDMARKS.INDEX_TIP]
+        const thumbTip = landmarks[HAND_LANDMARKS.THUMB_TIP]
+        const indexTip = landmarks[HAND_LANDMARKS.INDEX_TIP]
         pinchPosition = {
           x: ((thumbTip.x + indexTip.x) / 2) * canvasRef.current!.width,
           y: ((thumbTip.y + indexTip.y) / 2) * canvasRef.current!.height,
@@ -434,7 +380,13 @@ export default function HandTrackingExperiment() {
       }
     })
     
-    setDetectedGestures(newGestures)
+    // Throttle React updates; the overlay above is drawn on every result
+    const now = performance.now()
+    if (now - lastUiUpdateRef.current >= UI_UPDATE_INTERVAL) {
+      lastUiUpdateRef.current = now
+      setHandCount(hands.length)
+      setDetectedGestures(newGestures)
+    }
     
     // Handle drawing
     if (drawMode) {
@@ -461,39 +413,86 @@ export default function HandTrackingExperiment() {
       drawStrokes()
     }
     
-    animationRef.current = requestAnimationFrame(processFrame)
-  }, [drawLandmarks, drawStrokes, drawMode, currentColor])
+    perfMonitor.record('draw', performance.now() - drawStart)
+  }, [getFrameResults, drawLandmarks, drawStrokes, drawMode, currentColor, perfMonitor, smoother])
 
-  // Start tracking
-  const startTracking = useCallback(async () => {
-    const cameraReady = await startCamera()
-    if (!cameraReady) {
-      setIsLoading(false)
-      return
+  // Keep the running loop on the latest processFrame (draw mode, colour, input)
+  useEffect(() => {
+    processFrameRef.current = processFrame
+  }, [processFrame])
+
+  // Start processing loop
+  const startLoop = useCallback(() => {
+    lastVideoTimeRef.current = -1
+    const loop = () => {
+      perfMonitor.tick()
+      processFrameRef.current()
+      animationRef.current = requestAnimationFrame(loop)
     }
-    
-    setIsRunning(true)
-    setIsLoading(false)
-    
-    // Start processing loop
-    animationRef.current = requestAnimationFrame(processFrame)
-  }, [startCamera, processFrame])
+    animationRef.current = requestAnimationFrame(loop)
+  }, [perfMonitor])
+
+  // Start tracking
+  const startTracking = useCallback(() => startSession('start-camera', async () => {
+    await startCameraSource(savedCameraSelection(settings))
+    setInputMode('camera')
+    startLoop()
+  }), [startSession, startCameraSource, startLoop, settings])
+
+  // Start tracking on a local video or image sequence
+  const startWithFiles = useCallback((files: File[]) => startSession('load-files', async () => {
+    await loadFiles(files)
+    setInputMode('file')
+    startLoop()
+  }), [startSession, loadFiles, startLoop])
+
+  // Replay a recorded landmark session (needs neither camera nor model)
+  const startReplay = useCallback((file: File) => startSession('load-session', async () => {
+    await loadReplay(file)
+    setInputMode('replay')
+    startLoop()
+  }), [startSession, loadReplay, startLoop])
+
+  // Drive the page with generated landmarks (needs neither camera nor model)
+  const startSimulated = useCallback(() => startSession('simulate', async () => {
+    startSimulation()
+    setInputMode('simulated')
+    startLoop()
+  }), [startSession, startSimulation, startLoop])
 
-  // Stop tracking
-  const stopTracking = useCallback(() => {
+  // Start recording landmark results at the current input size
+  const startRecording = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    startRecorder(canvas.width, canvas.height, inputMode === 'camera' && camera.mirrored)
+  }, [startRecorder, inputMode, camera.mirrored])
+
+  // Stop the loop and release every input (called by the session on stop)
+  const stopInputs = useCallback(() => {
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current)
       animationRef.current = null
     }
-    
-    if (videoRef.current?.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks()
-      tracks.forEach((track) => track.stop())
-      videoRef.current.srcObject = null
-    }
-    
-    setIsRunning(false)
-  }, [])
+
+    stopCameraSource()
+    closeFileSource()
+    closeReplay()
+    stopSimulation()
+    stopRecorder() // Discards a recording in progress; handleStop saves it first
+    smoother.reset()
+  }, [stopCameraSource, closeFileSource, closeReplay, stopSimulation, stopRecorder, smoother])
+
+  useEffect(() => {
+    stopInputsRef.current = stopInputs
+  }, [stopInputs])
+
+  // The ⏹ Stop button saves a landmark recording in progress, as ⏹ Save Session
+  // would; leaving the page or a failure stops without saving
+  const handleStop = useCallback(() => {
+    const recording = stopRecorder()
+    if (recording && recording.frames.length > 0) downloadSession(recording)
+    stopTracking()
+  }, [stopRecorder, stopTracking])
 
   // Clear drawing
   const clearDrawing = useCallback(() => {
@@ -507,27 +506,9 @@ export default function HandTrackingExperiment() {
     }
   }, [])
 
-  // Initialize on mount
-  useEffect(() => {
-    let mounted = true
-    
-    const init = async () => {
-      const ready = await initHandLandmarker()
-      if (!mounted) return
-      
-      if (ready) {
-        setIsLoading(false)
-      }
-    }
-    
-    init()
-    
-    return () => {
-      mounted = false
-      stopTracking()
-      handLandmarkerRef.current?.close()
-    }
-  }, [initHandLandmarker, stopTracking])
+  const isMirrored = inputMode === 'replay'
+    ? replay.session?.mirrored
+    : inputMode === 'camera' && camera.mirrored
 
   return (
     <div className="experiment-page hand-tracking-page">
@@ -537,34 +518,39 @@ export default function HandTrackingExperiment() {
           <h1>Hand Tracking</h1>
           <p>MediaPipe hand detection & gesture recognition</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
-        <div className={`ar-container ${isRunning ? 'active' : ''}`}>
+        <div ref={containerRef} className={`ar-container ${isRunning ? 'active' : ''} ${isMirrored ? 'mirrored' : ''}`}>
           <video
             ref={videoRef}
             className="video-feed"
+            hidden={fileSource.kind === 'images'}
             playsInline
             muted
           />
+          <img
+            ref={imageRef}
+            className="video-feed"
+            hidden={fileSource.kind !== 'images'}
+            alt=""
+          />
           <canvas ref={canvasRef} className="landmarks-canvas" />
           <canvas ref={drawCanvasRef} className="draw-canvas" />
           
           {isLoading && (
             <div className="loading-overlay">
               <div className="loading-spinner" />
-              <p>{loadingProgress}</p>
+              <p>{progressLabel}</p>
             </div>
           )}
           
           {error && (
-            <div className="error-overlay">
-              <span className="error-icon">⚠️</span>
-              <p>{error}</p>
-              <button onClick={() => window.location.reload()}>
-                Retry
-              </button>
-            </div>
+            <ErrorScreen error={error} onRecover={retrySession}>
+              <ReplayButton onFile={startReplay} />
+              <SimulateButton onClick={startSimulated} />
+            </ErrorScreen>
           )}
           
           {!isRunning && !isLoading && !error && (
@@ -575,6 +561,9 @@ export default function HandTrackingExperiment() {
               <p className="permission-note">
                 Requires camera permission
               </p>
+              <FilePicker onFiles={startWithFiles} />
+              <ReplayButton onFile={startReplay} />
+              <SimulateButton onClick={startSimulated} />
             </div>
           )}
           
@@ -596,11 +585,17 @@ export default function HandTrackingExperiment() {
 
         {isRunning && (
           <div className="controls-bar">
-            <button onClick={stopTracking} className="control-button stop">
+            <button onClick={handleStop} className="control-button stop">
               ⏹ Stop
             </button>
+            {inputMode === 'camera' && <CameraPicker camera={camera} />}
+            {(inputMode === 'camera' || inputMode === 'file') && (
+              <RecordButton recorder={recorder} onStart={startRecording} />
+            )}
+            <PhotoCapture capture={photoCapture} buttonClassName="control-button" />
+            <VideoRecorder recorder={videoRecorder} buttonClassName="control-button" />
             <button
-              onClick={() => setDrawMode(!drawMode)}
+              onClick={() => setUrlState({ draw: !drawMode })}
               className={`control-button ${drawMode ? 'active' : ''}`}
             >
               {drawMode ? '🖊️ Draw ON' : '🖊️ Draw OFF'}
@@ -612,6 +607,14 @@ export default function HandTrackingExperiment() {
             )}
           </div>
         )}
+        
+        {isRunning && inputMode === 'file' && <PlaybackControls source={fileSource} />}
+        
+        {isRunning && <SmoothingControls smoothing={smoothing} />}
+        
+        {isRunning && (inputMode === 'camera' || inputMode === 'file') && (
+          <ModelOptions settings={experimentSettings} fields={MODEL_FIELDS} vision={vision} />
+        )}
       </div>
 
       {isRunning && drawMode && (
@@ -623,7 +626,7 @@ export default function HandTrackingExperiment() {
                 key={color}
                 className={`color-swatch ${currentColor === color ? 'active' : ''}`}
                 style={{ backgroundColor: color }}
-                onClick={() => setCurrentColor(color)}
+                onClick={() => setUrlState({ color })}
               />
             ))}
           </div>
@@ -661,6 +664,9 @@ export default function HandTrackingExperiment() {
           <li>
             <strong>WebGL Acceleration</strong> — GPU-powered inference for real-time tracking
           </li>
+          <li>
+            <strong>Web Worker</strong> — Inference runs off the main thread so the page stays responsive
+          </li>
         </ul>
         
         <h2>Hand Landmarks</h2>
@@ -691,6 +697,8 @@ export default function HandTrackingExperiment() {
           <li>Gesture-based gaming</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
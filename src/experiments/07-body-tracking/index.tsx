@@ -9,352 +9,223 @@
  * - Calculate joint angles for fitness/posture analysis
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import { Link } from 'react-router-dom'
-import {
-  FilesetResolver,
-  PoseLandmarker,
-} from '@mediapipe/tasks-vision'
-import type {
-  PoseLandmarkerResult,
-  NormalizedLandmark,
-} from '@mediapipe/tasks-vision'
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { POSE_CONNECTIONS, POSE_KEY_JOINTS, POSE_LANDMARKS, isVisible } from '../../lib/trackingCore'
+import { POSES, calculateJointAngles, detectPose } from '../../lib/poseClassifier'
+import type { JointAngles, Pose } from '../../lib/poseClassifier'
+import type { VisionDelegate, VisionTaskConfig } from '../../lib/visionTasks'
+import { VISION_DELEGATES, VISION_MODELS } from '../../lib/visionModels'
+import type { MediaPipeModel } from '../../lib/mediapipeAssets'
+import { defineUrlState, urlParam } from '../../lib/urlState'
+import { defineSettings, setting } from '../../lib/settingsStore'
+import { CAMERA_SETTINGS, savedCameraSelection, useCameraSource } from '../../hooks/useCameraSource'
+import type { CameraSelection } from '../../hooks/useCameraSource'
+import { useFileSource } from '../../hooks/useFileSource'
+import type { InputFrame } from '../../hooks/useFileSource'
+import { useSessionRecorder } from '../../hooks/useSessionRecorder'
+import { useSessionReplay } from '../../hooks/useSessionReplay'
+import { useSimulatedInput } from '../../hooks/useSimulatedInput'
+import { useExperimentSession } from '../../hooks/useExperimentSession'
+import type { SessionContext, SessionStep } from '../../hooks/useExperimentSession'
+import { usePerfMonitor } from '../../hooks/usePerfMonitor'
+import { usePhotoCapture } from '../../hooks/usePhotoCapture'
+import { useVideoRecorder } from '../../hooks/useVideoRecorder'
+import { useLandmarkSmoother } from '../../hooks/useLandmarkSmoother'
+import { useUrlState } from '../../hooks/useUrlState'
+import { useExperimentSettings } from '../../hooks/useExperimentSettings'
+import { useVisionTask } from '../../hooks/useVisionTask'
+import { downloadSession } from '../../lib/landmarkSession'
+import type { PoseFrameResult } from '../../lib/landmarkSession'
+import CameraPicker from '../../components/camera-picker'
+import FilePicker from '../../components/file-picker'
+import PlaybackControls from '../../components/playback-controls'
+import ErrorScreen from '../../components/error-screen'
+import PerfHud from '../../components/perf-hud'
+import PhotoCapture from '../../components/photo-capture'
+import VideoRecorder from '../../components/video-recorder'
+import SmoothingControls from '../../components/smoothing-controls'
+import SettingsPanel from '../../components/settings-panel'
+import ModelOptions from '../../components/model-options'
+import { RecordButton, ReplayButton, SimulateButton } from '../../components/session-controls'
 import './styles.css'
 
-// Body landmark indices (33 points)
-const LANDMARKS = {
-  NOSE: 0,
-  LEFT_EYE_INNER: 1,
-  LEFT_EYE: 2,
-  LEFT_EYE_OUTER: 3,
-  RIGHT_EYE_INNER: 4,
-  RIGHT_EYE: 5,
-  RIGHT_EYE_OUTER: 6,
-  LEFT_EAR: 7,
-  RIGHT_EAR: 8,
-  MOUTH_LEFT: 9,
-  MOUTH_RIGHT: 10,
-  LEFT_SHOULDER: 11,
-  RIGHT_SHOULDER: 12,
-  LEFT_ELBOW: 13,
-  RIGHT_ELBOW: 14,
-  LEFT_WRIST: 15,
-  RIGHT_WRIST: 16,
-  LEFT_PINKY: 17,
-  RIGHT_PINKY: 18,
-  LEFT_INDEX: 19,
-  RIGHT_INDEX: 20,
-  LEFT_THUMB: 21,
-  RIGHT_THUMB: 22,
-  LEFT_HIP: 23,
-  RIGHT_HIP: 24,
-  LEFT_KNEE: 25,
-  RIGHT_KNEE: 26,
-  LEFT_ANKLE: 27,
-  RIGHT_ANKLE: 28,
-  LEFT_HEEL: 29,
-  RIGHT_HEEL: 30,
-  LEFT_FOOT_INDEX: 31,
-  RIGHT_FOOT_INDEX: 32,
-}
-
-// Skeleton connections for drawing
-const SKELETON_CONNECTIONS = [
-  // Face
-  [LANDMARKS.LEFT_EAR, LANDMARKS.LEFT_EYE_OUTER],
-  [LANDMARKS.LEFT_EYE_OUTER, LANDMARKS.LEFT_EYE],
-  [LANDMARKS.LEFT_EYE, LANDMARKS.LEFT_EYE_INNER],
-  [LANDMARKS.LEFT_EYE_INNER, LANDMARKS.NOSE],
-  [LANDMARKS.NOSE, LANDMARKS.RIGHT_EYE_INNER],
-  [LANDMARKS.RIGHT_EYE_INNER, LANDMARKS.RIGHT_EYE],
-  [LANDMARKS.RIGHT_EYE, LANDMARKS.RIGHT_EYE_OUTER],
-  [LANDMARKS.RIGHT_EYE_OUTER, LANDMARKS.RIGHT_EAR],
-  [LANDMARKS.MOUTH_LEFT, LANDMARKS.MOUTH_RIGHT],
-  
-  // Torso
-  [LANDMARKS.LEFT_SHOULDER, LANDMARKS.RIGHT_SHOULDER],
-  [LANDMARKS.LEFT_SHOULDER, LANDMARKS.LEFT_HIP],
-  [LANDMARKS.RIGHT_SHOULDER, LANDMARKS.RIGHT_HIP],
-  [LANDMARKS.LEFT_HIP, LANDMARKS.RIGHT_HIP],
-  
-  // Left arm
-  [LANDMARKS.LEFT_SHOULDER, LANDMARKS.LEFT_ELBOW],
-  [LANDMARKS.LEFT_ELBOW, LANDMARKS.LEFT_WRIST],
-  [LANDMARKS.LEFT_WRIST, LANDMARKS.LEFT_PINKY],
-  [LANDMARKS.LEFT_WRIST, LANDMARKS.LEFT_INDEX],
-  [LANDMARKS.LEFT_WRIST, LANDMARKS.LEFT_THUMB],
-  [LANDMARKS.LEFT_PINKY, LANDMARKS.LEFT_INDEX],
-  
-  // Right arm
-  [LANDMARKS.RIGHT_SHOULDER, LANDMARKS.RIGHT_ELBOW],
-  [LANDMARKS.RIGHT_ELBOW, LANDMARKS.RIGHT_WRIST],
-  [LANDMARKS.RIGHT_WRIST, LANDMARKS.RIGHT_PINKY],
-  [LANDMARKS.RIGHT_WRIST, LANDMARKS.RIGHT_INDEX],
-  [LANDMARKS.RIGHT_WRIST, LANDMARKS.RIGHT_THUMB],
-  [LANDMARKS.RIGHT_PINKY, LANDMARKS.RIGHT_INDEX],
-  
-  // Left leg
-  [LANDMARKS.LEFT_HIP, LANDMARKS.LEFT_KNEE],
-  [LANDMARKS.LEFT_KNEE, LANDMARKS.LEFT_ANKLE],
-  [LANDMARKS.LEFT_ANKLE, LANDMARKS.LEFT_HEEL],
-  [LANDMARKS.LEFT_ANKLE, LANDMARKS.LEFT_FOOT_INDEX],
-  [LANDMARKS.LEFT_HEEL, LANDMARKS.LEFT_FOOT_INDEX],
-  
-  // Right leg
-  [LANDMARKS.RIGHT_HIP, LANDMARKS.RIGHT_KNEE],
-  [LANDMARKS.RIGHT_KNEE, LANDMARKS.RIGHT_ANKLE],
-  [LANDMARKS.RIGHT_ANKLE, LANDMARKS.RIGHT_HEEL],
-  [LANDMARKS.RIGHT_ANKLE, LANDMARKS.RIGHT_FOOT_INDEX],
-  [LANDMARKS.RIGHT_HEEL, LANDMARKS.RIGHT_FOOT_INDEX],
-]
-
-// Pose types
-type Pose = 'standing' | 't_pose' | 'arms_up' | 'hands_on_hips' | 'sitting' | 'leaning' | 'unknown'
-
-interface PoseInfo {
-  name: string
-  emoji: string
-  description: string
-}
-
-const POSES: Record<Pose, PoseInfo> = {
-  standing: { name: 'Standing', emoji: '🧍', description: 'Upright neutral position' },
-  t_pose: { name: 'T-Pose', emoji: '✝️', description: 'Arms extended horizontally' },
-  arms_up: { name: 'Arms Up', emoji: '🙌', description: 'Both arms raised overhead' },
-  hands_on_hips: { name: 'Hands on Hips', emoji: '💁', description: 'Arms bent, hands at waist' },
-  sitting: { name: 'Sitting', emoji: '🪑', description: 'Seated or crouching position' },
-  leaning: { name: 'Leaning', emoji: '↗️', description: 'Body tilted to one side' },
-  unknown: { name: 'Unknown', emoji: '❓', description: 'Pose not recognized' },
-}
-
 // Person colors for multi-person tracking
 const PERSON_COLORS = ['#06b6d4', '#8b5cf6', '#f43f5e', '#22c55e', '#f59e0b', '#ec4899']
 
-// Utility: Calculate angle between three points
-function calculateAngle(
-  a: NormalizedLandmark,
-  b: NormalizedLandmark, // vertex
-  c: NormalizedLandmark
-): number {
-  const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x)
-  let angle = Math.abs((radians * 180) / Math.PI)
-  if (angle > 180) angle = 360 - angle
-  return angle
-}
+// Options restored from and shared through the URL
+const URL_STATE = defineUrlState({
+  skeleton: { key: 'skeleton', codec: urlParam.boolean, fallback: true },
+  angles: { key: 'angles', codec: urlParam.boolean, fallback: false },
+})
 
-// Utility: Calculate distance between two points
-function distance(a: NormalizedLandmark, b: NormalizedLandmark): number {
-  const dx = a.x - b.x
-  const dy = a.y - b.y
-  return Math.sqrt(dx * dx + dy * dy)
-}
+const confidenceSetting = (label: string) => setting.range({ label, min: 0.1, max: 0.9, step: 0.05, fallback: 0.5 })
 
-// Utility: Check if landmark is visible enough
-function isVisible(landmark: NormalizedLandmark, threshold = 0.5): boolean {
-  return (landmark.visibility ?? 0) > threshold
-}
+// Preferences saved in this browser; the URL options above default to them
+const SETTINGS = defineSettings({
+  experiment: '07-body-tracking',
+  version: 1,
+  fields: {
+    ...CAMERA_SETTINGS,
+    model: setting.choice<MediaPipeModel>({ label: 'Model', options: VISION_MODELS.pose, fallback: 'pose_landmarker_lite' }),
+    delegate: setting.choice<VisionDelegate>({ label: 'Delegate', options: VISION_DELEGATES, fallback: 'GPU' }),
+    numPoses: setting.range({ label: 'Max people', min: 1, max: 5, step: 1, fallback: 3 }),
+    minPoseDetectionConfidence: confidenceSetting('Pose detection confidence'),
+    minPosePresenceConfidence: confidenceSetting('Pose presence confidence'),
+    minTrackingConfidence: confidenceSetting('Tracking confidence'),
+    skeleton: setting.toggle({ label: 'Show skeleton', fallback: URL_STATE.skeleton.fallback }),
+    angles: setting.toggle({ label: 'Show joint angles', fallback: URL_STATE.angles.fallback }),
+  },
+  migrations: {},
+})
 
-// Detect pose from landmarks
-function detectPose(landmarks: NormalizedLandmark[]): Pose {
-  const leftShoulder = landmarks[LANDMARKS.LEFT_SHOULDER]
-  const rightShoulder = landmarks[LANDMARKS.RIGHT_SHOULDER]
-  const leftElbow = landmarks[LANDMARKS.LEFT_ELBOW]
-  const rightElbow = landmarks[LANDMARKS.RIGHT_ELBOW]
-  const leftWrist = landmarks[LANDMARKS.LEFT_WRIST]
-  const rightWrist = landmarks[LANDMARKS.RIGHT_WRIST]
-  const leftHip = landmarks[LANDMARKS.LEFT_HIP]
-  const rightHip = landmarks[LANDMARKS.RIGHT_HIP]
-  const leftKnee = landmarks[LANDMARKS.LEFT_KNEE]
-  const rightKnee = landmarks[LANDMARKS.RIGHT_KNEE]
-  
-  // Check visibility of key landmarks
-  const upperBodyVisible = isVisible(leftShoulder) && isVisible(rightShoulder) &&
-                          isVisible(leftHip) && isVisible(rightHip)
-  
-  if (!upperBodyVisible) return 'unknown'
-  
-  // Calculate key angles
-  const leftArmAngle = calculateAngle(leftShoulder, leftElbow, leftWrist)
-  const rightArmAngle = calculateAngle(rightShoulder, rightElbow, rightWrist)
-  const leftShoulderAngle = calculateAngle(leftHip, leftShoulder, leftElbow)
-  const rightShoulderAngle = calculateAngle(rightHip, rightShoulder, rightElbow)
-  const leftKneeAngle = isVisible(leftKnee) ? calculateAngle(leftHip, leftKnee, landmarks[LANDMARKS.LEFT_ANKLE]) : 180
-  const rightKneeAngle = isVisible(rightKnee) ? calculateAngle(rightHip, rightKnee, landmarks[LANDMARKS.RIGHT_ANKLE]) : 180
-  
-  // Calculate torso tilt
-  const shoulderCenter = { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 }
-  const hipCenter = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 }
-  const torsoTilt = Math.abs(shoulderCenter.x - hipCenter.x) / distance(leftShoulder, rightShoulder)
-  
-  // Arms up: both wrists above shoulders
-  if (leftWrist.y < leftShoulder.y - 0.1 && rightWrist.y < rightShoulder.y - 0.1) {
-    // Check if arms are mostly straight up
-    if (leftShoulderAngle > 150 && rightShoulderAngle > 150) {
-      return 'arms_up'
-    }
-  }
-  
-  // T-Pose: arms extended horizontally
-  if (leftShoulderAngle > 70 && leftShoulderAngle < 110 &&
-      rightShoulderAngle > 70 && rightShoulderAngle < 110 &&
-      leftArmAngle > 150 && rightArmAngle > 150) {
-    const leftWristLevel = Math.abs(leftWrist.y - leftShoulder.y)
-    const rightWristLevel = Math.abs(rightWrist.y - rightShoulder.y)
-    if (leftWristLevel < 0.15 && rightWristLevel < 0.15) {
-      return 't_pose'
-    }
-  }
-  
-  // Hands on hips: wrists near hips, elbows bent outward
-  const leftWristNearHip = distance(leftWrist, leftHip) < 0.15
-  const rightWristNearHip = distance(rightWrist, rightHip) < 0.15
-  if (leftWristNearHip && rightWristNearHip &&
-      leftArmAngle < 120 && rightArmAngle < 120) {
-    return 'hands_on_hips'
-  }
-  
-  // Sitting: knees significantly bent
-  if (leftKneeAngle < 120 && rightKneeAngle < 120) {
-    return 'sitting'
-  }
-  
-  // Leaning: significant torso tilt
-  if (torsoTilt > 0.3) {
-    return 'leaning'
-  }
-  
-  // Standing: relatively upright, legs straight
-  if (leftKneeAngle > 150 && rightKneeAngle > 150 && torsoTilt < 0.2) {
-    return 'standing'
-  }
-  
-  return 'unknown'
-}
+// Saved settings shown in the live model options panel
+const MODEL_FIELDS = [
+  'model',
+  'delegate',
+  'numPoses',
+  'minPoseDetectionConfidence',
+  'minPosePresenceConfidence',
+  'minTrackingConfidence',
+] as const
+
+const UI_UPDATE_INTERVAL = 100 // ms between React state updates from the render loop
+
+// Session lifecycle steps
+type BodySessionStep = 'load-mediapipe' | 'create-detector' | 'detect' | 'start-camera' | 'load-files' | 'load-session' | 'simulate'
 
-// Calculate joint angles for analysis display
-function calculateJointAngles(landmarks: NormalizedLandmark[]) {
-  return {
-    leftElbow: Math.round(calculateAngle(
-      landmarks[LANDMARKS.LEFT_SHOULDER],
-      landmarks[LANDMARKS.LEFT_ELBOW],
-      landmarks[LANDMARKS.LEFT_WRIST]
-    )),
-    rightElbow: Math.round(calculateAngle(
-      landmarks[LANDMARKS.RIGHT_SHOULDER],
-      landmarks[LANDMARKS.RIGHT_ELBOW],
-      landmarks[LANDMARKS.RIGHT_WRIST]
-    )),
-    leftKnee: Math.round(calculateAngle(
-      landmarks[LANDMARKS.LEFT_HIP],
-      landmarks[LANDMARKS.LEFT_KNEE],
-      landmarks[LANDMARKS.LEFT_ANKLE]
-    )),
-    rightKnee: Math.round(calculateAngle(
-      landmarks[LANDMARKS.RIGHT_HIP],
-      landmarks[LANDMARKS.RIGHT_KNEE],
-      landmarks[LANDMARKS.RIGHT_ANKLE]
-    )),
-    leftShoulder: Math.round(calculateAngle(
-      landmarks[LANDMARKS.LEFT_HIP],
-      landmarks[LANDMARKS.LEFT_SHOULDER],
-      landmarks[LANDMARKS.LEFT_ELBOW]
-    )),
-    rightShoulder: Math.round(calculateAngle(
-      landmarks[LANDMARKS.RIGHT_HIP],
-      landmarks[LANDMARKS.RIGHT_SHOULDER],
-      landmarks[LANDMARKS.RIGHT_ELBOW]
-    )),
-  }
+const SESSION_STEPS: Record<BodySessionStep, SessionStep> = {
+  'load-mediapipe': { label: 'Loading MediaPipe...', failure: 'asset-load' },
+  'create-detector': { label: 'Creating pose detector...', failure: 'model-init' },
+  'detect': { label: 'Detecting poses...', failure: 'model-init' },
+  'start-camera': { label: 'Starting camera...', failure: 'no-camera' },
+  'load-files': { label: 'Loading files...', failure: 'invalid-file' },
+  'load-session': { label: 'Loading session...', failure: 'invalid-file' },
+  'simulate': { label: 'Starting simulation...', failure: 'model-init' },
 }
 
 export default function BodyTrackingExperiment() {
+  const containerRef = useRef<HTMLDivElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const poseLandmarkerRef = useRef<PoseLandmarker | null>(null)
+  const workerErrorRef = useRef<(err: Error) => void>(() => {})
   const animationRef = useRef<number | null>(null)
+  const processFrameRef = useRef<() => void>(() => {})
+  const stopInputsRef = useRef<() => void>(() => {})
   const lastVideoTimeRef = useRef(-1)
+  const lastUiUpdateRef = useRef(0)
   
-  const [isLoading, setIsLoading] = useState(true)
-  const [isRunning, setIsRunning] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [loadingProgress, setLoadingProgress] = useState('Initializing...')
+  const [inputMode, setInputMode] = useState<'camera' | 'file' | 'replay' | 'simulated'>('camera')
   const [poseCount, setPoseCount] = useState(0)
   const [detectedPoses, setDetectedPoses] = useState<Pose[]>([])
-  const [jointAngles, setJointAngles] = useState<ReturnType<typeof calculateJointAngles> | null>(null)
-  const [showAngles, setShowAngles] = useState(false)
-  const [showSkeleton, setShowSkeleton] = useState(true)
-
-  // Initialize PoseLandmarker
-  const initPoseLandmarker = useCallback(async () => {
-    try {
-      setLoadingProgress('Loading MediaPipe...')
-      
-      const vision = await FilesetResolver.forVisionTasks(
-        'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-      )
-      
-      setLoadingProgress('Creating pose detector...')
-      
-      const poseLandmarker = await PoseLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/latest/pose_landmarker_lite.task',
-          delegate: 'GPU',
-        },
-        runningMode: 'VIDEO',
-        numPoses: 3, // Track up to 3 people
-        minPoseDetectionConfidence: 0.5,
-        minPosePresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      })
-      
-      poseLandmarkerRef.current = poseLandmarker
-      setLoadingProgress('Ready!')
-      return true
-    } catch (err) {
-      console.error('Failed to initialize PoseLandmarker:', err)
-      setError('Failed to load pose detection model. Please check your internet connection.')
-      return false
-    }
-  }, [])
+  const [jointAngles, setJointAngles] = useState<JointAngles | null>(null)
+  const experimentSettings = useExperimentSettings(SETTINGS)
+  const { settings, update: updateSettings } = experimentSettings
+  const [urlState, setUrlState] = useUrlState(URL_STATE, settings)
+  const { angles: showAngles, skeleton: showSkeleton } = urlState
 
-  // Start camera
-  const startCamera = useCallback(async () => {
-    try {
-      setLoadingProgress('Starting camera...')
-      
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          facingMode: 'user',
-        },
-      })
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream
-        await new Promise<void>((resolve) => {
-          videoRef.current!.onloadedmetadata = () => {
-            videoRef.current!.play()
-            resolve()
-          }
-        })
-        
-        // Size canvas to match video
-        if (canvasRef.current) {
-          canvasRef.current.width = videoRef.current.videoWidth
-          canvasRef.current.height = videoRef.current.videoHeight
-        }
-      }
-      
-      return true
-    } catch (err) {
-      console.error('Failed to start camera:', err)
-      setError('Failed to access camera. Please grant camera permission.')
-      return false
+  // Landmarker settings for the inference worker; changing them rebuilds it
+  const { model, delegate, numPoses, minPoseDetectionConfidence, minPosePresenceConfidence, minTrackingConfidence } = settings
+  const poseTask = useMemo((): VisionTaskConfig<'pose'> => ({
+    model,
+    delegate,
+    settings: { numPoses, minPoseDetectionConfidence, minPosePresenceConfidence, minTrackingConfidence },
+  }), [model, delegate, numPoses, minPoseDetectionConfidence, minPosePresenceConfidence, minTrackingConfidence])
+
+  // Failures while running go through a ref: the session is created below
+  const handleWorkerError = useCallback((err: Error) => workerErrorRef.current(err), [])
+
+  const vision = useVisionTask('pose', poseTask, { onError: handleWorkerError })
+  const { create: createWorker, close: closePoseLandmarker, detect: detectPoses, takeResult } = vision
+
+  // Start the pose landmarker in the inference worker
+  const initPoseLandmarker = useCallback(({ signal, progress }: SessionContext<BodySessionStep>) => {
+    return createWorker({ signal, onLoaded: () => progress('create-detector') })
+  }, [createWorker])
+
+  // Stopping goes through a ref: the inputs below are created after the session
+  const handleSessionStop = useCallback(() => stopInputsRef.current(), [])
+
+  const perf = usePerfMonitor('07-body-tracking', {
+    model: vision.config?.model ?? model,
+    delegate: vision.delegate,
+  })
+  const { monitor: perfMonitor } = perf
+
+  const smoothing = useLandmarkSmoother()
+  const { smoother } = smoothing
+
+  const photoCapture = usePhotoCapture(containerRef, { name: '07-body-tracking' })
+
+  const session = useExperimentSession({
+    steps: SESSION_STEPS,
+    initialStep: 'load-mediapipe',
+    init: initPoseLandmarker,
+    onStop: handleSessionStop,
+    dispose: closePoseLandmarker,
+  })
+  const { start: startSession, stop: stopTracking, fail: failSession, retry: retrySession } = session
+  const { isLoading, isRunning, error, progressLabel } = session
+
+  const videoRecorder = useVideoRecorder(containerRef, { name: '07-body-tracking', active: isRunning })
+
+  useEffect(() => {
+    workerErrorRef.current = (err) => failSession('detect', err)
+  }, [failSession])
+
+  // Size canvas to match the input (runs again whenever the source changes)
+  const resizeCanvas = useCallback((width: number, height: number) => {
+    if (canvasRef.current) {
+      canvasRef.current.width = width
+      canvasRef.current.height = height
     }
   }, [])
 
+  const handleCameraReady = useCallback((video: HTMLVideoElement) => {
+    resizeCanvas(video.videoWidth, video.videoHeight)
+  }, [resizeCanvas])
+
+  const handleCameraError = useCallback((err: unknown) => {
+    failSession('start-camera', err)
+  }, [failSession])
+
+  // Remember the camera picked in the camera picker
+  const handleCameraChoice = useCallback((selection: CameraSelection) => {
+    updateSettings(savedCameraSelection(selection))
+  }, [updateSettings])
+
+  const camera = useCameraSource(videoRef, {
+    onReady: handleCameraReady,
+    onError: handleCameraError,
+    onSelectionChange: handleCameraChoice,
+  })
+  const { start: startCameraSource, stop: stopCameraSource } = camera
+
+  const handleFileError = useCallback((err: unknown) => {
+    failSession('load-files', err)
+  }, [failSession])
+
+  const fileSource = useFileSource(videoRef, imageRef, { onReady: resizeCanvas, onError: handleFileError })
+  const { load: loadFiles, close: closeFileSource, getFrame: getFileFrame } = fileSource
+
+  const recorder = useSessionRecorder('pose')
+  const { start: startRecorder, record: recordResult, stop: stopRecorder } = recorder
+
+  const replay = useSessionReplay('pose', { onReady: resizeCanvas })
+  const { load: loadReplay, close: closeReplay, getFrame: getReplayFrame } = replay
+
+  const simulation = useSimulatedInput('pose', { onReady: resizeCanvas })
+  const { start: startSimulation, stop: stopSimulation, getFrame: getSimulatedFrame } = simulation
+
+  // Current frame from the loaded file, falling back to the camera
+  const getInputFrame = useCallback((): InputFrame | null => {
+    const fileFrame = getFileFrame()
+    if (fileFrame) return fileFrame
+    return videoRef.current ? { source: videoRef.current, time: videoRef.current.currentTime } : null
+  }, [getFileFrame])
+
   // Draw skeleton on canvas
   const drawSkeleton = useCallback(
     (ctx: CanvasRenderingContext2D, landmarks: NormalizedLandmark[], color: string) => {
@@ -368,12 +239,12 @@ export default function BodyTrackingExperiment() {
       ctx.lineWidth = 3
       ctx.lineCap = 'round'
       
-      SKELETON_CONNECTIONS.forEach(([startIdx, endIdx]) => {
+      POSE_CONNECTIONS.forEach(([startIdx, endIdx]) => {
         const start = landmarks[startIdx]
         const end = landmarks[endIdx]
         
         // Only draw if both landmarks are visible
-        if ((start.visibility ?? 0) > 0.5 && (end.visibility ?? 0) > 0.5) {
+        if (isVisible(start) && isVisible(end)) {
           ctx.beginPath()
           ctx.moveTo(start.x * width, start.y * height)
           ctx.lineTo(end.x * width, end.y * height)
@@ -383,21 +254,13 @@ export default function BodyTrackingExperiment() {
       
       // Draw landmark points
       landmarks.forEach((landmark, index) => {
-        if ((landmark.visibility ?? 0) < 0.5) return
+        if (!isVisible(landmark)) return
         
         const x = landmark.x * width
         const y = landmark.y * height
         
         // Larger circles for key joints
-        const isKeyJoint = [
-          LANDMARKS.NOSE,
-          LANDMARKS.LEFT_SHOULDER, LANDMARKS.RIGHT_SHOULDER,
-          LANDMARKS.LEFT_ELBOW, LANDMARKS.RIGHT_ELBOW,
-          LANDMARKS.LEFT_WRIST, LANDMARKS.RIGHT_WRIST,
-          LANDMARKS.LEFT_HIP, LANDMARKS.RIGHT_HIP,
-          LANDMARKS.LEFT_KNEE, LANDMARKS.RIGHT_KNEE,
-          LANDMARKS.LEFT_ANKLE, LANDMARKS.RIGHT_ANKLE,
-        ].includes(index)
+        const isKeyJoint = POSE_KEY_JOINTS.includes(index)
         
         const radius = isKeyJoint ? 6 : 3
         
@@ -421,14 +284,14 @@ export default function BodyTrackingExperiment() {
         
         const angles = calculateJointAngles(landmarks)
         const anglePositions = [
-          { angle: angles.leftElbow, landmark: landmarks[LANDMARKS.LEFT_ELBOW] },
-          { angle: angles.rightElbow, landmark: landmarks[LANDMARKS.RIGHT_ELBOW] },
-          { angle: angles.leftKnee, landmark: landmarks[LANDMARKS.LEFT_KNEE] },
-          { angle: angles.rightKnee, landmark: landmarks[LANDMARKS.RIGHT_KNEE] },
+          { angle: angles.leftElbow, landmark: landmarks[POSE_LANDMARKS.LEFT_ELBOW] },
+          { angle: angles.rightElbow, landmark: landmarks[POSE_LANDMARKS.RIGHT_ELBOW] },
+          { angle: angles.leftKnee, landmark: landmarks[POSE_LANDMARKS.LEFT_KNEE] },
+          { angle: angles.rightKnee, landmark: landmarks[POSE_LANDMARKS.RIGHT_KNEE] },
         ]
         
         anglePositions.forEach(({ angle, landmark }) => {
-          if ((landmark.visibility ?? 0) > 0.5) {
+          if (isVisible(landmark)) {
             const x = landmark.x * width + 10
             const y = landmark.y * height
             const text = `${angle}°`
@@ -441,41 +304,48 @@ export default function BodyTrackingExperiment() {
     [showSkeleton, showAngles]
   )
 
-  // Process video frame
-  const processFrame = useCallback(() => {
-    if (
-      !videoRef.current ||
-      !canvasRef.current ||
-      !poseLandmarkerRef.current ||
-      videoRef.current.currentTime === lastVideoTimeRef.current
-    ) {
-      animationRef.current = requestAnimationFrame(processFrame)
-      return
+  // Next landmarker result: replayed or simulated, or the latest from the worker
+  const getFrameResults = useCallback((): PoseFrameResult | null => {
+    const scriptedFrame = getReplayFrame() ?? getSimulatedFrame()
+    if (scriptedFrame) {
+      if (scriptedFrame.time === lastVideoTimeRef.current) return null
+      lastVideoTimeRef.current = scriptedFrame.time
+      return scriptedFrame.result
     }
     
-    lastVideoTimeRef.current = videoRef.current.currentTime
+    // Hand a new input frame to the worker if it's free; otherwise try again next tick
+    const frame = getInputFrame()
+    if (frame && frame.time !== lastVideoTimeRef.current && detectPoses(frame.source, performance.now())) {
+      lastVideoTimeRef.current = frame.time
+    }
     
-    const results: PoseLandmarkerResult = poseLandmarkerRef.current.detectForVideo(
-      videoRef.current,
-      performance.now()
-    )
+    const detection = takeResult()
+    if (!detection) return null
     
+    perfMonitor.record('inference', detection.inferenceMs)
+    recordResult(detection.result)
+    return detection.result
+  }, [getReplayFrame, getSimulatedFrame, getInputFrame, detectPoses, takeResult, recordResult, perfMonitor])
+
+  // Process video frame
+  const processFrame = useCallback(() => {
+    const results = getFrameResults()
+    if (!results || !canvasRef.current) return
+    
+    const drawStart = performance.now()
     const ctx = canvasRef.current.getContext('2d')
-    if (!ctx) {
-      animationRef.current = requestAnimationFrame(processFrame)
-      return
-    }
+    if (!ctx) return
     
     // Clear canvas
     ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
     
-    // Update pose count
-    setPoseCount(results.landmarks.length)
+    // Smooth before drawing, classification and angles (recordings keep the raw results)
+    const people = smoother.apply(results.landmarks)
     
     // Process each detected person
     const poses: Pose[] = []
     
-    results.landmarks.forEach((landmarks, index) => {
+    people.forEach((landmarks, index) => {
       const color = PERSON_COLORS[index % PERSON_COLORS.length]
       
       // Draw skeleton
@@ -484,72 +354,107 @@ export default function BodyTrackingExperiment() {
       // Detect pose
       const pose = detectPose(landmarks)
       poses.push(pose)
+    })
+    
+    // Throttle React updates; the overlay above is drawn on every result
+    const now = performance.now()
+    if (now - lastUiUpdateRef.current >= UI_UPDATE_INTERVAL) {
+      lastUiUpdateRef.current = now
+      setPoseCount(people.length)
+      setDetectedPoses(poses)
       
       // Calculate joint angles for first person only
-      if (index === 0) {
-        setJointAngles(calculateJointAngles(landmarks))
+      if (people[0]) {
+        setJointAngles(calculateJointAngles(people[0]))
       }
-    })
-    
-    setDetectedPoses(poses)
-    
-    animationRef.current = requestAnimationFrame(processFrame)
-  }, [drawSkeleton])
+    }
+    perfMonitor.record('draw', performance.now() - drawStart)
+  }, [getFrameResults, drawSkeleton, perfMonitor, smoother])
 
-  // Start tracking
-  const startTracking = useCallback(async () => {
-    const cameraReady = await startCamera()
-    if (!cameraReady) {
-      setIsLoading(false)
-      return
+  // Keep the running loop on the latest processFrame (overlay toggles, input)
+  useEffect(() => {
+    processFrameRef.current = processFrame
+  }, [processFrame])
+
+  // Start processing loop
+  const startLoop = useCallback(() => {
+    lastVideoTimeRef.current = -1
+    const loop = () => {
+      perfMonitor.tick()
+      processFrameRef.current()
+      animationRef.current = requestAnimationFrame(loop)
     }
-    
-    setIsRunning(true)
-    setIsLoading(false)
-    
-    // Start processing loop
-    animationRef.current = requestAnimationFrame(processFrame)
-  }, [startCamera, processFrame])
+    animationRef.current = requestAnimationFrame(loop)
+  }, [perfMonitor])
+
+  // Start tracking
+  const startTracking = useCallback(() => startSession('start-camera', async () => {
+    await startCameraSource(savedCameraSelection(settings))
+    setInputMode('camera')
+    startLoop()
+  }), [startSession, startCameraSource, startLoop, settings])
+
+  // Start tracking on a local video or image sequence
+  const startWithFiles = useCallback((files: File[]) => startSession('load-files', async () => {
+    await loadFiles(files)
+    setInputMode('file')
+    startLoop()
+  }), [startSession, loadFiles, startLoop])
+
+  // Replay a recorded landmark session (needs neither camera nor model)
+  const startReplay = useCallback((file: File) => startSession('load-session', async () => {
+    await loadReplay(file)
+    setInputMode('replay')
+    startLoop()
+  }), [startSession, loadReplay, startLoop])
+
+  // Drive the page with generated landmarks (needs neither camera nor model)
+  const startSimulated = useCallback(() => startSession('simulate', async () => {
+    startSimulation()
+    setInputMode('simulated')
+    startLoop()
+  }), [startSession, startSimulation, startLoop])
 
-  // Stop tracking
-  const stopTracking = useCallback(() => {
+  // Start recording landmark results at the current input size
+  const startRecording = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    startRecorder(canvas.width, canvas.height, inputMode === 'camera' && camera.mirrored)
+  }, [startRecorder, inputMode, camera.mirrored])
+
+  // Stop the loop and release every input (called by the session on stop)
+  const stopInputs = useCallback(() => {
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current)
       animationRef.current = null
     }
+
+    stopCameraSource()
+    closeFileSource()
+    closeReplay()
+    stopSimulation()
+    stopRecorder() // Discards a recording in progress; handleStop saves it first
+    smoother.reset()
     
-    if (videoRef.current?.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks()
-      tracks.forEach((track) => track.stop())
-      videoRef.current.srcObject = null
-    }
-    
-    setIsRunning(false)
     setJointAngles(null)
     setDetectedPoses([])
-  }, [])
+  }, [stopCameraSource, closeFileSource, closeReplay, stopSimulation, stopRecorder, smoother])
 
-  // Initialize on mount
   useEffect(() => {
-    let mounted = true
-    
-    const init = async () => {
-      const ready = await initPoseLandmarker()
-      if (!mounted) return
-      
-      if (ready) {
-        setIsLoading(false)
-      }
-    }
-    
-    init()
-    
-    return () => {
-      mounted = false
-      stopTracking()
-      poseLandmarkerRef.current?.close()
-    }
-  }, [initPoseLandmarker, stopTracking])
+    stopInputsRef.current = stopInputs
+  }, [stopInputs])
+
+  // The ⏹ Stop button saves a landmark recording in progress, as ⏹ Save Session
+  // would; leaving the page or a failure stops without saving
+  const handleStop = useCallback(() => {
+    const recording = stopRecorder()
+    if (recording && recording.frames.length > 0) downloadSession(recording)
+    stopTracking()
+  }, [stopRecorder, stopTracking])
+
+  const isMirrored = inputMode === 'replay'
+    ? replay.session?.mirrored
+    : inputMode === 'camera' && camera.mirrored
 
   return (
     <div className="experiment-page body-tracking-page">
@@ -559,33 +464,38 @@ export default function BodyTrackingExperiment() {
           <h1>Body Tracking</h1>
           <p>MediaPipe full-body pose detection & analysis</p>
         </div>
+        <SettingsPanel settings={experimentSettings} />
       </header>
 
       <div className="ar-container-wrapper">
-        <div className={`ar-container ${isRunning ? 'active' : ''}`}>
+        <div ref={containerRef} className={`ar-container ${isRunning ? 'active' : ''} ${isMirrored ? 'mirrored' : ''}`}>
           <video
             ref={videoRef}
             className="video-feed"
+            hidden={fileSource.kind === 'images'}
             playsInline
             muted
           />
+          <img
+            ref={imageRef}
+            className="video-feed"
+            hidden={fileSource.kind !== 'images'}
+            alt=""
+          />
           <canvas ref={canvasRef} className="landmarks-canvas" />
           
           {isLoading && (
             <div className="loading-overlay">
               <div className="loading-spinner" />
-              <p>{loadingProgress}</p>
+              <p>{progressLabel}</p>
             </div>
           )}
           
           {error && (
-            <div className="error-overlay">
-              <span className="error-icon">⚠️</span>
-              <p>{error}</p>
-              <button onClick={() => window.location.reload()}>
-                Retry
-              </button>
-            </div>
+            <ErrorScreen error={error} onRecover={retrySession}>
+              <ReplayButton onFile={startReplay} />
+              <SimulateButton onClick={startSimulated} />
+            </ErrorScreen>
           )}
           
           {!isRunning && !isLoading && !error && (
@@ -596,6 +506,9 @@ export default function BodyTrackingExperiment() {
               <p className="permission-note">
                 Requires camera permission
               </p>
+              <FilePicker onFiles={startWithFiles} />
+              <ReplayButton onFile={startReplay} />
+              <SimulateButton onClick={startSimulated} />
             </div>
           )}
           
@@ -620,23 +533,37 @@ export default function BodyTrackingExperiment() {
 
         {isRunning && (
           <div className="controls-bar">
-            <button onClick={stopTracking} className="control-button stop">
+            <button onClick={handleStop} className="control-button stop">
               ⏹ Stop
             </button>
+            {inputMode === 'camera' && <CameraPicker camera={camera} />}
+            {(inputMode === 'camera' || inputMode === 'file') && (
+              <RecordButton recorder={recorder} onStart={startRecording} />
+            )}
+            <PhotoCapture capture={photoCapture} buttonClassName="control-button" />
+            <VideoRecorder recorder={videoRecorder} buttonClassName="control-button" />
             <button
-              onClick={() => setShowSkeleton(!showSkeleton)}
+              onClick={() => setUrlState({ skeleton: !showSkeleton })}
               className={`control-button ${showSkeleton ? 'active' : ''}`}
             >
               {showSkeleton ? '🦴 Skeleton ON' : '🦴 Skeleton OFF'}
             </button>
             <button
-              onClick={() => setShowAngles(!showAngles)}
+              onClick={() => setUrlState({ angles: !showAngles })}
               className={`control-button ${showAngles ? 'active' : ''}`}
             >
               {showAngles ? '📐 Angles ON' : '📐 Angles OFF'}
             </button>
           </div>
         )}
+        
+        {isRunning && inputMode === 'file' && <PlaybackControls source={fileSource} />}
+        
+        {isRunning && <SmoothingControls smoothing={smoothing} />}
+        
+        {isRunning && (inputMode === 'camera' || inputMode === 'file') && (
+          <ModelOptions settings={experimentSettings} fields={MODEL_FIELDS} vision={vision} />
+        )}
       </div>
 
       {isRunning && jointAngles && (
@@ -696,7 +623,7 @@ export default function BodyTrackingExperiment() {
             <strong>33 Landmarks</strong> — Tracks full body from face to feet
           </li>
           <li>
-            <strong>Multi-Person</strong> — Detects up to 3 people simultaneously
+            <strong>Multi-Person</strong> — Detects up to 5 people simultaneously (3 by default)
           </li>
           <li>
             <strong>Joint Angles</strong> — Real-time angle calculation for analysis
@@ -704,6 +631,9 @@ export default function BodyTrackingExperiment() {
           <li>
             <strong>3D Coordinates</strong> — Depth estimation for each landmark
           </li>
+          <li>
+            <strong>Web Worker</strong> — Inference runs off the main thread so the page stays responsive
+          </li>
         </ul>
         
         <h2>Body Landmarks (33 Points)</h2>
@@ -732,6 +662,8 @@ export default function BodyTrackingExperiment() {
           <li>Motion capture for animation</li>
         </ul>
       </section>
+
+      <PerfHud perf={perf} />
     </div>
   )
 }
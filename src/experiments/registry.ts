@@ -0,0 +1,114 @@
+/**
+ * Experiment registry
+ *
+ * Metadata for every experiment, shared by the gallery and the router.
+ * Components are loaded on demand, so the gallery only ships the cards and
+ * each experiment's dependencies (three.js, WebXR, model-viewer, MediaPipe,
+ * MindAR) are split into their own chunks.
+ */
+
+import { lazy } from 'react'
+import type { ComponentType, LazyExoticComponent } from 'react'
+import type { Capability } from '../lib/capabilities'
+
+import modelViewerThumbnail from '../assets/thumbnails/01-model-viewer.svg'
+import faceTrackingThumbnail from '../assets/thumbnails/02-face-tracking.svg'
+import imageTrackingThumbnail from '../assets/thumbnails/03-image-tracking.svg'
+import surfaceDetectionThumbnail from '../assets/thumbnails/04-surface-detection.svg'
+import worldTrackingThumbnail from '../assets/thumbnails/05-world-tracking.svg'
+import handTrackingThumbnail from '../assets/thumbnails/06-hand-tracking.svg'
+import bodyTrackingThumbnail from '../assets/thumbnails/07-body-tracking.svg'
+
+export type ExperimentStatus = 'done' | 'planned'
+
+type ExperimentModule = { default: ComponentType }
+
+export interface ExperimentEntry {
+  id: string // Route path and display number prefix, e.g. 06-hand-tracking
+  title: string
+  description: string
+  status: ExperimentStatus
+  thumbnail: string // Image URL for the gallery card
+  tags: string[]
+  capabilities: Capability[] // Required to run; the gallery warns when any are missing
+  load: () => Promise<ExperimentModule> // Starts fetching the experiment chunk
+  component: LazyExoticComponent<ComponentType>
+}
+
+// Fill in the lazy component from the loader so the two can't drift apart
+function defineExperiment(entry: Omit<ExperimentEntry, 'component'>): ExperimentEntry {
+  return { ...entry, component: lazy(entry.load) }
+}
+
+export const experiments: ExperimentEntry[] = [
+  defineExperiment({
+    id: '01-model-viewer',
+    title: 'Model Viewer',
+    description: '3D model with AR quick-look support',
+    status: 'done',
+    thumbnail: modelViewerThumbnail,
+    tags: ['model-viewer', '3D models', 'Quick Look'],
+    capabilities: ['webgl2'],
+    load: () => import('./01-model-viewer'),
+  }),
+  defineExperiment({
+    id: '02-face-tracking',
+    title: 'Face Tracking',
+    description: 'Face detection and filter overlays',
+    status: 'done',
+    thumbnail: faceTrackingThumbnail,
+    tags: ['MindAR', 'Three.js', 'filters'],
+    capabilities: ['camera', 'webgl2', 'wasm'],
+    load: () => import('./02-face-tracking'),
+  }),
+  defineExperiment({
+    id: '03-image-tracking',
+    title: 'Image Tracking',
+    description: 'Recognize images and overlay 3D content',
+    status: 'done',
+    thumbnail: imageTrackingThumbnail,
+    tags: ['MindAR', 'Three.js', 'markers'],
+    capabilities: ['camera', 'webgl2'],
+    load: () => import('./03-image-tracking'),
+  }),
+  defineExperiment({
+    id: '04-surface-detection',
+    title: 'Surface Detection',
+    description: 'Place objects on real-world surfaces',
+    status: 'done',
+    thumbnail: surfaceDetectionThumbnail,
+    tags: ['WebXR', 'React Three Fiber', 'hit-test'],
+    capabilities: ['webgl2', 'webxr-ar', 'webxr-hit-test'],
+    load: () => import('./04-surface-detection'),
+  }),
+  defineExperiment({
+    id: '05-world-tracking',
+    title: 'World Tracking',
+    description: 'Persistent AR anchors in space',
+    status: 'done',
+    thumbnail: worldTrackingThumbnail,
+    tags: ['WebXR', 'React Three Fiber', 'anchors'],
+    capabilities: ['webgl2', 'webxr-ar', 'webxr-hit-test', 'webxr-anchors'],
+    load: () => import('./05-world-tracking'),
+  }),
+  defineExperiment({
+    id: '06-hand-tracking',
+    title: 'Hand Tracking',
+    description: 'MediaPipe hand detection & gesture recognition',
+    status: 'done',
+    thumbnail: handTrackingThumbnail,
+    tags: ['MediaPipe', 'gestures', 'landmarks'],
+    capabilities: ['wasm'], // Video files and recorded sessions work without a camera
+    load: () => import('./06-hand-tracking'),
+  }),
+  defineExperiment({
+    id: '07-body-tracking',
+    title: 'Body Tracking',
+    description: 'Full-body pose detection & analysis',
+    status: 'done',
+    thumbnail: bodyTrackingThumbnail,
+    tags: ['MediaPipe', 'pose', 'landmarks'],
+    capabilities: ['wasm'], // Video files and recorded sessions work without a camera
+    load: () => import('./07-body-tracking'),
+  }),
+]
@@ -0,0 +1,95 @@
+/**
+ * Animation clip player
+ *
+ * React state over an AnimationBackend (lib/animationPlayer): the current
+ * clip, duration and play state are read back every frame, since the backend
+ * plays on its own; loop mode, speed and crossfade are the page's choice and
+ * carry over when the backend changes (a new model, a reloaded robot).
+ *
+ * The playhead isn't state: it moves every frame and would re-render the
+ * whole page with it. Readouts poll getTime() at their own pace.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import type { AnimationBackend, AnimationLoop } from '../lib/animationPlayer'
+
+interface PlayerState {
+  backend: AnimationBackend
+  clip: string | null
+  duration: number
+  paused: boolean
+}
+
+function readState(backend: AnimationBackend): PlayerState {
+  return { backend, clip: backend.clip, duration: backend.duration, paused: backend.paused }
+}
+
+function sameState(a: PlayerState, b: PlayerState): boolean {
+  return a.backend === b.backend && a.clip === b.clip && a.duration === b.duration && a.paused === b.paused
+}
+
+export function useAnimationPlayer(backend: AnimationBackend | null) {
+  const [state, setState] = useState<PlayerState | null>(null)
+  const [loop, setLoop] = useState<AnimationLoop>('repeat')
+  const [speed, setSpeed] = useState(1)
+  const [crossfade, setCrossfade] = useState(0.3) // seconds
+
+  useEffect(() => {
+    if (!backend) return
+    let frame = 0
+    const poll = () => {
+      const next = readState(backend)
+      setState((prev) => (prev && sameState(prev, next) ? prev : next))
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [backend])
+
+  useEffect(() => {
+    backend?.setSpeed(speed)
+  }, [backend, speed])
+
+  // Applies a new loop mode to a playing clip, or to a backend that arrives playing
+  useEffect(() => {
+    if (backend && !backend.paused) backend.play(loop)
+  }, [backend, loop])
+
+  const select = useCallback((name: string) => {
+    backend?.select(name, crossfade)
+  }, [backend, crossfade])
+
+  const togglePlay = useCallback(() => {
+    if (!backend) return
+    if (backend.paused) backend.play(loop)
+    else backend.pause()
+  }, [backend, loop])
+
+  const seek = useCallback((time: number) => {
+    backend?.seek(time)
+  }, [backend])
+
+  const getTime = useCallback(() => backend?.time ?? 0, [backend])
+
+  const current = state?.backend === backend ? state : null
+
+  return {
+    isReady: current !== null && backend !== null && backend.clips.length > 0,
+    clips: backend?.clips ?? [],
+    clip: current?.clip ?? null,
+    duration: current?.duration ?? 0,
+    isPlaying: current ? !current.paused : false,
+    loop,
+    speed,
+    crossfade,
+    select,
+    togglePlay,
+    seek,
+    getTime,
+    setLoop,
+    setSpeed,
+    setCrossfade,
+  }
+}
+
+export type AnimationPlayer = ReturnType<typeof useAnimationPlayer>
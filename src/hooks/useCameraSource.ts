@@ -0,0 +1,329 @@
+/**
+ * Shared camera source for camera-driven experiments
+ *
+ * Wraps getUserMedia with:
+ * - Video input enumeration (kept fresh via devicechange)
+ * - Front/rear switching or an exact device pick
+ * - Resolution presets
+ * - Clean restarts when the selection changes or the active camera disappears
+ * - Starting from a saved preference, falling back when that camera is gone
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { setting } from '../lib/settingsStore'
+
+export type FacingMode = 'user' | 'environment'
+
+export type ResolutionPreset = '480p' | '720p' | '1080p'
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { label: string; width: number; height: number }> = {
+  '480p': { label: '480p', width: 640, height: 480 },
+  '720p': { label: '720p HD', width: 1280, height: 720 },
+  '1080p': { label: '1080p Full HD', width: 1920, height: 1080 },
+}
+
+export interface CameraSelection {
+  deviceId: string | null // Exact device, or null to pick by facing mode
+  facingMode: FacingMode
+  resolution: ResolutionPreset
+}
+
+// Saved-settings fields for the preferred camera (see settingsStore.ts).
+// The device is remembered from the camera picker rather than edited in the panel.
+export const CAMERA_SETTINGS = {
+  facingMode: setting.choice<FacingMode>({
+    label: 'Preferred camera',
+    hint: 'Used the next time the camera starts',
+    options: [{ value: 'user', label: 'Front' }, { value: 'environment', label: 'Rear' }],
+    fallback: 'user',
+  }),
+  resolution: setting.choice<ResolutionPreset>({
+    label: 'Camera resolution',
+    options: (Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map((value) => ({
+      value,
+      label: RESOLUTION_PRESETS[value].label,
+    })),
+    fallback: '720p',
+  }),
+  deviceId: setting.id({ label: 'Camera device', fallback: null }),
+}
+
+// The saved camera fields of a settings object, as a selection
+export function savedCameraSelection({ facingMode, resolution, deviceId }: CameraSelection): CameraSelection {
+  return { facingMode, resolution, deviceId }
+}
+
+interface CameraSourceOptions {
+  initialFacingMode?: FacingMode
+  initialResolution?: ResolutionPreset
+  // Called every time a new stream is playing (first start and every restart)
+  onReady?: (video: HTMLVideoElement) => void
+  // Called when a restart triggered by a selection or device change fails
+  onError?: (error: unknown) => void
+  // Called when the user picks a camera, side or resolution (e.g. to save it)
+  onSelectionChange?: (selection: CameraSelection) => void
+}
+
+// Build getUserMedia constraints for a selection
+export function buildVideoConstraints(selection: CameraSelection): MediaTrackConstraints {
+  const { width, height } = RESOLUTION_PRESETS[selection.resolution]
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    ...(selection.deviceId
+      ? { deviceId: { exact: selection.deviceId } }
+      : { facingMode: selection.facingMode }),
+  }
+}
+
+// getUserMedia's error when an exact deviceId no longer exists
+function isMissingDevice(err: unknown) {
+  const name = (err as { name?: string } | null)?.name
+  return name === 'OverconstrainedError' || name === 'NotFoundError'
+}
+
+// What openStream throws when a newer start/stop took over while it waited.
+// Its own class, since video.play() rejects with AbortError for other reasons too.
+class SupersededError extends Error {
+  constructor() {
+    super('Camera start was superseded by a newer request')
+    this.name = 'SupersededError'
+  }
+}
+
+// start() reports supersession the way the session expects a cancellation
+function forSession(err: unknown) {
+  return err instanceof SupersededError ? new DOMException(err.message, 'AbortError') : err
+}
+
+async function listVideoInputs(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices.filter((device) => device.kind === 'videoinput')
+}
+
+export function useCameraSource(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  {
+    initialFacingMode = 'user',
+    initialResolution = '720p',
+    onReady,
+    onError,
+    onSelectionChange,
+  }: CameraSourceOptions = {}
+) {
+  const streamRef = useRef<MediaStream | null>(null)
+  // Bumped on every open/stop so a slow getUserMedia can't clobber a newer request
+  const requestIdRef = useRef(0)
+  // Ends an open stream's wait for its first frame when a newer start/stop takes over
+  const cancelWaitRef = useRef<(() => void) | null>(null)
+  const callbacksRef = useRef({ onReady, onError, onSelectionChange })
+  const [initialSelection] = useState<CameraSelection>(() => ({
+    deviceId: null,
+    facingMode: initialFacingMode,
+    resolution: initialResolution,
+  }))
+  const selectionRef = useRef(initialSelection)
+
+  const [selection, setSelection] = useState<CameraSelection>(initialSelection)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [isActive, setIsActive] = useState(false)
+  const [activeSettings, setActiveSettings] = useState<MediaTrackSettings | null>(null)
+
+  useEffect(() => {
+    callbacksRef.current = { onReady, onError, onSelectionChange }
+  }, [onReady, onError, onSelectionChange])
+
+  // Never throws: enumerateDevices can fail (insecure context, revoked permission)
+  const refreshDevices = useCallback(async () => {
+    try {
+      const inputs = await listVideoInputs()
+      setDevices(inputs)
+      return inputs
+    } catch (err) {
+      console.error('Failed to list cameras:', err)
+      setDevices([])
+      return []
+    }
+  }, [])
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    if (videoRef.current) {
+      videoRef.current.srcObject = null
+    }
+  }, [videoRef])
+
+  const openStream = useCallback(async (next: CameraSelection) => {
+    const requestId = ++requestIdRef.current
+    cancelWaitRef.current?.()
+    releaseStream()
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: buildVideoConstraints(next),
+    })
+
+    const video = videoRef.current
+    if (requestId !== requestIdRef.current || !video) {
+      // Superseded by a newer start/stop while we were waiting on permission
+      stream.getTracks().forEach((track) => track.stop())
+      throw new SupersededError()
+    }
+
+    streamRef.current = stream
+    video.srcObject = stream
+    const track = stream.getVideoTracks()[0]
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const settle = (err?: unknown) => {
+          video.onloadedmetadata = null
+          video.onerror = null
+          track?.removeEventListener('ended', handleEnded)
+          cancelWaitRef.current = null
+          if (err === undefined) resolve()
+          else reject(requestId === requestIdRef.current ? err : new SupersededError())
+        }
+        const handleEnded = () => settle(new Error('The camera stopped before its first frame'))
+        video.onloadedmetadata = () => settle()
+        video.onerror = () => settle(video.error ?? new Error('The camera stream could not be played'))
+        track?.addEventListener('ended', handleEnded)
+        cancelWaitRef.current = () => settle(new SupersededError())
+      })
+      if (requestId !== requestIdRef.current) throw new SupersededError()
+      try {
+        await video.play()
+      } catch (err) {
+        if (requestId !== requestIdRef.current) throw new SupersededError()
+        // An AbortError here is a real failure, not a cancellation
+        throw err instanceof DOMException && err.name === 'AbortError'
+          ? new Error('The camera preview was interrupted before it started', { cause: err })
+          : err
+      }
+    } catch (err) {
+      // A newer request owns the video element now; only undo our own stream
+      if (requestId === requestIdRef.current) releaseStream()
+      throw err
+    }
+
+    setActiveSettings(stream.getVideoTracks()[0]?.getSettings() ?? null)
+    setIsActive(true)
+    callbacksRef.current.onReady?.(video)
+
+    // Labels are only exposed once permission has been granted
+    refreshDevices()
+  }, [videoRef, releaseStream, refreshDevices])
+
+  // Store the new selection and restart the stream if one is running
+  const applySelection = useCallback((next: CameraSelection) => {
+    selectionRef.current = next
+    setSelection(next)
+
+    if (streamRef.current) {
+      openStream(next).catch((err) => {
+        if (err instanceof SupersededError) return
+        console.error('Failed to restart camera:', err)
+        setIsActive(false)
+        callbacksRef.current.onError?.(err)
+      })
+    }
+  }, [openStream])
+
+  // Start with the current selection, or a saved preference laid over it.
+  // A preferred device that has since gone away falls back to the facing mode.
+  const start = useCallback(async (preferred?: Partial<CameraSelection>) => {
+    const next = { ...selectionRef.current, ...preferred }
+    selectionRef.current = next
+    setSelection(next)
+
+    try {
+      await openStream(next)
+    } catch (err) {
+      if (!next.deviceId || !isMissingDevice(err)) throw forSession(err)
+      console.warn('Preferred camera is not available, using the default:', err)
+      const fallback = { ...next, deviceId: null }
+      selectionRef.current = fallback
+      setSelection(fallback)
+      await openStream(fallback).catch((fallbackErr) => {
+        throw forSession(fallbackErr)
+      })
+    }
+  }, [openStream])
+
+  // A selection the user made themselves
+  const chooseSelection = useCallback((next: CameraSelection) => {
+    applySelection(next)
+    callbacksRef.current.onSelectionChange?.(next)
+  }, [applySelection])
+
+  const stop = useCallback(() => {
+    requestIdRef.current++
+    cancelWaitRef.current?.()
+    releaseStream()
+    setIsActive(false)
+    setActiveSettings(null)
+  }, [releaseStream])
+
+  const selectDevice = useCallback((deviceId: string | null) => {
+    chooseSelection({ ...selectionRef.current, deviceId })
+  }, [chooseSelection])
+
+  const setFacingMode = useCallback((facingMode: FacingMode) => {
+    // Picking a side overrides any exact device choice
+    chooseSelection({ ...selectionRef.current, facingMode, deviceId: null })
+  }, [chooseSelection])
+
+  const flipCamera = useCallback(() => {
+    setFacingMode(selectionRef.current.facingMode === 'user' ? 'environment' : 'user')
+  }, [setFacingMode])
+
+  const setResolution = useCallback((resolution: ResolutionPreset) => {
+    chooseSelection({ ...selectionRef.current, resolution })
+  }, [chooseSelection])
+
+  // Track plugged/unplugged cameras
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices
+    if (!mediaDevices) return
+
+    const handleDeviceChange = async () => {
+      const inputs = await refreshDevices()
+      const track = streamRef.current?.getVideoTracks()[0]
+      if (!track) return
+
+      const activeDeviceId = track.getSettings().deviceId
+      const stillPresent = inputs.some((device) => device.deviceId === activeDeviceId)
+      if (track.readyState === 'ended' || !stillPresent) {
+        // Active camera went away: fall back to whatever matches the facing mode
+        applySelection({ ...selectionRef.current, deviceId: null })
+      }
+    }
+
+    refreshDevices()
+    mediaDevices.addEventListener('devicechange', handleDeviceChange)
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+  }, [refreshDevices, applySelection])
+
+  // Release the camera on unmount
+  useEffect(() => stop, [stop])
+
+  // Desktop webcams rarely report facingMode, so fall back to the selection
+  const activeFacingMode = (activeSettings?.facingMode as FacingMode | undefined) ?? selection.facingMode
+
+  return {
+    devices,
+    selection,
+    isActive,
+    activeDeviceId: activeSettings?.deviceId ?? null,
+    mirrored: activeFacingMode !== 'environment',
+    start,
+    stop,
+    selectDevice,
+    setFacingMode,
+    flipCamera,
+    setResolution,
+  }
+}
+
+export type CameraSource = ReturnType<typeof useCameraSource>
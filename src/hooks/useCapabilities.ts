@@ -0,0 +1,25 @@
+/**
+ * Device capabilities for React components
+ *
+ * Resolves the shared capability probe; null while it is still running.
+ */
+
+import { useEffect, useState } from 'react'
+import { probeCapabilities } from '../lib/capabilities'
+import type { DeviceCapabilities } from '../lib/capabilities'
+
+export function useCapabilities(): DeviceCapabilities | null {
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+    probeCapabilities().then((result) => {
+      if (mounted) setCapabilities(result)
+    })
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  return capabilities
+}
@@ -0,0 +1,206 @@
+/**
+ * Shared lifecycle for camera-based experiments
+ *
+ * Every tracking page follows the same flow: load a library, initialize it,
+ * start an input, run a render loop, stop. This hook owns that flow as an
+ * explicit state machine:
+ *
+ *   loading ──▶ ready ──▶ starting ──▶ running
+ *      │          ▲          │            │
+ *      ▼          └──────────┴── stop ────┘
+ *    error ──▶ retry / stop (re-runs init if it never finished, or if the
+ *              error's recovery action asks for a rebuild)
+ *
+ * Progress is reported through typed steps, each with its own label and the
+ * error kind to report if it fails. Pending work is cancelled on stop, retry
+ * and unmount.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toExperimentError } from '../lib/experimentErrors'
+import type { ExperimentError, ExperimentErrorKind } from '../lib/experimentErrors'
+
+export type SessionStatus = 'loading' | 'ready' | 'starting' | 'running' | 'error'
+
+export interface SessionStep {
+  label: string // Shown while the step is in progress
+  failure: ExperimentErrorKind // Reported if the step fails and the error doesn't say otherwise
+}
+
+export interface SessionContext<S extends string> {
+  signal: AbortSignal // Aborted on stop, retry and unmount
+  progress: (step: S) => void // Move on to the next step
+}
+
+interface ExperimentSessionOptions<S extends string> {
+  steps: Record<S, SessionStep>
+  initialStep: NoInfer<S>
+  // Load and initialize the library (runs on mount and on retry)
+  init: (context: SessionContext<S>) => Promise<void>
+  // Stop inputs and the render loop; must be safe to call repeatedly
+  onStop?: () => void
+  // Release whatever init created (runs on unmount and before a re-init)
+  dispose?: () => void
+}
+
+interface SessionState<S extends string> {
+  status: SessionStatus
+  step: S | null
+  error: ExperimentError | null
+}
+
+// Thrown work that was cancelled isn't a failure
+function isAbort(err: unknown, signal: AbortSignal): boolean {
+  return signal.aborted || (err instanceof DOMException && err.name === 'AbortError')
+}
+
+export function useExperimentSession<S extends string>({
+  steps,
+  initialStep,
+  init,
+  onStop,
+  dispose,
+}: ExperimentSessionOptions<S>) {
+  const optionsRef = useRef({ steps, init, onStop, dispose })
+  const controllerRef = useRef<AbortController | null>(null)
+  const initializedRef = useRef(false)
+  const errorRef = useRef<ExperimentError | null>(null)
+
+  const [state, setState] = useState<SessionState<S>>({
+    status: 'loading',
+    step: initialStep,
+    error: null,
+  })
+
+  useEffect(() => {
+    optionsRef.current = { steps, init, onStop, dispose }
+  }, [steps, init, onStop, dispose])
+
+  // Enter the error state for a failure during a step
+  const setFailure = useCallback((step: S, err: unknown) => {
+    const error = toExperimentError(err, optionsRef.current.steps[step].failure, step)
+    console.error(`Experiment step "${step}" failed (${error.kind}):`, err)
+    errorRef.current = error
+    setState({ status: 'error', step, error })
+  }, [])
+
+  // Cancel whatever is in flight and hand out a fresh signal
+  const renewSignal = useCallback(() => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    return controller.signal
+  }, [])
+
+  // Run one unit of work, tracking its current step for progress and errors
+  const runSteps = useCallback(async (
+    signal: AbortSignal,
+    firstStep: S,
+    work: (context: SessionContext<S>) => Promise<void>
+  ): Promise<boolean> => {
+    if (signal.aborted) return false
+
+    let currentStep = firstStep
+    const progress = (step: S) => {
+      if (signal.aborted) return
+      currentStep = step
+      setState((prev) => ({ ...prev, step }))
+    }
+
+    try {
+      await work({ signal, progress })
+      return !signal.aborted
+    } catch (err) {
+      if (isAbort(err, signal)) return false
+      setFailure(currentStep, err)
+      return false
+    }
+  }, [setFailure])
+
+  const initialize = useCallback(async (signal: AbortSignal) => {
+    const { init } = optionsRef.current
+    const ok = await runSteps(signal, initialStep, init)
+    if (!ok) return
+
+    initializedRef.current = true
+    setState({ status: 'ready', step: null, error: null })
+  }, [runSteps, initialStep])
+
+  // Start an input (camera, files, replay...). Allowed from ready and from
+  // error, so inputs that don't need the library still work after a failed init.
+  const start = useCallback(async (
+    step: S,
+    task: (context: SessionContext<S>) => Promise<void>
+  ): Promise<boolean> => {
+    const signal = renewSignal()
+    errorRef.current = null
+    setState({ status: 'starting', step, error: null })
+
+    const ok = await runSteps(signal, step, task)
+    if (!ok) {
+      // Undo anything the task got running before it was cancelled or failed
+      optionsRef.current.onStop?.()
+      return false
+    }
+
+    setState({ status: 'running', step: null, error: null })
+    return true
+  }, [renewSignal, runSteps])
+
+  // Report a failure that happened outside start() (e.g. the camera dropping out)
+  const fail = useCallback((step: S, err: unknown) => {
+    renewSignal()
+    optionsRef.current.onStop?.()
+    setFailure(step, err)
+  }, [renewSignal, setFailure])
+
+  // Back to ready, re-running init first if it never finished or the
+  // error needs a rebuild (e.g. a lost WebGL context)
+  const reset = useCallback(() => {
+    const signal = renewSignal()
+    const needsRebuild = errorRef.current?.info.action === 'reinitialize'
+    errorRef.current = null
+    optionsRef.current.onStop?.()
+
+    if (initializedRef.current && !needsRebuild) {
+      setState({ status: 'ready', step: null, error: null })
+      return
+    }
+
+    initializedRef.current = false
+    optionsRef.current.dispose?.()
+    setState({ status: 'loading', step: initialStep, error: null })
+    initialize(signal)
+  }, [renewSignal, initialize, initialStep])
+
+  // Initialize on mount; cancel and clean up on unmount
+  useEffect(() => {
+    const signal = renewSignal()
+    // Deferred so init's first progress update isn't a setState inside the effect
+    queueMicrotask(() => initialize(signal))
+
+    return () => {
+      controllerRef.current?.abort()
+      initializedRef.current = false
+      optionsRef.current.onStop?.()
+      optionsRef.current.dispose?.()
+    }
+  }, [initialize, renewSignal])
+
+  const { status, step, error } = state
+
+  return {
+    status,
+    step,
+    error,
+    progressLabel: step ? steps[step].label : '',
+    isLoading: status === 'loading' || status === 'starting',
+    isRunning: status === 'running',
+    start,
+    stop: reset,
+    fail,
+    retry: reset, // Recover from an error without reloading the page
+  }
+}
+
+export type ExperimentSession<S extends string = string> = ReturnType<typeof useExperimentSession<S>>
@@ -0,0 +1,84 @@
+/**
+ * Saved settings for an experiment page
+ *
+ * Loads the experiment's settings from localStorage, writes every change
+ * back, and follows changes made in other tabs. Also handles export to and
+ * import from a JSON file, so a tuned configuration can move between devices.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { downloadBlob } from '../lib/fileSharing'
+import {
+  browserStorage,
+  clearSettings,
+  loadSettings,
+  parseSettingsFile,
+  saveSettings,
+  serializeSettings,
+  settingsDefaults,
+  settingsFilename,
+  settingsStorageKey,
+} from '../lib/settingsStore'
+import type { SettingsDefinition } from '../lib/settingsStore'
+
+export function useExperimentSettings<S>(definition: SettingsDefinition<S>) {
+  const [storage] = useState(browserStorage)
+  const [settings, setSettings] = useState(() => loadSettings(definition, storage))
+  const [error, setError] = useState<string | null>(null)
+  const settingsRef = useRef(settings)
+
+  // Store and show new settings
+  const replace = useCallback((next: S) => {
+    settingsRef.current = next
+    setSettings(next)
+    if (!saveSettings(definition, next, storage)) {
+      setError("Settings can't be saved in this browser; they will reset when you leave the page")
+    }
+  }, [definition, storage])
+
+  const update = useCallback((changes: Partial<S>) => {
+    replace({ ...settingsRef.current, ...changes })
+  }, [replace])
+
+  const reset = useCallback(() => {
+    clearSettings(definition, storage)
+    const defaults = settingsDefaults(definition)
+    settingsRef.current = defaults
+    setSettings(defaults)
+    setError(null)
+  }, [definition, storage])
+
+  const exportFile = useCallback(() => {
+    const json = serializeSettings(definition, settingsRef.current)
+    downloadBlob(new Blob([json], { type: 'application/json' }), settingsFilename(definition))
+  }, [definition])
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      setError(null)
+      replace(parseSettingsFile(definition, await file.text()))
+    } catch (err) {
+      console.error('Settings import failed:', err)
+      setError(err instanceof Error ? err.message : 'Could not import the settings')
+    }
+  }, [definition, replace])
+
+  const dismissError = useCallback(() => setError(null), [])
+
+  // Another tab changed or cleared these settings
+  useEffect(() => {
+    const key = settingsStorageKey(definition)
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key && event.key !== null) return
+      const next = loadSettings(definition, storage)
+      settingsRef.current = next
+      setSettings(next)
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [definition, storage])
+
+  return { definition, settings, update, reset, exportFile, importFile, error, dismissError }
+}
+
+export type ExperimentSettings<S> = ReturnType<typeof useExperimentSettings<S>>
@@ -0,0 +1,275 @@
+/**
+ * Pre-recorded input for the MediaPipe experiments
+ *
+ * Plays a local video file or an image sequence (several images or a whole
+ * folder) through the page's own <video>/<img> elements, with:
+ * - Play / pause
+ * - Seeking
+ * - Single-frame stepping
+ *
+ * The detection loop reads frames through getFrame(), so the same
+ * "skip if the time hasn't changed" check works for camera and file input.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { ExperimentError } from '../lib/experimentErrors'
+
+export type FileSourceKind = 'video' | 'images'
+
+export interface InputFrame {
+  source: HTMLVideoElement | HTMLImageElement
+  time: number // Seconds; an unchanged time means there is nothing new to process
+}
+
+// Frame rate assumed when stepping through videos (files don't expose theirs)
+export const VIDEO_STEP_FPS = 30
+
+// Playback rate for image sequences
+export const IMAGE_SEQUENCE_FPS = 10
+
+interface FileSourceOptions {
+  // Called once the first frame of a newly loaded file is available
+  onReady?: (width: number, height: number) => void
+  // Called when playback fails after loading (a frame that won't decode,
+  // a video the browser refuses to play); playback has stopped by then
+  onError?: (error: ExperimentError) => void
+}
+
+// Sort image sequences the way a file browser would (frame2 before frame10)
+function sortByName(files: File[]): File[] {
+  return [...files].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  )
+}
+
+export function useFileSource(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  imageRef: RefObject<HTMLImageElement | null>,
+  { onReady, onError }: FileSourceOptions = {}
+) {
+  const urlsRef = useRef<string[]>([])
+  const kindRef = useRef<FileSourceKind | null>(null)
+  const frameIndexRef = useRef(-1) // Index of the image currently decoded in imageRef
+  const timerRef = useRef<number | null>(null)
+  const callbacksRef = useRef({ onReady, onError })
+
+  const [kind, setKind] = useState<FileSourceKind | null>(null)
+  const [name, setName] = useState('')
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [position, setPosition] = useState(0) // Seconds for video, frame index for images
+  const [length, setLength] = useState(0) // Duration for video, frame count for images
+
+  useEffect(() => {
+    callbacksRef.current = { onReady, onError }
+  }, [onReady, onError])
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  // Decode and display one image of the sequence
+  const showImage = useCallback(async (index: number) => {
+    const image = imageRef.current
+    const urls = urlsRef.current
+    if (!image || urls.length === 0) return
+
+    const wrapped = (index + urls.length) % urls.length
+    const url = urls[wrapped]
+    image.src = url
+    try {
+      await image.decode()
+    } catch (err) {
+      // A newer frame or close() replaced this one mid-decode; not a failure
+      if (image.src !== url) return
+      throw err
+    }
+    frameIndexRef.current = wrapped
+    setPosition(wrapped)
+  }, [imageRef])
+
+  const close = useCallback(() => {
+    stopTimer()
+
+    const video = videoRef.current
+    if (video && kindRef.current === 'video') {
+      video.pause()
+      video.ontimeupdate = null
+      video.onplay = null
+      video.onpause = null
+      video.removeAttribute('src')
+      video.load()
+    }
+    imageRef.current?.removeAttribute('src')
+
+    urlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+    urlsRef.current = []
+    kindRef.current = null
+    frameIndexRef.current = -1
+
+    setKind(null)
+    setName('')
+    setIsPlaying(false)
+    setPosition(0)
+    setLength(0)
+  }, [videoRef, imageRef, stopTimer])
+
+  // Stop playback and hand the failure to the page, unless the source was closed
+  const failPlayback = useCallback((message: string, err: unknown) => {
+    if (kindRef.current === null) return
+    stopTimer()
+    setIsPlaying(false)
+    console.error(`${message}:`, err)
+    callbacksRef.current.onError?.(new ExperimentError('invalid-file', message, { cause: err }))
+  }, [stopTimer])
+
+  // Show a frame during playback, reporting one that won't decode
+  const showFrame = useCallback((index: number) => {
+    showImage(index).catch((err) => failPlayback('An image in the sequence could not be decoded', err))
+  }, [showImage, failPlayback])
+
+  const loadVideo = useCallback(async (file: File) => {
+    const video = videoRef.current
+    if (!video) throw new Error('Video element is not mounted')
+
+    const url = URL.createObjectURL(file)
+    urlsRef.current = [url]
+    kindRef.current = 'video'
+
+    video.srcObject = null
+    video.loop = true
+    video.src = url
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve()
+      video.onerror = () => reject(new Error(`Could not decode ${file.name}`))
+    })
+
+    video.ontimeupdate = () => setPosition(video.currentTime)
+    video.onplay = () => setIsPlaying(true)
+    video.onpause = () => setIsPlaying(false)
+
+    setKind('video')
+    setName(file.name)
+    setLength(video.duration)
+    callbacksRef.current.onReady?.(video.videoWidth, video.videoHeight)
+
+    await video.play()
+  }, [videoRef])
+
+  const loadImages = useCallback(async (files: File[]) => {
+    const image = imageRef.current
+    if (!image) throw new Error('Image element is not mounted')
+
+    urlsRef.current = files.map((file) => URL.createObjectURL(file))
+    kindRef.current = 'images'
+
+    await showImage(0)
+
+    setKind('images')
+    setName(files.length === 1 ? files[0].name : `${files.length} images`)
+    setLength(files.length)
+    callbacksRef.current.onReady?.(image.naturalWidth, image.naturalHeight)
+  }, [imageRef, showImage])
+
+  // Load a video file, or every image in the selection as a sequence
+  const load = useCallback(async (files: File[]) => {
+    close()
+
+    const videoFile = files.find((file) => file.type.startsWith('video/'))
+    if (videoFile) {
+      await loadVideo(videoFile)
+      return
+    }
+
+    const images = sortByName(files.filter((file) => file.type.startsWith('image/')))
+    if (images.length === 0) {
+      throw new Error('No video or image files in the selection')
+    }
+    await loadImages(images)
+  }, [close, loadVideo, loadImages])
+
+  const pause = useCallback(() => {
+    if (kindRef.current === 'video') {
+      videoRef.current?.pause()
+    } else {
+      stopTimer()
+      setIsPlaying(false)
+    }
+  }, [videoRef, stopTimer])
+
+  const play = useCallback(() => {
+    if (kindRef.current === 'video') {
+      videoRef.current?.play().catch((err) => {
+        // Pausing before playback began rejects with AbortError; that's fine
+        if (err instanceof DOMException && err.name === 'AbortError') return
+        failPlayback('Could not play the video', err)
+      })
+    } else if (kindRef.current === 'images' && timerRef.current === null) {
+      timerRef.current = window.setInterval(() => {
+        showFrame(frameIndexRef.current + 1)
+      }, 1000 / IMAGE_SEQUENCE_FPS)
+      setIsPlaying(true)
+    }
+  }, [videoRef, showFrame, failPlayback])
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) pause()
+    else play()
+  }, [isPlaying, play, pause])
+
+  // Jump to a position (seconds for video, frame index for images)
+  const seek = useCallback((value: number) => {
+    const video = videoRef.current
+    if (kindRef.current === 'video' && video) {
+      video.currentTime = Math.min(Math.max(value, 0), video.duration)
+      setPosition(video.currentTime)
+    } else if (kindRef.current === 'images') {
+      showFrame(Math.round(value))
+    }
+  }, [videoRef, showFrame])
+
+  // Step one frame forward (1) or back (-1), pausing playback
+  const stepFrame = useCallback((delta: 1 | -1) => {
+    pause()
+    if (kindRef.current === 'video' && videoRef.current) {
+      seek(videoRef.current.currentTime + delta / VIDEO_STEP_FPS)
+    } else if (kindRef.current === 'images') {
+      showFrame(frameIndexRef.current + delta)
+    }
+  }, [videoRef, pause, seek, showFrame])
+
+  // Frame for the detection loop, or null while nothing is decoded
+  const getFrame = useCallback((): InputFrame | null => {
+    if (kindRef.current === 'video' && videoRef.current) {
+      return { source: videoRef.current, time: videoRef.current.currentTime }
+    }
+    if (kindRef.current === 'images' && imageRef.current && frameIndexRef.current >= 0) {
+      return { source: imageRef.current, time: frameIndexRef.current / IMAGE_SEQUENCE_FPS }
+    }
+    return null
+  }, [videoRef, imageRef])
+
+  // Release object URLs on unmount
+  useEffect(() => close, [close])
+
+  return {
+    kind,
+    name,
+    isPlaying,
+    position,
+    length,
+    load,
+    close,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    stepFrame,
+    getFrame,
+  }
+}
+
+export type FileSource = ReturnType<typeof useFileSource>
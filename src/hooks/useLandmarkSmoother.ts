@@ -0,0 +1,29 @@
+/**
+ * Landmark smoothing for an experiment page
+ *
+ * Owns one LandmarkSmoother for the render loop and the settings shown in
+ * the tuning controls. Changing a setting restarts the filters.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { DEFAULT_SMOOTHING, LandmarkSmoother } from '../lib/landmarkFilters'
+import type { SmoothingConfig } from '../lib/landmarkFilters'
+
+export function useLandmarkSmoother(initial: SmoothingConfig = DEFAULT_SMOOTHING) {
+  const [smoother] = useState(() => new LandmarkSmoother(initial))
+  const [config, setConfig] = useState(initial)
+
+  useEffect(() => {
+    smoother.setConfig(config)
+  }, [smoother, config])
+
+  const update = useCallback((changes: Partial<SmoothingConfig>) => {
+    setConfig((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  const restoreDefaults = useCallback(() => setConfig(initial), [initial])
+
+  return { smoother, config, update, restoreDefaults }
+}
+
+export type LandmarkSmoothing = ReturnType<typeof useLandmarkSmoother>
@@ -0,0 +1,126 @@
+/**
+ * Models from the user's own disk
+ *
+ * Validates picked or dropped files (lib/localModels), keeps the accepted
+ * models in IndexedDB and opens them through object URLs for display.
+ * Saved models come back on the next visit; URLs are revoked when a model
+ * is removed or the page unmounts. A saved model that no longer opens is
+ * reported and can be removed, without holding back the others.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  closeModel,
+  deleteStoredModel,
+  loadStoredModels,
+  openModel,
+  prepareModels,
+  storeModel,
+} from '../lib/localModels'
+import type { LocalModel, ModelFile, StoredModel } from '../lib/localModels'
+
+// A saved model that couldn't be opened
+export interface BrokenModel {
+  id: string
+  name: string
+}
+
+export function useLocalModels() {
+  const [models, setModels] = useState<LocalModel[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+  const [broken, setBroken] = useState<BrokenModel[]>([])
+  const [isAdding, setIsAdding] = useState(false)
+  const modelsRef = useRef<LocalModel[]>([])
+
+  useEffect(() => {
+    modelsRef.current = models
+  }, [models])
+
+  // Open the saved models; close whatever is open on unmount
+  useEffect(() => {
+    let cancelled = false
+
+    loadStoredModels()
+      .then(async (stored) => {
+        const results = await Promise.allSettled(stored.map(openModel))
+        const opened: LocalModel[] = []
+        const failed: StoredModel[] = []
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            opened.push(result.value)
+          } else {
+            console.error(`Opening saved model ${stored[i].name} failed:`, result.reason)
+            failed.push(stored[i])
+          }
+        })
+
+        if (cancelled) {
+          opened.forEach(closeModel)
+          return
+        }
+        setModels((current) => [...opened, ...current])
+        if (failed.length > 0) {
+          setBroken(failed.map(({ id, name }) => ({ id, name })))
+          setErrors((current) => [...current, ...failed.map((model) => `${model.name} couldn't be opened`)])
+        }
+      })
+      .catch((err) => {
+        console.error('Opening saved models failed:', err)
+        if (!cancelled) setErrors((current) => [...current, "Couldn't open the saved models"])
+      })
+
+    return () => {
+      cancelled = true
+      modelsRef.current.forEach(closeModel)
+      modelsRef.current = []
+    }
+  }, [])
+
+  const add = useCallback(async (files: ModelFile[]) => {
+    if (files.length === 0) return
+    setIsAdding(true)
+
+    try {
+      const prepared = await prepareModels(files)
+      const problems = [...prepared.errors]
+      const opened: LocalModel[] = []
+
+      for (const model of prepared.models) {
+        opened.push(await openModel(model))
+        if (!(await storeModel(model))) {
+          problems.push(`${model.name} couldn't be saved in this browser, so it's only here until you leave the page`)
+        }
+      }
+
+      setModels((current) => [...current, ...opened])
+      setErrors(problems)
+    } catch (err) {
+      console.error('Adding models failed:', err)
+      setErrors([err instanceof Error ? err.message : String(err)])
+    } finally {
+      setIsAdding(false)
+    }
+  }, [])
+
+  const remove = useCallback((id: string) => {
+    modelsRef.current.filter((model) => model.id === id).forEach(closeModel)
+    setModels((current) => current.filter((model) => model.id !== id))
+    deleteStoredModel(id)
+  }, [])
+
+  // Delete the saved models that couldn't be opened
+  const removeBroken = useCallback(() => {
+    broken.forEach((model) => deleteStoredModel(model.id))
+    setBroken([])
+    setErrors([])
+  }, [broken])
+
+  const dismissErrors = useCallback(() => {
+    setErrors([])
+    setBroken([])
+  }, [])
+
+  return { models, errors, broken, isAdding, add, remove, removeBroken, dismissErrors }
+}
+
+export type LocalModels = ReturnType<typeof useLocalModels>
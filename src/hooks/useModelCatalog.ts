@@ -0,0 +1,41 @@
+/**
+ * Model catalog for a page
+ *
+ * Loads and validates a catalog.json (lib/modelCatalog) once. Broken entries
+ * are logged as well as returned, so whoever edited the file sees what was
+ * left out without the page failing.
+ */
+
+import { useEffect, useState } from 'react'
+import { loadCatalog } from '../lib/modelCatalog'
+import type { ModelCatalog } from '../lib/modelCatalog'
+
+export function useModelCatalog(url: string) {
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    loadCatalog(url, controller.signal).then(
+      (loaded) => {
+        for (const problem of loaded.problems) {
+          console.warn(`Model catalog: skipped ${problem.entry}: ${problem.message}`)
+        }
+        setCatalog(loaded)
+        setError(null)
+      },
+      (err) => {
+        if (controller.signal.aborted) return
+        console.error('Loading the model catalog failed:', err)
+        setError(err instanceof Error ? err.message : String(err))
+      }
+    )
+
+    return () => controller.abort()
+  }, [url])
+
+  return { catalog, error, isLoading: catalog === null && error === null }
+}
+
+export type ModelCatalogState = ReturnType<typeof useModelCatalog>
@@ -0,0 +1,31 @@
+/**
+ * Performance monitor for an experiment page
+ *
+ * Owns one PerfMonitor for the page's loops to report into, and whether the
+ * HUD is showing. Timing only runs while the HUD is open.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { PerfMonitor } from '../lib/perfMonitor'
+import type { PerfContext } from '../lib/perfMonitor'
+
+// name: used for the CSV file name; context: labels for every CSV row
+export function usePerfMonitor(name: string, context: PerfContext = {}) {
+  const [monitor] = useState(() => new PerfMonitor())
+  const [enabled, setEnabled] = useState(false)
+
+  useEffect(() => {
+    monitor.setEnabled(enabled)
+  }, [monitor, enabled])
+
+  const contextKey = JSON.stringify(context)
+  useEffect(() => {
+    monitor.setContext(JSON.parse(contextKey))
+  }, [monitor, contextKey])
+
+  const toggle = useCallback(() => setEnabled((prev) => !prev), [])
+
+  return { name, monitor, enabled, toggle }
+}
+
+export type PerfMonitorHandle = ReturnType<typeof usePerfMonitor>
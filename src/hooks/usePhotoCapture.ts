@@ -0,0 +1,125 @@
+/**
+ * Photo capture for an experiment page
+ *
+ * Captures the container's layers into a composite, then encodes it with the
+ * current format and watermark. The composite is kept while the preview is
+ * open, so changing either setting re-encodes the same moment.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { captureComposite } from '../lib/composite'
+import { canShareFiles, downloadBlob, shareFile } from '../lib/fileSharing'
+import { DEFAULT_PHOTO_OPTIONS, encodePhoto, photoFilename } from '../lib/photoCapture'
+import type { PhotoOptions } from '../lib/photoCapture'
+
+interface PhotoCaptureOptions {
+  // Prefix for saved files, e.g. the experiment id
+  name: string
+  // Re-render WebGL canvases right before compositing (they don't keep their last frame)
+  beforeDraw?: () => void
+}
+
+export interface Photo {
+  blob: Blob
+  url: string // Object URL for the preview
+  filename: string
+  width: number
+  height: number
+}
+
+export function usePhotoCapture(
+  containerRef: RefObject<HTMLElement | null>,
+  { name, beforeDraw }: PhotoCaptureOptions
+) {
+  const beforeDrawRef = useRef(beforeDraw)
+
+  const [options, setOptions] = useState<PhotoOptions>(DEFAULT_PHOTO_OPTIONS)
+  const [composite, setComposite] = useState<HTMLCanvasElement | null>(null)
+  const [photo, setPhoto] = useState<Photo | null>(null)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [canShare] = useState(() => canShareFiles('image/png'))
+
+  useEffect(() => {
+    beforeDrawRef.current = beforeDraw
+  }, [beforeDraw])
+
+  const capture = useCallback(async () => {
+    const container = containerRef.current
+    if (!container) return
+
+    setIsCapturing(true)
+    setError(null)
+    try {
+      setComposite(await captureComposite(container, beforeDrawRef.current))
+    } catch (err) {
+      console.error('Photo capture failed:', err)
+      setError(err instanceof Error ? err.message : 'Photo capture failed')
+    } finally {
+      setIsCapturing(false)
+    }
+  }, [containerRef])
+
+  // Encode (again) whenever the composite or the settings change
+  useEffect(() => {
+    if (!composite) return
+    let cancelled = false
+    let url: string | null = null
+
+    encodePhoto(composite, options).then(
+      (blob) => {
+        if (cancelled) return
+        url = URL.createObjectURL(blob)
+        setPhoto({
+          blob,
+          url,
+          filename: photoFilename(name, options.format),
+          width: composite.width,
+          height: composite.height,
+        })
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not encode the photo')
+      }
+    )
+
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [composite, options, name])
+
+  const update = useCallback((changes: Partial<PhotoOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  const dismiss = useCallback(() => {
+    setComposite(null)
+    setPhoto(null)
+    setError(null)
+  }, [])
+
+  const download = useCallback(() => {
+    if (photo) downloadBlob(photo.blob, photo.filename)
+  }, [photo])
+
+  // Share sheet where supported, download otherwise
+  const share = useCallback(async () => {
+    if (!photo) return
+    if (!canShare) {
+      downloadBlob(photo.blob, photo.filename)
+      return
+    }
+    try {
+      await shareFile(photo.blob, photo.filename, document.title)
+    } catch (err) {
+      console.error('Sharing failed:', err)
+      setError('Sharing failed; try downloading instead')
+    }
+  }, [photo, canShare])
+
+  return { options, update, capture, photo, isCapturing, error, canShare, download, share, dismiss }
+}
+
+export type PhotoCapture = ReturnType<typeof usePhotoCapture>
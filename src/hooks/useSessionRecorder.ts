@@ -0,0 +1,55 @@
+/**
+ * Landmark session recorder
+ *
+ * Collects landmarker results while recording and hands back a
+ * LandmarkSession when stopped.
+ */
+
+import { useCallback, useRef, useState } from 'react'
+import type { LandmarkSession, SessionFrame, SessionResults, SessionTask } from '../lib/landmarkSession'
+import { SESSION_FORMAT, SESSION_VERSION, snapshotResult } from '../lib/landmarkSession'
+
+export function useSessionRecorder<T extends SessionTask>(task: T) {
+  const framesRef = useRef<SessionFrame<T>[]>([])
+  const startedAtRef = useRef<number | null>(null)
+  const metaRef = useRef({ recordedAt: '', width: 0, height: 0, mirrored: false })
+
+  const [isRecording, setIsRecording] = useState(false)
+
+  const start = useCallback((width: number, height: number, mirrored: boolean) => {
+    framesRef.current = []
+    startedAtRef.current = performance.now()
+    metaRef.current = { recordedAt: new Date().toISOString(), width, height, mirrored }
+    setIsRecording(true)
+  }, [])
+
+  // Add one landmarker result (no-op unless recording)
+  const record = useCallback((result: SessionResults[T]) => {
+    if (startedAtRef.current === null) return
+    framesRef.current.push({
+      time: performance.now() - startedAtRef.current,
+      result: snapshotResult(task, result),
+    })
+  }, [task])
+
+  const stop = useCallback((): LandmarkSession<T> | null => {
+    if (startedAtRef.current === null) return null
+
+    const session: LandmarkSession<T> = {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      task,
+      ...metaRef.current,
+      frames: framesRef.current,
+    }
+
+    framesRef.current = []
+    startedAtRef.current = null
+    setIsRecording(false)
+    return session
+  }, [task])
+
+  return { isRecording, start, record, stop }
+}
+
+export type SessionRecorder<T extends SessionTask> = ReturnType<typeof useSessionRecorder<T>>
@@ -0,0 +1,63 @@
+/**
+ * Landmark session replay
+ *
+ * Loads a recorded session and serves its frames on the original timeline,
+ * looping at the end. The detection loop pulls frames through getFrame()
+ * in place of calling the landmarker.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { LandmarkSession, SessionFrame, SessionTask } from '../lib/landmarkSession'
+import { frameIndexAt, parseSession } from '../lib/landmarkSession'
+
+interface SessionReplayOptions {
+  // Called with the recorded input size once a session is loaded
+  onReady?: (width: number, height: number) => void
+}
+
+export function useSessionReplay<T extends SessionTask>(
+  task: T,
+  { onReady }: SessionReplayOptions = {}
+) {
+  const sessionRef = useRef<LandmarkSession<T> | null>(null)
+  const startedAtRef = useRef(0)
+  const onReadyRef = useRef(onReady)
+
+  const [session, setSession] = useState<LandmarkSession<T> | null>(null)
+
+  useEffect(() => {
+    onReadyRef.current = onReady
+  }, [onReady])
+
+  const load = useCallback(async (file: File) => {
+    const parsed = parseSession(await file.text(), task)
+    if (parsed.frames.length === 0) {
+      throw new Error('Session has no frames')
+    }
+
+    sessionRef.current = parsed
+    startedAtRef.current = performance.now()
+    setSession(parsed)
+    onReadyRef.current?.(parsed.width, parsed.height)
+  }, [task])
+
+  const close = useCallback(() => {
+    sessionRef.current = null
+    setSession(null)
+  }, [])
+
+  // Frame due at the current time, or null when no session is loaded
+  const getFrame = useCallback((): SessionFrame<T> | null => {
+    const frames = sessionRef.current?.frames
+    if (!frames?.length) return null
+
+    const duration = frames[frames.length - 1].time
+    const elapsed = performance.now() - startedAtRef.current
+    const time = duration > 0 ? elapsed % duration : 0
+    return frames[frameIndexAt(frames, time)]
+  }, [])
+
+  return { session, load, close, getFrame }
+}
+
+export type SessionReplay<T extends SessionTask> = ReturnType<typeof useSessionReplay<T>>
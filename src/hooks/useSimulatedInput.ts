@@ -0,0 +1,52 @@
+/**
+ * Simulated landmark input
+ *
+ * Serves scripted, procedurally generated landmark frames in place of the
+ * landmarker, so the page's drawing and classification can run with no
+ * camera or model. Same getFrame() contract as session replay.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { SIMULATION_HEIGHT, SIMULATION_WIDTH, simulateFrame } from '../lib/landmarkSimulation'
+import type { SessionFrame, SessionTask } from '../lib/landmarkSession'
+
+interface SimulatedInputOptions {
+  // Called with the simulated input size when the simulation starts
+  onReady?: (width: number, height: number) => void
+}
+
+export function useSimulatedInput<T extends SessionTask>(
+  task: T,
+  { onReady }: SimulatedInputOptions = {}
+) {
+  const startedAtRef = useRef<number | null>(null)
+  const onReadyRef = useRef(onReady)
+
+  const [isActive, setIsActive] = useState(false)
+
+  useEffect(() => {
+    onReadyRef.current = onReady
+  }, [onReady])
+
+  const start = useCallback(() => {
+    startedAtRef.current = performance.now()
+    setIsActive(true)
+    onReadyRef.current?.(SIMULATION_WIDTH, SIMULATION_HEIGHT)
+  }, [])
+
+  const stop = useCallback(() => {
+    startedAtRef.current = null
+    setIsActive(false)
+  }, [])
+
+  // Frame for the current time, or null when the simulation isn't running
+  const getFrame = useCallback((): SessionFrame<T> | null => {
+    if (startedAtRef.current === null) return null
+    const time = performance.now() - startedAtRef.current
+    return { time, result: simulateFrame(task, time) }
+  }, [task])
+
+  return { isActive, start, stop, getFrame }
+}
+
+export type SimulatedInput<T extends SessionTask> = ReturnType<typeof useSimulatedInput<T>>
@@ -0,0 +1,31 @@
+/**
+ * Experiment options backed by the URL query
+ *
+ * Like useState for a whole urlState schema: the values are read from the
+ * current query string and every update rewrites it (replacing the history
+ * entry, so toggling options doesn't fill the back button). Options missing
+ * from the URL take their value from defaults, e.g. the saved settings.
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { readUrlState, writeUrlState } from '../lib/urlState'
+import type { UrlSchema } from '../lib/urlState'
+
+export function useUrlState<S>(schema: UrlSchema<S>, defaults?: Partial<S>) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const state = useMemo(() => readUrlState(schema, searchParams, defaults), [schema, searchParams, defaults])
+
+  const setState = useCallback((changes: Partial<S> | ((prev: S) => Partial<S>)) => {
+    setSearchParams(
+      (prev) => {
+        const resolved = typeof changes === 'function' ? changes(readUrlState(schema, prev, defaults)) : changes
+        return writeUrlState(schema, resolved, prev, defaults)
+      },
+      { replace: true }
+    )
+  }, [schema, setSearchParams, defaults])
+
+  return [state, setState] as const
+}
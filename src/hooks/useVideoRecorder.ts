@@ -0,0 +1,162 @@
+/**
+ * Clip recording for an experiment page
+ *
+ * Owns one CompositeVideoRecorder at a time plus the recording settings and
+ * the last finished clip. Recording stops when the page's session does
+ * (active goes false) or the page unmounts.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { canShareFiles, downloadBlob, shareFile } from '../lib/fileSharing'
+import { CompositeVideoRecorder, DEFAULT_VIDEO_OPTIONS, supportedContainers } from '../lib/videoRecording'
+import type { VideoClip, VideoOptions } from '../lib/videoRecording'
+
+interface VideoRecorderOptions {
+  // Prefix for saved files, e.g. the experiment id
+  name: string
+  // Whether the page is showing anything; recording stops when this goes false
+  active: boolean
+  // Re-render WebGL canvases right before each composite (they don't keep their last frame)
+  beforeDraw?: () => void
+}
+
+export interface Clip extends VideoClip {
+  url: string // Object URL for the preview
+  hasAudio: boolean
+}
+
+const ELAPSED_INTERVAL = 250 // ms between indicator updates
+
+export function useVideoRecorder(
+  containerRef: RefObject<HTMLElement | null>,
+  { name, active, beforeDraw }: VideoRecorderOptions
+) {
+  const recorderRef = useRef<CompositeVideoRecorder | null>(null)
+  const beforeDrawRef = useRef(beforeDraw)
+
+  const [containers] = useState(supportedContainers)
+  const [options, setOptions] = useState<VideoOptions>(() => ({
+    ...DEFAULT_VIDEO_OPTIONS,
+    container: containers[0] ?? DEFAULT_VIDEO_OPTIONS.container,
+  }))
+  const [isRecording, setIsRecording] = useState(false)
+  const [elapsedMs, setElapsedMs] = useState(0)
+  const [clip, setClip] = useState<Clip | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    beforeDrawRef.current = beforeDraw
+  }, [beforeDraw])
+
+  // Hand the clip to the preview; whichever of stop() and the duration limit
+  // gets here first wins
+  const finish = useCallback((recorder: CompositeVideoRecorder, result: Promise<VideoClip>) => {
+    if (recorderRef.current !== recorder) return
+    recorderRef.current = null
+    setIsRecording(false)
+
+    result.then(
+      (finished) => setClip({ ...finished, url: URL.createObjectURL(finished.blob), hasAudio: recorder.hasAudio }),
+      (err) => {
+        console.error('Recording failed:', err)
+        setError(err instanceof Error ? err.message : 'Recording failed')
+      }
+    )
+  }, [])
+
+  const start = useCallback(async () => {
+    const container = containerRef.current
+    if (!container || recorderRef.current) return
+
+    setError(null)
+    setClip(null)
+    try {
+      const recorder = await CompositeVideoRecorder.start(container, name, options, {
+        beforeDraw: () => beforeDrawRef.current?.(),
+        onAutoStop: (finished) => finish(recorder, Promise.resolve(finished)),
+      })
+      recorderRef.current = recorder
+      setElapsedMs(0)
+      setIsRecording(true)
+    } catch (err) {
+      console.error('Could not start recording:', err)
+      setError(err instanceof Error ? err.message : 'Could not start recording')
+    }
+  }, [containerRef, name, options, finish])
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current
+    if (recorder) finish(recorder, recorder.stop())
+  }, [finish])
+
+  // Tick the on-screen indicator
+  useEffect(() => {
+    if (!isRecording) return
+    const timer = setInterval(() => setElapsedMs(recorderRef.current?.elapsedMs ?? 0), ELAPSED_INTERVAL)
+    return () => clearInterval(timer)
+  }, [isRecording])
+
+  // The inputs are going away; keep what was recorded so far
+  useEffect(() => {
+    if (!active) stop()
+  }, [active, stop])
+
+  useEffect(() => () => {
+    recorderRef.current?.stop().catch(() => {})
+  }, [])
+
+  useEffect(() => {
+    if (!clip) return
+    return () => URL.revokeObjectURL(clip.url)
+  }, [clip])
+
+  const update = useCallback((changes: Partial<VideoOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  const dismiss = useCallback(() => {
+    setClip(null)
+    setError(null)
+  }, [])
+
+  const download = useCallback(() => {
+    if (clip) downloadBlob(clip.blob, clip.filename)
+  }, [clip])
+
+  const canShare = clip !== null && canShareFiles(clip.blob.type)
+
+  // Share sheet where supported, download otherwise
+  const share = useCallback(async () => {
+    if (!clip) return
+    if (!canShareFiles(clip.blob.type)) {
+      downloadBlob(clip.blob, clip.filename)
+      return
+    }
+    try {
+      await shareFile(clip.blob, clip.filename, document.title)
+    } catch (err) {
+      console.error('Sharing failed:', err)
+      setError('Sharing failed; try downloading instead')
+    }
+  }, [clip])
+
+  return {
+    containers,
+    options,
+    update,
+    isSupported: containers.length > 0,
+    isRecording,
+    elapsedMs,
+    start,
+    stop,
+    clip,
+    error,
+    canShare,
+    download,
+    share,
+    dismiss,
+  }
+}
+
+export type VideoRecorder = ReturnType<typeof useVideoRecorder>
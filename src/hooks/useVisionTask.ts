@@ -0,0 +1,130 @@
+/**
+ * Inference worker for an experiment page
+ *
+ * Owns the VisionTaskWorker for one task. The session creates it through
+ * create(); from then on every config change (model, delegate, limits,
+ * thresholds) rebuilds it in the background without a reload:
+ * - The old worker keeps detecting until the new one is ready, so the page
+ *   never stalls
+ * - A failed rebuild keeps the old worker and reports why
+ * - Quick successive changes (dragging a slider) only build the last one
+ *
+ * Inference times are benchmarked per config so the options panel can show
+ * what a change cost.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ModelBenchmark } from '../lib/modelBenchmark'
+import { describeVisionConfig } from '../lib/visionModels'
+import { VisionTaskWorker } from '../lib/visionWorker'
+import type { VisionDetection } from '../lib/visionWorker'
+import type { VisionDelegate, VisionTaskConfig, VisionTaskName } from '../lib/visionTasks'
+
+const REBUILD_DELAY_MS = 400
+
+interface VisionTaskOptions {
+  // A detect call failed or the worker crashed
+  onError?: (error: Error) => void
+}
+
+interface CreateOptions {
+  signal?: AbortSignal
+  onLoaded?: () => void
+}
+
+interface ActiveTask<T extends VisionTaskName> {
+  config: VisionTaskConfig<T>
+  delegate: VisionDelegate // The delegate actually in use
+}
+
+export function useVisionTask<T extends VisionTaskName>(
+  task: T,
+  config: VisionTaskConfig<T>,
+  { onError }: VisionTaskOptions = {}
+) {
+  const workerRef = useRef<VisionTaskWorker<T> | null>(null)
+  const configRef = useRef(config)
+  const callbacksRef = useRef({ onError })
+  const [benchmark] = useState(() => new ModelBenchmark())
+  const [active, setActive] = useState<ActiveTask<T> | null>(null)
+  const [failed, setFailed] = useState<{ config: VisionTaskConfig<T>; message: string } | null>(null)
+
+  useEffect(() => {
+    configRef.current = config
+  }, [config])
+
+  useEffect(() => {
+    callbacksRef.current = { onError }
+  }, [onError])
+
+  const handleError = useCallback((error: Error) => callbacksRef.current.onError?.(error), [])
+
+  // Swap in a ready worker
+  const adopt = useCallback((worker: VisionTaskWorker<T>, built: VisionTaskConfig<T>) => {
+    workerRef.current?.close()
+    workerRef.current = worker
+    benchmark.begin(describeVisionConfig(task, built))
+    setActive({ config: built, delegate: worker.delegate })
+    setFailed(null)
+  }, [task, benchmark])
+
+  // Start the worker with the current config (the session's init step)
+  const create = useCallback(async ({ signal, onLoaded }: CreateOptions = {}) => {
+    const built = configRef.current
+    const worker = await VisionTaskWorker.create(task, built, { signal, onLoaded, onError: handleError })
+    adopt(worker, built)
+  }, [task, handleError, adopt])
+
+  const close = useCallback(() => {
+    workerRef.current?.close()
+    workerRef.current = null
+    setActive(null)
+  }, [])
+
+  // Rebuild once the config has settled, if a worker is up and it differs
+  useEffect(() => {
+    if (!active || active.config === config || failed?.config === config) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      VisionTaskWorker.create(task, config, { signal: controller.signal, onError: handleError }).then(
+        (worker) => adopt(worker, config),
+        (err) => {
+          if (controller.signal.aborted) return
+          console.error('Rebuilding the landmarker failed:', err)
+          setFailed({ config, message: err instanceof Error ? err.message : String(err) })
+        }
+      )
+    }, REBUILD_DELAY_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [task, config, active, failed, handleError, adopt])
+
+  // Send a frame; false if busy or there is no worker yet
+  const detect = useCallback((source: HTMLVideoElement | HTMLImageElement, timestamp: number) => {
+    return workerRef.current?.detect(source, timestamp) ?? false
+  }, [])
+
+  const takeResult = useCallback((): VisionDetection<T> | null => {
+    const detection = workerRef.current?.takeResult() ?? null
+    if (detection) benchmark.record(detection.inferenceMs)
+    return detection
+  }, [benchmark])
+
+  return {
+    create,
+    close,
+    detect,
+    takeResult,
+    benchmark,
+    config: active?.config ?? null, // The config the running worker was built with
+    delegate: active?.delegate ?? config.delegate,
+    isRebuilding: active !== null && active.config !== config && failed?.config !== config,
+    rebuildError: failed?.config === config ? failed.message : null,
+  }
+}
+
+export type VisionTask<T extends VisionTaskName = VisionTaskName> = ReturnType<typeof useVisionTask<T>>
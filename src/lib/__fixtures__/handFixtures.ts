@@ -0,0 +1,143 @@
+/**
+ * Synthetic hand landmark fixtures
+ *
+ * Hand-authored 21-point hands in normalized image coordinates, laid out
+ * the way HandLandmarker reports an upright hand facing the camera: wrist
+ * at the bottom, fingers up, and for a right hand the thumb on the low-x
+ * side. Each finger is either extended or curled, which covers every rule
+ * in the gesture classifier; the transforms below produce the edge cases.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { HAND_FINGERS, HAND_LANDMARK_COUNT, HAND_LANDMARKS, mirrorX } from '../trackingCore'
+import type { Finger } from '../trackingCore'
+import type { Gesture } from '../gestureClassifier'
+
+export type FingerState = 'extended' | 'curled'
+
+export interface HandFixture {
+  name: string
+  expected: Gesture
+  isRightHand: boolean
+  landmarks: NormalizedLandmark[]
+}
+
+const WRIST = { x: 0.5, y: 0.8 }
+
+// Knuckle (MCP) position and joint offsets for each non-thumb finger of a
+// right hand; a left hand is the mirror image about the wrist
+const KNUCKLES: Record<Exclude<Finger, 'thumb'>, { x: number; y: number }> = {
+  index: { x: 0.45, y: 0.6 },
+  middle: { x: 0.5, y: 0.59 },
+  ring: { x: 0.55, y: 0.6 },
+  pinky: { x: 0.59, y: 0.63 },
+}
+
+// PIP, DIP and tip offsets from the knuckle
+const FINGER_JOINTS: Record<FingerState, [number, number][]> = {
+  extended: [[0, -0.07], [0, -0.12], [0, -0.16]],
+  curled: [[0, -0.04], [0, -0.01], [0, 0.02]],
+}
+
+// CMC, MCP, IP and tip positions
+const THUMB_JOINTS: Record<FingerState, [number, number][]> = {
+  extended: [[0.44, 0.76], [0.4, 0.7], [0.36, 0.66], [0.32, 0.62]],
+  curled: [[0.44, 0.76], [0.41, 0.71], [0.44, 0.68], [0.48, 0.69]], // Tucked across the palm
+}
+
+function point(x: number, y: number, z = 0): NormalizedLandmark {
+  return { x, y, z, visibility: 0 }
+}
+
+// Build a hand from one state per finger
+export function buildHand(
+  fingers: Record<Finger, FingerState>,
+  isRightHand = true
+): NormalizedLandmark[] {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: HAND_LANDMARK_COUNT }, () => point(WRIST.x, WRIST.y))
+
+  THUMB_JOINTS[fingers.thumb].forEach(([x, y], i) => {
+    landmarks[HAND_FINGERS.thumb[i]] = point(x, y, -0.02 * (i + 1))
+  })
+
+  for (const finger of ['index', 'middle', 'ring', 'pinky'] as const) {
+    const knuckle = KNUCKLES[finger]
+    const [mcp, ...rest] = HAND_FINGERS[finger]
+    landmarks[mcp] = point(knuckle.x, knuckle.y, -0.01)
+    FINGER_JOINTS[fingers[finger]].forEach(([dx, dy], i) => {
+      landmarks[rest[i]] = point(knuckle.x + dx, knuckle.y + dy, -0.02 * (i + 2))
+    })
+  }
+
+  // Left hands mirror about the wrist so they stay in the same spot
+  return isRightHand ? landmarks : landmarks.map((p) => ({ ...p, x: 2 * WRIST.x - p.x }))
+}
+
+// Rotate in the image plane about the wrist; positive is clockwise on screen
+export function rotateHand(landmarks: NormalizedLandmark[], degrees: number): NormalizedLandmark[] {
+  const wrist = landmarks[HAND_LANDMARKS.WRIST]
+  const radians = (degrees * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return landmarks.map((p) => {
+    const dx = p.x - wrist.x
+    const dy = p.y - wrist.y
+    return { ...p, x: wrist.x + dx * cos - dy * sin, y: wrist.y + dx * sin + dy * cos }
+  })
+}
+
+// Move the whole hand by an offset, e.g. partly out of frame
+export function translateHand(landmarks: NormalizedLandmark[], dx: number, dy: number): NormalizedLandmark[] {
+  return landmarks.map((p) => ({ ...p, x: p.x + dx, y: p.y + dy }))
+}
+
+// Move the thumb tip so it sits `gap` away from the index tip
+export function withPinchGap(landmarks: NormalizedLandmark[], gap: number): NormalizedLandmark[] {
+  const index = landmarks[HAND_LANDMARKS.INDEX_TIP]
+  const result = [...landmarks]
+  result[HAND_LANDMARKS.THUMB_TIP] = { ...landmarks[HAND_LANDMARKS.THUMB_TIP], x: index.x - gap, y: index.y }
+  return result
+}
+
+const E = 'extended'
+const C = 'curled'
+
+// One canonical right hand per gesture
+const GESTURE_FINGERS: Record<Exclude<Gesture, 'unknown' | 'pinch'>, Record<Finger, FingerState>> = {
+  open_palm: { thumb: E, index: E, middle: E, ring: E, pinky: E },
+  fist: { thumb: C, index: C, middle: C, ring: C, pinky: C },
+  pointing: { thumb: C, index: E, middle: C, ring: C, pinky: C },
+  thumbs_up: { thumb: E, index: C, middle: C, ring: C, pinky: C },
+  peace: { thumb: C, index: E, middle: E, ring: C, pinky: C },
+}
+
+// Rock sign: no rule covers it
+const ROCK_FINGERS: Record<Finger, FingerState> = { thumb: C, index: E, middle: C, ring: C, pinky: E }
+
+export function gestureHand(gesture: Gesture, isRightHand = true): NormalizedLandmark[] {
+  if (gesture === 'unknown') return buildHand(ROCK_FINGERS, isRightHand)
+  if (gesture === 'pinch') return withPinchGap(buildHand(GESTURE_FINGERS.pointing, isRightHand), 0.02)
+  return buildHand(GESTURE_FINGERS[gesture], isRightHand)
+}
+
+const ALL_GESTURES: Gesture[] = ['open_palm', 'fist', 'pointing', 'thumbs_up', 'pinch', 'peace', 'unknown']
+
+// Every gesture for both hands, upright and unmirrored
+export const HAND_FIXTURES: HandFixture[] = ALL_GESTURES.flatMap((gesture) =>
+  [true, false].map((isRightHand) => ({
+    name: `${isRightHand ? 'right' : 'left'} ${gesture}`,
+    expected: gesture,
+    isRightHand,
+    landmarks: gestureHand(gesture, isRightHand),
+  }))
+)
+
+// A selfie view flips the image, so a right hand looks like a left one
+export function mirrorFixture(fixture: HandFixture): HandFixture {
+  return {
+    ...fixture,
+    name: `${fixture.name} (mirrored)`,
+    isRightHand: !fixture.isRightHand,
+    landmarks: mirrorX(fixture.landmarks),
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Synthetic pose landmark fixtures
+ *
+ * Hand-authored 33-point bodies in normalized image coordinates, seen from
+ * the front and unmirrored (the subject's left side at high x). Each pose
+ * is given by its limb joints; face, hand and foot detail is placed around
+ * them so the full landmark set is present, as PoseLandmarker reports it.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { POSE_LANDMARK_COUNT, POSE_LANDMARKS, midpoint, mirrorX, vec3 } from '../trackingCore'
+import type { Pose } from '../poseClassifier'
+
+type Point = [number, number]
+
+// Limb joints for one side of the body
+export interface SideJoints {
+  shoulder: Point
+  elbow: Point
+  wrist: Point
+  hip: Point
+  knee: Point
+  ankle: Point
+}
+
+export interface BodyJoints {
+  left: SideJoints
+  right: SideJoints
+}
+
+export interface PoseFixture {
+  name: string
+  expected: Pose
+  landmarks: NormalizedLandmark[]
+}
+
+const VISIBLE = 0.99
+
+// The right side as the mirror image of the left about the body's centre line
+function symmetric(left: SideJoints, centre = 0.5): BodyJoints {
+  const flip = ([x, y]: Point): Point => [2 * centre - x, y]
+  return {
+    left,
+    right: {
+      shoulder: flip(left.shoulder),
+      elbow: flip(left.elbow),
+      wrist: flip(left.wrist),
+      hip: flip(left.hip),
+      knee: flip(left.knee),
+      ankle: flip(left.ankle),
+    },
+  }
+}
+
+function point([x, y]: Point, visibility = VISIBLE): NormalizedLandmark {
+  return { x, y, z: 0, visibility }
+}
+
+function offset([x, y]: Point, dx: number, dy: number): Point {
+  return [x + dx, y + dy]
+}
+
+// Expand limb joints to the full landmark set
+export function buildPose(body: BodyJoints): NormalizedLandmark[] {
+  const L = POSE_LANDMARKS
+  const landmarks: NormalizedLandmark[] = Array.from({ length: POSE_LANDMARK_COUNT }, () => point([0, 0]))
+
+  const sides = [
+    { joints: body.left, sign: 1, names: { shoulder: L.LEFT_SHOULDER, elbow: L.LEFT_ELBOW, wrist: L.LEFT_WRIST, hip: L.LEFT_HIP, knee: L.LEFT_KNEE, ankle: L.LEFT_ANKLE, pinky: L.LEFT_PINKY, index: L.LEFT_INDEX, thumb: L.LEFT_THUMB, heel: L.LEFT_HEEL, foot: L.LEFT_FOOT_INDEX } },
+    { joints: body.right, sign: -1, names: { shoulder: L.RIGHT_SHOULDER, elbow: L.RIGHT_ELBOW, wrist: L.RIGHT_WRIST, hip: L.RIGHT_HIP, knee: L.RIGHT_KNEE, ankle: L.RIGHT_ANKLE, pinky: L.RIGHT_PINKY, index: L.RIGHT_INDEX, thumb: L.RIGHT_THUMB, heel: L.RIGHT_HEEL, foot: L.RIGHT_FOOT_INDEX } },
+  ]
+
+  for (const { joints, sign, names } of sides) {
+    for (const joint of ['shoulder', 'elbow', 'wrist', 'hip', 'knee', 'ankle'] as const) {
+      landmarks[names[joint]] = point(joints[joint])
+    }
+
+    // Hand points continue the forearm a little past the wrist
+    const [ex, ey] = joints.elbow
+    const [wx, wy] = joints.wrist
+    const reach = 0.25
+    const hand: Point = [wx + (wx - ex) * reach, wy + (wy - ey) * reach]
+    landmarks[names.index] = point(hand)
+    landmarks[names.pinky] = point(offset(hand, 0.01 * sign, 0.01))
+    landmarks[names.thumb] = point(offset(hand, -0.01 * sign, -0.01))
+
+    landmarks[names.heel] = point(offset(joints.ankle, 0, 0.02))
+    landmarks[names.foot] = point(offset(joints.ankle, 0.02 * sign, 0.03))
+  }
+
+  // Face above the shoulder midpoint
+  const shoulders = midpoint(vec3(...body.left.shoulder), vec3(...body.right.shoulder))
+  const head: Point = [shoulders.x, shoulders.y - 0.15]
+  landmarks[L.NOSE] = point(head)
+  landmarks[L.LEFT_EYE_INNER] = point(offset(head, 0.01, -0.02))
+  landmarks[L.LEFT_EYE] = point(offset(head, 0.02, -0.02))
+  landmarks[L.LEFT_EYE_OUTER] = point(offset(head, 0.03, -0.02))
+  landmarks[L.RIGHT_EYE_INNER] = point(offset(head, -0.01, -0.02))
+  landmarks[L.RIGHT_EYE] = point(offset(head, -0.02, -0.02))
+  landmarks[L.RIGHT_EYE_OUTER] = point(offset(head, -0.03, -0.02))
+  landmarks[L.LEFT_EAR] = point(offset(head, 0.05, -0.01))
+  landmarks[L.RIGHT_EAR] = point(offset(head, -0.05, -0.01))
+  landmarks[L.MOUTH_LEFT] = point(offset(head, 0.015, 0.03))
+  landmarks[L.MOUTH_RIGHT] = point(offset(head, -0.015, 0.03))
+
+  return landmarks
+}
+
+// Hips, knees and ankles of someone standing straight
+const LEGS = { hip: [0.56, 0.6], knee: [0.56, 0.78], ankle: [0.56, 0.95] } satisfies Record<string, Point>
+
+export const POSE_BODIES: Record<Exclude<Pose, 'unknown'>, BodyJoints> = {
+  standing: symmetric({ shoulder: [0.6, 0.3], elbow: [0.62, 0.45], wrist: [0.63, 0.6], ...LEGS }),
+  t_pose: symmetric({ shoulder: [0.6, 0.3], elbow: [0.75, 0.3], wrist: [0.9, 0.3], ...LEGS }),
+  arms_up: symmetric({ shoulder: [0.6, 0.3], elbow: [0.62, 0.15], wrist: [0.63, 0.02], ...LEGS }),
+  hands_on_hips: symmetric({ shoulder: [0.6, 0.3], elbow: [0.72, 0.45], wrist: [0.58, 0.58], ...LEGS }),
+  // Seen from the front, bent knees come forward and the shins fold back under
+  sitting: symmetric({
+    shoulder: [0.6, 0.3],
+    elbow: [0.62, 0.45],
+    wrist: [0.63, 0.6],
+    hip: [0.56, 0.6],
+    knee: [0.6, 0.72],
+    ankle: [0.7, 0.68],
+  }),
+  // Upper body shifted sideways over the hips
+  leaning: {
+    left: { shoulder: [0.68, 0.3], elbow: [0.7, 0.45], wrist: [0.71, 0.6], ...LEGS },
+    right: { shoulder: [0.48, 0.3], elbow: [0.46, 0.45], wrist: [0.45, 0.6], hip: [0.44, 0.6], knee: [0.44, 0.78], ankle: [0.44, 0.95] },
+  },
+}
+
+export function posePoints(pose: Exclude<Pose, 'unknown'>): NormalizedLandmark[] {
+  return buildPose(POSE_BODIES[pose])
+}
+
+// Set the visibility score of some landmarks, e.g. to hide occluded hips
+export function withVisibility(
+  landmarks: NormalizedLandmark[],
+  indices: readonly number[],
+  visibility: number
+): NormalizedLandmark[] {
+  return landmarks.map((landmark, index) => (indices.includes(index) ? { ...landmark, visibility } : landmark))
+}
+
+// Bend both knees to the given angle by swinging the shins outward
+export function withKneeAngle(landmarks: NormalizedLandmark[], degrees: number): NormalizedLandmark[] {
+  const L = POSE_LANDMARKS
+  const result = [...landmarks]
+  const pairs = [
+    { hip: L.LEFT_HIP, knee: L.LEFT_KNEE, ankle: L.LEFT_ANKLE, sign: 1 },
+    { hip: L.RIGHT_HIP, knee: L.RIGHT_KNEE, ankle: L.RIGHT_ANKLE, sign: -1 },
+  ]
+  for (const { hip, knee, ankle, sign } of pairs) {
+    const k = landmarks[knee]
+    const h = landmarks[hip]
+    const shin = Math.hypot(landmarks[ankle].x - k.x, landmarks[ankle].y - k.y)
+    // Direction from knee to hip, turned by the knee angle
+    const thigh = Math.atan2(h.y - k.y, h.x - k.x)
+    const angle = thigh - sign * ((degrees * Math.PI) / 180)
+    result[ankle] = { ...landmarks[ankle], x: k.x + shin * Math.cos(angle), y: k.y + shin * Math.sin(angle) }
+  }
+  return result
+}
+
+export const POSE_FIXTURES: PoseFixture[] = (Object.keys(POSE_BODIES) as Exclude<Pose, 'unknown'>[]).map(
+  (pose) => ({ name: pose, expected: pose, landmarks: posePoints(pose) })
+)
+
+export function mirrorPoseFixture(fixture: PoseFixture): PoseFixture {
+  return { ...fixture, name: `${fixture.name} (mirrored)`, landmarks: mirrorX(fixture.landmarks) }
+}
@@ -0,0 +1,36 @@
+/**
+ * Recorded landmark fixtures
+ *
+ * Real landmarker output, captured with the Record button on the hand and
+ * body pages while holding a single gesture or pose. Save the exported
+ * session as
+ *
+ *   recorded/hand/<gesture>.<description>.json
+ *   recorded/pose/<pose>.<description>.json
+ *
+ * e.g. recorded/hand/peace.left-hand-backlit.json. The part of the name
+ * before the first dot is the label every frame is expected to classify
+ * as. Keep clips short (a few seconds) and trim them to the held gesture.
+ */
+
+import { parseSession } from '../landmarkSession'
+import type { LandmarkSession, SessionTask } from '../landmarkSession'
+
+export interface RecordedFixture<T extends SessionTask> {
+  name: string
+  expected: string
+  session: LandmarkSession<T>
+}
+
+const HAND_FILES = import.meta.glob<string>('./recorded/hand/*.json', { query: '?raw', import: 'default', eager: true })
+const POSE_FILES = import.meta.glob<string>('./recorded/pose/*.json', { query: '?raw', import: 'default', eager: true })
+
+function load<T extends SessionTask>(files: Record<string, string>, task: T): RecordedFixture<T>[] {
+  return Object.entries(files).map(([path, json]) => {
+    const name = path.split('/').pop()!.replace(/\.json$/, '')
+    return { name, expected: name.split('.')[0], session: parseSession(json, task) }
+  })
+}
+
+export const RECORDED_HAND_FIXTURES = load(HAND_FILES, 'hand')
+export const RECORDED_POSE_FIXTURES = load(POSE_FILES, 'pose')
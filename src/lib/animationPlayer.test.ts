@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { AnimationClip, NumberKeyframeTrack, Object3D } from 'three'
+import { MixerAnimation } from './animationPlayer'
+
+// Walk slides x from 0 to 2 over 2 s; Wave lifts y from 0 to 1 over 1 s
+function robot() {
+  const root = new Object3D()
+  const clips = [
+    new AnimationClip('Walk', 2, [new NumberKeyframeTrack('.position[x]', [0, 2], [0, 2])]),
+    new AnimationClip('Wave', 1, [new NumberKeyframeTrack('.position[y]', [0, 1], [0, 1])]),
+  ]
+  return { root, clips }
+}
+
+describe('MixerAnimation', () => {
+  it('starts paused on the requested clip', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips, 'Wave')
+
+    expect(animation.clips).toEqual(['Walk', 'Wave'])
+    expect(animation.clip).toBe('Wave')
+    expect(animation.duration).toBe(1)
+    expect(animation.paused).toBe(true)
+
+    animation.update(0.5)
+    expect(animation.time).toBe(0)
+  })
+
+  it('plays, pauses and seeks', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips)
+
+    animation.play('repeat')
+    animation.update(0.5)
+    expect(animation.time).toBeCloseTo(0.5)
+    expect(root.position.x).toBeCloseTo(0.5)
+
+    animation.pause()
+    animation.update(0.5)
+    expect(animation.time).toBeCloseTo(0.5)
+
+    animation.seek(1.5)
+    expect(root.position.x).toBeCloseTo(1.5)
+    animation.seek(10)
+    expect(animation.time).toBe(2)
+  })
+
+  it('scales time by the playback speed', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips)
+    animation.setSpeed(0.5)
+    animation.play('repeat')
+    animation.update(1)
+    expect(animation.time).toBeCloseTo(0.5)
+  })
+
+  it('stops on the last frame of a once clip, and restarts from the top', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips)
+
+    animation.play('once')
+    animation.update(1.5)
+    animation.update(1)
+    expect(animation.paused).toBe(true)
+    expect(root.position.x).toBeCloseTo(2)
+
+    animation.play('once')
+    expect(animation.time).toBe(0)
+    expect(animation.paused).toBe(false)
+  })
+
+  it('runs ping-pong clips backwards on the way back', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips)
+    animation.play('pingpong')
+    animation.update(1.5)
+    animation.update(1)
+    expect(root.position.x).toBeCloseTo(1.5)
+  })
+
+  it('crossfades between clips while playing', () => {
+    const { root, clips } = robot()
+    const animation = new MixerAnimation(root, clips)
+    animation.play('repeat')
+    animation.update(1)
+
+    animation.select('Wave', 0.5)
+    animation.update(0.25)
+    expect(animation.clip).toBe('Wave')
+    expect(root.position.x).toBeGreaterThan(0) // Walk is still fading out
+    expect(root.position.y).toBeGreaterThan(0)
+
+    animation.update(0.5)
+    expect(root.position.y).toBeCloseTo(0.75)
+  })
+})
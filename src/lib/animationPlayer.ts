@@ -0,0 +1,208 @@
+/**
+ * Animation clip playback
+ *
+ * One interface over the two ways the experiments play glTF animations, so
+ * the same controls drive both:
+ * - <model-viewer>: animation-name, currentTime, timeScale and play()
+ * - three.js: an AnimationMixer over a loaded GLTF (MixerAnimation)
+ *
+ * Times are in seconds of the clip, whatever the playback speed.
+ */
+
+import { AnimationMixer, LoopOnce, LoopPingPong, LoopRepeat } from 'three'
+import type { AnimationAction, AnimationClip, Object3D } from 'three'
+import type { ModelViewerElement } from '@google/model-viewer'
+
+export type AnimationLoop = 'repeat' | 'once' | 'pingpong'
+
+export const ANIMATION_LOOPS: { value: AnimationLoop; label: string }[] = [
+  { value: 'repeat', label: 'Loop' },
+  { value: 'once', label: 'Once' },
+  { value: 'pingpong', label: 'Ping-pong' },
+]
+
+export const ANIMATION_SPEEDS = [0.25, 0.5, 1, 1.5, 2]
+
+export interface AnimationBackend {
+  readonly clips: string[]
+  readonly clip: string | null
+  readonly time: number
+  readonly duration: number
+  readonly paused: boolean // Also true once a 'once' clip has finished
+  select(name: string, crossfade: number): void // Crossfade in seconds, if playing
+  play(loop: AnimationLoop): void // Resumes; also applies a new loop mode
+  pause(): void
+  seek(time: number): void
+  setSpeed(speed: number): void
+}
+
+function clampTime(time: number, duration: number): number {
+  return Math.min(Math.max(time, 0), duration)
+}
+
+const viewerBackends = new WeakMap<ModelViewerElement, AnimationBackend>()
+
+/**
+ * Playback through a loaded <model-viewer>'s own animation API. One backend
+ * per element, created on first use.
+ */
+export function modelViewerAnimation(element: ModelViewerElement): AnimationBackend {
+  const existing = viewerBackends.get(element)
+  if (existing) return existing
+
+  let loop: AnimationLoop = 'repeat'
+  const playOptions = () => ({ repetitions: loop === 'once' ? 1 : Infinity, pingpong: loop === 'pingpong' })
+
+  // A finished 'once' clip stays on its last frame; show it as paused
+  element.addEventListener('finished', () => element.pause())
+
+  const backend: AnimationBackend = {
+    get clips() {
+      return element.availableAnimations
+    },
+    get clip() {
+      return element.animationName || element.availableAnimations[0] || null
+    },
+    get time() {
+      return element.currentTime
+    },
+    get duration() {
+      return element.duration
+    },
+    get paused() {
+      return element.paused
+    },
+    select(name, crossfade) {
+      element.animationCrossfadeDuration = crossfade * 1000
+      element.animationName = name
+      // The element switches clips in its next update, with the default loop
+      // mode; put ours back once it has
+      element.updateComplete.then(() => {
+        if (!element.paused) element.play(playOptions())
+      })
+    },
+    play(nextLoop) {
+      loop = nextLoop
+      if (loop === 'once' && element.currentTime >= element.duration) backend.seek(0)
+      element.play(playOptions())
+    },
+    pause() {
+      element.pause()
+    },
+    seek(time) {
+      // currentTime runs the mixer forward by time × timeScale
+      element.currentTime = clampTime(time, element.duration) / (element.timeScale || 1)
+    },
+    setSpeed(speed) {
+      element.timeScale = speed
+    },
+  }
+
+  viewerBackends.set(element, backend)
+  return backend
+}
+
+/**
+ * Playback of a GLTF's clips on a three.js scene graph. The page's render
+ * loop calls update() with the frame's delta.
+ */
+export class MixerAnimation implements AnimationBackend {
+  readonly clips: string[]
+  private mixer: AnimationMixer
+  private clipsByName: Map<string, AnimationClip>
+  private action: AnimationAction | null = null
+  private isPaused = true
+  private loop: AnimationLoop = 'repeat'
+  private speed = 1
+
+  constructor(root: Object3D, clips: AnimationClip[], initial?: string) {
+    this.mixer = new AnimationMixer(root)
+    this.clipsByName = new Map(clips.map((clip) => [clip.name, clip]))
+    this.clips = [...this.clipsByName.keys()]
+
+    // Once clips stop on their last frame
+    this.mixer.addEventListener('finished', (event) => {
+      if (event.action === this.action) this.isPaused = true
+    })
+
+    const first = initial && this.clipsByName.has(initial) ? initial : this.clips[0]
+    if (first) this.select(first, 0)
+  }
+
+  get clip() {
+    return this.action?.getClip().name ?? null
+  }
+
+  get time() {
+    return this.action?.time ?? 0
+  }
+
+  get duration() {
+    return this.action?.getClip().duration ?? 0
+  }
+
+  get paused() {
+    return this.isPaused
+  }
+
+  select(name: string, crossfade: number) {
+    const clip = this.clipsByName.get(name)
+    const previous = this.action
+    if (!clip) return
+
+    const next = this.mixer.clipAction(clip)
+    if (next === previous) return
+
+    next.reset()
+    this.applyLoop(next)
+    next.timeScale = this.speed
+    next.play()
+    if (previous && !this.isPaused && crossfade > 0) {
+      next.crossFadeFrom(previous, crossfade, false)
+    } else {
+      previous?.stop()
+    }
+
+    this.action = next
+    // Show the new clip's first frame even while paused
+    if (this.isPaused) this.mixer.update(0)
+  }
+
+  play(loop: AnimationLoop) {
+    this.loop = loop
+    const action = this.action
+    if (!action) return
+
+    this.applyLoop(action)
+    if (loop === 'once' && action.time >= this.duration) action.reset()
+    action.paused = false
+    action.play()
+    this.isPaused = false
+  }
+
+  pause() {
+    this.isPaused = true
+  }
+
+  seek(time: number) {
+    if (!this.action) return
+    this.action.time = clampTime(time, this.duration)
+    this.mixer.update(0)
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed
+    if (this.action) this.action.timeScale = speed
+  }
+
+  // Advance by a frame's delta in seconds (nothing while paused)
+  update(delta: number) {
+    if (!this.isPaused) this.mixer.update(delta)
+  }
+
+  private applyLoop(action: AnimationAction) {
+    const mode = this.loop === 'once' ? LoopOnce : this.loop === 'pingpong' ? LoopPingPong : LoopRepeat
+    action.setLoop(mode, Infinity)
+    action.clampWhenFinished = true
+  }
+}
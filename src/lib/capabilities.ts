@@ -0,0 +1,172 @@
+/**
+ * Device capability probe
+ *
+ * One place to ask "will this run here?" instead of each experiment finding
+ * out on its own (or only after getUserMedia throws). Checks:
+ * - Camera presence (without triggering a permission prompt)
+ * - WebXR immersive-ar, plus the hit-test, anchors and depth-sensing modules
+ * - WebGL2, and whether it is hardware accelerated (MediaPipe GPU delegate)
+ * - WebAssembly and WASM SIMD
+ *
+ * The WebXR module checks look for the feature's interfaces; the session
+ * request remains the final word on whether a feature is granted.
+ */
+
+export type Capability =
+  | 'camera'
+  | 'webgl2'
+  | 'gpu-delegate'
+  | 'wasm'
+  | 'wasm-simd'
+  | 'webxr-ar'
+  | 'webxr-hit-test'
+  | 'webxr-anchors'
+  | 'webxr-depth-sensing'
+
+export interface CapabilityResult {
+  supported: boolean
+  reason?: string // Why it isn't supported, shown to the user
+}
+
+export type DeviceCapabilities = Record<Capability, CapabilityResult>
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  camera: 'Camera',
+  webgl2: 'WebGL2',
+  'gpu-delegate': 'GPU inference',
+  wasm: 'WebAssembly',
+  'wasm-simd': 'WASM SIMD',
+  'webxr-ar': 'WebXR AR',
+  'webxr-hit-test': 'WebXR hit-test',
+  'webxr-anchors': 'WebXR anchors',
+  'webxr-depth-sensing': 'WebXR depth sensing',
+}
+
+// Smallest module using a v128 instruction (same bytes as wasm-feature-detect)
+const SIMD_TEST_MODULE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+])
+
+const SOFTWARE_RENDERER = /swiftshader|llvmpipe|software|basic render/i
+
+const supported: CapabilityResult = { supported: true }
+
+function unsupported(reason: string): CapabilityResult {
+  return { supported: false, reason }
+}
+
+async function probeCamera(): Promise<CapabilityResult> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    return unsupported(
+      window.isSecureContext ? 'This browser has no camera API' : 'Camera access needs HTTPS'
+    )
+  }
+  try {
+    // Device kinds are listed before permission is granted (labels are not)
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    return devices.some((device) => device.kind === 'videoinput')
+      ? supported
+      : unsupported('No camera found')
+  } catch {
+    // Can't enumerate: let getUserMedia decide later
+    return supported
+  }
+}
+
+function probeWebGL(): { webgl2: CapabilityResult; gpuDelegate: CapabilityResult } {
+  const gl = document.createElement('canvas').getContext('webgl2')
+  if (!gl) {
+    const reason = 'WebGL2 is not available'
+    return { webgl2: unsupported(reason), gpuDelegate: unsupported(reason) }
+  }
+
+  const debugInfo = gl.getExtension('WEBGL_debug_renderer_info')
+  const renderer = String(
+    gl.getParameter(debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : gl.RENDERER) ?? ''
+  )
+  gl.getExtension('WEBGL_lose_context')?.loseContext()
+
+  return {
+    webgl2: supported,
+    gpuDelegate: SOFTWARE_RENDERER.test(renderer)
+      ? unsupported(`WebGL is running on a software renderer (${renderer})`)
+      : supported,
+  }
+}
+
+function probeWasm(): { wasm: CapabilityResult; simd: CapabilityResult } {
+  if (typeof WebAssembly !== 'object') {
+    const reason = 'WebAssembly is not available'
+    return { wasm: unsupported(reason), simd: unsupported(reason) }
+  }
+  return {
+    wasm: supported,
+    simd: WebAssembly.validate(SIMD_TEST_MODULE) ? supported : unsupported('WASM SIMD is not supported'),
+  }
+}
+
+async function probeWebXR(): Promise<Pick<DeviceCapabilities, 'webxr-ar' | 'webxr-hit-test' | 'webxr-anchors' | 'webxr-depth-sensing'>> {
+  let ar: CapabilityResult
+  if (!navigator.xr) {
+    ar = unsupported(window.isSecureContext ? 'WebXR is not available in this browser' : 'WebXR needs HTTPS')
+  } else {
+    try {
+      ar = (await navigator.xr.isSessionSupported('immersive-ar'))
+        ? supported
+        : unsupported('Immersive AR sessions are not supported on this device')
+    } catch {
+      ar = unsupported('Immersive AR sessions are blocked')
+    }
+  }
+
+  // The modules only matter once an AR session is possible at all
+  const module = (name: string, label: string) => {
+    if (!ar.supported) return ar
+    return name in window ? supported : unsupported(`${label} is not supported by this browser`)
+  }
+
+  return {
+    'webxr-ar': ar,
+    'webxr-hit-test': module('XRHitTestSource', 'Hit testing'),
+    'webxr-anchors': module('XRAnchor', 'Anchors'),
+    'webxr-depth-sensing': module('XRDepthInformation', 'Depth sensing'),
+  }
+}
+
+async function runProbe(): Promise<DeviceCapabilities> {
+  const [camera, xr] = await Promise.all([probeCamera(), probeWebXR()])
+  const { webgl2, gpuDelegate } = probeWebGL()
+  const { wasm, simd } = probeWasm()
+
+  return {
+    camera,
+    webgl2,
+    'gpu-delegate': gpuDelegate,
+    wasm,
+    'wasm-simd': simd,
+    ...xr,
+  }
+}
+
+let probePromise: Promise<DeviceCapabilities> | null = null
+
+// Probe once per page load; the result is shared by every caller
+export function probeCapabilities(): Promise<DeviceCapabilities> {
+  if (!probePromise) {
+    probePromise = runProbe()
+  }
+  return probePromise
+}
+
+// Reasons the given requirements aren't met (empty when everything is supported)
+export function missingCapabilities(
+  required: Capability[],
+  capabilities: DeviceCapabilities
+): { capability: Capability; reason: string }[] {
+  return required
+    .filter((capability) => !capabilities[capability].supported)
+    .map((capability) => ({
+      capability,
+      reason: capabilities[capability].reason ?? `${CAPABILITY_LABELS[capability]} is not supported`,
+    }))
+}
@@ -0,0 +1,227 @@
+/**
+ * Layer compositing for captures
+ *
+ * Flattens what an experiment shows into one canvas. Every video, canvas and
+ * image inside the capture container becomes a layer (camera feed, three.js
+ * canvas, 2D overlays), drawn where and how it appears on screen (stacking,
+ * object-fit cropping, CSS mirroring) but at the sharpest layer's native
+ * resolution rather than the page's. Mirrored selfie views therefore come
+ * out the way the user saw them.
+ *
+ * WebGL canvases clear their drawing buffer once a frame is presented, so the
+ * caller re-renders them in beforeDraw, which runs just before compositing.
+ * <model-viewer> keeps its canvas in a shadow root and is captured through
+ * its own toBlob(), which only still captures can wait for.
+ */
+
+const MAX_OUTPUT_SIZE = 4096 // px on the longest side
+
+// <model-viewer> and anything else that renders itself to a Blob
+interface BlobRenderer extends HTMLElement {
+  toBlob(options?: { mimeType?: string }): Promise<Blob>
+}
+
+type MediaElement = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement
+
+interface Layer {
+  source: CanvasImageSource
+  width: number // Intrinsic size
+  height: number
+  box: DOMRect // Drawn content box in page px
+  flipX: boolean
+  flipY: boolean
+  opacity: number
+  zIndex: number
+}
+
+type LayerStyle = Pick<Layer, 'flipX' | 'flipY' | 'opacity' | 'zIndex'>
+
+function isBlobRenderer(element: Element): element is BlobRenderer {
+  return element.localName === 'model-viewer' && typeof (element as BlobRenderer).toBlob === 'function'
+}
+
+function intrinsicSize(element: MediaElement) {
+  if (element instanceof HTMLVideoElement) {
+    return element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA
+      ? { width: element.videoWidth, height: element.videoHeight }
+      : { width: 0, height: 0 }
+  }
+  if (element instanceof HTMLImageElement) {
+    return element.complete ? { width: element.naturalWidth, height: element.naturalHeight } : { width: 0, height: 0 }
+  }
+  return { width: element.width, height: element.height }
+}
+
+// Where the content lands inside the element box (object-position is assumed centered)
+function contentBox(rect: DOMRect, fit: string, width: number, height: number): DOMRect {
+  if (fit === 'fill') return rect
+
+  const contain = Math.min(rect.width / width, rect.height / height)
+  const cover = Math.max(rect.width / width, rect.height / height)
+  const scale = fit === 'cover' ? cover
+    : fit === 'contain' ? contain
+    : fit === 'scale-down' ? Math.min(1, contain)
+    : 1 // none
+
+  const w = width * scale
+  const h = height * scale
+  return new DOMRect(rect.x + (rect.width - w) / 2, rect.y + (rect.height - h) / 2, w, h)
+}
+
+// Visible elements that can become layers, with the style that affects drawing
+function visibleElements(container: HTMLElement, selector: string) {
+  const found: { element: HTMLElement; style: CSSStyleDeclaration; rect: DOMRect; layerStyle: LayerStyle }[] = []
+
+  for (const element of container.querySelectorAll<HTMLElement>(selector)) {
+    const style = getComputedStyle(element)
+    const rect = element.getBoundingClientRect()
+    const opacity = Number(style.opacity)
+    if (element.hidden || style.display === 'none' || style.visibility === 'hidden') continue
+    if (opacity <= 0 || rect.width === 0 || rect.height === 0) continue
+
+    const transform = style.transform === 'none' ? null : new DOMMatrixReadOnly(style.transform)
+    found.push({
+      element,
+      style,
+      rect,
+      layerStyle: {
+        flipX: (transform?.a ?? 1) < 0,
+        flipY: (transform?.d ?? 1) < 0,
+        opacity,
+        zIndex: Number.parseInt(style.zIndex) || 0,
+      },
+    })
+  }
+
+  return found
+}
+
+// Video, canvas and image layers (everything that can be drawn synchronously)
+function mediaLayers(container: HTMLElement): Layer[] {
+  const layers: Layer[] = []
+  for (const { element, style, rect, layerStyle } of visibleElements(container, 'video, canvas, img')) {
+    const media = element as MediaElement
+    const { width, height } = intrinsicSize(media)
+    if (width === 0 || height === 0) continue
+    layers.push({ ...layerStyle, source: media, width, height, box: contentBox(rect, style.objectFit, width, height) })
+  }
+  return layers
+}
+
+async function rendererLayers(container: HTMLElement): Promise<Layer[]> {
+  const layers: Layer[] = []
+  for (const { element, rect, layerStyle } of visibleElements(container, 'model-viewer')) {
+    if (!isBlobRenderer(element)) continue
+    const bitmap = await createImageBitmap(await element.toBlob({ mimeType: 'image/png' }))
+    layers.push({ ...layerStyle, source: bitmap, width: bitmap.width, height: bitmap.height, box: rect })
+  }
+  return layers
+}
+
+// Paint order: z-index, then DOM order
+function sortLayers(layers: Layer[]): Layer[] {
+  return layers
+    .map((layer, index) => ({ layer, index }))
+    .sort((a, b) => a.layer.zIndex - b.layer.zIndex || a.index - b.index)
+    .map(({ layer }) => layer)
+}
+
+// Output size: the container at the sharpest layer's pixel density
+function outputSize(bounds: DOMRect, layers: Layer[]) {
+  const density = Math.max(1, ...layers.map((layer) => layer.width / layer.box.width))
+  const scale = Math.min(density, MAX_OUTPUT_SIZE / Math.max(bounds.width, bounds.height))
+  // Even dimensions keep video encoders happy
+  return {
+    width: 2 * Math.round((bounds.width * scale) / 2),
+    height: 2 * Math.round((bounds.height * scale) / 2),
+  }
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D is not available')
+  return ctx
+}
+
+function drawLayers(ctx: CanvasRenderingContext2D, container: HTMLElement, layers: Layer[], beforeDraw?: () => void) {
+  const bounds = container.getBoundingClientRect()
+  const scale = ctx.canvas.width / bounds.width
+
+  // Transparent three.js canvases sit on the container's background
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  ctx.fillStyle = getComputedStyle(container).backgroundColor
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+
+  beforeDraw?.()
+  for (const layer of layers) {
+    const { box } = layer
+    const w = box.width * scale
+    const h = box.height * scale
+    ctx.save()
+    ctx.globalAlpha = layer.opacity
+    ctx.translate((box.x - bounds.x) * scale + w / 2, (box.y - bounds.y) * scale + h / 2)
+    ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1)
+    ctx.drawImage(layer.source, -w / 2, -h / 2, w, h)
+    ctx.restore()
+  }
+}
+
+// Composite the container's layers into one canvas, once
+export async function captureComposite(container: HTMLElement, beforeDraw?: () => void): Promise<HTMLCanvasElement> {
+  const layers = sortLayers([...mediaLayers(container), ...(await rendererLayers(container))])
+  if (layers.length === 0) {
+    throw new Error('Nothing to capture yet')
+  }
+
+  const { width, height } = outputSize(container.getBoundingClientRect(), layers)
+  const ctx = createCanvas(width, height)
+  drawLayers(ctx, container, layers, beforeDraw)
+
+  for (const layer of layers) {
+    if (layer.source instanceof ImageBitmap) layer.source.close()
+  }
+  return ctx.canvas
+}
+
+// Canvas that re-composites the container on every draw(), for recording.
+// The output size is fixed when it's created; layers are looked up per frame
+// so sources that appear, hide or resize are picked up.
+export function createCompositor(container: HTMLElement) {
+  const layers = mediaLayers(container)
+  if (layers.length === 0) {
+    throw new Error('Nothing to capture yet')
+  }
+
+  const { width, height } = outputSize(container.getBoundingClientRect(), layers)
+  const ctx = createCanvas(width, height)
+
+  return {
+    canvas: ctx.canvas,
+    draw(beforeDraw?: () => void, watermark?: string | null) {
+      drawLayers(ctx, container, sortLayers(mediaLayers(container)), beforeDraw)
+      if (watermark) drawWatermark(ctx, watermark)
+    },
+  }
+}
+
+export type Compositor = ReturnType<typeof createCompositor>
+
+// Small label in the bottom-right corner, sized to the image
+export function drawWatermark(ctx: CanvasRenderingContext2D, text: string) {
+  const { width, height } = ctx.canvas
+  const size = Math.max(12, Math.round(Math.min(width, height) * 0.035))
+  const margin = size
+
+  ctx.save()
+  ctx.font = `600 ${size}px system-ui, sans-serif`
+  ctx.textAlign = 'right'
+  ctx.textBaseline = 'bottom'
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)'
+  ctx.shadowBlur = size / 4
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.75)'
+  ctx.fillText(text, width - margin, height - margin)
+  ctx.restore()
+}
@@ -0,0 +1,158 @@
+/**
+ * Experiment error taxonomy
+ *
+ * Failures are sorted into a small set of kinds so every experiment can show
+ * the same recovery screen for the same problem:
+ * - What went wrong, in plain words
+ * - A targeted recovery action
+ * - Diagnostic details that can be copied into a bug report
+ */
+
+export type ExperimentErrorKind =
+  | 'permission-denied'
+  | 'no-camera'
+  | 'insecure-context'
+  | 'asset-load'
+  | 'model-init'
+  | 'webgl-context-lost'
+  | 'xr-session-ended'
+  | 'invalid-file'
+
+export type RecoveryAction =
+  | 'retry' // Try the failed operation again
+  | 'reinitialize' // Rebuild the library / renderer, then try again
+  | 'open-https' // Reload the page over HTTPS
+
+export interface ErrorKindInfo {
+  icon: string
+  title: string
+  description: string
+  action: RecoveryAction
+  actionLabel: string
+}
+
+export const ERROR_KINDS: Record<ExperimentErrorKind, ErrorKindInfo> = {
+  'permission-denied': {
+    icon: '🚫',
+    title: 'Camera Permission Denied',
+    description: 'Allow camera access from the site settings (the icon next to the address bar), then try again.',
+    action: 'retry',
+    actionLabel: 'Try Again',
+  },
+  'no-camera': {
+    icon: '📷',
+    title: 'No Camera Available',
+    description: 'No usable camera was found. Connect one, or close other apps that are using it.',
+    action: 'retry',
+    actionLabel: 'Check Again',
+  },
+  'insecure-context': {
+    icon: '🔒',
+    title: 'HTTPS Required',
+    description: 'Browsers only allow camera and AR access on secure (HTTPS) pages.',
+    action: 'open-https',
+    actionLabel: 'Open HTTPS Version',
+  },
+  'asset-load': {
+    icon: '📦',
+    title: 'Download Failed',
+    description: 'A library or model file could not be downloaded. Check your connection and retry.',
+    action: 'reinitialize',
+    actionLabel: 'Retry Download',
+  },
+  'model-init': {
+    icon: '🧠',
+    title: 'Tracking Failed to Start',
+    description: 'The tracking model downloaded but could not be initialized on this device.',
+    action: 'reinitialize',
+    actionLabel: 'Retry',
+  },
+  'webgl-context-lost': {
+    icon: '🖥️',
+    title: 'Graphics Context Lost',
+    description: 'The browser reset the GPU context (often after backgrounding the tab or a driver reset).',
+    action: 'reinitialize',
+    actionLabel: 'Restart Renderer',
+  },
+  'xr-session-ended': {
+    icon: '🥽',
+    title: 'AR Session Ended',
+    description: 'The AR session was closed by the browser or the system.',
+    action: 'retry',
+    actionLabel: 'Re-enter AR',
+  },
+  'invalid-file': {
+    icon: '📄',
+    title: "Couldn't Use That File",
+    description: 'The selected file could not be read. Pick a supported video, images or session file.',
+    action: 'retry',
+    actionLabel: 'Choose Another File',
+  },
+}
+
+export class ExperimentError extends Error {
+  readonly kind: ExperimentErrorKind
+  readonly step: string | null // Lifecycle step that failed, if known
+  readonly time: Date
+
+  constructor(kind: ExperimentErrorKind, message: string, options: { cause?: unknown; step?: string } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'ExperimentError'
+    this.kind = kind
+    this.step = options.step ?? null
+    this.time = new Date()
+  }
+
+  get info(): ErrorKindInfo {
+    return ERROR_KINDS[this.kind]
+  }
+}
+
+const CAMERA_KINDS: ExperimentErrorKind[] = ['permission-denied', 'no-camera']
+
+// Recognize getUserMedia / platform errors regardless of which step threw them
+function classify(err: unknown, fallback: ExperimentErrorKind): ExperimentErrorKind {
+  if (!window.isSecureContext && CAMERA_KINDS.includes(fallback)) {
+    return 'insecure-context'
+  }
+  if (err instanceof DOMException) {
+    switch (err.name) {
+      case 'NotAllowedError':
+        return 'permission-denied'
+      case 'SecurityError':
+        return window.isSecureContext ? 'permission-denied' : 'insecure-context'
+      case 'NotFoundError':
+      case 'OverconstrainedError':
+      case 'NotReadableError':
+        return 'no-camera'
+    }
+  }
+  return fallback
+}
+
+// Wrap anything thrown into an ExperimentError, using fallback when the
+// error itself doesn't say what kind of failure it was
+export function toExperimentError(err: unknown, fallback: ExperimentErrorKind, step?: string): ExperimentError {
+  if (err instanceof ExperimentError) return err
+
+  const message = err instanceof Error ? err.message : String(err)
+  return new ExperimentError(classify(err, fallback), message, { cause: err, step })
+}
+
+// Plain-text report for bug filing
+export function formatDiagnostics(error: ExperimentError, context: Record<string, string> = {}): string {
+  const cause = error.cause instanceof Error ? error.cause : null
+  const lines = [
+    `Kind: ${error.kind}`,
+    `Message: ${error.message}`,
+    error.step && `Step: ${error.step}`,
+    cause && `Cause: ${cause.name}: ${cause.message}`,
+    ...Object.entries(context).map(([key, value]) => `${key}: ${value}`),
+    `Page: ${window.location.href}`,
+    `Time: ${error.time.toISOString()}`,
+    `Secure context: ${window.isSecureContext}`,
+    `User agent: ${navigator.userAgent}`,
+    cause?.stack && `Stack:\n${cause.stack}`,
+  ]
+  return lines.filter(Boolean).join('\n')
+}
@@ -0,0 +1,40 @@
+/**
+ * Saving and sharing captured files
+ *
+ * Downloads use the usual Blob + anchor pattern; sharing goes through the
+ * Web Share API, which only some browsers (mostly mobile) support for files.
+ */
+
+// Save a Blob as a download
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Whether the browser can hand files of this type to the system share sheet
+export function canShareFiles(type: string): boolean {
+  if (typeof navigator.canShare !== 'function') return false
+  const probe = new File([new Uint8Array(0)], 'probe', { type })
+  return navigator.canShare({ files: [probe] })
+}
+
+// Open the share sheet; resolves false if the user dismissed it
+export async function shareFile(blob: Blob, filename: string, title: string): Promise<boolean> {
+  const file = new File([blob], filename, { type: blob.type })
+  try {
+    await navigator.share({ files: [file], title })
+    return true
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false
+    throw err
+  }
+}
+
+// Timestamped file name, e.g. 06-hand-tracking-photo-2024-01-01T12-00-00-000Z.png
+export function captureFilename(name: string, kind: string, extension: string, date = new Date()) {
+  return `${name}-${kind}-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`
+}
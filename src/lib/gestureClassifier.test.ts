@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { detectGesture, isFingerExtended, isThumbExtended } from './gestureClassifier'
+import { HAND_LANDMARKS } from './trackingCore'
+import {
+  HAND_FIXTURES,
+  buildHand,
+  gestureHand,
+  mirrorFixture,
+  rotateHand,
+  translateHand,
+  withPinchGap,
+} from './__fixtures__/handFixtures'
+import { RECORDED_HAND_FIXTURES } from './__fixtures__/recordedFixtures'
+import { GESTURE_SHAPES, generateHand, seededRandom } from './landmarkGenerator'
+import type { Handedness } from './landmarkGenerator'
+
+// Share of recorded frames that must match the clip's label; clips start
+// and end mid-transition, so a few misses are expected
+const RECORDED_AGREEMENT = 0.8
+
+const H = HAND_LANDMARKS
+
+describe('isFingerExtended', () => {
+  const open = gestureHand('open_palm')
+  const fist = gestureHand('fist')
+
+  it('is true when tip, pip and mcp rise up the image in order', () => {
+    expect(isFingerExtended(open, H.INDEX_TIP, H.INDEX_PIP, H.INDEX_MCP)).toBe(true)
+    expect(isFingerExtended(open, H.PINKY_TIP, H.PINKY_PIP, H.PINKY_MCP)).toBe(true)
+  })
+
+  it('is false for a curled finger', () => {
+    expect(isFingerExtended(fist, H.INDEX_TIP, H.INDEX_PIP, H.INDEX_MCP)).toBe(false)
+    expect(isFingerExtended(fist, H.RING_TIP, H.RING_PIP, H.RING_MCP)).toBe(false)
+  })
+
+  it('is false for a finger pointing down the image', () => {
+    expect(isFingerExtended(rotateHand(open, 180), H.INDEX_TIP, H.INDEX_PIP, H.INDEX_MCP)).toBe(false)
+  })
+})
+
+describe('isThumbExtended', () => {
+  it('expects a right thumb to point toward low x', () => {
+    expect(isThumbExtended(gestureHand('thumbs_up'), true)).toBe(true)
+    expect(isThumbExtended(gestureHand('fist'), true)).toBe(false)
+  })
+
+  it('expects a left thumb to point toward high x', () => {
+    expect(isThumbExtended(gestureHand('thumbs_up', false), false)).toBe(true)
+    expect(isThumbExtended(gestureHand('fist', false), false)).toBe(false)
+  })
+
+  it('depends on the handedness it is told', () => {
+    expect(isThumbExtended(gestureHand('thumbs_up'), false)).toBe(false)
+  })
+})
+
+describe('detectGesture', () => {
+  it.each(HAND_FIXTURES)('classifies a $name', ({ landmarks, isRightHand, expected }) => {
+    expect(detectGesture(landmarks, isRightHand)).toBe(expected)
+  })
+
+  describe('mirrored input', () => {
+    it.each(HAND_FIXTURES.map(mirrorFixture))('classifies a $name', ({ landmarks, isRightHand, expected }) => {
+      expect(detectGesture(landmarks, isRightHand)).toBe(expected)
+    })
+
+    it('misreads the thumb when the handedness label is not swapped', () => {
+      const { landmarks, isRightHand } = mirrorFixture(HAND_FIXTURES[0])
+      expect(detectGesture(landmarks, !isRightHand)).not.toBe('open_palm')
+    })
+  })
+
+  describe('rotated hands', () => {
+    it.each([-20, -10, 10, 20])('still classifies gestures tilted %i°', (degrees) => {
+      for (const { landmarks, isRightHand, expected } of HAND_FIXTURES) {
+        expect(detectGesture(rotateHand(landmarks, degrees), isRightHand)).toBe(expected)
+      }
+    })
+
+    // The rules compare raw y coordinates, so a sideways hand reads as
+    // having no fingers up. Pinned so a rotation-aware rewrite shows up here.
+    it('reads a sideways open palm as a fist', () => {
+      expect(detectGesture(rotateHand(gestureHand('open_palm'), 90), true)).toBe('fist')
+    })
+
+    it('detects a pinch at any rotation', () => {
+      for (const degrees of [0, 45, 90, 135, 180]) {
+        expect(detectGesture(rotateHand(gestureHand('pinch'), degrees), true)).toBe('pinch')
+      }
+    })
+  })
+
+  describe('partial visibility', () => {
+    it('classifies a hand whose fingertips run off the top of the frame', () => {
+      const clipped = translateHand(gestureHand('peace'), 0, -0.5)
+      expect(clipped[H.INDEX_TIP].y).toBeLessThan(0)
+      expect(detectGesture(clipped, true)).toBe('peace')
+    })
+
+    it('classifies a hand cut off at the side of the frame', () => {
+      expect(detectGesture(translateHand(gestureHand('pointing'), 0.55, 0), true)).toBe('pointing')
+    })
+  })
+
+  describe('pinch threshold', () => {
+    const pointing = buildHand({ thumb: 'curled', index: 'extended', middle: 'curled', ring: 'curled', pinky: 'curled' })
+
+    it('counts tips closer than 0.05 as a pinch', () => {
+      expect(detectGesture(withPinchGap(pointing, 0.049), true)).toBe('pinch')
+    })
+
+    it('does not count tips further apart than 0.05', () => {
+      expect(detectGesture(withPinchGap(pointing, 0.051), true)).not.toBe('pinch')
+      expect(detectGesture(withPinchGap(pointing, 0.08), true)).toBe('pointing')
+    })
+
+    it('takes priority over every other gesture', () => {
+      const open = gestureHand('open_palm')
+      expect(detectGesture(withPinchGap(open, 0.01), true)).toBe('pinch')
+    })
+  })
+})
+
+describe('generated hands', () => {
+  const shapes = Object.entries(GESTURE_SHAPES) as [keyof typeof GESTURE_SHAPES, (typeof GESTURE_SHAPES)[keyof typeof GESTURE_SHAPES]][]
+  const cases = shapes.flatMap(([gesture, shape]) =>
+    (['Right', 'Left'] as Handedness[]).map((handedness) => ({ gesture, shape, handedness }))
+  )
+
+  // A hand held up 30–40 cm from a webcam, tilted a little, with landmark jitter
+  it.each(cases)('classifies a $handedness $gesture across the usual range', ({ gesture, shape, handedness }) => {
+    const random = seededRandom(1)
+    for (const distance of [0.3, 0.35, 0.4]) {
+      for (const roll of [-25, 0, 25]) {
+        for (const pitch of [-10, 10]) {
+          const { landmarks } = generateHand({ ...shape, handedness, distance, roll, pitch, noise: 0.002 }, random)
+          expect(detectGesture(landmarks, handedness === 'Right'), `${distance} m, roll ${roll}°, pitch ${pitch}°`).toBe(gesture)
+        }
+      }
+    }
+  })
+
+  // The pinch threshold is in image units rather than relative to hand
+  // size, so further away the tucked thumb of a fist comes within it
+  it('reads a fist 80 cm away as a pinch', () => {
+    const { landmarks } = generateHand({ ...GESTURE_SHAPES.fist, distance: 0.8 })
+    expect(detectGesture(landmarks, true)).toBe('pinch')
+  })
+})
+
+describe.skipIf(RECORDED_HAND_FIXTURES.length === 0)('recorded hands', () => {
+  it.each(RECORDED_HAND_FIXTURES)('classifies $name', ({ session, expected }) => {
+    let total = 0
+    let matched = 0
+    for (const { result } of session.frames) {
+      result.landmarks.forEach((landmarks, index) => {
+        const isRightHand = result.handedness[index]?.[0]?.categoryName === 'Right'
+        total++
+        if (detectGesture(landmarks, isRightHand) === expected) matched++
+      })
+    }
+    expect(total).toBeGreaterThan(0)
+    expect(matched / total).toBeGreaterThanOrEqual(RECORDED_AGREEMENT)
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Hand gesture classifier
+ *
+ * Rule-based gestures from one hand's 21 landmarks: which fingers are
+ * extended plus a thumb–index pinch check. The rules work in image
+ * coordinates and assume an upright hand (fingers pointing up the screen).
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { HAND_LANDMARKS, distance } from './trackingCore'
+
+export type Gesture = 'open_palm' | 'fist' | 'pointing' | 'thumbs_up' | 'pinch' | 'peace' | 'unknown'
+
+export interface GestureInfo {
+  name: string
+  emoji: string
+  description: string
+}
+
+export const GESTURES: Record<Gesture, GestureInfo> = {
+  open_palm: { name: 'Open Palm', emoji: '🖐️', description: 'All fingers extended' },
+  fist: { name: 'Fist', emoji: '✊', description: 'All fingers closed' },
+  pointing: { name: 'Pointing', emoji: '👆', description: 'Index finger up' },
+  thumbs_up: { name: 'Thumbs Up', emoji: '👍', description: 'Thumb extended up' },
+  pinch: { name: 'Pinch', emoji: '🤏', description: 'Thumb + index touching' },
+  peace: { name: 'Peace', emoji: '✌️', description: 'Index + middle up' },
+  unknown: { name: 'Unknown', emoji: '❓', description: 'Gesture not recognized' },
+}
+
+// Thumb–index tip distance (normalized image units) that counts as a pinch
+const PINCH_DISTANCE = 0.05
+
+// Finger is extended if tip is further from palm than pip
+export function isFingerExtended(
+  landmarks: NormalizedLandmark[],
+  tipIdx: number,
+  pipIdx: number,
+  mcpIdx: number
+): boolean {
+  const tip = landmarks[tipIdx]
+  const pip = landmarks[pipIdx]
+  const mcp = landmarks[mcpIdx]
+  
+  // Using y coordinate (lower y = higher on screen = extended)
+  return tip.y < pip.y && pip.y < mcp.y
+}
+
+export function isThumbExtended(landmarks: NormalizedLandmark[], isRightHand: boolean): boolean {
+  const thumbTip = landmarks[HAND_LANDMARKS.THUMB_TIP]
+  const thumbIP = landmarks[HAND_LANDMARKS.THUMB_IP]
+  const thumbMCP = landmarks[HAND_LANDMARKS.THUMB_MCP]
+  
+  // Thumb extends outward (x-axis dependent on handedness)
+  if (isRightHand) {
+    return thumbTip.x < thumbIP.x && thumbIP.x < thumbMCP.x
+  } else {
+    return thumbTip.x > thumbIP.x && thumbIP.x > thumbMCP.x
+  }
+}
+
+export function detectGesture(landmarks: NormalizedLandmark[], isRightHand: boolean): Gesture {
+  const thumbExtended = isThumbExtended(landmarks, isRightHand)
+  const indexExtended = isFingerExtended(
+    landmarks,
+    HAND_LANDMARKS.INDEX_TIP,
+    HAND_LANDMARKS.INDEX_PIP,
+    HAND_LANDMARKS.INDEX_MCP
+  )
+  const middleExtended = isFingerExtended(
+    landmarks,
+    HAND_LANDMARKS.MIDDLE_TIP,
+    HAND_LANDMARKS.MIDDLE_PIP,
+    HAND_LANDMARKS.MIDDLE_MCP
+  )
+  const ringExtended = isFingerExtended(
+    landmarks,
+    HAND_LANDMARKS.RING_TIP,
+    HAND_LANDMARKS.RING_PIP,
+    HAND_LANDMARKS.RING_MCP
+  )
+  const pinkyExtended = isFingerExtended(
+    landmarks,
+    HAND_LANDMARKS.PINKY_TIP,
+    HAND_LANDMARKS.PINKY_PIP,
+    HAND_LANDMARKS.PINKY_MCP
+  )
+  
+  // Check for pinch (thumb and index tips close together)
+  const pinchDistance = distance(
+    landmarks[HAND_LANDMARKS.THUMB_TIP],
+    landmarks[HAND_LANDMARKS.INDEX_TIP]
+  )
+  const isPinching = pinchDistance < PINCH_DISTANCE
+  
+  if (isPinching) return 'pinch'
+  
+  // Thumbs up: thumb extended, all others closed
+  if (thumbExtended && !indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
+    return 'thumbs_up'
+  }
+  
+  // Open palm: all fingers extended
+  if (thumbExtended && indexExtended && middleExtended && ringExtended && pinkyExtended) {
+    return 'open_palm'
+  }
+  
+  // Fist: all fingers closed
+  if (!thumbExtended && !indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
+    return 'fist'
+  }
+  
+  // Pointing: only index extended
+  if (!thumbExtended && indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
+    return 'pointing'
+  }
+  
+  // Peace: index and middle extended, others closed
+  if (!thumbExtended && indexExtended && middleExtended && !ringExtended && !pinkyExtended) {
+    return 'peace'
+  }
+  
+  return 'unknown'
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { DEFAULT_SMOOTHING, KalmanFilter, LandmarkSmoother, OneEuroFilter } from './landmarkFilters'
+import type { SmoothingConfig, SmoothingKind } from './landmarkFilters'
+import { seededRandom } from './landmarkGenerator'
+
+const FRAME_MS = 1000 / 30
+
+// A one-landmark "hand" at (x, x, 0)
+function hand(x: number): NormalizedLandmark[] {
+  return [{ x, y: x, z: 0, visibility: 1 }]
+}
+
+function config(kind: SmoothingKind): SmoothingConfig {
+  return { ...DEFAULT_SMOOTHING, kind }
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length)
+}
+
+// Kalman at a still-subject setting (the default favours following). Its
+// constant-velocity model overshoots a step, so it keeps more of the jitter.
+describe.each([
+  { name: 'One Euro', create: () => new OneEuroFilter(DEFAULT_SMOOTHING), maxJitter: 0.5 },
+  { name: 'Kalman', create: () => new KalmanFilter({ ...DEFAULT_SMOOTHING, processNoise: 0.5 }), maxJitter: 0.7 },
+])('$name filter', ({ create, maxJitter }) => {
+  it('passes the first sample through', () => {
+    expect(create().filter(0.42, 0)).toBe(0.42)
+  })
+
+  it('converges on a constant signal', () => {
+    const filter = create()
+    filter.filter(0, 0)
+    let value = 0
+    for (let frame = 1; frame <= 60; frame++) value = filter.filter(1, frame / 30)
+    expect(value).toBeCloseTo(1, 3)
+  })
+
+  it('cuts jitter on a noisy step, and follows the step within a few frames', () => {
+    const filter = create()
+    const random = seededRandom(3)
+    const noise = () => (random() - 0.5) * 0.02
+    const raw: number[] = []
+    const smoothed: number[] = []
+    for (let frame = 0; frame < 90; frame++) {
+      const value = (frame < 45 ? 0.3 : 0.7) + noise()
+      raw.push(value)
+      smoothed.push(filter.filter(value, frame / 30))
+    }
+
+    // Still stretches before and well after the step
+    const still = (values: number[]) => [...values.slice(10, 45), ...values.slice(65, 90)]
+    const rawJitter = standardDeviation(still(raw).map((value, i) => value - (i < 35 ? 0.3 : 0.7)))
+    const smoothedJitter = standardDeviation(still(smoothed).map((value, i) => value - (i < 35 ? 0.3 : 0.7)))
+    expect(smoothedJitter).toBeLessThan(rawJitter * maxJitter)
+
+    // 90% of the way there within 6 frames (200 ms)
+    const settled = smoothed.findIndex((value, frame) => frame >= 45 && value > 0.3 + 0.4 * 0.9)
+    expect(settled - 45).toBeLessThanOrEqual(6)
+  })
+
+  it('ignores samples that do not move time forward', () => {
+    const filter = create()
+    filter.filter(0, 1)
+    const value = filter.filter(0.5, 1.1)
+    expect(filter.filter(0.9, 1.1)).toBe(value)
+  })
+})
+
+describe('LandmarkSmoother', () => {
+  it("passes landmarks through untouched with 'none'", () => {
+    const smoother = new LandmarkSmoother(config('none'))
+    const sets = [hand(0.2)]
+    expect(smoother.apply(sets, [], 0)).toBe(sets)
+    expect(smoother.apply([hand(0.8)], [], FRAME_MS)[0][0].x).toBe(0.8)
+  })
+
+  it.each(['one-euro', 'kalman'] as const)('smooths every coordinate with %s and keeps other fields', (kind) => {
+    const smoother = new LandmarkSmoother(config(kind))
+    smoother.apply([hand(0.2)], [], 0)
+    const [[landmark]] = smoother.apply([hand(0.8)], [], FRAME_MS)
+    expect(landmark.x).toBeGreaterThan(0.2)
+    expect(landmark.x).toBeLessThan(0.8)
+    expect(landmark.y).toBe(landmark.x)
+    expect(landmark.visibility).toBe(1)
+  })
+
+  it('starts over after reset or a config change', () => {
+    const smoother = new LandmarkSmoother(config('one-euro'))
+    smoother.apply([hand(0.2)], [], 0)
+    smoother.reset()
+    expect(smoother.apply([hand(0.8)], [], FRAME_MS)[0][0].x).toBe(0.8)
+
+    smoother.setConfig(config('kalman'))
+    expect(smoother.apply([hand(0.3)], [], 2 * FRAME_MS)[0][0].x).toBe(0.3)
+  })
+
+  it('keeps a track through a short dropout and drops it after a long one', () => {
+    const smoother = new LandmarkSmoother(config('one-euro'))
+    smoother.apply([hand(0.2)], ['Left'], 0)
+
+    // Back after 200 ms: still smoothed from where it was
+    smoother.apply([], [], 100)
+    expect(smoother.apply([hand(0.8)], ['Left'], 200)[0][0].x).toBeLessThan(0.8)
+
+    // Back after 500 ms: a fresh track, not dragged in from the old position
+    smoother.apply([], [], 400)
+    expect(smoother.apply([hand(0.8)], ['Left'], 700 + DEFAULT_SMOOTHING.dropoutMs)[0][0].x).toBe(0.8)
+  })
+
+  it('follows each hand by its key when the hand count changes', () => {
+    const smoother = new LandmarkSmoother(config('one-euro'))
+    smoother.apply([hand(0.2), hand(0.8)], ['Left', 'Right'], 0)
+
+    // The right hand is now first; it must not inherit the left hand's track
+    const [right] = smoother.apply([hand(0.8)], ['Right'], FRAME_MS)
+    expect(right[0].x).toBeCloseTo(0.8, 6)
+
+    // The left hand comes back second, from its own track
+    const [, left] = smoother.apply([hand(0.8), hand(0.2)], ['Right', 'Left'], 2 * FRAME_MS)
+    expect(left[0].x).toBeCloseTo(0.2, 6)
+  })
+
+  it('gives two hands with the same handedness their own tracks', () => {
+    const smoother = new LandmarkSmoother(config('one-euro'))
+    smoother.apply([hand(0.2), hand(0.8)], ['Left', 'Left'], 0)
+    const [first, second] = smoother.apply([hand(0.2), hand(0.8)], ['Left', 'Left'], FRAME_MS)
+    expect(first[0].x).toBeCloseTo(0.2, 6)
+    expect(second[0].x).toBeCloseTo(0.8, 6)
+  })
+
+  it('starts a track over when its landmark count changes', () => {
+    const smoother = new LandmarkSmoother(config('one-euro'))
+    smoother.apply([hand(0.2)], ['Left'], 0)
+    const [landmarks] = smoother.apply([[...hand(0.8), ...hand(0.8)]], ['Left'], FRAME_MS)
+    expect(landmarks.map((landmark) => landmark.x)).toEqual([0.8, 0.8])
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * Landmark smoothing filters
+ *
+ * Landmarker output jitters by a few pixels even when the subject is still.
+ * These filters smooth each landmark's x/y/z independently:
+ * - One Euro: low-pass whose cutoff rises with speed, so slow motion is
+ *   smoothed hard while fast motion keeps up (Casiez et al., CHI 2012)
+ * - Kalman: constant-velocity model, trading measurement noise against how
+ *   quickly the velocity is allowed to change
+ *
+ * LandmarkSmoother keeps one filter set per tracked hand or person and drops
+ * it when that track disappears for longer than the dropout window, so a
+ * hand that comes back elsewhere isn't dragged in from its old position.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+export type SmoothingKind = 'none' | 'one-euro' | 'kalman'
+
+export interface SmoothingConfig {
+  kind: SmoothingKind
+  // One Euro
+  minCutoff: number // Hz; lower = smoother when still
+  beta: number // Cutoff increase per unit/s of speed; higher = less lag when moving
+  dCutoff: number // Hz; smoothing of the speed estimate
+  // Kalman
+  processNoise: number // Std dev of acceleration (units/s²); higher = follows faster
+  measurementNoise: number // Std dev of landmark jitter (normalized units)
+  // Both
+  dropoutMs: number // Reset a track after it has been missing this long
+}
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  kind: 'one-euro',
+  minCutoff: 1.5,
+  beta: 5,
+  dCutoff: 1,
+  processNoise: 4,
+  measurementNoise: 0.005,
+  dropoutMs: 300,
+}
+
+interface ScalarFilter {
+  filter(value: number, time: number): number
+}
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff)
+  return 1 / (1 + tau / dt)
+}
+
+export class OneEuroFilter implements ScalarFilter {
+  private config: Pick<SmoothingConfig, 'minCutoff' | 'beta' | 'dCutoff'>
+  private value: number | null = null
+  private speed = 0
+  private time = 0
+
+  constructor(config: Pick<SmoothingConfig, 'minCutoff' | 'beta' | 'dCutoff'>) {
+    this.config = config
+  }
+
+  // time in seconds
+  filter(value: number, time: number): number {
+    if (this.value === null) {
+      this.value = value
+      this.time = time
+      return value
+    }
+
+    const dt = time - this.time
+    if (dt <= 0) return this.value
+    this.time = time
+
+    const { minCutoff, beta, dCutoff } = this.config
+    const rawSpeed = (value - this.value) / dt
+    this.speed += smoothingFactor(dCutoff, dt) * (rawSpeed - this.speed)
+
+    const cutoff = minCutoff + beta * Math.abs(this.speed)
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value)
+    return this.value
+  }
+}
+
+export class KalmanFilter implements ScalarFilter {
+  private config: Pick<SmoothingConfig, 'processNoise' | 'measurementNoise'>
+  private position: number | null = null
+  private velocity = 0
+  // Covariance [[p00, p01], [p01, p11]]
+  private p00 = 1
+  private p01 = 0
+  private p11 = 1
+  private time = 0
+
+  constructor(config: Pick<SmoothingConfig, 'processNoise' | 'measurementNoise'>) {
+    this.config = config
+  }
+
+  // time in seconds
+  filter(value: number, time: number): number {
+    const r = this.config.measurementNoise ** 2
+
+    if (this.position === null) {
+      this.position = value
+      this.velocity = 0
+      this.p00 = r
+      this.p01 = 0
+      this.p11 = 1
+      this.time = time
+      return value
+    }
+
+    const dt = time - this.time
+    if (dt <= 0) return this.position
+    this.time = time
+
+    // Predict: constant velocity, with acceleration as the process noise
+    const q = this.config.processNoise ** 2
+    this.position += this.velocity * dt
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + (q * dt ** 4) / 4
+    const p01 = this.p01 + dt * this.p11 + (q * dt ** 3) / 2
+    const p11 = this.p11 + q * dt ** 2
+
+    // Update with the measured position
+    const innovation = value - this.position
+    const s = p00 + r
+    const k0 = p00 / s
+    const k1 = p01 / s
+    this.position += k0 * innovation
+    this.velocity += k1 * innovation
+    this.p00 = (1 - k0) * p00
+    this.p01 = (1 - k0) * p01
+    this.p11 = p11 - k1 * p01
+    return this.position
+  }
+}
+
+function createFilter(config: SmoothingConfig): ScalarFilter {
+  return config.kind === 'kalman' ? new KalmanFilter(config) : new OneEuroFilter(config)
+}
+
+interface Track {
+  filters: ScalarFilter[] // x, y, z for each landmark
+  lastSeen: number // Seconds
+}
+
+export class LandmarkSmoother {
+  private config: SmoothingConfig
+  private tracks = new Map<string, Track>()
+
+  constructor(config: SmoothingConfig = DEFAULT_SMOOTHING) {
+    this.config = config
+  }
+
+  // Changing settings starts every track over
+  setConfig(config: SmoothingConfig) {
+    this.config = config
+    this.reset()
+  }
+
+  reset() {
+    this.tracks.clear()
+  }
+
+  // Smooth one frame of landmark sets. keys identify each set across frames
+  // (e.g. handedness; defaults to the index); time is in milliseconds.
+  // Returns new landmark arrays.
+  apply(sets: NormalizedLandmark[][], keys: string[] = [], time = performance.now()): NormalizedLandmark[][] {
+    if (this.config.kind === 'none') return sets
+
+    const seconds = time / 1000
+    const dropout = this.config.dropoutMs / 1000
+
+    // Forget tracks that have been gone too long
+    for (const [key, track] of this.tracks) {
+      if (seconds - track.lastSeen > dropout) this.tracks.delete(key)
+    }
+
+    const used = new Set<string>()
+    return sets.map((landmarks, index) => {
+      // Two sets with the same label (e.g. two "Left" hands) still need their own track
+      let key = keys[index] ?? String(index)
+      if (used.has(key)) key = `${key}#${index}`
+      used.add(key)
+
+      let track = this.tracks.get(key)
+      if (!track || track.filters.length !== landmarks.length * 3) {
+        track = {
+          filters: Array.from({ length: landmarks.length * 3 }, () => createFilter(this.config)),
+          lastSeen: seconds,
+        }
+        this.tracks.set(key, track)
+      }
+      track.lastSeen = seconds
+
+      const { filters } = track
+      return landmarks.map((landmark, i) => ({
+        ...landmark,
+        x: filters[i * 3].filter(landmark.x, seconds),
+        y: filters[i * 3 + 1].filter(landmark.y, seconds),
+        z: filters[i * 3 + 2].filter(landmark.z, seconds),
+      }))
+    })
+  }
+}
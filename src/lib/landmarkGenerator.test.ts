@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_HAND,
+  GESTURE_SHAPES,
+  generateHand,
+  generateHandResult,
+  generatePose,
+  generatePoseResult,
+  seededRandom,
+} from './landmarkGenerator'
+import {
+  HAND_LANDMARK_COUNT,
+  HAND_LANDMARKS,
+  POSE_LANDMARK_COUNT,
+  POSE_LANDMARKS,
+  distance,
+  distance3D,
+  handSize,
+  isVisible,
+  jointAngle,
+} from './trackingCore'
+
+const H = HAND_LANDMARKS
+const P = POSE_LANDMARKS
+
+describe('seededRandom', () => {
+  it('repeats for the same seed and stays in [0, 1)', () => {
+    const a = seededRandom(42)
+    const b = seededRandom(42)
+    for (let i = 0; i < 100; i++) {
+      const value = a()
+      expect(value).toBe(b())
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe('generateHand', () => {
+  it('produces 21 landmarks with the wrist where asked', () => {
+    const { landmarks, worldLandmarks } = generateHand({ x: 0.3, y: 0.6 })
+    expect(landmarks).toHaveLength(HAND_LANDMARK_COUNT)
+    expect(worldLandmarks).toHaveLength(HAND_LANDMARK_COUNT)
+    expect(landmarks[H.WRIST]).toMatchObject({ x: 0.3, y: 0.6, z: 0 })
+  })
+
+  it('shrinks with camera distance', () => {
+    const near = handSize(generateHand({ distance: 0.3 }).landmarks)
+    const far = handSize(generateHand({ distance: 0.9 }).landmarks)
+    expect(near / far).toBeCloseTo(3)
+  })
+
+  it('keeps world landmarks in metres regardless of distance', () => {
+    const near = generateHand({ distance: 0.3 }).worldLandmarks
+    const far = generateHand({ distance: 0.9 }).worldLandmarks
+    expect(distance3D(near[H.WRIST], near[H.MIDDLE_MCP])).toBeCloseTo(0.09)
+    expect(distance3D(far[H.WRIST], far[H.MIDDLE_MCP])).toBeCloseTo(0.09)
+  })
+
+  it('points the fingers up and the right thumb toward low x', () => {
+    const { landmarks } = generateHand()
+    expect(landmarks[H.MIDDLE_TIP].y).toBeLessThan(landmarks[H.WRIST].y)
+    expect(landmarks[H.THUMB_TIP].x).toBeLessThan(landmarks[H.WRIST].x)
+  })
+
+  it('mirrors a left hand about the wrist', () => {
+    const right = generateHand({ handedness: 'Right' }).landmarks
+    const left = generateHand({ handedness: 'Left' }).landmarks
+    for (let i = 0; i < HAND_LANDMARK_COUNT; i++) {
+      expect(left[i].x - DEFAULT_HAND.x).toBeCloseTo(DEFAULT_HAND.x - right[i].x)
+      expect(left[i].y).toBeCloseTo(right[i].y)
+    }
+  })
+
+  it('brings a curled fingertip back toward the palm', () => {
+    const straight = generateHand().landmarks
+    const curled = generateHand({ curl: { index: 1 } }).landmarks
+    expect(curled[H.INDEX_TIP].y).toBeGreaterThan(curled[H.INDEX_PIP].y)
+    expect(curled[H.INDEX_TIP].z).toBeLessThan(straight[H.INDEX_TIP].z)
+    expect(curled[H.MIDDLE_TIP]).toEqual(straight[H.MIDDLE_TIP])
+  })
+
+  it('rolls clockwise on screen about the wrist', () => {
+    const upright = generateHand({ aspect: 1 }).landmarks
+    const rolled = generateHand({ aspect: 1, roll: 90 }).landmarks
+    // Fingers that pointed up now point toward high x
+    expect(rolled[H.MIDDLE_MCP].x).toBeGreaterThan(rolled[H.WRIST].x)
+    expect(handSize(rolled)).toBeCloseTo(handSize(upright))
+  })
+
+  it('foreshortens the hand when pitched toward the camera', () => {
+    const upright = generateHand().landmarks
+    const pitched = generateHand({ pitch: 60 }).landmarks
+    expect(handSize(pitched)).toBeCloseTo(handSize(upright) / 2)
+    expect(pitched[H.MIDDLE_MCP].z).toBeLessThan(0)
+  })
+
+  it('adds reproducible noise', () => {
+    const clean = generateHand().landmarks
+    const a = generateHand({ noise: 0.01 }, seededRandom(7)).landmarks
+    const b = generateHand({ noise: 0.01 }, seededRandom(7)).landmarks
+    expect(a).toEqual(b)
+    const offsets = a.map((p, i) => distance(p, clean[i]))
+    expect(Math.max(...offsets)).toBeGreaterThan(0)
+    expect(Math.max(...offsets)).toBeLessThan(0.06)
+  })
+})
+
+describe('generateHandResult', () => {
+  it('labels each hand with its handedness', () => {
+    const result = generateHandResult([
+      { ...GESTURE_SHAPES.fist, handedness: 'Left' },
+      { ...GESTURE_SHAPES.peace, handedness: 'Right' },
+    ])
+    expect(result.landmarks).toHaveLength(2)
+    expect(result.handedness.map((categories) => categories[0].categoryName)).toEqual(['Left', 'Right'])
+  })
+})
+
+describe('generatePose', () => {
+  it('produces 33 visible landmarks centred on the hips', () => {
+    const { landmarks, worldLandmarks } = generatePose({ x: 0.4, y: 0.55 })
+    expect(landmarks).toHaveLength(POSE_LANDMARK_COUNT)
+    expect(worldLandmarks).toHaveLength(POSE_LANDMARK_COUNT)
+    expect((landmarks[P.LEFT_HIP].x + landmarks[P.RIGHT_HIP].x) / 2).toBeCloseTo(0.4)
+    expect(landmarks[P.LEFT_HIP].y).toBeCloseTo(0.55)
+    expect(landmarks.every((landmark) => isVisible(landmark))).toBe(true)
+  })
+
+  it('puts the subject’s left side at high x and the head on top', () => {
+    const { landmarks } = generatePose()
+    expect(landmarks[P.LEFT_SHOULDER].x).toBeGreaterThan(landmarks[P.RIGHT_SHOULDER].x)
+    expect(landmarks[P.NOSE].y).toBeLessThan(landmarks[P.LEFT_SHOULDER].y)
+    expect(landmarks[P.LEFT_ANKLE].y).toBeGreaterThan(landmarks[P.LEFT_KNEE].y)
+  })
+
+  it('bends knees to the requested angle', () => {
+    const { worldLandmarks } = generatePose({ limbs: { leftKnee: 100 } })
+    expect(jointAngle(worldLandmarks[P.LEFT_HIP], worldLandmarks[P.LEFT_KNEE], worldLandmarks[P.LEFT_ANKLE])).toBeCloseTo(100)
+  })
+
+  it('raises arms by the shoulder angle', () => {
+    const { worldLandmarks } = generatePose({ limbs: { leftShoulder: 90, leftElbow: 180 } })
+    expect(worldLandmarks[P.LEFT_WRIST].y).toBeCloseTo(worldLandmarks[P.LEFT_SHOULDER].y)
+    expect(jointAngle(worldLandmarks[P.LEFT_HIP], worldLandmarks[P.LEFT_SHOULDER], worldLandmarks[P.LEFT_ELBOW])).toBeGreaterThan(80)
+  })
+
+  it('reports occluded and out-of-frame landmarks as not visible', () => {
+    const occluded = generatePose({ occluded: [P.LEFT_KNEE] }).landmarks
+    expect(isVisible(occluded[P.LEFT_KNEE])).toBe(false)
+    expect(isVisible(occluded[P.RIGHT_KNEE])).toBe(true)
+
+    const cropped = generatePose({ y: 0.9, distance: 1.5 }).landmarks
+    expect(cropped[P.LEFT_ANKLE].y).toBeGreaterThan(1)
+    expect(isVisible(cropped[P.LEFT_ANKLE])).toBe(false)
+    expect(isVisible(cropped[P.LEFT_SHOULDER])).toBe(true)
+  })
+
+  it('generates one entry per person', () => {
+    const result = generatePoseResult([{ x: 0.3 }, { x: 0.7, distance: 4 }])
+    expect(result.landmarks).toHaveLength(2)
+    expect(result.worldLandmarks).toHaveLength(2)
+  })
+})
@@ -0,0 +1,450 @@
+/**
+ * Synthetic landmark generator
+ *
+ * Procedural hand and pose landmarks in the same NormalizedLandmark shape
+ * the landmarkers produce, for testing classifiers and driving the pages
+ * without a camera or a model.
+ *
+ * Each body is built in metres from a simple joint model (finger curls,
+ * limb angles), rotated, then projected with a pinhole camera so distance
+ * sets the apparent size. Projection is weak-perspective: the whole body
+ * shares one depth, which is plenty for the sizes involved.
+ *
+ * Layout matches what the landmarkers report for an unmirrored frame:
+ * - Hands face the camera, fingers up; a 'Right' hand has its thumb toward
+ *   low x (HandLandmarker's labels assume a mirrored selfie view)
+ * - Poses face the camera with the subject's left side at high x
+ */
+
+import type { Category, Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { HAND_FINGERS, HAND_LANDMARK_COUNT, POSE_LANDMARK_COUNT, POSE_LANDMARKS, centroid } from './trackingCore'
+import type { Finger, Vec3 } from './trackingCore'
+import type { Gesture } from './gestureClassifier'
+import type { Pose } from './poseClassifier'
+import type { HandFrameResult, PoseFrameResult } from './landmarkSession'
+
+export type Handedness = 'Left' | 'Right'
+
+interface CameraParams {
+  fov: number // Vertical field of view, degrees
+  aspect: number // Input width / height
+}
+
+export interface HandParams extends CameraParams {
+  handedness: Handedness
+  curl: Record<Finger, number> // 0 = straight, 1 = fully curled
+  spread: number // 0 = fingers together, 1 = splayed
+  x: number // Wrist position in normalized image coordinates
+  y: number
+  roll: number // In-plane rotation about the wrist, degrees clockwise on screen
+  pitch: number // Fingertips toward (+) or away from the camera, degrees
+  yaw: number // Turn about the vertical axis, degrees
+  distance: number // Metres from the camera
+  noise: number // Std dev of per-landmark jitter, normalized units
+}
+
+// Angles in degrees. Shoulders and hips: 0 = limb hanging straight down,
+// 90 = out to the side, 180 = straight up. Elbows and knees: the inner
+// angle, 180 = straight; elbows fold toward the body, knees outward.
+export interface LimbAngles {
+  leftShoulder: number
+  rightShoulder: number
+  leftElbow: number
+  rightElbow: number
+  leftHip: number
+  rightHip: number
+  leftKnee: number
+  rightKnee: number
+}
+
+export interface PoseParams extends CameraParams {
+  limbs: LimbAngles
+  lean: number // Torso tilt about the hips, degrees toward the subject's left
+  x: number // Hip midpoint in normalized image coordinates
+  y: number
+  distance: number // Metres from the camera
+  occluded: readonly number[] // Landmark indices reported as not visible
+  noise: number // Std dev of per-landmark jitter, normalized units
+}
+
+// Parameters to override; curls and limb angles can be given individually
+export type HandOverrides = Partial<Omit<HandParams, 'curl'>> & { curl?: Partial<HandParams['curl']> }
+export type PoseOverrides = Partial<Omit<PoseParams, 'limbs'>> & { limbs?: Partial<LimbAngles> }
+
+export const DEFAULT_HAND: HandParams = {
+  handedness: 'Right',
+  curl: { thumb: 0, index: 0, middle: 0, ring: 0, pinky: 0 },
+  spread: 0.5,
+  x: 0.5,
+  y: 0.75,
+  roll: 0,
+  pitch: 0,
+  yaw: 0,
+  distance: 0.5,
+  noise: 0,
+  fov: 60,
+  aspect: 4 / 3,
+}
+
+export const DEFAULT_POSE: PoseParams = {
+  limbs: {
+    leftShoulder: 8,
+    rightShoulder: 8,
+    leftElbow: 170,
+    rightElbow: 170,
+    leftHip: 4,
+    rightHip: 4,
+    leftKnee: 178,
+    rightKnee: 178,
+  },
+  lean: 0,
+  x: 0.5,
+  y: 0.6,
+  distance: 2.5,
+  occluded: [],
+  noise: 0,
+  fov: 60,
+  aspect: 4 / 3,
+}
+
+// Hand shapes the gesture classifier recognizes
+export const GESTURE_SHAPES: Record<Exclude<Gesture, 'unknown'>, Pick<HandParams, 'curl' | 'spread'>> = {
+  open_palm: { curl: { thumb: 0, index: 0, middle: 0, ring: 0, pinky: 0 }, spread: 0.8 },
+  fist: { curl: { thumb: 1, index: 1, middle: 1, ring: 1, pinky: 1 }, spread: 0.2 },
+  pointing: { curl: { thumb: 1, index: 0, middle: 1, ring: 1, pinky: 1 }, spread: 0.3 },
+  thumbs_up: { curl: { thumb: 0, index: 1, middle: 1, ring: 1, pinky: 1 }, spread: 0.2 },
+  pinch: { curl: { thumb: 0.45, index: 0.65, middle: 0, ring: 0, pinky: 0 }, spread: 0.5 },
+  peace: { curl: { thumb: 1, index: 0, middle: 0, ring: 1, pinky: 1 }, spread: 0.9 },
+}
+
+// Body configurations the pose classifier recognizes
+export const POSE_SHAPES: Record<Exclude<Pose, 'unknown'>, Pick<PoseParams, 'limbs' | 'lean'>> = {
+  standing: { limbs: DEFAULT_POSE.limbs, lean: 0 },
+  t_pose: {
+    limbs: { ...DEFAULT_POSE.limbs, leftShoulder: 90, rightShoulder: 90, leftElbow: 180, rightElbow: 180 },
+    lean: 0,
+  },
+  arms_up: {
+    limbs: { ...DEFAULT_POSE.limbs, leftShoulder: 170, rightShoulder: 170, leftElbow: 175, rightElbow: 175 },
+    lean: 0,
+  },
+  hands_on_hips: {
+    limbs: { ...DEFAULT_POSE.limbs, leftShoulder: 40, rightShoulder: 40, leftElbow: 75, rightElbow: 75 },
+    lean: 0,
+  },
+  sitting: {
+    limbs: { ...DEFAULT_POSE.limbs, leftHip: 10, rightHip: 10, leftKnee: 90, rightKnee: 90 },
+    lean: 0,
+  },
+  leaning: { limbs: DEFAULT_POSE.limbs, lean: 20 },
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+// Deterministic uniform [0, 1) source (mulberry32) for reproducible noise
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Standard normal sample (Box–Muller)
+function gaussian(random: () => number): number {
+  const u = 1 - random() // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Normalized image height per metre at a given distance
+function projectionScale({ fov }: CameraParams, distance: number): number {
+  return 1 / (distance * 2 * Math.tan(toRadians(fov) / 2))
+}
+
+// Rotate about x (pitch), then y (yaw), then z (roll)
+function rotate({ x, y, z }: Vec3, pitch: number, yaw: number, roll: number): Vec3 {
+  const [cp, sp] = [Math.cos(toRadians(pitch)), Math.sin(toRadians(pitch))]
+  const [cy, sy] = [Math.cos(toRadians(yaw)), Math.sin(toRadians(yaw))]
+  const [cr, sr] = [Math.cos(toRadians(roll)), Math.sin(toRadians(roll))]
+  // Positive pitch tips the fingers (up the image, -y) toward the camera (-z)
+  const y1 = y * cp - z * sp
+  const z1 = y * sp + z * cp
+  const x2 = x * cy + z1 * sy
+  const z2 = -x * sy + z1 * cy
+  return { x: x2 * cr - y1 * sr, y: x2 * sr + y1 * cr, z: z2 }
+}
+
+// Metres around an origin to normalized image coordinates, with jitter
+function project(
+  points: Vec3[],
+  origin: { x: number; y: number },
+  params: CameraParams & { distance: number; noise: number },
+  random: () => number
+): NormalizedLandmark[] {
+  const scale = projectionScale(params, params.distance)
+  const jitter = () => (params.noise > 0 ? gaussian(random) * params.noise : 0)
+  return points.map((p) => ({
+    x: origin.x + (p.x * scale) / params.aspect + jitter(),
+    y: origin.y + p.y * scale + jitter(),
+    z: (p.z * scale) / params.aspect + jitter(),
+    visibility: 0,
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Hands
+// ---------------------------------------------------------------------------
+
+const PALM_LENGTH = 0.09 // Wrist to middle knuckle, metres
+
+// Right hand in palm lengths: knuckle position, segment lengths (knuckle
+// out to tip) and in-plane direction (degrees from straight up, positive
+// toward high x) when together and when splayed
+const FINGER_MODEL: Record<Exclude<Finger, 'thumb'>, {
+  knuckle: [number, number]
+  bones: [number, number, number]
+  together: number
+  splayed: number
+}> = {
+  index: { knuckle: [-0.28, -0.93], bones: [0.44, 0.26, 0.22], together: -3, splayed: -14 },
+  middle: { knuckle: [0, -1], bones: [0.49, 0.3, 0.24], together: 0, splayed: 0 },
+  ring: { knuckle: [0.26, -0.93], bones: [0.45, 0.28, 0.23], together: 3, splayed: 12 },
+  pinky: { knuckle: [0.48, -0.8], bones: [0.35, 0.21, 0.2], together: 7, splayed: 26 },
+}
+
+// Joint flexion at full curl: MCP, PIP, DIP
+const FINGER_FLEX = [80, 100, 70]
+
+const THUMB_MODEL = {
+  base: [-0.22, -0.22] as [number, number], // CMC
+  bones: [0.38, 0.32, 0.28], // CMC→MCP, MCP→IP, IP→tip
+  together: -30, // Direction from straight up, degrees
+  splayed: -55,
+  flex: [45, 60, 75], // Swing across the palm at full curl, per joint
+  opposition: 1, // Degrees of lift toward the camera per degree of swing
+  maxLift: 45, // Degrees; past this the thumb folds flat across the fingers
+}
+
+// Joint positions of an upright right hand in palm lengths, wrist at the origin
+function handSkeleton({ curl, spread }: Pick<HandParams, 'curl' | 'spread'>): Vec3[] {
+  const points: Vec3[] = Array.from({ length: HAND_LANDMARK_COUNT }, () => ({ x: 0, y: 0, z: 0 }))
+
+  // Thumb: swings across the palm and out in front of it as it curls
+  {
+    const [cmc, ...joints] = HAND_FINGERS.thumb
+    let position: Vec3 = { x: THUMB_MODEL.base[0], y: THUMB_MODEL.base[1], z: 0 }
+    let angle = THUMB_MODEL.together + (THUMB_MODEL.splayed - THUMB_MODEL.together) * spread
+    let flexed = 0
+    points[cmc] = position
+    joints.forEach((index, i) => {
+      angle += THUMB_MODEL.flex[i] * curl.thumb
+      flexed += THUMB_MODEL.flex[i] * curl.thumb
+      const length = THUMB_MODEL.bones[i]
+      const lift = toRadians(Math.min(flexed * THUMB_MODEL.opposition, THUMB_MODEL.maxLift))
+      position = {
+        x: position.x + length * Math.cos(lift) * Math.sin(toRadians(angle)),
+        y: position.y - length * Math.cos(lift) * Math.cos(toRadians(angle)),
+        z: position.z - length * Math.sin(lift),
+      }
+      points[index] = position
+    })
+  }
+
+  // Fingers: each joint folds toward the camera in the finger's own plane
+  for (const finger of ['index', 'middle', 'ring', 'pinky'] as const) {
+    const model = FINGER_MODEL[finger]
+    const [mcp, ...joints] = HAND_FINGERS[finger]
+    const heading = toRadians(model.together + (model.splayed - model.together) * spread)
+    const dx = Math.sin(heading)
+    const dy = -Math.cos(heading)
+
+    let position: Vec3 = { x: model.knuckle[0], y: model.knuckle[1], z: 0 }
+    let flexed = 0
+    points[mcp] = position
+    joints.forEach((index, i) => {
+      flexed += toRadians(FINGER_FLEX[i] * curl[finger])
+      const length = model.bones[i]
+      position = {
+        x: position.x + length * dx * Math.cos(flexed),
+        y: position.y + length * dy * Math.cos(flexed),
+        z: position.z - length * Math.sin(flexed),
+      }
+      points[index] = position
+    })
+  }
+
+  return points
+}
+
+// One hand's 21 normalized landmarks and world landmarks (metres, origin at
+// the hand's centre, as HandLandmarker reports them)
+export function generateHand(
+  overrides: HandOverrides = {},
+  random: () => number = Math.random
+): { landmarks: NormalizedLandmark[]; worldLandmarks: Landmark[] } {
+  const params = { ...DEFAULT_HAND, ...overrides, curl: { ...DEFAULT_HAND.curl, ...overrides.curl } }
+  const mirror = params.handedness === 'Left' ? -1 : 1
+
+  const metres = handSkeleton(params).map((p) =>
+    rotate({ x: p.x * mirror * PALM_LENGTH, y: p.y * PALM_LENGTH, z: p.z * PALM_LENGTH }, params.pitch, params.yaw, params.roll)
+  )
+  const centre = centroid(metres)
+
+  return {
+    landmarks: project(metres, params, params, random),
+    worldLandmarks: metres.map((p) => ({ x: p.x - centre.x, y: p.y - centre.y, z: p.z - centre.z, visibility: 0 })),
+  }
+}
+
+// A frame result for any number of hands, as HandLandmarker returns it
+export function generateHandResult(
+  hands: HandOverrides[],
+  random: () => number = Math.random
+): HandFrameResult {
+  const generated = hands.map((hand) => generateHand(hand, random))
+  return {
+    landmarks: generated.map((hand) => hand.landmarks),
+    worldLandmarks: generated.map((hand) => hand.worldLandmarks),
+    handedness: hands.map((hand, index): Category[] => {
+      const label = hand.handedness ?? DEFAULT_HAND.handedness
+      return [{ score: 0.98, index, categoryName: label, displayName: label }]
+    }),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Poses
+// ---------------------------------------------------------------------------
+
+// Adult body proportions, metres
+const BODY = {
+  shoulderWidth: 0.38,
+  hipWidth: 0.26,
+  torso: 0.5, // Shoulder midpoint to hip midpoint
+  neck: 0.25, // Shoulder midpoint to nose
+  upperArm: 0.3,
+  forearm: 0.27,
+  hand: 0.09,
+  thigh: 0.45,
+  shin: 0.43,
+}
+
+const VISIBLE = 0.99
+const HIDDEN = 0.1 // Occluded landmarks
+const OUT_OF_FRAME = 0.2
+
+// Unit vector at `degrees` from `down`, turning toward `out`
+function swing(down: Vec3, out: Vec3, degrees: number): Vec3 {
+  const c = Math.cos(toRadians(degrees))
+  const s = Math.sin(toRadians(degrees))
+  return { x: down.x * c + out.x * s, y: down.y * c + out.y * s, z: 0 }
+}
+
+function step(from: Vec3, direction: Vec3, length: number): Vec3 {
+  return { x: from.x + direction.x * length, y: from.y + direction.y * length, z: 0 }
+}
+
+// Joint positions in metres, hip midpoint at the origin
+function poseSkeleton({ limbs, lean }: Pick<PoseParams, 'limbs' | 'lean'>): Vec3[] {
+  const L = POSE_LANDMARKS
+  const points: Vec3[] = Array.from({ length: POSE_LANDMARK_COUNT }, () => ({ x: 0, y: 0, z: 0 }))
+
+  // Torso axes after leaning: `up` along the spine, `left` toward the subject's left
+  const up: Vec3 = { x: Math.sin(toRadians(lean)), y: -Math.cos(toRadians(lean)), z: 0 }
+  const left: Vec3 = { x: Math.cos(toRadians(lean)), y: Math.sin(toRadians(lean)), z: 0 }
+  const down: Vec3 = { x: -up.x, y: -up.y, z: 0 }
+  const neck = step({ x: 0, y: 0, z: 0 }, up, BODY.torso)
+
+  const sides = [
+    { sign: 1, shoulder: L.LEFT_SHOULDER, elbow: L.LEFT_ELBOW, wrist: L.LEFT_WRIST, pinky: L.LEFT_PINKY, index: L.LEFT_INDEX, thumb: L.LEFT_THUMB, hip: L.LEFT_HIP, knee: L.LEFT_KNEE, ankle: L.LEFT_ANKLE, heel: L.LEFT_HEEL, foot: L.LEFT_FOOT_INDEX, angles: { shoulder: limbs.leftShoulder, elbow: limbs.leftElbow, hip: limbs.leftHip, knee: limbs.leftKnee } },
+    { sign: -1, shoulder: L.RIGHT_SHOULDER, elbow: L.RIGHT_ELBOW, wrist: L.RIGHT_WRIST, pinky: L.RIGHT_PINKY, index: L.RIGHT_INDEX, thumb: L.RIGHT_THUMB, hip: L.RIGHT_HIP, knee: L.RIGHT_KNEE, ankle: L.RIGHT_ANKLE, heel: L.RIGHT_HEEL, foot: L.RIGHT_FOOT_INDEX, angles: { shoulder: limbs.rightShoulder, elbow: limbs.rightElbow, hip: limbs.rightHip, knee: limbs.rightKnee } },
+  ]
+
+  for (const side of sides) {
+    const out: Vec3 = { x: left.x * side.sign, y: left.y * side.sign, z: 0 }
+
+    // Arm: abduct from the torso, then fold the forearm back toward the body
+    const shoulder = step(neck, out, BODY.shoulderWidth / 2)
+    const upperArm = swing(down, out, side.angles.shoulder)
+    const elbow = step(shoulder, upperArm, BODY.upperArm)
+    const forearm = swing(down, out, side.angles.shoulder - (180 - side.angles.elbow))
+    const wrist = step(elbow, forearm, BODY.forearm)
+    const hand = step(wrist, forearm, BODY.hand)
+    const across: Vec3 = { x: -forearm.y, y: forearm.x, z: 0 } // Perpendicular to the forearm
+    points[side.shoulder] = shoulder
+    points[side.elbow] = elbow
+    points[side.wrist] = wrist
+    points[side.index] = hand
+    points[side.pinky] = step(hand, across, 0.03 * side.sign)
+    points[side.thumb] = step(wrist, across, -0.04 * side.sign)
+
+    // Leg: legs hang from the hips, which don't lean with the torso
+    const legDown: Vec3 = { x: 0, y: 1, z: 0 }
+    const legOut: Vec3 = { x: side.sign, y: 0, z: 0 }
+    const hip: Vec3 = { x: (BODY.hipWidth / 2) * side.sign, y: 0, z: 0 }
+    const knee = step(hip, swing(legDown, legOut, side.angles.hip), BODY.thigh)
+    const ankle = step(knee, swing(legDown, legOut, side.angles.hip + (180 - side.angles.knee)), BODY.shin)
+    points[side.hip] = hip
+    points[side.knee] = knee
+    points[side.ankle] = ankle
+    points[side.heel] = step(ankle, legDown, 0.05)
+    points[side.foot] = step(step(ankle, legDown, 0.07), legOut, 0.08)
+  }
+
+  // Face, in the torso's frame
+  const nose = step(neck, up, BODY.neck)
+  const face = (sideways: number, upward: number) => step(step(nose, left, sideways), up, upward)
+  points[L.NOSE] = nose
+  points[L.LEFT_EYE_INNER] = face(0.015, 0.035)
+  points[L.LEFT_EYE] = face(0.032, 0.037)
+  points[L.LEFT_EYE_OUTER] = face(0.048, 0.035)
+  points[L.RIGHT_EYE_INNER] = face(-0.015, 0.035)
+  points[L.RIGHT_EYE] = face(-0.032, 0.037)
+  points[L.RIGHT_EYE_OUTER] = face(-0.048, 0.035)
+  points[L.LEFT_EAR] = face(0.075, 0.02)
+  points[L.RIGHT_EAR] = face(-0.075, 0.02)
+  points[L.MOUTH_LEFT] = face(0.025, -0.04)
+  points[L.MOUTH_RIGHT] = face(-0.025, -0.04)
+
+  return points
+}
+
+// One person's 33 normalized landmarks, with visibility, and world
+// landmarks (metres, origin at the hip midpoint, as PoseLandmarker reports)
+export function generatePose(
+  overrides: PoseOverrides = {},
+  random: () => number = Math.random
+): { landmarks: NormalizedLandmark[]; worldLandmarks: Landmark[] } {
+  const params = { ...DEFAULT_POSE, ...overrides, limbs: { ...DEFAULT_POSE.limbs, ...overrides.limbs } }
+  const metres = poseSkeleton(params)
+
+  const landmarks = project(metres, params, params, random).map((landmark, index) => {
+    const inFrame = landmark.x >= 0 && landmark.x <= 1 && landmark.y >= 0 && landmark.y <= 1
+    const visibility = params.occluded.includes(index) ? HIDDEN : inFrame ? VISIBLE : OUT_OF_FRAME
+    return { ...landmark, visibility }
+  })
+
+  return {
+    landmarks,
+    worldLandmarks: metres.map((p, index) => ({ ...p, visibility: landmarks[index].visibility })),
+  }
+}
+
+// A frame result for any number of people, as PoseLandmarker returns it
+export function generatePoseResult(
+  people: PoseOverrides[],
+  random: () => number = Math.random
+): PoseFrameResult {
+  const generated = people.map((person) => generatePose(person, random))
+  return {
+    landmarks: generated.map((person) => person.landmarks),
+    worldLandmarks: generated.map((person) => person.worldLandmarks),
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Landmark session format
+ *
+ * Versioned JSON capture of a hand or pose landmarker result stream.
+ * Replaying a session drives the same overlay drawing and classification
+ * code as a live run, without needing a camera or a model.
+ */
+
+import type { Category, Landmark, NormalizedLandmark } from '@mediapipe/tasks-vision'
+
+export const SESSION_FORMAT = 'ar-lab-landmarks'
+export const SESSION_VERSION = 1
+
+export type SessionTask = 'hand' | 'pose'
+
+// The result fields the experiments consume. Live HandLandmarkerResult /
+// PoseLandmarkerResult objects satisfy these, so both paths share one type.
+export interface HandFrameResult {
+  landmarks: NormalizedLandmark[][]
+  worldLandmarks: Landmark[][]
+  handedness: Category[][]
+}
+
+export interface PoseFrameResult {
+  landmarks: NormalizedLandmark[][]
+  worldLandmarks: Landmark[][]
+}
+
+export interface SessionResults {
+  hand: HandFrameResult
+  pose: PoseFrameResult
+}
+
+export interface SessionFrame<T extends SessionTask> {
+  time: number // Milliseconds since the recording started
+  result: SessionResults[T]
+}
+
+export interface LandmarkSession<T extends SessionTask = SessionTask> {
+  format: typeof SESSION_FORMAT
+  version: typeof SESSION_VERSION
+  task: T
+  recordedAt: string // ISO timestamp
+  width: number // Input frame size the landmarks were normalized against
+  height: number
+  mirrored: boolean // Whether the overlay was shown mirrored (selfie camera)
+  frames: SessionFrame<T>[]
+}
+
+// Keep only the serializable fields we replay (drops masks and deprecated aliases)
+export function snapshotResult<T extends SessionTask>(
+  task: T,
+  result: SessionResults[T]
+): SessionResults[T] {
+  if (task === 'hand') {
+    const { landmarks, worldLandmarks, handedness } = result as HandFrameResult
+    return { landmarks, worldLandmarks, handedness } as SessionResults[T]
+  }
+  const { landmarks, worldLandmarks } = result
+  return { landmarks, worldLandmarks } as SessionResults[T]
+}
+
+function isLandmarkList(value: unknown): value is NormalizedLandmark[][] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (points) =>
+        Array.isArray(points) &&
+        points.every((p) => typeof p?.x === 'number' && typeof p?.y === 'number')
+    )
+  )
+}
+
+// Parse and validate a session file, throwing with a readable reason
+export function parseSession<T extends SessionTask>(json: string, task: T): LandmarkSession<T> {
+  let data: Partial<LandmarkSession<T>>
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('Session file is not valid JSON')
+  }
+
+  if (data.format !== SESSION_FORMAT) {
+    throw new Error('Not an AR Lab landmark session')
+  }
+  if (data.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${data.version} (expected ${SESSION_VERSION})`)
+  }
+  if (data.task !== task) {
+    throw new Error(`This is a ${data.task} session, expected ${task}`)
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new Error('Session has no frames')
+  }
+
+  data.frames.forEach((frame, index) => {
+    if (typeof frame?.time !== 'number' || !isLandmarkList(frame.result?.landmarks)) {
+      throw new Error(`Frame ${index} is malformed`)
+    }
+    if (task === 'hand' && !Array.isArray((frame.result as HandFrameResult).handedness)) {
+      throw new Error(`Frame ${index} is missing handedness`)
+    }
+  })
+
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    task,
+    recordedAt: data.recordedAt ?? '',
+    width: data.width ?? 1280,
+    height: data.height ?? 720,
+    mirrored: data.mirrored ?? true,
+    frames: data.frames,
+  }
+}
+
+// Index of the last frame at or before the given time (frames are time-ordered)
+export function frameIndexAt<T extends SessionTask>(frames: SessionFrame<T>[], time: number): number {
+  let low = 0
+  let high = frames.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (frames[mid].time <= time) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+// Save a session as a JSON download
+export function downloadSession(session: LandmarkSession) {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${session.task}-session-${session.recordedAt.replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { simulateFrame, simulateHands, simulatePoses } from './landmarkSimulation'
+import { seededRandom } from './landmarkGenerator'
+import { GESTURES, detectGesture } from './gestureClassifier'
+import type { Gesture } from './gestureClassifier'
+import { POSES, detectPose } from './poseClassifier'
+import type { Pose } from './poseClassifier'
+
+// One full loop of the script, sampled every 100 ms
+const TIMES = Array.from({ length: 150 }, (_, i) => i * 100)
+
+describe('simulateHands', () => {
+  it('shows two hands, labelled Right and Left', () => {
+    const result = simulateHands(0, seededRandom(1))
+    expect(result.landmarks).toHaveLength(2)
+    expect(result.handedness.map((categories) => categories[0].categoryName)).toEqual(['Right', 'Left'])
+  })
+
+  it('cycles each hand through every gesture', () => {
+    const random = seededRandom(1)
+    const seen = { Right: new Set<Gesture>(), Left: new Set<Gesture>() }
+    for (const time of TIMES) {
+      const { landmarks, handedness } = simulateHands(time, random)
+      landmarks.forEach((hand, index) => {
+        const label = handedness[index][0].categoryName as 'Right' | 'Left'
+        seen[label].add(detectGesture(hand, label === 'Right'))
+      })
+    }
+
+    const expected = Object.keys(GESTURES).filter((gesture) => gesture !== 'unknown')
+    expect([...seen.Right]).toEqual(expect.arrayContaining(expected))
+    expect([...seen.Left]).toEqual(expect.arrayContaining(expected))
+  })
+})
+
+describe('simulatePoses', () => {
+  it('cycles through every pose', () => {
+    const random = seededRandom(1)
+    const seen = new Set<Pose>()
+    for (const time of TIMES) {
+      const { landmarks } = simulatePoses(time, random)
+      seen.add(detectPose(landmarks[0]))
+    }
+
+    const expected = Object.keys(POSES).filter((pose) => pose !== 'unknown')
+    expect([...seen]).toEqual(expect.arrayContaining(expected))
+  })
+})
+
+describe('simulateFrame', () => {
+  it('is a pure function of time and the noise source', () => {
+    expect(simulateFrame('hand', 1234, seededRandom(7))).toEqual(simulateFrame('hand', 1234, seededRandom(7)))
+    expect(simulateFrame('pose', 1234, seededRandom(7))).toEqual(simulateFrame('pose', 1234, seededRandom(7)))
+  })
+})
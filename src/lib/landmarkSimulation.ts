@@ -0,0 +1,113 @@
+/**
+ * Simulated landmark input
+ *
+ * Scripted landmark streams for the hand and body pages' "simulated input"
+ * mode: the generator steps through every gesture or pose, blending from
+ * one to the next, while the body drifts, sways and jitters like live
+ * landmarker output. Frames are a pure function of time (plus the noise
+ * source), so the same script also works in tests.
+ */
+
+import { DEFAULT_HAND, DEFAULT_POSE, GESTURE_SHAPES, POSE_SHAPES, generateHandResult, generatePoseResult } from './landmarkGenerator'
+import type { HandOverrides, LimbAngles } from './landmarkGenerator'
+import type { SessionResults, SessionTask } from './landmarkSession'
+
+// Input size the simulated landmarks are normalized against
+export const SIMULATION_WIDTH = 640
+export const SIMULATION_HEIGHT = 480
+
+const HOLD_MS = 1600 // Time spent on each shape
+const BLEND_MS = 600 // Transition into the next one
+const NOISE = 0.002
+
+// Ease in and out of each transition
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t)
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+function mixRecord<K extends string>(a: Record<K, number>, b: Record<K, number>, t: number): Record<K, number> {
+  const result = { ...a }
+  for (const key in b) result[key] = mix(a[key], b[key], t)
+  return result
+}
+
+// Current and next keyframe with the blend between them, looping
+function timeline<T>(keyframes: T[], time: number, offset = 0) {
+  const period = HOLD_MS + BLEND_MS
+  const elapsed = Math.max(0, time + offset)
+  const index = Math.floor(elapsed / period) % keyframes.length
+  const into = elapsed % period
+  const blend = into > HOLD_MS ? smoothstep((into - HOLD_MS) / BLEND_MS) : 0
+  return { from: keyframes[index], to: keyframes[(index + 1) % keyframes.length], blend }
+}
+
+const HAND_KEYFRAMES = (['open_palm', 'pointing', 'peace', 'fist', 'thumbs_up', 'pinch'] as const).map(
+  (gesture) => GESTURE_SHAPES[gesture]
+)
+
+const POSE_KEYFRAMES = (['standing', 't_pose', 'arms_up', 'hands_on_hips', 'sitting', 'leaning'] as const).map(
+  (pose) => POSE_SHAPES[pose]
+)
+
+// Two hands, half a cycle apart, gently drifting and rocking
+export function simulateHands(time: number, random: () => number = Math.random): SessionResults['hand'] {
+  const seconds = time / 1000
+  const hands = [
+    { handedness: 'Right', x: 0.32, phase: 0, offset: 0 },
+    { handedness: 'Left', x: 0.68, phase: Math.PI, offset: 3 * (HOLD_MS + BLEND_MS) },
+  ] as const
+
+  return generateHandResult(
+    hands.map(({ handedness, x, phase, offset }): HandOverrides => {
+      const { from, to, blend } = timeline(HAND_KEYFRAMES, time, offset)
+      return {
+        handedness,
+        curl: mixRecord(from.curl, to.curl, blend),
+        spread: mix(from.spread, to.spread, blend),
+        x: x + 0.04 * Math.sin(seconds * 0.5 + phase),
+        y: DEFAULT_HAND.y + 0.03 * Math.sin(seconds * 0.9 + phase),
+        roll: 12 * Math.sin(seconds * 0.7 + phase),
+        pitch: 8 * Math.sin(seconds * 0.4 + phase),
+        distance: 0.35 + 0.03 * Math.sin(seconds * 0.3 + phase),
+        aspect: SIMULATION_WIDTH / SIMULATION_HEIGHT,
+        noise: NOISE,
+      }
+    }),
+    random
+  )
+}
+
+// One person stepping through the poses while swaying in place
+export function simulatePoses(time: number, random: () => number = Math.random): SessionResults['pose'] {
+  const seconds = time / 1000
+  const { from, to, blend } = timeline(POSE_KEYFRAMES, time)
+
+  return generatePoseResult(
+    [
+      {
+        limbs: mixRecord<keyof LimbAngles>(from.limbs, to.limbs, blend),
+        lean: mix(from.lean, to.lean, blend),
+        x: DEFAULT_POSE.x + 0.05 * Math.sin(seconds * 0.4),
+        y: DEFAULT_POSE.y + 0.01 * Math.sin(seconds * 1.1),
+        distance: DEFAULT_POSE.distance + 0.2 * Math.sin(seconds * 0.25),
+        aspect: SIMULATION_WIDTH / SIMULATION_HEIGHT,
+        noise: NOISE,
+      },
+    ],
+    random
+  )
+}
+
+const SIMULATORS: { [T in SessionTask]: (time: number, random?: () => number) => SessionResults[T] } = {
+  hand: simulateHands,
+  pose: simulatePoses,
+}
+
+// Frame for a task at a time (ms since the simulation started)
+export function simulateFrame<T extends SessionTask>(task: T, time: number, random?: () => number): SessionResults[T] {
+  return (SIMULATORS[task] as (time: number, random?: () => number) => SessionResults[T])(time, random)
+}
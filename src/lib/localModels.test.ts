@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_MODEL_BYTES,
+  gltfResources,
+  prepareModels,
+  resolveModelPath,
+  rewriteGltf,
+} from './localModels'
+import type { ModelFile } from './localModels'
+
+function glb(version = 2): Blob {
+  const header = new DataView(new ArrayBuffer(20))
+  header.setUint32(0, 0x46546c67, true)
+  header.setUint32(4, version, true)
+  header.setUint32(8, 20, true)
+  return new Blob([header.buffer])
+}
+
+// Just a zip local file header naming the first entry
+function usdz(firstEntry = 'model.usdc'): Blob {
+  const name = new TextEncoder().encode(firstEntry)
+  const header = new DataView(new ArrayBuffer(30))
+  header.setUint32(0, 0x04034b50, true)
+  header.setUint16(26, name.length, true)
+  return new Blob([header.buffer, name])
+}
+
+function gltf(json: object): Blob {
+  return new Blob([JSON.stringify(json)])
+}
+
+const file = (path: string, blob: Blob): ModelFile => ({ file: blob, path })
+
+const SCENE = {
+  asset: { version: '2.0' },
+  buffers: [{ uri: 'scene.bin' }, { uri: 'data:application/octet-stream;base64,AAAA' }],
+  images: [{ uri: 'textures/Base%20Color.png' }, { uri: 'textures/normal.png' }],
+}
+
+describe('resolveModelPath', () => {
+  it('resolves relative to the glTF folder', () => {
+    expect(resolveModelPath('robot/scene.gltf', 'textures/a.png')).toBe('robot/textures/a.png')
+    expect(resolveModelPath('robot/scene.gltf', './a.png')).toBe('robot/a.png')
+    expect(resolveModelPath('robot/gltf/scene.gltf', '../textures/a.png')).toBe('robot/textures/a.png')
+    expect(resolveModelPath('scene.gltf', 'Base%20Color.png')).toBe('Base Color.png')
+  })
+})
+
+describe('glTF references', () => {
+  it('lists external buffers and images only', () => {
+    expect(gltfResources(SCENE)).toEqual(['scene.bin', 'textures/Base%20Color.png', 'textures/normal.png'])
+    expect(gltfResources({ asset: { version: '2.0' } })).toEqual([])
+  })
+
+  it('rewrites URIs on a copy', () => {
+    const rewritten = rewriteGltf(SCENE, (uri) => (uri === 'scene.bin' ? 'blob:bin' : null))
+    expect(rewritten.buffers[0].uri).toBe('blob:bin')
+    expect(rewritten.buffers[1].uri).toMatch(/^data:/)
+    expect(rewritten.images[0].uri).toBe('textures/Base%20Color.png')
+    expect(SCENE.buffers[0].uri).toBe('scene.bin')
+  })
+})
+
+describe('prepareModels', () => {
+  it('accepts a GLB and rejects other binaries', async () => {
+    const { models, errors } = await prepareModels([
+      file('robot.glb', glb()),
+      file('old.glb', glb(1)),
+      file('fake.glb', new Blob(['not a model at all'])),
+    ], 1000)
+
+    expect(models).toHaveLength(1)
+    expect(models[0]).toMatchObject({ name: 'robot', format: 'glb', entry: 'robot.glb', iosEntry: null, size: 20, addedAt: 1000 })
+    expect(errors).toEqual([
+      'old.glb is glTF 1, only glTF 2.0 is supported',
+      'fake.glb is not a GLB file',
+    ])
+  })
+
+  it('collects a multi-file glTF from a dropped folder', async () => {
+    const files = [
+      file('chair/scene.gltf', gltf(SCENE)),
+      file('chair/scene.bin', new Blob([new Uint8Array(8)])),
+      file('chair/textures/Base Color.png', new Blob(['png'])),
+      file('chair/textures/normal.png', new Blob(['png'])),
+    ]
+    const { models, errors } = await prepareModels(files)
+
+    expect(errors).toEqual([])
+    expect(models).toHaveLength(1)
+    expect(models[0].format).toBe('gltf')
+    expect(models[0].files.map((entry) => entry.path)).toEqual(files.map((entry) => entry.path))
+  })
+
+  it('finds resources by name when dropped without their folders', async () => {
+    const { models, errors } = await prepareModels([
+      file('scene.gltf', gltf(SCENE)),
+      file('scene.bin', new Blob([])),
+      file('Base Color.png', new Blob([])),
+      file('normal.png', new Blob([])),
+    ])
+    expect(errors).toEqual([])
+    expect(models[0].files).toHaveLength(4)
+  })
+
+  it('names the files a glTF is missing', async () => {
+    const { models, errors } = await prepareModels([
+      file('scene.gltf', gltf(SCENE)),
+      file('scene.bin', new Blob([])),
+    ])
+    expect(models).toEqual([])
+    expect(errors[0]).toBe('scene.gltf needs Base Color.png, normal.png; drop them together with it (or drop the whole folder)')
+  })
+
+  it('rejects glTF 1.0 and broken JSON', async () => {
+    const { errors } = await prepareModels([
+      file('old.gltf', gltf({ asset: { version: '1.0' } })),
+      file('broken.gltf', new Blob(['{'])),
+    ])
+    expect(errors).toEqual(['old.gltf is not a glTF 2.0 file', 'broken.gltf is not valid JSON'])
+  })
+
+  it('pairs a USDZ with the model of the same name', async () => {
+    const { models, errors } = await prepareModels([
+      file('lamp.usdz', usdz()),
+      file('lamp.glb', glb()),
+      file('vase.usdz', usdz('vase.usda')),
+    ])
+
+    expect(errors).toEqual([])
+    expect(models.map(({ name, format, iosEntry }) => ({ name, format, iosEntry }))).toEqual([
+      { name: 'lamp', format: 'glb', iosEntry: 'lamp.usdz' },
+      { name: 'vase', format: 'usdz', iosEntry: null },
+    ])
+  })
+
+  it('adds the model without a broken USDZ', async () => {
+    const { models, errors } = await prepareModels([
+      file('lamp.glb', glb()),
+      file('lamp.usdz', usdz('textures/wood.png')),
+    ])
+    expect(models[0].iosEntry).toBeNull()
+    expect(errors).toEqual(["lamp.usdz is not a USDZ file (it doesn't start with a USD layer); lamp.glb was added without it"])
+  })
+
+  it('reports files no model used', async () => {
+    expect((await prepareModels([file('notes.txt', new Blob([]))])).errors).toEqual([
+      'No models found. Drop .glb, .gltf or .usdz files',
+    ])
+    expect((await prepareModels([file('a.glb', glb()), file('notes.txt', new Blob([]))])).errors).toEqual([
+      'Not used by any model: notes.txt',
+    ])
+  })
+
+  it('turns away models over the size limit', async () => {
+    const big = { size: MAX_MODEL_BYTES + 1, slice: () => glb() } as unknown as Blob
+    const { models, errors } = await prepareModels([file('huge.glb', big)])
+    expect(models).toEqual([])
+    expect(errors[0]).toMatch(/^huge\.glb is \d+ MB, the limit is 150 MB$/)
+  })
+})
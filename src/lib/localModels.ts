@@ -0,0 +1,448 @@
+/**
+ * Local models
+ *
+ * 3D models picked or dropped from the user's own disk, for previewing assets
+ * without deploying them:
+ * - .glb: one self-contained file
+ * - .gltf: JSON plus the .bin buffers and textures it references, dropped
+ *   together (or as a folder)
+ * - .usdz: AR Quick Look on iOS; paired with a .glb of the same name it
+ *   becomes that model's ios-src
+ *
+ * Files are checked before they're accepted (GLB header, glTF version and
+ * references, USDZ archive layout), then kept in IndexedDB so they survive
+ * reloads. A model is shown through object URLs; a glTF's relative URIs
+ * can't resolve against a blob: URL, so its JSON is rewritten to point at
+ * the resources' own object URLs.
+ */
+
+export type LocalModelFormat = 'glb' | 'gltf' | 'usdz'
+
+// Largest model (all of its files together) we'll keep
+export const MAX_MODEL_BYTES = 150 * 1024 * 1024
+
+export const MODEL_FILE_ACCEPT = '.glb,.gltf,.usdz,.bin,.png,.jpg,.jpeg,.webp,.ktx2'
+
+// A file with where it sat relative to what was dropped ("scene/textures/a.png")
+export interface ModelFile {
+  file: Blob
+  path: string
+}
+
+// What's kept in IndexedDB
+export interface StoredModel {
+  id: string
+  name: string
+  format: LocalModelFormat
+  entry: string // Path of the .glb / .gltf / .usdz to open
+  iosEntry: string | null // Path of a matching .usdz for AR Quick Look
+  files: ModelFile[]
+  size: number
+  addedAt: number
+}
+
+// A stored model opened for display
+export interface LocalModel {
+  id: string
+  name: string
+  format: LocalModelFormat
+  src: string | null // null for a .usdz on its own, which only opens in AR Quick Look
+  iosSrc: string | null
+  size: number
+  urls: string[] // Every object URL created for it, revoked by closeModel()
+}
+
+export interface PreparedModels {
+  models: StoredModel[]
+  errors: string[] // One readable line per file or model that was turned away
+}
+
+const GLB_MAGIC = 0x46546c67 // "glTF"
+const ZIP_LOCAL_HEADER = 0x04034b50 // "PK\3\4"
+const USD_LAYERS = ['usd', 'usda', 'usdc']
+const ABSOLUTE_URI = /^[a-z][a-z\d+.-]*:/i
+
+function extension(path: string): string {
+  const dot = path.lastIndexOf('.')
+  return dot === -1 ? '' : path.slice(dot + 1).toLowerCase()
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/')
+  return slash === -1 ? '' : path.slice(0, slash + 1)
+}
+
+function stem(path: string): string {
+  const name = basename(path)
+  const dot = name.lastIndexOf('.')
+  return dot <= 0 ? name : name.slice(0, dot)
+}
+
+// Join a glTF-relative URI onto the glTF's folder, resolving "." and ".."
+export function resolveModelPath(from: string, uri: string): string {
+  let decoded = uri
+  try {
+    decoded = decodeURIComponent(uri)
+  } catch {
+    // Not percent-encoded after all
+  }
+
+  const parts: string[] = []
+  for (const part of (dirname(from) + decoded).split('/')) {
+    if (part === '..') parts.pop()
+    else if (part !== '.' && part !== '') parts.push(part)
+  }
+  return parts.join('/')
+}
+
+// External resources a glTF's buffers and images point at (not data: URIs)
+export function gltfResources(gltf: unknown): string[] {
+  const uris = new Set<string>()
+  const collect = (list: unknown) => {
+    if (!Array.isArray(list)) return
+    for (const item of list) {
+      const uri = (item as { uri?: unknown } | null)?.uri
+      if (typeof uri === 'string' && !uri.startsWith('data:')) uris.add(uri)
+    }
+  }
+
+  const { buffers, images } = (gltf ?? {}) as { buffers?: unknown; images?: unknown }
+  collect(buffers)
+  collect(images)
+  return [...uris]
+}
+
+// Copy of a glTF with each external URI replaced (resolve returns null to keep it)
+export function rewriteGltf<T>(gltf: T, resolve: (uri: string) => string | null): T {
+  const copy = structuredClone(gltf)
+  const rewrite = (list: unknown) => {
+    if (!Array.isArray(list)) return
+    for (const item of list as { uri?: unknown }[]) {
+      if (typeof item?.uri !== 'string' || item.uri.startsWith('data:')) continue
+      const url = resolve(item.uri)
+      if (url !== null) item.uri = url
+    }
+  }
+
+  const { buffers, images } = copy as { buffers?: unknown; images?: unknown }
+  rewrite(buffers)
+  rewrite(images)
+  return copy
+}
+
+// Find a referenced file: by its path, or by name if only one file has it
+function findResource(files: ModelFile[], from: string, uri: string): ModelFile | null {
+  if (ABSOLUTE_URI.test(uri)) return null
+
+  const path = resolveModelPath(from, uri)
+  const exact = files.find((entry) => entry.path === path)
+  if (exact) return exact
+
+  const named = files.filter((entry) => basename(entry.path) === basename(path))
+  return named.length === 1 ? named[0] : null
+}
+
+async function readHeader(file: Blob, bytes: number): Promise<DataView> {
+  return new DataView(await file.slice(0, bytes).arrayBuffer())
+}
+
+// Throws a readable reason if the file isn't a glTF 2.0 binary
+async function checkGlb(entry: ModelFile) {
+  const { file } = entry
+  if (file.size < 12) throw new Error(`${basename(entry.path)} is too short to be a GLB file`)
+
+  const header = await readHeader(file, 12)
+  if (header.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error(`${basename(entry.path)} is not a GLB file`)
+  }
+  if (header.getUint32(4, true) !== 2) {
+    throw new Error(`${basename(entry.path)} is glTF ${header.getUint32(4, true)}, only glTF 2.0 is supported`)
+  }
+  if (header.getUint32(8, true) > file.size) {
+    throw new Error(`${basename(entry.path)} is incomplete`)
+  }
+}
+
+// Throws unless the file is a zip whose first entry is a USD layer
+async function checkUsdz(entry: ModelFile) {
+  const { file } = entry
+  const header = await readHeader(file, 30)
+  if (header.byteLength < 30 || header.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`${basename(entry.path)} is not a USDZ file`)
+  }
+
+  const nameLength = header.getUint16(26, true)
+  const firstEntry = new TextDecoder().decode(await file.slice(30, 30 + nameLength).arrayBuffer())
+  if (!USD_LAYERS.includes(extension(firstEntry))) {
+    throw new Error(`${basename(entry.path)} is not a USDZ file (it doesn't start with a USD layer)`)
+  }
+}
+
+// Parses a glTF and returns the files it needs besides itself
+async function checkGltf(entry: ModelFile, files: ModelFile[]): Promise<ModelFile[]> {
+  let gltf: { asset?: { version?: unknown } }
+  try {
+    gltf = JSON.parse(await entry.file.text())
+  } catch {
+    throw new Error(`${basename(entry.path)} is not valid JSON`)
+  }
+
+  const version = gltf?.asset?.version
+  if (typeof version !== 'string' || !version.startsWith('2.')) {
+    throw new Error(`${basename(entry.path)} is not a glTF 2.0 file`)
+  }
+
+  const resources: ModelFile[] = []
+  const missing: string[] = []
+  for (const uri of gltfResources(gltf)) {
+    if (ABSOLUTE_URI.test(uri)) continue // Fetched as usual
+    const resource = findResource(files, entry.path, uri)
+    if (resource) resources.push(resource)
+    else missing.push(basename(resolveModelPath(entry.path, uri)))
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`${basename(entry.path)} needs ${missing.join(', ')}; drop them together with it (or drop the whole folder)`)
+  }
+  return resources
+}
+
+function totalSize(files: ModelFile[]): number {
+  return files.reduce((sum, entry) => sum + entry.file.size, 0)
+}
+
+function megabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+/**
+ * Group dropped files into models and validate each one. Resources (.bin,
+ * textures) only count as part of a glTF that references them; anything
+ * else that isn't a model is reported rather than silently dropped.
+ */
+export async function prepareModels(files: ModelFile[], now = Date.now()): Promise<PreparedModels> {
+  const models: StoredModel[] = []
+  const errors: string[] = []
+  const used = new Set<ModelFile>()
+
+  const entries = files.filter((entry) => ['glb', 'gltf', 'usdz'].includes(extension(entry.path)))
+  const usdzFiles = entries.filter((entry) => extension(entry.path) === 'usdz')
+
+  const add = async (entry: ModelFile) => {
+    const format = extension(entry.path) as LocalModelFormat
+    used.add(entry)
+
+    try {
+      const modelFiles = [entry]
+      if (format === 'glb') await checkGlb(entry)
+      if (format === 'usdz') await checkUsdz(entry)
+      if (format === 'gltf') modelFiles.push(...await checkGltf(entry, files))
+
+      // A .usdz of the same name is this model's AR Quick Look version
+      let iosEntry: ModelFile | null = null
+      const usdz = format === 'usdz' ? undefined : usdzFiles.find((file) => !used.has(file) && stem(file.path) === stem(entry.path))
+      if (usdz) {
+        used.add(usdz)
+        try {
+          await checkUsdz(usdz)
+          iosEntry = usdz
+          modelFiles.push(usdz)
+        } catch (err) {
+          errors.push(`${(err as Error).message}; ${basename(entry.path)} was added without it`)
+        }
+      }
+
+      const unique = [...new Set(modelFiles)]
+      const size = totalSize(unique)
+      if (size > MAX_MODEL_BYTES) {
+        throw new Error(`${basename(entry.path)} is ${megabytes(size)}, the limit is ${megabytes(MAX_MODEL_BYTES)}`)
+      }
+
+      unique.forEach((file) => used.add(file))
+      models.push({
+        id: crypto.randomUUID(),
+        name: stem(entry.path),
+        format,
+        entry: entry.path,
+        iosEntry: iosEntry?.path ?? null,
+        files: unique,
+        size,
+        addedAt: now,
+      })
+    } catch (err) {
+      errors.push((err as Error).message)
+    }
+  }
+
+  // glTF models first so they can claim their .usdz; any left over stand alone
+  for (const entry of entries) {
+    if (extension(entry.path) !== 'usdz') await add(entry)
+  }
+  for (const entry of usdzFiles) {
+    if (!used.has(entry)) await add(entry)
+  }
+
+  const unused = files.filter((entry) => !used.has(entry))
+  if (entries.length === 0) {
+    errors.push('No models found. Drop .glb, .gltf or .usdz files')
+  } else if (unused.length > 0) {
+    errors.push(`Not used by any model: ${unused.map((entry) => basename(entry.path)).join(', ')}`)
+  }
+
+  return { models, errors }
+}
+
+// Create the object URLs a stored model is displayed through
+export async function openModel(model: StoredModel): Promise<LocalModel> {
+  const urls: string[] = []
+  const urlFor = (file: Blob, type?: string) => {
+    const url = URL.createObjectURL(type ? new Blob([file], { type }) : file)
+    urls.push(url)
+    return url
+  }
+
+  const fileAt = (path: string | null) => model.files.find((entry) => entry.path === path) ?? null
+  const entry = fileAt(model.entry)
+  const ios = fileAt(model.iosEntry)
+  let src: string | null = null
+
+  if (entry && model.format === 'glb') {
+    src = urlFor(entry.file, 'model/gltf-binary')
+  } else if (entry && model.format === 'gltf') {
+    const gltf: unknown = JSON.parse(await entry.file.text())
+    const resolved = new Map<string, string>()
+    const rewritten = rewriteGltf(gltf, (uri) => {
+      const resource = findResource(model.files, model.entry, uri)
+      if (!resource) return null
+      if (!resolved.has(resource.path)) resolved.set(resource.path, urlFor(resource.file))
+      return resolved.get(resource.path) ?? null
+    })
+    src = urlFor(new Blob([JSON.stringify(rewritten)]), 'model/gltf+json')
+  }
+
+  const usdz = model.format === 'usdz' ? entry : ios
+  const iosSrc = usdz ? urlFor(usdz.file, 'model/vnd.usdz+zip') : null
+
+  return {
+    id: model.id,
+    name: model.name,
+    format: model.format,
+    src,
+    iosSrc,
+    size: model.size,
+    urls,
+  }
+}
+
+export function closeModel(model: LocalModel) {
+  model.urls.forEach((url) => URL.revokeObjectURL(url))
+}
+
+// Dropped items, walking into folders; paths are relative to what was dropped
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<ModelFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+
+  // No entry API: plain files only
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }))
+  }
+
+  const files: ModelFile[] = []
+  const walk = async (entry: FileSystemEntry, prefix: string): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+      files.push({ file, path: prefix + entry.name })
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader()
+      // readEntries returns the listing in batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+        if (batch.length === 0) break
+        for (const child of batch) await walk(child, `${prefix}${entry.name}/`)
+      }
+    }
+  }
+
+  for (const entry of entries) await walk(entry, '')
+  return files
+}
+
+// Files from an <input type="file">, keeping folder paths (webkitdirectory)
+export function filesFromInput(list: FileList | null): ModelFile[] {
+  return Array.from(list ?? []).map((file) => ({ file, path: file.webkitRelativePath || file.name }))
+}
+
+// IndexedDB
+
+const DB_NAME = 'ar-lab'
+const DB_VERSION = 1
+const MODEL_STORE = 'models'
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION)
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(MODEL_STORE, { keyPath: 'id' })
+  }
+  return request(req)
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  try {
+    const transaction = db.transaction(MODEL_STORE, mode)
+    // Writes only count once the transaction commits
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+    const result = await request(run(transaction.objectStore(MODEL_STORE)))
+    await committed
+    return result
+  } finally {
+    db.close()
+  }
+}
+
+// Saved models, oldest first; never throws (no IndexedDB, private mode, ...)
+export async function loadStoredModels(): Promise<StoredModel[]> {
+  try {
+    const models = await withStore('readonly', (store) => store.getAll() as IDBRequest<StoredModel[]>)
+    return models.sort((a, b) => a.addedAt - b.addedAt)
+  } catch (err) {
+    console.warn('Could not read saved models:', err)
+    return []
+  }
+}
+
+// false if the model couldn't be saved (quota, no IndexedDB)
+export async function storeModel(model: StoredModel): Promise<boolean> {
+  try {
+    await withStore('readwrite', (store) => store.put(model))
+    return true
+  } catch (err) {
+    console.warn('Could not save model:', err)
+    return false
+  }
+}
+
+export async function deleteStoredModel(id: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(id))
+  } catch (err) {
+    console.warn('Could not delete saved model:', err)
+  }
+}
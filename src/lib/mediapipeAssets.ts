@@ -0,0 +1,126 @@
+/**
+ * Self-hosted MediaPipe assets
+ *
+ * Wasm and models are served from our own origin (generated by
+ * scripts/mediapipe-assets.mjs) rather than jsDelivr @latest and
+ * storage.googleapis.com, so an upstream release can't break us and the lab
+ * runs offline. Every file is checked against the generated manifest:
+ * - The manifest version must match the installed @mediapipe/tasks-vision
+ * - Each file's SHA-256 must match its manifest entry
+ */
+
+import { FilesetResolver } from '@mediapipe/tasks-vision'
+
+export type MediaPipeModel =
+  | 'hand_landmarker'
+  | 'pose_landmarker_lite'
+  | 'pose_landmarker_full'
+  | 'pose_landmarker_heavy'
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>
+
+interface AssetManifest {
+  version: string
+  files: Record<string, string> // Path relative to the base -> "sha256-<base64>"
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`
+}
+
+// Where manifest.json, wasm/ and models/ live. Set VITE_MEDIAPIPE_ASSET_BASE
+// to serve them from a CDN or another path.
+export const MEDIAPIPE_ASSET_BASE = withTrailingSlash(
+  import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe/`
+)
+
+let manifestPromise: Promise<AssetManifest> | null = null
+let filesetPromise: Promise<WasmFileset> | null = null
+
+async function fetchManifest(): Promise<AssetManifest> {
+  const res = await fetch(`${MEDIAPIPE_ASSET_BASE}manifest.json`)
+  if (!res.ok) {
+    throw new Error(`MediaPipe asset manifest not found (${res.status}). Run npm run assets:mediapipe.`)
+  }
+
+  const manifest: AssetManifest = await res.json()
+  if (manifest.version !== __MEDIAPIPE_VERSION__) {
+    throw new Error(
+      `MediaPipe assets are for ${manifest.version} but ${__MEDIAPIPE_VERSION__} is installed. Run npm run assets:mediapipe.`
+    )
+  }
+  return manifest
+}
+
+// Cached across experiments; a failed load is retried on the next call
+function loadManifest(): Promise<AssetManifest> {
+  if (!manifestPromise) {
+    manifestPromise = fetchManifest()
+    manifestPromise.catch(() => {
+      manifestPromise = null
+    })
+  }
+  return manifestPromise
+}
+
+async function sha256(buffer: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer))
+  return `sha256-${btoa(String.fromCharCode(...digest))}`
+}
+
+// Fetch an asset and check it against its manifest hash
+async function fetchVerified(path: string): Promise<ArrayBuffer> {
+  const manifest = await loadManifest()
+  const expected = manifest.files[path]
+  if (!expected) {
+    throw new Error(`${path} is not listed in the MediaPipe asset manifest`)
+  }
+
+  const res = await fetch(`${MEDIAPIPE_ASSET_BASE}${path}`)
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${path} (${res.status})`)
+  }
+  const buffer = await res.arrayBuffer()
+
+  // SubtleCrypto only exists in secure contexts (plain-http LAN testing)
+  if (!crypto.subtle) {
+    console.warn(`Skipping integrity check for ${path}: insecure context`)
+    return buffer
+  }
+  if ((await sha256(buffer)) !== expected) {
+    throw new Error(`Integrity check failed for ${path}`)
+  }
+  return buffer
+}
+
+async function resolveFileset(): Promise<WasmFileset> {
+  // Let MediaPipe pick the SIMD or non-SIMD build, then verify what it chose
+  const fileset = await FilesetResolver.forVisionTasks(`${MEDIAPIPE_ASSET_BASE}wasm`)
+
+  const toVerifiedUrl = async (url: string, type: string) => {
+    const buffer = await fetchVerified(url.slice(MEDIAPIPE_ASSET_BASE.length))
+    return URL.createObjectURL(new Blob([buffer], { type }))
+  }
+
+  const [wasmLoaderPath, wasmBinaryPath] = await Promise.all([
+    toVerifiedUrl(fileset.wasmLoaderPath, 'text/javascript'),
+    toVerifiedUrl(fileset.wasmBinaryPath, 'application/wasm'),
+  ])
+  return { ...fileset, wasmLoaderPath, wasmBinaryPath }
+}
+
+// Verified wasm fileset for vision tasks (shared by every landmarker)
+export function loadVisionFileset(): Promise<WasmFileset> {
+  if (!filesetPromise) {
+    filesetPromise = resolveFileset()
+    filesetPromise.catch(() => {
+      filesetPromise = null
+    })
+  }
+  return filesetPromise
+}
+
+// Verified model bytes, for baseOptions.modelAssetBuffer
+export async function loadModelAsset(model: MediaPipeModel): Promise<Uint8Array> {
+  return new Uint8Array(await fetchVerified(`models/${model}.task`))
+}
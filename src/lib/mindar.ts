@@ -0,0 +1,114 @@
+/**
+ * MindAR loader
+ *
+ * Face and image tracking both come from the bundled mind-ar package rather
+ * than CDN scripts and window globals:
+ * - Each variant is its own lazily loaded chunk (both bundle large ML runtimes)
+ * - Both run on the app's three.js (see mindarThreeCompat in vite.config.ts)
+ * - Load failures reject with a readable Error instead of a timeout
+ *
+ * Note that MindAR's face tracker still fetches its own pinned MediaPipe
+ * wasm (0.10.9) and face model at start(); they can't be swapped for our
+ * self-hosted build without matching its bundled tasks-vision version.
+ */
+
+import type { MindARThree as MindARFaceThree } from 'mind-ar/dist/mindar-face-three.prod.js'
+import type { MindARThree as MindARImageThree } from 'mind-ar/dist/mindar-image-three.prod.js'
+
+export type { MindARFaceThree, MindARImageThree }
+export type { MindARImageAnchor } from 'mind-ar/dist/mindar-image-three.prod.js'
+
+export type MindARVariant = 'face' | 'image'
+
+interface MindARConstructors {
+  face: typeof MindARFaceThree
+  image: typeof MindARImageThree
+}
+
+const VARIANT_LABELS: Record<MindARVariant, string> = {
+  face: 'face tracking',
+  image: 'image tracking',
+}
+
+const importers: { [V in MindARVariant]: () => Promise<MindARConstructors[V]> } = {
+  face: () => import('mind-ar/dist/mindar-face-three.prod.js').then((module) => module.MindARThree),
+  image: () => import('mind-ar/dist/mindar-image-three.prod.js').then((module) => module.MindARThree),
+}
+
+const loaded = new Map<MindARVariant, Promise<MindARConstructors[MindARVariant]>>()
+
+async function importVariant<V extends MindARVariant>(variant: V): Promise<MindARConstructors[V]> {
+  try {
+    return await importers[variant]()
+  } catch (err) {
+    console.error(`Failed to load MindAR ${variant}:`, err)
+    throw new Error(`Failed to load MindAR ${VARIANT_LABELS[variant]}. Check your connection and try again.`)
+  }
+}
+
+// MindARThree constructor for a variant. Cached; a failed load is retried on the next call.
+export function loadMindAR<V extends MindARVariant>(variant: V): Promise<MindARConstructors[V]> {
+  let promise = loaded.get(variant)
+  if (!promise) {
+    promise = importVariant(variant)
+    loaded.set(variant, promise)
+    promise.catch(() => {
+      loaded.delete(variant)
+    })
+  }
+  return promise as Promise<MindARConstructors[V]>
+}
+
+// Release the renderer and remove the canvases an instance added to its container
+export function disposeMindAR(mindar: MindARFaceThree | MindARImageThree) {
+  mindar.renderer.dispose()
+  mindar.renderer.domElement.remove()
+  mindar.cssRenderer.domElement.remove()
+}
+
+// Report how long each tracking update takes. MindAR runs tracking in its own
+// loop, so this wraps its internals (pinned by the mind-ar version). Call after
+// start(); returns a function that removes the hooks.
+export function observeMindARUpdates(
+  mindar: MindARFaceThree | MindARImageThree,
+  onUpdate: (ms: number) => void
+): () => void {
+  const { controller } = mindar
+
+  // Face: one MediaPipe face landmarker detect per update
+  if ('faceMeshHelper' in controller) {
+    const helper = controller.faceMeshHelper
+    const detect = helper.detect
+    helper.detect = async (input) => {
+      const start = performance.now()
+      try {
+        return await detect.call(helper, input)
+      } finally {
+        onUpdate(performance.now() - start)
+      }
+    }
+    return () => {
+      helper.detect = detect
+    }
+  }
+
+  // Image: from loading the input frame to the end-of-update event
+  const { inputLoader, onUpdate: handleUpdate } = controller
+  const loadInput = inputLoader.loadInput
+  let start: number | null = null
+  inputLoader.loadInput = (input) => {
+    start = performance.now()
+    return loadInput.call(inputLoader, input)
+  }
+  controller.onUpdate = (data) => {
+    if (data.type === 'processDone' && start !== null) {
+      onUpdate(performance.now() - start)
+      start = null
+    }
+    handleUpdate?.(data)
+  }
+  return () => {
+    inputLoader.loadInput = loadInput
+    controller.onUpdate = handleUpdate
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { ModelBenchmark } from './modelBenchmark'
+
+describe('ModelBenchmark', () => {
+  it('summarizes inference time and result rate per configuration', () => {
+    const benchmark = new ModelBenchmark()
+    benchmark.begin('Lite · GPU')
+    ;[10, 20, 30, 40].forEach((ms, index) => benchmark.record(ms, index * 50))
+
+    const [lite] = benchmark.summaries()
+    expect(lite).toMatchObject({ label: 'Lite · GPU', current: true, detections: 4, mean: 25, p50: 30, p95: 40 })
+    expect(lite.rate).toBeCloseTo(20) // 3 intervals over 150 ms
+  })
+
+  it('keeps earlier configurations for comparison, in first-use order', () => {
+    const benchmark = new ModelBenchmark()
+    benchmark.begin('Lite · GPU')
+    benchmark.record(10, 0)
+    benchmark.begin('Heavy · GPU')
+    benchmark.record(60, 100)
+
+    expect(benchmark.summaries().map(({ label, current, mean }) => ({ label, current, mean }))).toEqual([
+      { label: 'Lite · GPU', current: false, mean: 10 },
+      { label: 'Heavy · GPU', current: true, mean: 60 },
+    ])
+  })
+
+  it('restarts the window but keeps the total when returning to a configuration', () => {
+    const benchmark = new ModelBenchmark()
+    benchmark.begin('A')
+    benchmark.record(10, 0)
+    benchmark.record(10, 100)
+    benchmark.begin('B')
+    benchmark.begin('A')
+    benchmark.record(30, 10_000)
+
+    const [a] = benchmark.summaries()
+    expect(a).toMatchObject({ detections: 3, mean: 30, rate: 0 })
+  })
+
+  it('ignores detections before the first configuration and reports empty runs as null', () => {
+    const benchmark = new ModelBenchmark()
+    benchmark.record(10)
+    benchmark.begin('A')
+    expect(benchmark.summaries()).toEqual([
+      { label: 'A', current: true, detections: 0, rate: 0, mean: null, p50: null, p95: null },
+    ])
+  })
+
+  it('clears everything but the current configuration', () => {
+    const benchmark = new ModelBenchmark()
+    benchmark.begin('A')
+    benchmark.begin('B')
+    benchmark.record(10, 0)
+    benchmark.clear()
+    expect(benchmark.summaries()).toEqual([
+      { label: 'B', current: true, detections: 0, rate: 0, mean: null, p50: null, p95: null },
+    ])
+  })
+})
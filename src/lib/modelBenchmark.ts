@@ -0,0 +1,87 @@
+/**
+ * Model benchmark
+ *
+ * Inference timings grouped by landmarker configuration, so switching the
+ * model, delegate or limits at runtime shows what the change cost. Each
+ * configuration keeps a rolling window of recent detections: how long
+ * inference took, and when the result arrived (for the rate the worker
+ * actually delivers results at). Returning to a configuration picks up
+ * where it left off.
+ */
+
+const WINDOW_SIZE = 240
+
+interface Detection {
+  inferenceMs: number
+  at: number // performance.now() when the result was taken
+}
+
+export interface ModelRunSummary {
+  label: string
+  current: boolean
+  detections: number // Since the configuration was first used
+  rate: number // Results per second over the window, 0 until there are two
+  mean: number | null // Inference ms over the window
+  p50: number | null
+  p95: number | null
+}
+
+interface Run {
+  label: string
+  total: number
+  window: Detection[]
+}
+
+export class ModelBenchmark {
+  private runs: Run[] = []
+  private current: Run | null = null
+
+  // Detections from now on belong to this configuration
+  begin(label: string) {
+    let run = this.runs.find((entry) => entry.label === label)
+    if (!run) {
+      run = { label, total: 0, window: [] }
+      this.runs.push(run)
+    } else {
+      // The gap while another configuration ran isn't part of this one's rate
+      run.window = []
+    }
+    this.current = run
+  }
+
+  record(inferenceMs: number, at = performance.now()) {
+    const run = this.current
+    if (!run) return
+    run.total++
+    run.window.push({ inferenceMs, at })
+    if (run.window.length > WINDOW_SIZE) run.window.shift()
+  }
+
+  // One entry per configuration, in the order they were first used
+  summaries(): ModelRunSummary[] {
+    return this.runs.map((run) => {
+      const { window } = run
+      const sorted = window.map((detection) => detection.inferenceMs).sort((a, b) => a - b)
+      const at = (p: number) => (sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : null)
+      const span = window.length > 1 ? window[window.length - 1].at - window[0].at : 0
+
+      return {
+        label: run.label,
+        current: run === this.current,
+        detections: run.total,
+        rate: span > 0 ? ((window.length - 1) * 1000) / span : 0,
+        mean: sorted.length ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : null,
+        p50: at(0.5),
+        p95: at(0.95),
+      }
+    })
+  }
+
+  // Forget all timings; the current configuration starts over
+  clear() {
+    const label = this.current?.label
+    this.runs = []
+    this.current = null
+    if (label) this.begin(label)
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import shippedCatalog from '../../public/models/catalog.json?raw'
+import {
+  CATALOG_FORMAT,
+  CATALOG_VERSION,
+  formatDimensions,
+  paginate,
+  parseCatalog,
+  searchCatalog,
+} from './modelCatalog'
+
+const BASE = 'https://example.com/ar-lab/models/catalog.json'
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  id: 'chair',
+  name: 'Chair',
+  src: 'chair.glb',
+  category: 'products',
+  license: { name: 'CC0 1.0', attribution: 'Someone' },
+  ...overrides,
+})
+
+const catalog = (models: unknown[]) => ({
+  format: CATALOG_FORMAT,
+  version: CATALOG_VERSION,
+  categories: [{ id: 'products', label: 'Products' }, { id: 'food', label: 'Food' }],
+  models,
+})
+
+describe('shipped catalog', () => {
+  it('has no broken entries', () => {
+    const { models, problems } = parseCatalog(JSON.parse(shippedCatalog), BASE)
+    expect(problems).toEqual([])
+    expect(models.length).toBeGreaterThan(0)
+  })
+})
+
+describe('parseCatalog', () => {
+  it('rejects files that are not a catalog', () => {
+    expect(() => parseCatalog([], BASE)).toThrow('Not an AR Lab model catalog')
+    expect(() => parseCatalog({ ...catalog([]), version: 2 }, BASE)).toThrow('Unsupported catalog version 2')
+    expect(() => parseCatalog({ ...catalog([]), models: {} }, BASE)).toThrow('The catalog has no models list')
+    expect(() => parseCatalog({ ...catalog([]), categories: [] }, BASE)).toThrow('The catalog needs a list of categories')
+  })
+
+  it('fills in optional fields and resolves relative URLs against the catalog', () => {
+    const { models } = parseCatalog(catalog([entry({ poster: 'posters/chair.webp', tags: [' Furniture ', 'furniture'] })]), BASE)
+    expect(models[0]).toEqual({
+      id: 'chair',
+      name: 'Chair',
+      src: 'https://example.com/ar-lab/models/chair.glb',
+      iosSrc: null,
+      poster: 'https://example.com/ar-lab/models/posters/chair.webp',
+      category: 'products',
+      tags: ['furniture'],
+      dimensions: null,
+      license: { name: 'CC0 1.0', attribution: 'Someone', url: null, source: null },
+    })
+  })
+
+  it('reports broken entries and keeps the rest', () => {
+    const { models, problems } = parseCatalog(catalog([
+      entry(),
+      entry({ id: 'lamp', name: 'Lamp', src: 'lamp.obj' }),
+      entry({ id: 'Bad Id' }),
+      entry({ id: 'cake', name: 'Cake', category: 'desserts' }),
+      entry({ id: 'vase', name: 'Vase', iosSrc: 'vase.glb' }),
+      entry({ id: 'sofa', name: 'Sofa', dimensions: { width: 2, height: 0, depth: 1 } }),
+      entry({ id: 'desk', name: 'Desk', license: { name: 'MIT' } }),
+      entry({ name: 'Chair again' }),
+      'not an entry',
+    ]), BASE)
+
+    expect(models.map((model) => model.id)).toEqual(['chair'])
+    expect(problems).toEqual([
+      { entry: 'models[1] (Lamp)', message: 'src must point at a .glb or .gltf file' },
+      { entry: 'models[2] (Chair)', message: 'id must be lowercase letters, digits and dashes' },
+      { entry: 'models[3] (Cake)', message: 'category "desserts" is not one of the catalog\'s categories' },
+      { entry: 'models[4] (Vase)', message: 'iosSrc must point at a .usdz file' },
+      { entry: 'models[5] (Sofa)', message: 'dimensions.height must be a positive number' },
+      { entry: 'models[6] (Desk)', message: 'license.attribution must be a non-empty string' },
+      { entry: 'models[7] (Chair again)', message: 'id "chair" is used twice' },
+      { entry: 'models[8]', message: 'must be an object' },
+    ])
+  })
+
+  it('defaults dimensions to metres and checks the unit', () => {
+    const { models, problems } = parseCatalog(catalog([
+      entry({ dimensions: { width: 0.5, height: 1, depth: 0.5 } }),
+      entry({ id: 'lamp', dimensions: { width: 1, height: 1, depth: 1, unit: 'ft' } }),
+    ]), BASE)
+    expect(models[0].dimensions).toEqual({ width: 0.5, height: 1, depth: 0.5, unit: 'm' })
+    expect(problems[0].message).toBe('dimensions.unit must be one of mm, cm, m')
+  })
+})
+
+describe('searchCatalog', () => {
+  const parsed = parseCatalog(catalog([
+    entry({ tags: ['furniture', 'wood'] }),
+    entry({ id: 'avocado', name: 'Avocado', category: 'food', tags: ['fruit'], license: { name: 'CC0', attribution: 'Microsoft' } }),
+    entry({ id: 'stool', name: 'Bar Stool', tags: ['furniture', 'metal'] }),
+  ]), BASE)
+  const ids = (query: string, category = '') => searchCatalog(parsed, { query, category }).map((model) => model.id)
+
+  it('matches every word against name, tags, category and credit', () => {
+    expect(ids('')).toEqual(['chair', 'avocado', 'stool'])
+    expect(ids('FURNITURE')).toEqual(['chair', 'stool'])
+    expect(ids('furniture metal')).toEqual(['stool'])
+    expect(ids('microsoft')).toEqual(['avocado'])
+    expect(ids('food')).toEqual(['avocado'])
+    expect(ids('spaceship')).toEqual([])
+  })
+
+  it('filters by category', () => {
+    expect(ids('', 'food')).toEqual(['avocado'])
+    expect(ids('stool', 'food')).toEqual([])
+  })
+})
+
+describe('paginate', () => {
+  const items = [1, 2, 3, 4, 5, 6, 7]
+
+  it('slices pages and clamps out-of-range page numbers', () => {
+    expect(paginate(items, 1, 3)).toEqual({ items: [1, 2, 3], page: 1, pageCount: 3 })
+    expect(paginate(items, 3, 3)).toEqual({ items: [7], page: 3, pageCount: 3 })
+    expect(paginate(items, 9, 3).page).toBe(3)
+    expect(paginate(items, 0, 3).page).toBe(1)
+  })
+
+  it('has one empty page for no items', () => {
+    expect(paginate([], 2, 3)).toEqual({ items: [], page: 1, pageCount: 1 })
+  })
+})
+
+describe('formatDimensions', () => {
+  it('reads width × height × depth', () => {
+    expect(formatDimensions({ width: 0.6, height: 1.2, depth: 0.4999, unit: 'm' })).toBe('0.6 × 1.2 × 0.5 m')
+  })
+})
@@ -0,0 +1,271 @@
+/**
+ * Model catalog
+ *
+ * The Model Viewer's sample models live in public/models/catalog.json, so
+ * they can be added to without touching the page. catalog.schema.json next
+ * to it describes the format for editors; parseCatalog() is the check that
+ * counts:
+ * - A broken file (not JSON, another format, unknown version) fails as a whole
+ * - A broken entry is reported and left out, the rest still load
+ *
+ * Relative src / iosSrc / poster URLs resolve against the catalog's own URL,
+ * so models can sit next to it in public/models/.
+ */
+
+export const CATALOG_FORMAT = 'ar-lab-model-catalog'
+export const CATALOG_VERSION = 1
+
+export type LengthUnit = 'mm' | 'cm' | 'm'
+
+const LENGTH_UNITS: readonly LengthUnit[] = ['mm', 'cm', 'm']
+
+// Size of the real object, for AR at true scale
+export interface ModelDimensions {
+  width: number
+  height: number
+  depth: number
+  unit: LengthUnit
+}
+
+export interface ModelLicense {
+  name: string // e.g. "CC-BY 4.0"
+  attribution: string // Who to credit
+  url: string | null // The license text
+  source: string | null // Where the model came from
+}
+
+export interface CatalogCategory {
+  id: string
+  label: string
+}
+
+export interface CatalogModel {
+  id: string
+  name: string
+  src: string
+  iosSrc: string | null
+  poster: string | null
+  category: string
+  tags: string[]
+  dimensions: ModelDimensions | null
+  license: ModelLicense
+}
+
+export interface CatalogProblem {
+  entry: string // "models[3] (Boom Box)"
+  message: string
+}
+
+export interface ModelCatalog {
+  categories: CatalogCategory[]
+  models: CatalogModel[]
+  problems: CatalogProblem[] // Entries that were left out, and why
+}
+
+export interface CatalogQuery {
+  query: string
+  category: string // '' for every category
+}
+
+export interface CatalogPage<T> {
+  items: T[]
+  page: number // 1-based, clamped to the pages there are
+  pageCount: number
+}
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Thrown for one field of an entry; parseCatalog turns it into a problem
+function fail(message: string): never {
+  throw new Error(message)
+}
+
+// label names the field in messages ("license.name")
+function text(entry: JsonObject, key: string, label = key): string {
+  const value = entry[key]
+  if (typeof value !== 'string' || value.trim() === '') fail(`${label} must be a non-empty string`)
+  return value.trim()
+}
+
+// An absolute URL whose path ends in one of the extensions
+function url(entry: JsonObject, key: string, baseUrl: string, extensions: readonly string[]): string {
+  const raw = text(entry, key)
+  let resolved: URL
+  try {
+    resolved = new URL(raw, baseUrl)
+  } catch {
+    fail(`${key} is not a valid URL`)
+  }
+  if (!extensions.some((extension) => resolved.pathname.toLowerCase().endsWith(extension))) {
+    fail(`${key} must point at a ${extensions.join(' or ')} file`)
+  }
+  return resolved.href
+}
+
+function optionalUrl(entry: JsonObject, key: string, baseUrl: string, extensions: readonly string[]): string | null {
+  return entry[key] === undefined || entry[key] === null ? null : url(entry, key, baseUrl, extensions)
+}
+
+function parseDimensions(value: unknown): ModelDimensions | null {
+  if (value === undefined || value === null) return null
+  if (!isObject(value)) fail('dimensions must be an object')
+
+  const size = (key: 'width' | 'height' | 'depth') => {
+    const number = value[key]
+    if (typeof number !== 'number' || !Number.isFinite(number) || number <= 0) {
+      fail(`dimensions.${key} must be a positive number`)
+    }
+    return number
+  }
+  const unit = value.unit ?? 'm'
+  if (!LENGTH_UNITS.includes(unit as LengthUnit)) fail(`dimensions.unit must be one of ${LENGTH_UNITS.join(', ')}`)
+
+  return { width: size('width'), height: size('height'), depth: size('depth'), unit: unit as LengthUnit }
+}
+
+function parseLicense(value: unknown, baseUrl: string): ModelLicense {
+  if (!isObject(value)) fail('license must be an object with a name and an attribution')
+
+  const link = (key: 'url' | 'source') => {
+    if (value[key] === undefined || value[key] === null) return null
+    const raw = text(value, key, `license.${key}`)
+    try {
+      return new URL(raw, baseUrl).href
+    } catch {
+      fail(`license.${key} is not a valid URL`)
+    }
+  }
+
+  return {
+    name: text(value, 'name', 'license.name'),
+    attribution: text(value, 'attribution', 'license.attribution'),
+    url: link('url'),
+    source: link('source'),
+  }
+}
+
+function parseCategories(value: unknown): CatalogCategory[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('The catalog needs a list of categories')
+  }
+  return value.map((category, index) => {
+    if (!isObject(category) || typeof category.id !== 'string' || !ID_PATTERN.test(category.id) || typeof category.label !== 'string') {
+      throw new Error(`categories[${index}] needs an id (lowercase-with-dashes) and a label`)
+    }
+    return { id: category.id, label: category.label }
+  })
+}
+
+function parseModel(entry: unknown, baseUrl: string, categories: CatalogCategory[]): CatalogModel {
+  if (!isObject(entry)) fail('must be an object')
+
+  const id = text(entry, 'id')
+  if (!ID_PATTERN.test(id)) fail('id must be lowercase letters, digits and dashes')
+
+  const category = text(entry, 'category')
+  if (!categories.some((known) => known.id === category)) {
+    fail(`category "${category}" is not one of the catalog's categories`)
+  }
+
+  const tags = entry.tags ?? []
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string')) fail('tags must be a list of strings')
+
+  return {
+    id,
+    name: text(entry, 'name'),
+    src: url(entry, 'src', baseUrl, ['.glb', '.gltf']),
+    iosSrc: optionalUrl(entry, 'iosSrc', baseUrl, ['.usdz']),
+    poster: optionalUrl(entry, 'poster', baseUrl, ['.webp', '.png', '.jpg', '.jpeg', '.avif']),
+    category,
+    tags: [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))],
+    dimensions: parseDimensions(entry.dimensions),
+    license: parseLicense(entry.license, baseUrl),
+  }
+}
+
+/**
+ * Validate a parsed catalog.json. Throws with a readable reason if the file
+ * as a whole is unusable; otherwise every valid entry is kept and each
+ * broken one becomes a problem.
+ */
+export function parseCatalog(json: unknown, baseUrl: string): ModelCatalog {
+  if (!isObject(json) || json.format !== CATALOG_FORMAT) {
+    throw new Error('Not an AR Lab model catalog')
+  }
+  if (json.version !== CATALOG_VERSION) {
+    throw new Error(`Unsupported catalog version ${String(json.version)}`)
+  }
+  if (!Array.isArray(json.models)) {
+    throw new Error('The catalog has no models list')
+  }
+
+  const categories = parseCategories(json.categories)
+  const models: CatalogModel[] = []
+  const problems: CatalogProblem[] = []
+
+  json.models.forEach((entry: unknown, index) => {
+    const name = isObject(entry) && typeof entry.name === 'string' ? ` (${entry.name})` : ''
+    try {
+      const model = parseModel(entry, baseUrl, categories)
+      if (models.some((other) => other.id === model.id)) fail(`id "${model.id}" is used twice`)
+      models.push(model)
+    } catch (err) {
+      problems.push({ entry: `models[${index}]${name}`, message: (err as Error).message })
+    }
+  })
+
+  return { categories, models, problems }
+}
+
+// Fetch and validate the catalog; throws on network and whole-file problems
+export async function loadCatalog(url: string, signal?: AbortSignal): Promise<ModelCatalog> {
+  const response = await fetch(url, { signal })
+  if (!response.ok) throw new Error(`Loading the model catalog failed (HTTP ${response.status})`)
+
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new Error('The model catalog is not valid JSON')
+  }
+  return parseCatalog(json, new URL(url, location.href).href)
+}
+
+/**
+ * Models in a category (all for '') whose name, tags, category or credit
+ * contain every word of the query, in catalog order.
+ */
+export function searchCatalog(catalog: ModelCatalog, { query, category }: CatalogQuery): CatalogModel[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const labels = new Map(catalog.categories.map((entry) => [entry.id, entry.label]))
+
+  return catalog.models.filter((model) => {
+    if (category && model.category !== category) return false
+    const haystack = [model.name, labels.get(model.category) ?? '', model.license.attribution, ...model.tags]
+      .join(' ')
+      .toLowerCase()
+    return words.every((word) => haystack.includes(word))
+  })
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): CatalogPage<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize))
+  const current = Math.min(Math.max(1, Math.floor(page)), pageCount)
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+  }
+}
+
+// "0.6 × 1.2 × 0.5 m" (width × height × depth)
+export function formatDimensions({ width, height, depth, unit }: ModelDimensions): string {
+  const format = (value: number) => String(Number(value.toPrecision(3)))
+  return `${format(width)} × ${format(height)} × ${format(depth)} ${unit}`
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest'
+import { MOBILE_AR_BUDGET, analyzeModel, checkBudget, imageSize, parseGlb } from './modelStats'
+import type { ModelStats } from './modelStats'
+
+const MODEL_URL = 'https://example.com/models/robot.glb'
+
+function png(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(24)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x89504e47)
+  view.setUint32(4, 0x0d0a1a0a)
+  view.setUint32(8, 13)
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12) // IHDR
+  view.setUint32(16, width)
+  view.setUint32(20, height)
+  return bytes
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0, skipped
+    0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03,
+  ])
+}
+
+function ktx2(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(28)
+  bytes.set([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a])
+  const view = new DataView(bytes.buffer)
+  view.setUint32(20, width, true)
+  view.setUint32(24, height, true)
+  return bytes
+}
+
+function glb(json: object, bin?: Uint8Array): Uint8Array {
+  const pad = (data: Uint8Array, fill: number) => {
+    const padded = new Uint8Array(Math.ceil(data.byteLength / 4) * 4).fill(fill)
+    padded.set(data)
+    return padded
+  }
+  const jsonChunk = pad(new TextEncoder().encode(JSON.stringify(json)), 0x20)
+  const binChunk = bin ? pad(bin, 0) : null
+  const length = 12 + 8 + jsonChunk.byteLength + (binChunk ? 8 + binChunk.byteLength : 0)
+
+  const bytes = new Uint8Array(length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x46546c67, true)
+  view.setUint32(4, 2, true)
+  view.setUint32(8, length, true)
+  view.setUint32(12, jsonChunk.byteLength, true)
+  view.setUint32(16, 0x4e4f534a, true)
+  bytes.set(jsonChunk, 20)
+  if (binChunk) {
+    const offset = 20 + jsonChunk.byteLength
+    view.setUint32(offset, binChunk.byteLength, true)
+    view.setUint32(offset + 4, 0x004e4942, true)
+    bytes.set(binChunk, offset + 8)
+  }
+  return bytes
+}
+
+const noResources = () => Promise.reject(new Error('Nothing to load'))
+
+// A quad (2 triangles, 4 vertices) drawn by two nodes, one of them instanced 10 times
+const ROBOT = {
+  asset: { version: '2.0' },
+  extensionsUsed: ['KHR_draco_mesh_compression', 'EXT_mesh_gpu_instancing'],
+  scene: 0,
+  scenes: [{ nodes: [0] }],
+  nodes: [
+    { children: [1, 2] },
+    { mesh: 0 },
+    { mesh: 0, extensions: { EXT_mesh_gpu_instancing: { attributes: { TRANSLATION: 2 } } } },
+  ],
+  meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1 }, { attributes: { POSITION: 0 }, mode: 1 }] }],
+  accessors: [{ count: 4 }, { count: 6 }, { count: 10 }, { count: 30, max: [2.5] }],
+  materials: [{}, {}],
+  textures: [{ source: 0 }, { source: 1 }],
+  images: [{ name: 'Body', bufferView: 0, mimeType: 'image/png' }, { uri: 'textures/face.jpg' }],
+  buffers: [{ byteLength: 24 }],
+  bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: 24 }],
+  animations: [{ name: 'Wave', samplers: [{ input: 3 }] }, { samplers: [] }],
+}
+
+describe('imageSize', () => {
+  it('reads PNG, JPEG and KTX2 headers', () => {
+    expect(imageSize(png(2048, 1024))).toEqual({ width: 2048, height: 1024 })
+    expect(imageSize(jpeg(640, 480))).toEqual({ width: 640, height: 480 })
+    expect(imageSize(ktx2(512, 256))).toEqual({ width: 512, height: 256 })
+  })
+
+  it('reads lossless WebP', () => {
+    const bytes = new Uint8Array(30)
+    bytes.set(new TextEncoder().encode('RIFF'), 0)
+    bytes.set(new TextEncoder().encode('WEBPVP8L'), 8)
+    new DataView(bytes.buffer).setUint32(21, (300 - 1) | ((200 - 1) << 14), true)
+    expect(imageSize(bytes)).toEqual({ width: 300, height: 200 })
+  })
+
+  it('gives up on anything else', () => {
+    expect(imageSize(new TextEncoder().encode('GIF89a and more bytes here'))).toBeNull()
+  })
+})
+
+describe('parseGlb', () => {
+  it('splits the JSON and binary chunks', () => {
+    const { json, bin } = parseGlb(glb({ asset: { version: '2.0' } }, new Uint8Array([1, 2, 3])))
+    expect(json).toEqual({ asset: { version: '2.0' } })
+    expect(Array.from(bin ?? [])).toEqual([1, 2, 3, 0])
+  })
+
+  it('rejects other files', () => {
+    expect(() => parseGlb(new Uint8Array(32))).toThrow('Not a GLB file')
+  })
+})
+
+describe('analyzeModel', () => {
+  it('counts geometry per rendered instance', async () => {
+    const stats = await analyzeModel(glb(ROBOT, png(4096, 4096)), MODEL_URL, async () => jpeg(1024, 1024))
+    expect(stats.triangles).toBe(2 * 11) // The line primitive draws no triangles
+    expect(stats.vertices).toBe(4 * 11 * 2)
+    expect(stats.drawCalls).toBe(2 * 11)
+    expect(stats.meshes).toBe(1)
+  })
+
+  it('reads materials, images, animations and extensions', async () => {
+    const loaded: string[] = []
+    const stats = await analyzeModel(glb(ROBOT, png(4096, 4096)), MODEL_URL, async (url) => {
+      loaded.push(url)
+      return jpeg(1024, 512)
+    })
+
+    expect(loaded).toEqual(['https://example.com/models/textures/face.jpg'])
+    expect(stats.materials).toBe(2)
+    expect(stats.textures).toBe(2)
+    expect(stats.images).toEqual([
+      { name: 'Body', mimeType: 'image/png', width: 4096, height: 4096, bytes: 24 },
+      { name: 'face.jpg', mimeType: null, width: 1024, height: 512, bytes: 18 },
+    ])
+    expect(stats.animations).toEqual([{ name: 'Wave', duration: 2.5 }, { name: 'Animation 2', duration: 0 }])
+    expect(stats.extensions).toEqual(['EXT_mesh_gpu_instancing', 'KHR_draco_mesh_compression'])
+    expect(stats.compression).toEqual({ draco: true, meshopt: false, ktx2: false })
+  })
+
+  it('adds external resources to the file size, but not data: URIs', async () => {
+    const gltf = {
+      asset: { version: '2.0' },
+      buffers: [{ uri: 'robot.bin' }, { uri: 'data:application/octet-stream;base64,AAAA' }],
+      images: [{ uri: 'missing.png' }],
+    }
+    const bytes = new TextEncoder().encode(JSON.stringify(gltf))
+    const stats = await analyzeModel(bytes, 'https://example.com/robot.gltf', async (url) => {
+      if (url.endsWith('robot.bin')) return new Uint8Array(1000)
+      if (url.startsWith('data:')) return new Uint8Array(3)
+      throw new Error('404')
+    })
+
+    expect(stats.fileSize).toBe(bytes.byteLength + 1000)
+    expect(stats.images[0]).toMatchObject({ name: 'missing.png', width: null, bytes: 0 })
+  })
+
+  it('counts every mesh once when there is no scene', async () => {
+    const stats = await analyzeModel(glb({
+      asset: { version: '2.0' },
+      meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+      accessors: [{ count: 9 }],
+    }), MODEL_URL, noResources)
+    expect(stats.triangles).toBe(3)
+  })
+
+  it('rejects files that are neither glTF nor GLB', async () => {
+    await expect(analyzeModel(new TextEncoder().encode('solid cube'), MODEL_URL, noResources)).rejects.toThrow('Not a glTF or GLB file')
+  })
+})
+
+describe('checkBudget', () => {
+  const stats = (overrides: Partial<ModelStats> = {}): ModelStats => ({
+    fileSize: 2 * 1024 * 1024,
+    triangles: 50_000,
+    vertices: 40_000,
+    drawCalls: 10,
+    meshes: 5,
+    materials: 3,
+    textures: 2,
+    images: [{ name: 'Body', mimeType: 'image/png', width: 2048, height: 2048, bytes: 1 }],
+    textureMemory: 22 * 1024 * 1024,
+    animations: [],
+    extensions: [],
+    compression: { draco: false, meshopt: false, ktx2: false },
+    ...overrides,
+  })
+
+  it('is quiet within budget', () => {
+    expect(checkBudget(stats(), MOBILE_AR_BUDGET, { x: 0.5, y: 1, z: 0.5 })).toEqual([])
+  })
+
+  it('warns for each metric over budget', () => {
+    const warnings = checkBudget(stats({
+      triangles: 250_000,
+      fileSize: 24 * 1024 * 1024,
+      textureMemory: 90 * 1024 * 1024,
+      images: [{ name: 'Body', mimeType: 'image/png', width: 4096, height: 4096, bytes: 1 }],
+      drawCalls: 80,
+    }), MOBILE_AR_BUDGET)
+
+    expect(warnings).toEqual([
+      { metric: 'triangles', message: '250,000 triangles, budget is 100,000' },
+      { metric: 'fileSizeMb', message: '24.0 MB download, budget is 10 MB; Draco or meshopt compression would help' },
+      { metric: 'textureMemoryMb', message: 'About 90 MB of texture memory, budget is 64 MB; KTX2 textures would use about a quarter' },
+      { metric: 'textureSize', message: '1 image is over 2048 px: Body 4096×4096' },
+      { metric: 'drawCalls', message: '80 draw calls, budget is 50; merge meshes or share materials' },
+    ])
+  })
+
+  it('follows a custom budget', () => {
+    expect(checkBudget(stats(), { ...MOBILE_AR_BUDGET, triangles: 20_000 }).map((warning) => warning.metric)).toEqual(['triangles'])
+  })
+
+  it('flags models that look authored in the wrong units', () => {
+    expect(checkBudget(stats(), MOBILE_AR_BUDGET, { x: 180, y: 90, z: 40 })[0].metric).toBe('scale')
+    expect(checkBudget(stats(), MOBILE_AR_BUDGET, { x: 0.002, y: 0.001, z: 0.001 })[0].message).toBe('2.0 mm across; it may be too small to see in AR')
+  })
+})
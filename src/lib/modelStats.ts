@@ -0,0 +1,398 @@
+/**
+ * Model statistics
+ *
+ * What a glTF / GLB costs to show on a phone, read from the file itself
+ * rather than the rendered scene, so compressed geometry (Draco, meshopt)
+ * is counted the same as plain:
+ * - Triangles, vertices and draw calls per rendered instance (meshes reused
+ *   by several nodes, or GPU-instanced, count each time)
+ * - Materials, textures and each image's resolution (from its header)
+ * - Animation clips with their durations
+ * - Extensions used, and the download size including external resources
+ *
+ * checkBudget() compares the numbers against a mobile AR budget.
+ */
+
+export interface ModelImage {
+  name: string
+  mimeType: string | null
+  width: number | null // null if the header couldn't be read
+  height: number | null
+  bytes: number
+}
+
+export interface ModelAnimation {
+  name: string
+  duration: number // Seconds
+}
+
+export interface ModelStats {
+  fileSize: number // Bytes, model plus external buffers and images
+  triangles: number
+  vertices: number
+  drawCalls: number // Primitives rendered, one per material slot per instance
+  meshes: number
+  materials: number
+  textures: number
+  images: ModelImage[]
+  textureMemory: number // Estimated GPU bytes for all images, with mipmaps
+  animations: ModelAnimation[]
+  extensions: string[]
+  compression: {
+    draco: boolean
+    meshopt: boolean
+    ktx2: boolean
+  }
+}
+
+export interface ModelDimensions {
+  x: number // Metres
+  y: number
+  z: number
+}
+
+// Limits a model should stay within for mobile AR
+export interface ModelBudget {
+  triangles: number
+  drawCalls: number
+  fileSizeMb: number
+  textureSize: number // Largest side of any one image, px
+  textureMemoryMb: number
+}
+
+export const MOBILE_AR_BUDGET: ModelBudget = {
+  triangles: 100_000,
+  drawCalls: 50,
+  fileSizeMb: 10,
+  textureSize: 2048,
+  textureMemoryMb: 64,
+}
+
+export interface BudgetWarning {
+  metric: keyof ModelBudget | 'scale'
+  message: string
+}
+
+// Loads a referenced file (buffer or image) as bytes
+export type ResourceLoader = (url: string) => Promise<Uint8Array>
+
+const GLB_MAGIC = 0x46546c67
+const CHUNK_JSON = 0x4e4f534a
+const CHUNK_BIN = 0x004e4942
+const MB = 1024 * 1024
+
+// Sides outside this range usually mean the model was authored in other units
+const MIN_SIDE_M = 0.01
+const MAX_SIDE_M = 20
+
+// Rough GPU bytes per pixel: RGBA8, or block-compressed after KTX2 transcoding
+const BYTES_PER_PIXEL = 4
+const KTX2_BYTES_PER_PIXEL = 1
+const MIPMAP_FACTOR = 4 / 3
+
+interface GltfAccessor { count?: number; max?: number[] }
+interface GltfPrimitive { attributes?: Record<string, number>; indices?: number; mode?: number }
+interface GltfNode {
+  mesh?: number
+  children?: number[]
+  extensions?: { EXT_mesh_gpu_instancing?: { attributes?: Record<string, number> } }
+}
+interface GltfImage { name?: string; uri?: string; bufferView?: number; mimeType?: string }
+interface GltfBufferView { buffer: number; byteOffset?: number; byteLength: number }
+
+interface Gltf {
+  scene?: number
+  scenes?: { nodes?: number[] }[]
+  nodes?: GltfNode[]
+  meshes?: { primitives?: GltfPrimitive[] }[]
+  accessors?: GltfAccessor[]
+  materials?: unknown[]
+  textures?: unknown[]
+  images?: GltfImage[]
+  buffers?: { uri?: string; byteLength?: number }[]
+  bufferViews?: GltfBufferView[]
+  animations?: { name?: string; samplers?: { input: number }[] }[]
+  extensionsUsed?: string[]
+}
+
+// Split a GLB into its JSON and binary chunks
+export function parseGlb(bytes: Uint8Array): { json: Gltf; bin: Uint8Array | null } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) throw new Error('Not a GLB file')
+
+  let json: Gltf | null = null
+  let bin: Uint8Array | null = null
+  let offset = 12
+  while (offset + 8 <= bytes.byteLength) {
+    const length = view.getUint32(offset, true)
+    const type = view.getUint32(offset + 4, true)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+    if (type === CHUNK_JSON) json = JSON.parse(new TextDecoder().decode(data))
+    else if (type === CHUNK_BIN && !bin) bin = data
+    offset += 8 + length
+  }
+
+  if (!json) throw new Error('The GLB has no JSON chunk')
+  return { json, bin }
+}
+
+/**
+ * Width and height from an image's header: PNG, JPEG, WebP or KTX2.
+ * null for anything else.
+ */
+export function imageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length))
+
+  // PNG: IHDR is always the first chunk
+  if (bytes.byteLength >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  // JPEG: walk the markers to the first start-of-frame
+  if (bytes.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2
+    while (offset + 9 <= bytes.byteLength) {
+      if (bytes[offset] !== 0xff) return null
+      const marker = bytes[offset + 1]
+      const length = view.getUint16(offset + 2)
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+      if (isFrame) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      offset += 2 + length
+    }
+    return null
+  }
+
+  // WebP: lossy, lossless or extended
+  if (bytes.byteLength >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const format = ascii(12, 4)
+    if (format === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    }
+    if (format === 'VP8L') {
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (format === 'VP8X') {
+      const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16))
+      const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+      return { width, height }
+    }
+    return null
+  }
+
+  // KTX2: identifier, then vkFormat, typeSize, pixelWidth, pixelHeight
+  if (bytes.byteLength >= 28 && bytes[0] === 0xab && ascii(1, 6) === 'KTX 20') {
+    return { width: view.getUint32(20, true), height: view.getUint32(24, true) }
+  }
+
+  return null
+}
+
+// Triangles one primitive draws (points and lines draw none)
+function primitiveTriangles(primitive: GltfPrimitive, accessors: GltfAccessor[]): number {
+  const vertices = accessors[primitive.attributes?.POSITION ?? -1]?.count ?? 0
+  const count = primitive.indices === undefined ? vertices : accessors[primitive.indices]?.count ?? 0
+  switch (primitive.mode ?? 4) {
+    case 4: return Math.floor(count / 3)
+    case 5:
+    case 6: return Math.max(0, count - 2)
+    default: return 0
+  }
+}
+
+// How many times each mesh is drawn by the default scene
+function meshInstances(gltf: Gltf): number[] {
+  const counts = new Array<number>(gltf.meshes?.length ?? 0).fill(0)
+  const nodes = gltf.nodes ?? []
+  const scene = gltf.scenes?.[gltf.scene ?? 0]
+
+  // No scene: every mesh once
+  if (!scene) return counts.fill(1)
+
+  const visit = (index: number, seen: Set<number>) => {
+    const node = nodes[index]
+    if (!node || seen.has(index)) return
+    seen.add(index)
+    if (node.mesh !== undefined && node.mesh < counts.length) {
+      const instancing = node.extensions?.EXT_mesh_gpu_instancing?.attributes
+      const instanced = instancing ? gltf.accessors?.[Object.values(instancing)[0]]?.count : undefined
+      counts[node.mesh] += instanced ?? 1
+    }
+    node.children?.forEach((child) => visit(child, seen))
+    seen.delete(index)
+  }
+  scene.nodes?.forEach((index) => visit(index, new Set()))
+  return counts
+}
+
+/**
+ * Statistics for a model's bytes. url is where they came from, for
+ * resolving external buffers and images, which load() fetches.
+ */
+export async function analyzeModel(bytes: Uint8Array, url: string, load: ResourceLoader): Promise<ModelStats> {
+  const isGlb = bytes.byteLength >= 4 && new DataView(bytes.buffer, bytes.byteOffset).getUint32(0, true) === GLB_MAGIC
+  let gltf: Gltf
+  let bin: Uint8Array | null = null
+  if (isGlb) {
+    ({ json: gltf, bin } = parseGlb(bytes))
+  } else {
+    try {
+      gltf = JSON.parse(new TextDecoder().decode(bytes))
+    } catch {
+      throw new Error('Not a glTF or GLB file')
+    }
+  }
+
+  let fileSize = bytes.byteLength
+  const accessors = gltf.accessors ?? []
+
+  // External resources, each loaded once; data: URIs are part of the file already
+  const loaded = new Map<string, Promise<Uint8Array | null>>()
+  const resource = (uri: string): Promise<Uint8Array | null> => {
+    let target: string
+    try {
+      target = new URL(uri, url).href
+    } catch {
+      return Promise.resolve(null)
+    }
+    if (!loaded.has(target)) {
+      loaded.set(target, load(target).then(
+        (data) => {
+          if (!uri.startsWith('data:')) fileSize += data.byteLength
+          return data
+        },
+        () => null
+      ))
+    }
+    return loaded.get(target) ?? Promise.resolve(null)
+  }
+
+  const buffer = (index: number): Promise<Uint8Array | null> => {
+    const entry = gltf.buffers?.[index]
+    if (!entry) return Promise.resolve(null)
+    if (entry.uri === undefined) return Promise.resolve(isGlb && index === 0 ? bin : null)
+    return resource(entry.uri)
+  }
+
+  // Triangles, vertices and draw calls per instance
+  const instances = meshInstances(gltf)
+  let triangles = 0
+  let vertices = 0
+  let drawCalls = 0
+  gltf.meshes?.forEach((mesh, index) => {
+    for (const primitive of mesh.primitives ?? []) {
+      triangles += primitiveTriangles(primitive, accessors) * instances[index]
+      vertices += (accessors[primitive.attributes?.POSITION ?? -1]?.count ?? 0) * instances[index]
+      drawCalls += instances[index]
+    }
+  })
+
+  // Images, read from their buffer view or their own file
+  const images = await Promise.all((gltf.images ?? []).map(async (image, index): Promise<ModelImage> => {
+    let data: Uint8Array | null = null
+    if (image.bufferView !== undefined) {
+      const view = gltf.bufferViews?.[image.bufferView]
+      const source = view ? await buffer(view.buffer) : null
+      data = view && source ? source.subarray(view.byteOffset ?? 0, (view.byteOffset ?? 0) + view.byteLength) : null
+    } else if (image.uri !== undefined) {
+      data = await resource(image.uri)
+    }
+
+    const size = data ? imageSize(data) : null
+    return {
+      name: image.name ?? image.uri?.split('/').pop()?.slice(0, 60) ?? `Image ${index + 1}`,
+      mimeType: image.mimeType ?? null,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      bytes: data?.byteLength ?? 0,
+    }
+  }))
+
+  // External buffers count towards the download even if no image uses them
+  await Promise.all((gltf.buffers ?? []).map((_, index) => buffer(index)))
+
+  const extensions = [...(gltf.extensionsUsed ?? [])].sort()
+  const textureMemory = images.reduce((sum, image) => {
+    if (image.width === null || image.height === null) return sum
+    const perPixel = image.mimeType === 'image/ktx2' ? KTX2_BYTES_PER_PIXEL : BYTES_PER_PIXEL
+    return sum + image.width * image.height * perPixel * MIPMAP_FACTOR
+  }, 0)
+
+  return {
+    fileSize,
+    triangles,
+    vertices,
+    drawCalls,
+    meshes: gltf.meshes?.length ?? 0,
+    materials: gltf.materials?.length ?? 0,
+    textures: gltf.textures?.length ?? 0,
+    images,
+    textureMemory: Math.round(textureMemory),
+    animations: (gltf.animations ?? []).map((animation, index) => ({
+      name: animation.name || `Animation ${index + 1}`,
+      duration: Math.max(0, ...(animation.samplers ?? []).map((sampler) => accessors[sampler.input]?.max?.[0] ?? 0)),
+    })),
+    extensions,
+    compression: {
+      draco: extensions.includes('KHR_draco_mesh_compression'),
+      meshopt: extensions.includes('EXT_meshopt_compression') || extensions.includes('KHR_meshopt_compression'),
+      ktx2: extensions.includes('KHR_texture_basisu'),
+    },
+  }
+}
+
+// Fetch a model (and what it references) and measure it
+export async function inspectModel(url: string, signal?: AbortSignal): Promise<ModelStats> {
+  const load: ResourceLoader = async (target) => {
+    const response = await fetch(target, { signal })
+    if (!response.ok) throw new Error(`Loading ${target} failed (HTTP ${response.status})`)
+    return new Uint8Array(await response.arrayBuffer())
+  }
+  return analyzeModel(await load(url), url, load)
+}
+
+function count(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+// Everything over budget, most important first
+export function checkBudget(stats: ModelStats, budget: ModelBudget, dimensions: ModelDimensions | null = null): BudgetWarning[] {
+  const warnings: BudgetWarning[] = []
+
+  if (stats.triangles > budget.triangles) {
+    warnings.push({ metric: 'triangles', message: `${count(stats.triangles)} triangles, budget is ${count(budget.triangles)}` })
+  }
+  if (stats.fileSize > budget.fileSizeMb * MB) {
+    const compress = stats.compression.draco || stats.compression.meshopt ? '' : '; Draco or meshopt compression would help'
+    warnings.push({ metric: 'fileSizeMb', message: `${(stats.fileSize / MB).toFixed(1)} MB download, budget is ${budget.fileSizeMb} MB${compress}` })
+  }
+  if (stats.textureMemory > budget.textureMemoryMb * MB) {
+    const compress = stats.compression.ktx2 ? '' : '; KTX2 textures would use about a quarter'
+    warnings.push({
+      metric: 'textureMemoryMb',
+      message: `About ${Math.round(stats.textureMemory / MB)} MB of texture memory, budget is ${budget.textureMemoryMb} MB${compress}`,
+    })
+  }
+
+  const oversized = stats.images.filter((image) => Math.max(image.width ?? 0, image.height ?? 0) > budget.textureSize)
+  if (oversized.length > 0) {
+    const list = oversized.map((image) => `${image.name} ${image.width}×${image.height}`).join(', ')
+    warnings.push({ metric: 'textureSize', message: `${oversized.length} ${oversized.length === 1 ? 'image is' : 'images are'} over ${budget.textureSize} px: ${list}` })
+  }
+
+  if (stats.drawCalls > budget.drawCalls) {
+    warnings.push({ metric: 'drawCalls', message: `${stats.drawCalls} draw calls, budget is ${budget.drawCalls}; merge meshes or share materials` })
+  }
+
+  if (dimensions) {
+    const largest = Math.max(dimensions.x, dimensions.y, dimensions.z)
+    if (largest > MAX_SIDE_M) {
+      warnings.push({ metric: 'scale', message: `${largest.toFixed(1)} m across; glTF is in metres, was it authored in centimetres?` })
+    } else if (largest > 0 && largest < MIN_SIDE_M) {
+      warnings.push({ metric: 'scale', message: `${(largest * 1000).toFixed(1)} mm across; it may be too small to see in AR` })
+    }
+  }
+
+  return warnings
+}
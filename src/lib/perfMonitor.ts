@@ -0,0 +1,242 @@
+/**
+ * Performance monitor
+ *
+ * Per-frame timings for the experiment loops, kept in rolling windows so the
+ * HUD can show recent percentiles:
+ * - frame: time between loop ticks (render FPS and dropped frames)
+ * - inference: detectForVideo, or one MindAR tracking update
+ * - draw: canvas overlay / renderer draw time
+ *
+ * Every frame is also logged (up to a cap) for CSV export. Rows carry the
+ * run's context (model, delegate...) so runs with different settings or from
+ * different devices can be pasted into one sheet and compared.
+ */
+
+export type PerfStage = 'frame' | 'inference' | 'draw'
+
+export interface StageStats {
+  count: number // Samples in the window
+  mean: number
+  p50: number
+  p95: number
+  p99: number
+}
+
+export interface PerfSnapshot {
+  fps: number
+  dropped: number // Since the last reset
+  frames: number // Since the last reset
+  stages: Record<PerfStage, StageStats | null> // null until a stage has samples
+}
+
+export type PerfContext = Record<string, string>
+
+interface FrameRow {
+  time: number // Milliseconds since the first logged frame
+  frame: number | null
+  inference: number | null
+  draw: number | null
+  dropped: number
+}
+
+const WINDOW_SIZE = 240 // ~4 s at 60 fps
+const LOG_LIMIT = 36_000 // ~10 min at 60 fps
+const DROP_FACTOR = 1.5 // A tick this late (in expected intervals) means frames were dropped
+const PAUSE_MS = 1000 // Longer gaps are a paused tab, not dropped frames
+const EXPECTED_REFRESH = 30 // Ticks between re-estimating the expected frame interval
+
+// Fixed-size ring buffer of recent samples
+class RollingWindow {
+  private samples: number[] = []
+  private next = 0
+
+  push(value: number) {
+    if (this.samples.length < WINDOW_SIZE) {
+      this.samples.push(value)
+    } else {
+      this.samples[this.next] = value
+    }
+    this.next = (this.next + 1) % WINDOW_SIZE
+  }
+
+  clear() {
+    this.samples = []
+    this.next = 0
+  }
+
+  stats(): StageStats | null {
+    const count = this.samples.length
+    if (count === 0) return null
+
+    const sorted = [...this.samples].sort((a, b) => a - b)
+    const at = (p: number) => sorted[Math.min(count - 1, Math.floor(p * count))]
+    return {
+      count,
+      mean: sorted.reduce((sum, value) => sum + value, 0) / count,
+      p50: at(0.5),
+      p95: at(0.95),
+      p99: at(0.99),
+    }
+  }
+}
+
+function createWindows(): Record<PerfStage, RollingWindow> {
+  return { frame: new RollingWindow(), inference: new RollingWindow(), draw: new RollingWindow() }
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? '' : value.toFixed(2)
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export class PerfMonitor {
+  private enabled = false
+  private context: PerfContext = {}
+  private windows = createWindows()
+  private log: FrameRow[] = []
+  private row: FrameRow | null = null
+  private startedAt: number | null = null
+  private lastTick: number | null = null
+  private expectedInterval: number | null = null
+  private ticksSinceEstimate = 0
+  private frames = 0
+  private dropped = 0
+
+  get isEnabled(): boolean {
+    return this.enabled
+  }
+
+  // Timing is skipped entirely while disabled
+  setEnabled(enabled: boolean) {
+    if (enabled && !this.enabled) this.reset()
+    this.enabled = enabled
+  }
+
+  // Labels written into every CSV row (e.g. model, delegate)
+  setContext(context: PerfContext) {
+    this.context = context
+  }
+
+  // Call once at the start of every loop iteration
+  tick(now = performance.now()) {
+    if (!this.enabled) return
+
+    this.flushRow()
+    this.startedAt ??= now
+    this.row = { time: now - this.startedAt, frame: null, inference: null, draw: null, dropped: 0 }
+    this.frames++
+
+    const last = this.lastTick
+    this.lastTick = now
+    if (last === null) return
+
+    const interval = now - last
+    if (interval > PAUSE_MS) return
+
+    this.windows.frame.push(interval)
+    this.row.frame = interval
+
+    if (this.expectedInterval && interval > this.expectedInterval * DROP_FACTOR) {
+      const dropped = Math.round(interval / this.expectedInterval) - 1
+      this.row.dropped = dropped
+      this.dropped += dropped
+    }
+
+    // The display may run at 60, 90 or 120 Hz; use the typical recent interval
+    if (++this.ticksSinceEstimate >= EXPECTED_REFRESH) {
+      this.ticksSinceEstimate = 0
+      this.expectedInterval = this.windows.frame.stats()?.p50 ?? null
+    }
+  }
+
+  // Add a timing for the current frame
+  record(stage: Exclude<PerfStage, 'frame'>, ms: number) {
+    if (!this.enabled) return
+
+    this.windows[stage].push(ms)
+    if (this.row) {
+      this.row[stage] = (this.row[stage] ?? 0) + ms
+    }
+  }
+
+  // Run fn and record how long it took
+  measure<T>(stage: Exclude<PerfStage, 'frame'>, fn: () => T): T {
+    if (!this.enabled) return fn()
+
+    const start = performance.now()
+    try {
+      return fn()
+    } finally {
+      this.record(stage, performance.now() - start)
+    }
+  }
+
+  snapshot(): PerfSnapshot {
+    const frame = this.windows.frame.stats()
+    return {
+      fps: frame ? 1000 / frame.mean : 0,
+      dropped: this.dropped,
+      frames: this.frames,
+      stages: {
+        frame,
+        inference: this.windows.inference.stats(),
+        draw: this.windows.draw.stats(),
+      },
+    }
+  }
+
+  reset() {
+    this.windows = createWindows()
+    this.log = []
+    this.row = null
+    this.startedAt = null
+    this.lastTick = null
+    this.expectedInterval = null
+    this.ticksSinceEstimate = 0
+    this.frames = 0
+    this.dropped = 0
+  }
+
+  // Every logged frame, one row each, with the context as trailing columns
+  toCSV(): string {
+    this.flushRow()
+
+    const contextKeys = Object.keys(this.context)
+    const contextValues = contextKeys.map((key) => csvField(this.context[key]))
+    const header = ['time_ms', 'frame_ms', 'inference_ms', 'draw_ms', 'dropped', ...contextKeys.map(csvField)]
+
+    const lines = this.log.map((row) =>
+      [
+        row.time.toFixed(1),
+        formatMs(row.frame),
+        formatMs(row.inference),
+        formatMs(row.draw),
+        String(row.dropped),
+        ...contextValues,
+      ].join(',')
+    )
+    return [header.join(','), ...lines].join('\n')
+  }
+
+  private flushRow() {
+    if (!this.row) return
+    if (this.log.length < LOG_LIMIT) {
+      this.log.push(this.row)
+    }
+    this.row = null
+  }
+}
+
+// Save a monitor's frame log as a CSV download
+export function downloadPerfCsv(monitor: PerfMonitor, name: string) {
+  const blob = new Blob([monitor.toCSV()], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name}-perf-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
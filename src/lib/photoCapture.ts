@@ -0,0 +1,55 @@
+/**
+ * Photo capture
+ *
+ * Encodes a composite of an experiment's layers (see composite.ts) as a PNG
+ * or JPEG, optionally watermarked. The composite is kept unwatermarked so
+ * the settings can change after the shot without capturing again.
+ */
+
+import { drawWatermark } from './composite'
+import { captureFilename } from './fileSharing'
+
+export type PhotoFormat = 'image/png' | 'image/jpeg'
+
+export interface PhotoOptions {
+  format: PhotoFormat
+  quality: number // JPEG quality, 0–1
+  watermark: string | null
+}
+
+export const DEFAULT_WATERMARK = 'AR Lab'
+
+export const DEFAULT_PHOTO_OPTIONS: PhotoOptions = {
+  format: 'image/png',
+  quality: 0.92,
+  watermark: DEFAULT_WATERMARK,
+}
+
+export const PHOTO_FORMATS: Record<PhotoFormat, { label: string; extension: string }> = {
+  'image/png': { label: 'PNG', extension: 'png' },
+  'image/jpeg': { label: 'JPEG', extension: 'jpg' },
+}
+
+// Encode a composite with the chosen format and watermark
+export function encodePhoto(composite: HTMLCanvasElement, options: PhotoOptions): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = composite.width
+  canvas.height = composite.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not available'))
+
+  ctx.drawImage(composite, 0, 0)
+  if (options.watermark) drawWatermark(ctx, options.watermark)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the photo'))),
+      options.format,
+      options.quality
+    )
+  })
+}
+
+export function photoFilename(name: string, format: PhotoFormat, date = new Date()) {
+  return captureFilename(name, 'photo', PHOTO_FORMATS[format].extension, date)
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { calculateJointAngles, detectPose } from './poseClassifier'
+import { POSE_LANDMARKS } from './trackingCore'
+import {
+  POSE_FIXTURES,
+  mirrorPoseFixture,
+  posePoints,
+  withKneeAngle,
+  withVisibility,
+} from './__fixtures__/poseFixtures'
+import { RECORDED_POSE_FIXTURES } from './__fixtures__/recordedFixtures'
+import { POSE_SHAPES, generatePose, seededRandom } from './landmarkGenerator'
+
+// Share of recorded frames that must match the clip's label
+const RECORDED_AGREEMENT = 0.8
+
+const P = POSE_LANDMARKS
+
+describe('detectPose', () => {
+  it.each(POSE_FIXTURES)('classifies $name', ({ landmarks, expected }) => {
+    expect(detectPose(landmarks)).toBe(expected)
+  })
+
+  it.each(POSE_FIXTURES.map(mirrorPoseFixture))('classifies $name', ({ landmarks, expected }) => {
+    expect(detectPose(landmarks)).toBe(expected)
+  })
+
+  describe('partial visibility', () => {
+    it.each([
+      ['left shoulder', P.LEFT_SHOULDER],
+      ['right shoulder', P.RIGHT_SHOULDER],
+      ['left hip', P.LEFT_HIP],
+      ['right hip', P.RIGHT_HIP],
+    ])('gives up when the %s is hidden', (_, index) => {
+      expect(detectPose(withVisibility(posePoints('t_pose'), [index], 0.2))).toBe('unknown')
+    })
+
+    it('gives up when the person is missing visibility scores entirely', () => {
+      const unscored = posePoints('standing').map((landmark) => ({ ...landmark, visibility: 0 }))
+      expect(detectPose(unscored)).toBe('unknown')
+    })
+
+    it('treats hidden knees as straight legs', () => {
+      const sitting = withVisibility(posePoints('sitting'), [P.LEFT_KNEE, P.RIGHT_KNEE], 0.1)
+      expect(detectPose(sitting)).toBe('standing')
+    })
+
+    it('still classifies the upper body with the feet out of frame', () => {
+      const cropped = withVisibility(
+        posePoints('arms_up'),
+        [P.LEFT_ANKLE, P.RIGHT_ANKLE, P.LEFT_HEEL, P.RIGHT_HEEL, P.LEFT_FOOT_INDEX, P.RIGHT_FOOT_INDEX],
+        0
+      )
+      expect(detectPose(cropped)).toBe('arms_up')
+    })
+  })
+
+  describe('knee thresholds', () => {
+    it('needs knees straighter than 150° to count as standing', () => {
+      expect(detectPose(withKneeAngle(posePoints('standing'), 155))).toBe('standing')
+      expect(detectPose(withKneeAngle(posePoints('standing'), 145))).toBe('unknown')
+    })
+
+    it('needs knees bent past 120° to count as sitting', () => {
+      expect(detectPose(withKneeAngle(posePoints('standing'), 115))).toBe('sitting')
+      expect(detectPose(withKneeAngle(posePoints('standing'), 125))).toBe('unknown')
+    })
+  })
+
+  it('needs both wrists raised for arms up', () => {
+    const oneArm = posePoints('arms_up')
+    oneArm[P.RIGHT_ELBOW] = posePoints('standing')[P.RIGHT_ELBOW]
+    oneArm[P.RIGHT_WRIST] = posePoints('standing')[P.RIGHT_WRIST]
+    expect(detectPose(oneArm)).not.toBe('arms_up')
+  })
+})
+
+describe('calculateJointAngles', () => {
+  it('reads straight limbs as 180°', () => {
+    const angles = calculateJointAngles(posePoints('t_pose'))
+    expect(angles.leftElbow).toBe(180)
+    expect(angles.rightElbow).toBe(180)
+    expect(angles.leftKnee).toBe(180)
+    expect(angles.rightKnee).toBe(180)
+  })
+
+  it('measures shoulders between the torso and the upper arm', () => {
+    const tPose = calculateJointAngles(posePoints('t_pose'))
+    expect(tPose.leftShoulder).toBeGreaterThan(70)
+    expect(tPose.leftShoulder).toBeLessThan(110)
+    expect(calculateJointAngles(posePoints('arms_up')).leftShoulder).toBeGreaterThan(150)
+  })
+
+  it('matches the bend it was built with', () => {
+    const angles = calculateJointAngles(withKneeAngle(posePoints('standing'), 100))
+    expect(angles.leftKnee).toBe(100)
+    expect(angles.rightKnee).toBe(100)
+  })
+
+  it('is the same for both sides of a symmetric pose, mirrored or not', () => {
+    for (const fixture of [POSE_FIXTURES[0], mirrorPoseFixture(POSE_FIXTURES[0])]) {
+      const angles = calculateJointAngles(fixture.landmarks)
+      expect(angles.leftElbow).toBe(angles.rightElbow)
+      expect(angles.leftShoulder).toBe(angles.rightShoulder)
+    }
+  })
+
+  it('rounds to whole degrees', () => {
+    const angles = calculateJointAngles(posePoints('hands_on_hips'))
+    for (const value of Object.values(angles)) expect(Number.isInteger(value)).toBe(true)
+  })
+})
+
+describe('generated poses', () => {
+  // Full body in frame, from across a room, with landmark jitter
+  it.each(Object.entries(POSE_SHAPES))('classifies %s across the usual range', (pose, shape) => {
+    const random = seededRandom(1)
+    for (const distance of [2, 2.5, 3]) {
+      for (const x of [0.35, 0.5, 0.65]) {
+        const { landmarks } = generatePose({ ...shape, distance, x, noise: 0.003 }, random)
+        expect(detectPose(landmarks), `${distance} m at x ${x}`).toBe(pose)
+      }
+    }
+  })
+
+  it('gives up on a person cut off at the waist', () => {
+    const { landmarks } = generatePose({ ...POSE_SHAPES.t_pose, y: 1.05, distance: 1.5 })
+    expect(detectPose(landmarks)).toBe('unknown')
+  })
+})
+
+describe.skipIf(RECORDED_POSE_FIXTURES.length === 0)('recorded poses', () => {
+  it.each(RECORDED_POSE_FIXTURES)('classifies $name', ({ session, expected }) => {
+    const people = session.frames.flatMap(({ result }) => result.landmarks)
+    const matched = people.filter((landmarks) => detectPose(landmarks) === expected).length
+    expect(people.length).toBeGreaterThan(0)
+    expect(matched / people.length).toBeGreaterThanOrEqual(RECORDED_AGREEMENT)
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Body pose classifier
+ *
+ * Rule-based poses from one person's 33 landmarks, using joint angles,
+ * wrist positions relative to shoulders and hips, and torso tilt. Needs
+ * both shoulders and both hips to be visible.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision'
+import { POSE_LANDMARKS, distance, isVisible, jointAngle } from './trackingCore'
+
+export type Pose = 'standing' | 't_pose' | 'arms_up' | 'hands_on_hips' | 'sitting' | 'leaning' | 'unknown'
+
+export interface PoseInfo {
+  name: string
+  emoji: string
+  description: string
+}
+
+export const POSES: Record<Pose, PoseInfo> = {
+  standing: { name: 'Standing', emoji: '🧍', description: 'Upright neutral position' },
+  t_pose: { name: 'T-Pose', emoji: '✝️', description: 'Arms extended horizontally' },
+  arms_up: { name: 'Arms Up', emoji: '🙌', description: 'Both arms raised overhead' },
+  hands_on_hips: { name: 'Hands on Hips', emoji: '💁', description: 'Arms bent, hands at waist' },
+  sitting: { name: 'Sitting', emoji: '🪑', description: 'Seated or crouching position' },
+  leaning: { name: 'Leaning', emoji: '↗️', description: 'Body tilted to one side' },
+  unknown: { name: 'Unknown', emoji: '❓', description: 'Pose not recognized' },
+}
+
+// Rounded joint angles in degrees
+export interface JointAngles {
+  leftElbow: number
+  rightElbow: number
+  leftKnee: number
+  rightKnee: number
+  leftShoulder: number
+  rightShoulder: number
+}
+
+// Detect pose from landmarks
+export function detectPose(landmarks: NormalizedLandmark[]): Pose {
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER]
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER]
+  const leftElbow = landmarks[POSE_LANDMARKS.LEFT_ELBOW]
+  const rightElbow = landmarks[POSE_LANDMARKS.RIGHT_ELBOW]
+  const leftWrist = landmarks[POSE_LANDMARKS.LEFT_WRIST]
+  const rightWrist = landmarks[POSE_LANDMARKS.RIGHT_WRIST]
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP]
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP]
+  const leftKnee = landmarks[POSE_LANDMARKS.LEFT_KNEE]
+  const rightKnee = landmarks[POSE_LANDMARKS.RIGHT_KNEE]
+  
+  // Check visibility of key landmarks
+  const upperBodyVisible = isVisible(leftShoulder) && isVisible(rightShoulder) &&
+                          isVisible(leftHip) && isVisible(rightHip)
+  
+  if (!upperBodyVisible) return 'unknown'
+  
+  // Calculate key angles
+  const leftArmAngle = jointAngle(leftShoulder, leftElbow, leftWrist)
+  const rightArmAngle = jointAngle(rightShoulder, rightElbow, rightWrist)
+  const leftShoulderAngle = jointAngle(leftHip, leftShoulder, leftElbow)
+  const rightShoulderAngle = jointAngle(rightHip, rightShoulder, rightElbow)
+  const leftKneeAngle = isVisible(leftKnee) ? jointAngle(leftHip, leftKnee, landmarks[POSE_LANDMARKS.LEFT_ANKLE]) : 180
+  const rightKneeAngle = isVisible(rightKnee) ? jointAngle(rightHip, rightKnee, landmarks[POSE_LANDMARKS.RIGHT_ANKLE]) : 180
+  
+  // Calculate torso tilt
+  const shoulderCenter = { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 }
+  const hipCenter = { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 }
+  const torsoTilt = Math.abs(shoulderCenter.x - hipCenter.x) / distance(leftShoulder, rightShoulder)
+  
+  // Arms up: both wrists above shoulders
+  if (leftWrist.y < leftShoulder.y - 0.1 && rightWrist.y < rightShoulder.y - 0.1) {
+    // Check if arms are mostly straight up
+    if (leftShoulderAngle > 150 && rightShoulderAngle > 150) {
+      return 'arms_up'
+    }
+  }
+  
+  // T-Pose: arms extended horizontally
+  if (leftShoulderAngle > 70 && leftShoulderAngle < 110 &&
+      rightShoulderAngle > 70 && rightShoulderAngle < 110 &&
+      leftArmAngle > 150 && rightArmAngle > 150) {
+    const leftWristLevel = Math.abs(leftWrist.y - leftShoulder.y)
+    const rightWristLevel = Math.abs(rightWrist.y - rightShoulder.y)
+    if (leftWristLevel < 0.15 && rightWristLevel < 0.15) {
+      return 't_pose'
+    }
+  }
+  
+  // Hands on hips: wrists near hips, elbows bent outward
+  const leftWristNearHip = distance(leftWrist, leftHip) < 0.15
+  const rightWristNearHip = distance(rightWrist, rightHip) < 0.15
+  if (leftWristNearHip && rightWristNearHip &&
+      leftArmAngle < 120 && rightArmAngle < 120) {
+    return 'hands_on_hips'
+  }
+  
+  // Sitting: knees significantly bent
+  if (leftKneeAngle < 120 && rightKneeAngle < 120) {
+    return 'sitting'
+  }
+  
+  // Leaning: significant torso tilt
+  if (torsoTilt > 0.3) {
+    return 'leaning'
+  }
+  
+  // Standing: relatively upright, legs straight
+  if (leftKneeAngle > 150 && rightKneeAngle > 150 && torsoTilt < 0.2) {
+    return 'standing'
+  }
+  
+  return 'unknown'
+}
+
+// Calculate joint angles for analysis display
+export function calculateJointAngles(landmarks: NormalizedLandmark[]): JointAngles {
+  return {
+    leftElbow: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
+      landmarks[POSE_LANDMARKS.LEFT_ELBOW],
+      landmarks[POSE_LANDMARKS.LEFT_WRIST]
+    )),
+    rightElbow: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER],
+      landmarks[POSE_LANDMARKS.RIGHT_ELBOW],
+      landmarks[POSE_LANDMARKS.RIGHT_WRIST]
+    )),
+    leftKnee: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.LEFT_HIP],
+      landmarks[POSE_LANDMARKS.LEFT_KNEE],
+      landmarks[POSE_LANDMARKS.LEFT_ANKLE]
+    )),
+    rightKnee: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.RIGHT_HIP],
+      landmarks[POSE_LANDMARKS.RIGHT_KNEE],
+      landmarks[POSE_LANDMARKS.RIGHT_ANKLE]
+    )),
+    leftShoulder: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.LEFT_HIP],
+      landmarks[POSE_LANDMARKS.LEFT_SHOULDER],
+      landmarks[POSE_LANDMARKS.LEFT_ELBOW]
+    )),
+    rightShoulder: Math.round(jointAngle(
+      landmarks[POSE_LANDMARKS.RIGHT_HIP],
+      landmarks[POSE_LANDMARKS.RIGHT_SHOULDER],
+      landmarks[POSE_LANDMARKS.RIGHT_ELBOW]
+    )),
+  }
+}
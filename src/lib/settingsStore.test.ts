@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  SETTINGS_FORMAT,
+  defineSettings,
+  loadSettings,
+  parseSettingsFile,
+  saveSettings,
+  serializeSettings,
+  setting,
+  settingsDefaults,
+  settingsStorageKey,
+} from './settingsStore'
+
+const COLORS = ['#06b6d4', '#8b5cf6']
+
+const fields = {
+  skeleton: setting.toggle({ label: 'Skeleton', fallback: true }),
+  facingMode: setting.choice({
+    label: 'Camera',
+    options: [{ value: 'user', label: 'Front' }, { value: 'environment', label: 'Rear' }],
+    fallback: 'user',
+  }),
+  filters: setting.choices({
+    label: 'Filters',
+    options: [{ value: 'glasses', label: 'Glasses' }, { value: 'crown', label: 'Crown' }],
+    fallback: ['glasses'],
+  }),
+  confidence: setting.range({ label: 'Confidence', min: 0.1, max: 0.9, step: 0.05, fallback: 0.5 }),
+  color: setting.color({ label: 'Colour', palette: COLORS, fallback: COLORS[0] }),
+  cameraId: setting.id({ label: 'Camera device', fallback: null }),
+}
+
+// Version 1 stored the threshold as a percentage under another name;
+// version 2 renamed showSkeleton
+const definition = defineSettings({
+  experiment: 'test-experiment',
+  version: 3,
+  fields,
+  migrations: {
+    1: ({ confidencePercent, ...rest }) => ({ ...rest, confidence: Number(confidencePercent) / 100 }),
+    2: ({ showSkeleton, ...rest }) => ({ ...rest, skeleton: showSkeleton }),
+  },
+})
+
+const file = (version: number, settings: Record<string, unknown>, experiment = 'test-experiment') =>
+  JSON.stringify({ format: SETTINGS_FORMAT, experiment, version, settings })
+
+// Minimal in-memory Storage
+function memoryStorage(entries: Record<string, string> = {}) {
+  const data = new Map(Object.entries(entries))
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+  }
+}
+
+describe('parseSettingsFile', () => {
+  it('reads every field type', () => {
+    const settings = parseSettingsFile(definition, file(3, {
+      skeleton: false,
+      facingMode: 'environment',
+      filters: ['crown'],
+      confidence: 0.7,
+      color: '#8B5CF6',
+      cameraId: 'abc',
+    }))
+    expect(settings).toEqual({
+      skeleton: false,
+      facingMode: 'environment',
+      filters: ['crown'],
+      confidence: 0.7,
+      color: '#8b5cf6',
+      cameraId: 'abc',
+    })
+  })
+
+  it('falls back field by field for invalid values and drops unknown keys', () => {
+    const settings = parseSettingsFile(definition, file(3, {
+      skeleton: 'yes',
+      facingMode: 'sideways',
+      filters: ['crown', 'bogus', 'crown'],
+      color: '#123456',
+      extra: 1,
+    }))
+    expect(settings).toEqual({ ...settingsDefaults(definition), filters: ['crown'] })
+  })
+
+  it('clamps and snaps numbers to the range', () => {
+    expect(parseSettingsFile(definition, file(3, { confidence: 2 })).confidence).toBe(0.9)
+    expect(parseSettingsFile(definition, file(3, { confidence: 0.62 })).confidence).toBe(0.6)
+    expect(parseSettingsFile(definition, file(3, { confidence: Number.NaN })).confidence).toBe(0.5)
+  })
+
+  it('migrates older versions one step at a time', () => {
+    expect(parseSettingsFile(definition, file(1, { confidencePercent: 65, showSkeleton: false }))).toMatchObject({
+      confidence: 0.65,
+      skeleton: false,
+    })
+    expect(parseSettingsFile(definition, file(2, { confidence: 0.3, showSkeleton: false }))).toMatchObject({
+      confidence: 0.3,
+      skeleton: false,
+    })
+  })
+
+  it('reads what it can from a newer version', () => {
+    expect(parseSettingsFile(definition, file(9, { skeleton: false, newField: 1 }))).toEqual({
+      ...settingsDefaults(definition),
+      skeleton: false,
+    })
+  })
+
+  it('rejects files it cannot use, with a reason', () => {
+    expect(() => parseSettingsFile(definition, '{')).toThrow('not valid JSON')
+    expect(() => parseSettingsFile(definition, '{"settings":{}}')).toThrow('Not an AR Lab settings file')
+    expect(() => parseSettingsFile(definition, file(3, {}, 'other'))).toThrow('settings for other')
+    expect(() => parseSettingsFile(definition, file(0, {}))).toThrow('Unsupported settings version')
+  })
+
+  it('round-trips through serializeSettings', () => {
+    const settings = { ...settingsDefaults(definition), filters: [], confidence: 0.85, cameraId: 'abc' }
+    expect(parseSettingsFile(definition, serializeSettings(definition, settings))).toEqual(settings)
+  })
+})
+
+describe('defineSettings', () => {
+  it('requires a migration from every older version', () => {
+    expect(() => defineSettings({ experiment: 'x', version: 3, fields, migrations: { 1: (data) => data } })).toThrow(
+      'no migration from version 2'
+    )
+  })
+
+  it('rejects versions below 1', () => {
+    expect(() => defineSettings({ experiment: 'x', version: 0, fields, migrations: {} })).toThrow('positive integer')
+  })
+})
+
+describe('loadSettings / saveSettings', () => {
+  it('returns the defaults when nothing is saved or storage is blocked', () => {
+    expect(loadSettings(definition, memoryStorage())).toEqual(settingsDefaults(definition))
+    expect(loadSettings(definition, null)).toEqual(settingsDefaults(definition))
+  })
+
+  it('returns the defaults for unreadable saved data', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = memoryStorage({ [settingsStorageKey(definition)]: 'not json' })
+    expect(loadSettings(definition, storage)).toEqual(settingsDefaults(definition))
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('saves under a per-experiment key and loads it back', () => {
+    const storage = memoryStorage()
+    const settings = { ...settingsDefaults(definition), color: '#8b5cf6' }
+    expect(saveSettings(definition, settings, storage)).toBe(true)
+    expect(storage.getItem('ar-lab:settings:test-experiment')).not.toBeNull()
+    expect(loadSettings(definition, storage)).toEqual(settings)
+  })
+
+  it('reports a failed write', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const full = { setItem: () => { throw new Error('QuotaExceededError') } }
+    expect(saveSettings(definition, settingsDefaults(definition), full)).toBe(false)
+    expect(saveSettings(definition, settingsDefaults(definition), null)).toBe(false)
+    warn.mockRestore()
+  })
+})
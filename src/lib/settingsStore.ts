@@ -0,0 +1,262 @@
+/**
+ * Saved experiment settings
+ *
+ * Each experiment declares its durable preferences (camera, detection
+ * thresholds, display defaults...) as a schema of fields with a fallback and
+ * the control the settings panel shows for it. They are kept in localStorage
+ * as one versioned document per experiment, which is also the export format,
+ * so a tuned configuration can be carried to another device as a JSON file.
+ *
+ * Documents written by an older schema are upgraded by its migrations, one
+ * version at a time. Loading never fails: a missing, unreadable or invalid
+ * value falls back. Importing a file is stricter and says why it was
+ * rejected.
+ */
+
+export const SETTINGS_FORMAT = 'ar-lab-settings'
+
+const STORAGE_PREFIX = 'ar-lab:settings:'
+
+export interface SettingOption<T extends string = string> {
+  value: T
+  label: string
+}
+
+// How the settings panel edits a field
+export type SettingControl =
+  | { type: 'toggle' }
+  | { type: 'choice'; options: readonly SettingOption[] }
+  | { type: 'choices'; options: readonly SettingOption[] } // Any number of options
+  | { type: 'range'; min: number; max: number; step: number }
+  | { type: 'color'; palette: readonly string[] }
+  | { type: 'hidden' } // Stored and exported, but set elsewhere on the page
+
+export interface SettingField<T> {
+  label: string
+  hint?: string
+  control: SettingControl
+  parse(value: unknown): T | undefined // undefined = invalid, use the fallback
+  fallback: T
+}
+
+export type SettingsSchema<S> = { [K in keyof S]: SettingField<S[K]> }
+
+// Upgrades the settings of one version to the next; unknown data in, unknown data out
+export type SettingsMigration = (settings: Record<string, unknown>) => Record<string, unknown>
+
+export interface SettingsDefinition<S> {
+  experiment: string // Storage key and export tag, e.g. '06-hand-tracking'
+  version: number
+  fields: SettingsSchema<S>
+  migrations: Record<number, SettingsMigration> // migrations[n] upgrades version n to n + 1
+}
+
+interface SettingsDocument {
+  format: typeof SETTINGS_FORMAT
+  experiment: string
+  version: number
+  settings: Record<string, unknown>
+}
+
+interface FieldLabels<T> {
+  label: string
+  hint?: string
+  fallback: T
+}
+
+export const setting = {
+  toggle({ label, hint, fallback }: FieldLabels<boolean>): SettingField<boolean> {
+    return {
+      label,
+      hint,
+      fallback,
+      control: { type: 'toggle' },
+      parse: (value) => (typeof value === 'boolean' ? value : undefined),
+    }
+  },
+
+  // One of a fixed set of ids
+  choice<T extends string>({ options, ...labels }: FieldLabels<T> & { options: readonly SettingOption<T>[] }): SettingField<T> {
+    return {
+      ...labels,
+      control: { type: 'choice', options },
+      parse: (value) => options.find((option) => option.value === value)?.value,
+    }
+  },
+
+  // Any subset of a fixed set of ids; unknown ones are dropped
+  choices<T extends string>({ options, ...labels }: FieldLabels<T[]> & { options: readonly SettingOption<T>[] }): SettingField<T[]> {
+    return {
+      ...labels,
+      control: { type: 'choices', options },
+      parse: (value) => {
+        if (!Array.isArray(value)) return undefined
+        return options.map((option) => option.value).filter((id) => value.includes(id))
+      },
+    }
+  },
+
+  // Number within [min, max], snapped to step
+  range({ min, max, step, ...labels }: FieldLabels<number> & { min: number; max: number; step: number }): SettingField<number> {
+    return {
+      ...labels,
+      control: { type: 'range', min, max, step },
+      parse: (value) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return undefined
+        const snapped = min + Math.round((value - min) / step) * step
+        return Number(Math.min(max, Math.max(min, snapped)).toFixed(6))
+      },
+    }
+  },
+
+  // #rrggbb colour from the palette
+  color({ palette, ...labels }: FieldLabels<string> & { palette: readonly string[] }): SettingField<string> {
+    return {
+      ...labels,
+      control: { type: 'color', palette },
+      parse: (value) => {
+        if (typeof value !== 'string') return undefined
+        return palette.find((entry) => entry.toLowerCase() === value.toLowerCase())
+      },
+    }
+  },
+
+  // Opaque id (a camera's deviceId...) or null; not shown in the panel
+  id({ label, fallback }: FieldLabels<string | null>): SettingField<string | null> {
+    return {
+      label,
+      fallback,
+      control: { type: 'hidden' },
+      parse: (value) => (value === null || (typeof value === 'string' && value.length <= 256) ? value : undefined),
+    }
+  },
+}
+
+// Check a definition once at module load: every old version needs a way forward
+export function defineSettings<S>(definition: SettingsDefinition<S>): SettingsDefinition<S> {
+  const { experiment, version, migrations } = definition
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Settings version for ${experiment} must be a positive integer`)
+  }
+  for (let from = 1; from < version; from++) {
+    if (!migrations[from]) {
+      throw new Error(`Settings for ${experiment} have no migration from version ${from}`)
+    }
+  }
+  return definition
+}
+
+export function settingsDefaults<S>(definition: SettingsDefinition<S>): S {
+  const settings = {} as S
+  for (const name in definition.fields) {
+    settings[name] = definition.fields[name].fallback
+  }
+  return settings
+}
+
+// Typed settings from raw (already migrated) data; unknown keys are dropped
+export function readSettings<S>(definition: SettingsDefinition<S>, data: Record<string, unknown>): S {
+  const settings = {} as S
+  for (const name in definition.fields) {
+    const { parse, fallback } = definition.fields[name]
+    settings[name] = parse(data[name]) ?? fallback
+  }
+  return settings
+}
+
+// Bring data written at `version` up to the definition's version. Data from a
+// newer build is returned as is and read field by field, as far as it fits.
+export function migrateSettings<S>(
+  definition: SettingsDefinition<S>,
+  version: number,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  let migrated = data
+  for (let from = version; from < definition.version; from++) {
+    migrated = definition.migrations[from](migrated)
+  }
+  return migrated
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Parse and validate a settings document, throwing with a readable reason
+export function parseSettingsFile<S>(definition: SettingsDefinition<S>, text: string): S {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Settings file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== SETTINGS_FORMAT || !isRecord(data.settings)) {
+    throw new Error('Not an AR Lab settings file')
+  }
+  if (data.experiment !== definition.experiment) {
+    throw new Error(`These are settings for ${String(data.experiment)}, expected ${definition.experiment}`)
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error(`Unsupported settings version ${String(data.version)}`)
+  }
+
+  return readSettings(definition, migrateSettings(definition, data.version, data.settings))
+}
+
+export function serializeSettings<S>(definition: SettingsDefinition<S>, settings: S): string {
+  const document: SettingsDocument = {
+    format: SETTINGS_FORMAT,
+    experiment: definition.experiment,
+    version: definition.version,
+    settings: settings as Record<string, unknown>,
+  }
+  return JSON.stringify(document, null, 2)
+}
+
+export function settingsStorageKey<S>(definition: SettingsDefinition<S>): string {
+  return STORAGE_PREFIX + definition.experiment
+}
+
+export function settingsFilename<S>(definition: SettingsDefinition<S>): string {
+  return `ar-lab-${definition.experiment}-settings.json`
+}
+
+// localStorage, or null where it's blocked (some private modes, sandboxed iframes)
+export function browserStorage(): Storage | null {
+  try {
+    return window.localStorage
+  } catch {
+    return null
+  }
+}
+
+// Saved settings, or the defaults if there are none or they can't be read
+export function loadSettings<S>(definition: SettingsDefinition<S>, storage: Pick<Storage, 'getItem'> | null): S {
+  try {
+    const text = storage?.getItem(settingsStorageKey(definition))
+    if (text) return parseSettingsFile(definition, text)
+  } catch (err) {
+    console.warn(`Ignoring saved settings for ${definition.experiment}:`, err)
+  }
+  return settingsDefaults(definition)
+}
+
+// Returns false if the settings could not be written (storage blocked or full)
+export function saveSettings<S>(definition: SettingsDefinition<S>, settings: S, storage: Pick<Storage, 'setItem'> | null): boolean {
+  try {
+    storage?.setItem(settingsStorageKey(definition), serializeSettings(definition, settings))
+    return storage !== null
+  } catch (err) {
+    console.warn(`Could not save settings for ${definition.experiment}:`, err)
+    return false
+  }
+}
+
+export function clearSettings<S>(definition: SettingsDefinition<S>, storage: Pick<Storage, 'removeItem'> | null) {
+  try {
+    storage?.removeItem(settingsStorageKey(definition))
+  } catch (err) {
+    console.warn(`Could not clear settings for ${definition.experiment}:`, err)
+  }
+}
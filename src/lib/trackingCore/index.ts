@@ -0,0 +1,13 @@
+/**
+ * Tracking core
+ *
+ * Shared landmark math and topology for the tracking experiments: vector
+ * helpers, index tables and connections for hand, pose and face mesh,
+ * visibility checks and body-relative normalization. Experiments import
+ * from here rather than keeping their own copies.
+ */
+
+export * from './vector'
+export * from './topology'
+export * from './visibility'
+export * from './normalize'
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { handSize, mirrorX, normalizeHand, normalizePose, torsoSize } from './normalize'
+import { HAND_LANDMARK_COUNT, HAND_LANDMARKS, POSE_LANDMARK_COUNT, POSE_LANDMARKS } from './topology'
+import { distance } from './vector'
+import type { Vec3 } from './vector'
+
+// A flat hand: wrist at (cx, cy), fingers fanned upward, palm length `size`
+function hand(cx: number, cy: number, size: number): Vec3[] {
+  const points: Vec3[] = Array.from({ length: HAND_LANDMARK_COUNT }, () => ({ x: cx, y: cy, z: 0 }))
+  for (let i = 1; i < HAND_LANDMARK_COUNT; i++) {
+    const finger = Math.floor((i - 1) / 4)
+    const joint = (i - 1) % 4
+    points[i] = { x: cx + (finger - 2) * 0.2 * size, y: cy - (1 + joint * 0.4) * size, z: -0.1 * size }
+  }
+  points[HAND_LANDMARKS.MIDDLE_MCP] = { x: cx, y: cy - size, z: 0 }
+  return points
+}
+
+describe('hand normalization', () => {
+  it('measures palm length from wrist to middle knuckle', () => {
+    expect(handSize(hand(0.5, 0.8, 0.2))).toBeCloseTo(0.2)
+  })
+
+  it('moves the wrist to the origin and scales to one palm length', () => {
+    const normalized = normalizeHand(hand(0.3, 0.9, 0.25))
+    expect(normalized[HAND_LANDMARKS.WRIST]).toEqual({ x: 0, y: 0, z: 0 })
+    expect(handSize(normalized)).toBeCloseTo(1)
+  })
+
+  it('makes near and far hands comparable', () => {
+    const near = normalizeHand(hand(0.5, 0.9, 0.3))
+    const far = normalizeHand(hand(0.2, 0.4, 0.1))
+    const tips = [HAND_LANDMARKS.THUMB_TIP, HAND_LANDMARKS.INDEX_TIP]
+    expect(distance(near[tips[0]], near[tips[1]])).toBeCloseTo(distance(far[tips[0]], far[tips[1]]))
+    expect(near[HAND_LANDMARKS.PINKY_TIP].z).toBeCloseTo(far[HAND_LANDMARKS.PINKY_TIP].z)
+  })
+
+  it('keeps extra landmark fields', () => {
+    const landmarks = hand(0.5, 0.5, 0.2).map((p) => ({ ...p, visibility: 0.7 }))
+    expect(normalizeHand(landmarks)[3].visibility).toBe(0.7)
+  })
+
+  it('only translates a degenerate hand', () => {
+    const collapsed = Array.from({ length: HAND_LANDMARK_COUNT }, () => ({ x: 0.4, y: 0.4, z: 0 }))
+    expect(normalizeHand(collapsed)[8]).toEqual({ x: 0, y: 0, z: 0 })
+  })
+})
+
+describe('pose normalization', () => {
+  const pose: Vec3[] = Array.from({ length: POSE_LANDMARK_COUNT }, () => ({ x: 0.5, y: 0.5, z: 0 }))
+  pose[POSE_LANDMARKS.LEFT_SHOULDER] = { x: 0.6, y: 0.3, z: 0 }
+  pose[POSE_LANDMARKS.RIGHT_SHOULDER] = { x: 0.4, y: 0.3, z: 0 }
+  pose[POSE_LANDMARKS.LEFT_HIP] = { x: 0.58, y: 0.7, z: 0 }
+  pose[POSE_LANDMARKS.RIGHT_HIP] = { x: 0.42, y: 0.7, z: 0 }
+
+  it('measures torso length between shoulder and hip midpoints', () => {
+    expect(torsoSize(pose)).toBeCloseTo(0.4)
+  })
+
+  it('centres on the hips and scales to one torso length', () => {
+    const normalized = normalizePose(pose)
+    expect(normalized[POSE_LANDMARKS.LEFT_HIP].x).toBeCloseTo(0.2)
+    expect(normalized[POSE_LANDMARKS.LEFT_SHOULDER].y).toBeCloseTo(-1)
+  })
+})
+
+describe('mirrorX', () => {
+  it('flips x and leaves y and z alone', () => {
+    expect(mirrorX([{ x: 0.2, y: 0.3, z: -0.1 }])).toEqual([{ x: 0.8, y: 0.3, z: -0.1 }])
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * Landmark normalization
+ *
+ * Raw landmarks are in image units, so thresholds tuned on a hand close to
+ * the camera fail on one further away. These helpers move a landmark set
+ * to a body-relative frame: origin at a stable joint and scaled by a body
+ * length, so distances read as "fractions of a hand" or "of a torso".
+ *
+ * Every helper returns new landmarks and keeps any extra fields
+ * (visibility, presence) intact.
+ */
+
+import { HAND_LANDMARKS, POSE_LANDMARKS } from './topology'
+import { distance, midpoint } from './vector'
+import type { Vec3 } from './vector'
+
+// Translate so origin sits at 0,0,0 and divide by size; a zero size only translates
+function rescale<T extends Vec3>(landmarks: readonly T[], origin: Vec3, size: number): T[] {
+  const factor = size > 0 ? 1 / size : 1
+  return landmarks.map((landmark) => ({
+    ...landmark,
+    x: (landmark.x - origin.x) * factor,
+    y: (landmark.y - origin.y) * factor,
+    z: (landmark.z - origin.z) * factor,
+  }))
+}
+
+// Palm length: wrist to middle-finger knuckle in the image plane. Unlike
+// span or finger length it barely changes as the fingers open and close.
+export function handSize(landmarks: readonly Vec3[]): number {
+  return distance(landmarks[HAND_LANDMARKS.WRIST], landmarks[HAND_LANDMARKS.MIDDLE_MCP])
+}
+
+// Wrist at the origin, one palm length = 1
+export function normalizeHand<T extends Vec3>(landmarks: readonly T[]): T[] {
+  return rescale(landmarks, landmarks[HAND_LANDMARKS.WRIST], handSize(landmarks))
+}
+
+// Torso length: shoulder midpoint to hip midpoint in the image plane
+export function torsoSize(landmarks: readonly Vec3[]): number {
+  const shoulders = midpoint(landmarks[POSE_LANDMARKS.LEFT_SHOULDER], landmarks[POSE_LANDMARKS.RIGHT_SHOULDER])
+  const hips = midpoint(landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.RIGHT_HIP])
+  return distance(shoulders, hips)
+}
+
+// Hip midpoint at the origin, one torso length = 1
+export function normalizePose<T extends Vec3>(landmarks: readonly T[]): T[] {
+  const hips = midpoint(landmarks[POSE_LANDMARKS.LEFT_HIP], landmarks[POSE_LANDMARKS.RIGHT_HIP])
+  return rescale(landmarks, hips, torsoSize(landmarks))
+}
+
+// Flip horizontally in normalized image space, as a selfie view does
+export function mirrorX<T extends Vec3>(landmarks: readonly T[]): T[] {
+  return landmarks.map((landmark) => ({ ...landmark, x: 1 - landmark.x }))
+}
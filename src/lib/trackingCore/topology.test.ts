@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FACE_ANCHORS,
+  FACE_MESH_LANDMARK_COUNT,
+  FACE_OVAL_CONNECTIONS,
+  HAND_CONNECTIONS,
+  HAND_FINGERS,
+  HAND_FINGERTIPS,
+  HAND_LANDMARK_COUNT,
+  HAND_LANDMARKS,
+  POSE_CONNECTIONS,
+  POSE_KEY_JOINTS,
+  POSE_LANDMARK_COUNT,
+  POSE_LANDMARKS,
+} from './topology'
+import type { Connection } from './topology'
+
+function indicesIn(connections: readonly Connection[]): Set<number> {
+  return new Set(connections.flat())
+}
+
+describe('hand topology', () => {
+  it('names every landmark exactly once', () => {
+    const indices = Object.values(HAND_LANDMARKS).sort((a, b) => a - b)
+    expect(indices).toEqual(Array.from({ length: HAND_LANDMARK_COUNT }, (_, i) => i))
+  })
+
+  it('connects every landmark', () => {
+    expect(indicesIn(HAND_CONNECTIONS).size).toBe(HAND_LANDMARK_COUNT)
+    expect(HAND_CONNECTIONS).toHaveLength(23)
+  })
+
+  it('lists finger joints from knuckle to tip', () => {
+    expect(HAND_FINGERS.index).toEqual([5, 6, 7, 8])
+    expect(HAND_FINGERS.thumb[3]).toBe(HAND_LANDMARKS.THUMB_TIP)
+    expect(Object.values(HAND_FINGERS).flat()).toHaveLength(HAND_LANDMARK_COUNT - 1)
+  })
+
+  it('names the tip of every finger', () => {
+    expect([...HAND_FINGERTIPS]).toEqual(Object.values(HAND_FINGERS).map((joints) => joints[3]))
+  })
+})
+
+describe('pose topology', () => {
+  it('names every landmark exactly once', () => {
+    const indices = Object.values(POSE_LANDMARKS).sort((a, b) => a - b)
+    expect(indices).toEqual(Array.from({ length: POSE_LANDMARK_COUNT }, (_, i) => i))
+  })
+
+  it('connects every landmark with valid indices', () => {
+    expect(indicesIn(POSE_CONNECTIONS).size).toBe(POSE_LANDMARK_COUNT)
+    expect(POSE_CONNECTIONS).toHaveLength(35)
+  })
+
+  it('includes shoulders and hips among the key joints', () => {
+    expect(POSE_KEY_JOINTS).toContain(POSE_LANDMARKS.LEFT_SHOULDER)
+    expect(POSE_KEY_JOINTS).toContain(POSE_LANDMARKS.RIGHT_HIP)
+  })
+})
+
+describe('face mesh topology', () => {
+  it('keeps anchors inside the mesh', () => {
+    for (const index of Object.values(FACE_ANCHORS)) {
+      expect(index).toBeGreaterThanOrEqual(0)
+      expect(index).toBeLessThan(FACE_MESH_LANDMARK_COUNT)
+    }
+  })
+
+  it('closes the face oval', () => {
+    const first = FACE_OVAL_CONNECTIONS[0]
+    const last = FACE_OVAL_CONNECTIONS[FACE_OVAL_CONNECTIONS.length - 1]
+    expect(last[1]).toBe(first[0])
+    expect(first[0]).toBe(FACE_ANCHORS.FOREHEAD)
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Landmark topology
+ *
+ * Index tables and skeleton connections for the landmark layouts the
+ * experiments use:
+ * - Hand: MediaPipe HandLandmarker, 21 points
+ * - Pose: MediaPipe PoseLandmarker (BlazePose), 33 points
+ * - Face mesh: MediaPipe face mesh as used by MindAR, 468 points (the Tasks
+ *   FaceLandmarker appends 10 iris points after these)
+ *
+ * Left/right in the pose table are the subject's, not the image's.
+ */
+
+// Pair of landmark indices joined by a bone or contour segment
+export type Connection = readonly [number, number]
+
+// Connections for consecutive points, optionally closing the loop
+function chain(indices: readonly number[], closed = false): Connection[] {
+  const connections: Connection[] = []
+  for (let i = 1; i < indices.length; i++) connections.push([indices[i - 1], indices[i]])
+  if (closed && indices.length > 2) connections.push([indices[indices.length - 1], indices[0]])
+  return connections
+}
+
+// ---------------------------------------------------------------------------
+// Hand
+// ---------------------------------------------------------------------------
+
+export const HAND_LANDMARK_COUNT = 21
+
+export const HAND_LANDMARKS = {
+  WRIST: 0,
+  THUMB_CMC: 1,
+  THUMB_MCP: 2,
+  THUMB_IP: 3,
+  THUMB_TIP: 4,
+  INDEX_MCP: 5,
+  INDEX_PIP: 6,
+  INDEX_DIP: 7,
+  INDEX_TIP: 8,
+  MIDDLE_MCP: 9,
+  MIDDLE_PIP: 10,
+  MIDDLE_DIP: 11,
+  MIDDLE_TIP: 12,
+  RING_MCP: 13,
+  RING_PIP: 14,
+  RING_DIP: 15,
+  RING_TIP: 16,
+  PINKY_MCP: 17,
+  PINKY_PIP: 18,
+  PINKY_DIP: 19,
+  PINKY_TIP: 20,
+} as const
+
+export type Finger = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky'
+
+// Joints of each finger from the knuckle nearest the wrist out to the tip
+export const HAND_FINGERS: Record<Finger, readonly [number, number, number, number]> = {
+  thumb: [HAND_LANDMARKS.THUMB_CMC, HAND_LANDMARKS.THUMB_MCP, HAND_LANDMARKS.THUMB_IP, HAND_LANDMARKS.THUMB_TIP],
+  index: [HAND_LANDMARKS.INDEX_MCP, HAND_LANDMARKS.INDEX_PIP, HAND_LANDMARKS.INDEX_DIP, HAND_LANDMARKS.INDEX_TIP],
+  middle: [HAND_LANDMARKS.MIDDLE_MCP, HAND_LANDMARKS.MIDDLE_PIP, HAND_LANDMARKS.MIDDLE_DIP, HAND_LANDMARKS.MIDDLE_TIP],
+  ring: [HAND_LANDMARKS.RING_MCP, HAND_LANDMARKS.RING_PIP, HAND_LANDMARKS.RING_DIP, HAND_LANDMARKS.RING_TIP],
+  pinky: [HAND_LANDMARKS.PINKY_MCP, HAND_LANDMARKS.PINKY_PIP, HAND_LANDMARKS.PINKY_DIP, HAND_LANDMARKS.PINKY_TIP],
+}
+
+// The five fingertip landmarks, from the same names the gesture classifier uses
+export const HAND_FINGERTIPS: ReadonlySet<number> = new Set([
+  HAND_LANDMARKS.THUMB_TIP,
+  HAND_LANDMARKS.INDEX_TIP,
+  HAND_LANDMARKS.MIDDLE_TIP,
+  HAND_LANDMARKS.RING_TIP,
+  HAND_LANDMARKS.PINKY_TIP,
+])
+
+export const HAND_CONNECTIONS: readonly Connection[] = [
+  // Each finger from the wrist out
+  ...Object.values(HAND_FINGERS).flatMap((joints) => chain([HAND_LANDMARKS.WRIST, ...joints])),
+  // Palm
+  ...chain([HAND_LANDMARKS.INDEX_MCP, HAND_LANDMARKS.MIDDLE_MCP, HAND_LANDMARKS.RING_MCP, HAND_LANDMARKS.PINKY_MCP]),
+]
+
+// ---------------------------------------------------------------------------
+// Pose
+// ---------------------------------------------------------------------------
+
+export const POSE_LANDMARK_COUNT = 33
+
+export const POSE_LANDMARKS = {
+  NOSE: 0,
+  LEFT_EYE_INNER: 1,
+  LEFT_EYE: 2,
+  LEFT_EYE_OUTER: 3,
+  RIGHT_EYE_INNER: 4,
+  RIGHT_EYE: 5,
+  RIGHT_EYE_OUTER: 6,
+  LEFT_EAR: 7,
+  RIGHT_EAR: 8,
+  MOUTH_LEFT: 9,
+  MOUTH_RIGHT: 10,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_PINKY: 17,
+  RIGHT_PINKY: 18,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_THUMB: 21,
+  RIGHT_THUMB: 22,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29,
+  RIGHT_HEEL: 30,
+  LEFT_FOOT_INDEX: 31,
+  RIGHT_FOOT_INDEX: 32,
+} as const
+
+const P = POSE_LANDMARKS
+
+export const POSE_CONNECTIONS: readonly Connection[] = [
+  // Face
+  ...chain([P.LEFT_EAR, P.LEFT_EYE_OUTER, P.LEFT_EYE, P.LEFT_EYE_INNER, P.NOSE]),
+  ...chain([P.NOSE, P.RIGHT_EYE_INNER, P.RIGHT_EYE, P.RIGHT_EYE_OUTER, P.RIGHT_EAR]),
+  [P.MOUTH_LEFT, P.MOUTH_RIGHT],
+
+  // Torso
+  [P.LEFT_SHOULDER, P.RIGHT_SHOULDER],
+  [P.LEFT_SHOULDER, P.LEFT_HIP],
+  [P.RIGHT_SHOULDER, P.RIGHT_HIP],
+  [P.LEFT_HIP, P.RIGHT_HIP],
+
+  // Left arm
+  ...chain([P.LEFT_SHOULDER, P.LEFT_ELBOW, P.LEFT_WRIST]),
+  [P.LEFT_WRIST, P.LEFT_PINKY],
+  [P.LEFT_WRIST, P.LEFT_INDEX],
+  [P.LEFT_WRIST, P.LEFT_THUMB],
+  [P.LEFT_PINKY, P.LEFT_INDEX],
+
+  // Right arm
+  ...chain([P.RIGHT_SHOULDER, P.RIGHT_ELBOW, P.RIGHT_WRIST]),
+  [P.RIGHT_WRIST, P.RIGHT_PINKY],
+  [P.RIGHT_WRIST, P.RIGHT_INDEX],
+  [P.RIGHT_WRIST, P.RIGHT_THUMB],
+  [P.RIGHT_PINKY, P.RIGHT_INDEX],
+
+  // Left leg
+  ...chain([P.LEFT_HIP, P.LEFT_KNEE, P.LEFT_ANKLE]),
+  [P.LEFT_ANKLE, P.LEFT_HEEL],
+  [P.LEFT_ANKLE, P.LEFT_FOOT_INDEX],
+  [P.LEFT_HEEL, P.LEFT_FOOT_INDEX],
+
+  // Right leg
+  ...chain([P.RIGHT_HIP, P.RIGHT_KNEE, P.RIGHT_ANKLE]),
+  [P.RIGHT_ANKLE, P.RIGHT_HEEL],
+  [P.RIGHT_ANKLE, P.RIGHT_FOOT_INDEX],
+  [P.RIGHT_HEEL, P.RIGHT_FOOT_INDEX],
+]
+
+// Joints worth marking on a body overlay (the rest are face and hand detail)
+export const POSE_KEY_JOINTS: readonly number[] = [
+  P.NOSE,
+  P.LEFT_SHOULDER, P.RIGHT_SHOULDER,
+  P.LEFT_ELBOW, P.RIGHT_ELBOW,
+  P.LEFT_WRIST, P.RIGHT_WRIST,
+  P.LEFT_HIP, P.RIGHT_HIP,
+  P.LEFT_KNEE, P.RIGHT_KNEE,
+  P.LEFT_ANKLE, P.RIGHT_ANKLE,
+]
+
+// ---------------------------------------------------------------------------
+// Face mesh
+// ---------------------------------------------------------------------------
+
+export const FACE_MESH_LANDMARK_COUNT = 468
+
+// Points the face filters attach to
+export const FACE_ANCHORS = {
+  NOSE_TIP: 1,          // Tip of nose
+  NOSE_BRIDGE: 168,     // Between eyes (for glasses)
+  FOREHEAD: 10,         // Top of forehead (for hats)
+  LEFT_EAR: 127,        // Left ear
+  RIGHT_EAR: 356,       // Right ear
+  CHIN: 152,            // Bottom of chin
+  LEFT_EYE: 33,         // Left eye center
+  RIGHT_EYE: 263,       // Right eye center
+  MOUTH_CENTER: 13,     // Center of mouth
+} as const
+
+// Outline of the face, clockwise from the top of the forehead
+export const FACE_OVAL: readonly number[] = [
+  10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377,
+  152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109,
+]
+
+export const FACE_OVAL_CONNECTIONS: readonly Connection[] = chain(FACE_OVAL, true)
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import {
+  add,
+  centroid,
+  cross,
+  distance,
+  distance3D,
+  dot,
+  jointAngle,
+  jointAngle3D,
+  length,
+  lerp,
+  midpoint,
+  normalize,
+  scale,
+  sub,
+  vec3,
+} from './vector'
+
+describe('vector arithmetic', () => {
+  it('adds, subtracts and scales component-wise', () => {
+    expect(add(vec3(1, 2, 3), vec3(4, 5, 6))).toEqual({ x: 5, y: 7, z: 9 })
+    expect(sub(vec3(4, 5, 6), vec3(1, 2, 3))).toEqual({ x: 3, y: 3, z: 3 })
+    expect(scale(vec3(1, -2, 3), 2)).toEqual({ x: 2, y: -4, z: 6 })
+  })
+
+  it('computes dot and cross products', () => {
+    expect(dot(vec3(1, 2, 3), vec3(4, 5, 6))).toBe(32)
+    expect(cross(vec3(1, 0, 0), vec3(0, 1, 0))).toEqual({ x: 0, y: 0, z: 1 })
+  })
+
+  it('normalizes to unit length and leaves the zero vector alone', () => {
+    expect(length(normalize(vec3(3, 4, 12)))).toBeCloseTo(1)
+    expect(normalize(vec3())).toEqual({ x: 0, y: 0, z: 0 })
+  })
+
+  it('interpolates and averages points', () => {
+    expect(lerp(vec3(0, 0, 0), vec3(10, 20, 30), 0.25)).toEqual({ x: 2.5, y: 5, z: 7.5 })
+    expect(midpoint(vec3(0, 0, 0), vec3(2, 4, 6))).toEqual({ x: 1, y: 2, z: 3 })
+    expect(centroid([vec3(0, 0, 0), vec3(2, 0, 0), vec3(1, 3, 0)])).toEqual({ x: 1, y: 1, z: 0 })
+    expect(centroid([])).toEqual({ x: 0, y: 0, z: 0 })
+  })
+})
+
+describe('distance', () => {
+  it('measures in the image plane and ignores z', () => {
+    expect(distance(vec3(0, 0, 0), vec3(3, 4, 100))).toBe(5)
+  })
+
+  it('includes z in 3D', () => {
+    expect(distance3D(vec3(0, 0, 0), vec3(2, 3, 6))).toBe(7)
+  })
+})
+
+describe('jointAngle', () => {
+  it('returns the angle at the middle point in degrees', () => {
+    expect(jointAngle({ x: 1, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 1 })).toBeCloseTo(90)
+    expect(jointAngle({ x: -1, y: 0 }, { x: 0, y: 0 }, { x: 1, y: 0 })).toBeCloseTo(180)
+    expect(jointAngle({ x: 1, y: 1 }, { x: 0, y: 0 }, { x: 2, y: 2 })).toBeCloseTo(0)
+  })
+
+  it('stays within 0–180 whichever way round the arms are', () => {
+    const a = { x: 1, y: 0.2 }
+    const b = { x: 0, y: 0 }
+    const c = { x: -0.5, y: -1 }
+    expect(jointAngle(a, b, c)).toBeCloseTo(jointAngle(c, b, a))
+    expect(jointAngle(a, b, c)).toBeLessThanOrEqual(180)
+  })
+
+  it('matches the 3D angle for points in the image plane', () => {
+    const a = vec3(0.2, 0.3, 0)
+    const b = vec3(0.5, 0.5, 0)
+    const c = vec3(0.4, 0.9, 0)
+    expect(jointAngle3D(a, b, c)).toBeCloseTo(jointAngle(a, b, c))
+  })
+
+  it('returns 0 in 3D for a zero-length arm', () => {
+    expect(jointAngle3D(vec3(1, 1, 1), vec3(1, 1, 1), vec3(2, 0, 0))).toBe(0)
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Vector math for landmarks
+ *
+ * Landmarks are plain { x, y, z } objects in normalized image coordinates
+ * (x right, y down, z toward the camera is negative), so these helpers work
+ * on structural types rather than a vector class and accept landmarks,
+ * world landmarks and ad-hoc points alike.
+ *
+ * The 2D variants ignore z: MediaPipe's z is on a different, much noisier
+ * scale than x/y, so image-plane measurements are usually what classifiers
+ * want.
+ */
+
+export interface Vec2 {
+  x: number
+  y: number
+}
+
+export interface Vec3 extends Vec2 {
+  z: number
+}
+
+export function vec2(x = 0, y = 0): Vec2 {
+  return { x, y }
+}
+
+export function vec3(x = 0, y = 0, z = 0): Vec3 {
+  return { x, y, z }
+}
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z }
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }
+}
+
+export function scale(v: Vec3, factor: number): Vec3 {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor }
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  }
+}
+
+export function length(v: Vec3): number {
+  return Math.hypot(v.x, v.y, v.z)
+}
+
+// Unit vector in the same direction; the zero vector stays zero
+export function normalize(v: Vec3): Vec3 {
+  const len = length(v)
+  return len === 0 ? { x: 0, y: 0, z: 0 } : scale(v, 1 / len)
+}
+
+export function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t }
+}
+
+export function midpoint(a: Vec3, b: Vec3): Vec3 {
+  return lerp(a, b, 0.5)
+}
+
+// Mean of a set of points; the origin for an empty set
+export function centroid(points: readonly Vec3[]): Vec3 {
+  if (points.length === 0) return { x: 0, y: 0, z: 0 }
+  const sum = points.reduce((acc, p) => add(acc, p), { x: 0, y: 0, z: 0 })
+  return scale(sum, 1 / points.length)
+}
+
+// Image-plane distance (ignores z)
+export function distance(a: Vec2, b: Vec2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+export function distance3D(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+}
+
+// Angle at vertex b between b→a and b→c in the image plane, 0–180 degrees
+export function jointAngle(a: Vec2, b: Vec2, c: Vec2): number {
+  const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x)
+  let angle = Math.abs((radians * 180) / Math.PI)
+  if (angle > 180) angle = 360 - angle
+  return angle
+}
+
+// Angle at vertex b in 3D, 0–180 degrees; 0 when either arm has no length
+export function jointAngle3D(a: Vec3, b: Vec3, c: Vec3): number {
+  const ba = sub(a, b)
+  const bc = sub(c, b)
+  const lengths = length(ba) * length(bc)
+  if (lengths === 0) return 0
+  const cos = Math.min(1, Math.max(-1, dot(ba, bc) / lengths))
+  return (Math.acos(cos) * 180) / Math.PI
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { allVisible, isInFrame, isVisible, visibleFraction } from './visibility'
+
+const point = (visibility?: number) => ({ x: 0.5, y: 0.5, visibility })
+
+describe('isVisible', () => {
+  it('compares against the threshold', () => {
+    expect(isVisible(point(0.9))).toBe(true)
+    expect(isVisible(point(0.5))).toBe(false)
+    expect(isVisible(point(0.3), 0.2)).toBe(true)
+  })
+
+  it('treats unscored and missing landmarks as hidden', () => {
+    expect(isVisible(point())).toBe(false)
+    expect(isVisible(undefined)).toBe(false)
+  })
+})
+
+describe('allVisible and visibleFraction', () => {
+  const landmarks = [point(0.9), point(0.1), point(0.8), point()]
+
+  it('checks only the requested indices', () => {
+    expect(allVisible(landmarks, [0, 2])).toBe(true)
+    expect(allVisible(landmarks, [0, 1])).toBe(false)
+    expect(allVisible(landmarks, [0, 9])).toBe(false)
+  })
+
+  it('reports the visible share', () => {
+    expect(visibleFraction(landmarks)).toBe(0.5)
+    expect(visibleFraction(landmarks, [0, 2])).toBe(1)
+    expect(visibleFraction([])).toBe(0)
+  })
+})
+
+describe('isInFrame', () => {
+  it('accepts points inside the image', () => {
+    expect(isInFrame({ x: 0, y: 1 })).toBe(true)
+    expect(isInFrame({ x: 0.5, y: 0.5 }, 0.1)).toBe(true)
+  })
+
+  it('rejects extrapolated and near-edge points', () => {
+    expect(isInFrame({ x: -0.01, y: 0.5 })).toBe(false)
+    expect(isInFrame({ x: 0.5, y: 1.2 })).toBe(false)
+    expect(isInFrame({ x: 0.05, y: 0.5 }, 0.1)).toBe(false)
+    expect(isInFrame(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Landmark visibility
+ *
+ * PoseLandmarker scores each point's visibility (likely unoccluded and in
+ * frame); HandLandmarker and face mesh output leave it unset. Points can
+ * also be extrapolated outside the image, so "in frame" is checked
+ * separately from the model's score.
+ */
+
+import type { Vec2 } from './vector'
+
+export const DEFAULT_VISIBILITY_THRESHOLD = 0.5
+
+interface ScoredLandmark extends Vec2 {
+  visibility?: number
+}
+
+// Unscored landmarks count as not visible
+export function isVisible(landmark: ScoredLandmark | undefined, threshold = DEFAULT_VISIBILITY_THRESHOLD): boolean {
+  return (landmark?.visibility ?? 0) > threshold
+}
+
+export function allVisible(
+  landmarks: readonly ScoredLandmark[],
+  indices: readonly number[],
+  threshold = DEFAULT_VISIBILITY_THRESHOLD
+): boolean {
+  return indices.every((index) => isVisible(landmarks[index], threshold))
+}
+
+// Share of the given points (all of them by default) that are visible, 0–1
+export function visibleFraction(
+  landmarks: readonly ScoredLandmark[],
+  indices?: readonly number[],
+  threshold = DEFAULT_VISIBILITY_THRESHOLD
+): number {
+  const points = indices ? indices.map((index) => landmarks[index]) : landmarks
+  if (points.length === 0) return 0
+  return points.filter((landmark) => isVisible(landmark, threshold)).length / points.length
+}
+
+// Inside the normalized image, shrunk by margin on every side
+export function isInFrame(landmark: Vec2 | undefined, margin = 0): boolean {
+  if (!landmark) return false
+  return (
+    landmark.x >= margin && landmark.x <= 1 - margin &&
+    landmark.y >= margin && landmark.y <= 1 - margin
+  )
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import { defineUrlState, pagesRedirectTarget, readUrlState, urlParam, writeUrlState } from './urlState'
+
+const FILTERS = ['glasses', 'crown', 'mustache'] as const
+const COLORS = ['#06b6d4', '#8b5cf6']
+
+const schema = defineUrlState({
+  filters: { key: 'filters', codec: urlParam.listOf(FILTERS), fallback: ['glasses'] as string[] },
+  content: { key: 'content', codec: urlParam.oneOf(['cube', 'portal'] as const), fallback: 'cube' as 'cube' | 'portal' },
+  draw: { key: 'draw', codec: urlParam.boolean, fallback: true },
+  color: { key: 'color', codec: urlParam.color(COLORS), fallback: COLORS[0] },
+  note: { key: 'note', codec: urlParam.text(10), fallback: 'Hello!' },
+})
+
+const read = (query: string) => readUrlState(schema, new URLSearchParams(query))
+
+describe('readUrlState', () => {
+  it('falls back for missing parameters', () => {
+    expect(read('')).toEqual({ filters: ['glasses'], content: 'cube', draw: true, color: '#06b6d4', note: 'Hello!' })
+  })
+
+  it('parses every codec', () => {
+    expect(read('filters=crown,mustache&content=portal&draw=0&color=8B5CF6&note=Hi%20there')).toEqual({
+      filters: ['crown', 'mustache'],
+      content: 'portal',
+      draw: false,
+      color: '#8b5cf6',
+      note: 'Hi there',
+    })
+  })
+
+  it('falls back for invalid values instead of failing', () => {
+    const state = read('content=sphere&draw=maybe&color=123456')
+    expect(state.content).toBe('cube')
+    expect(state.draw).toBe(true)
+    expect(state.color).toBe('#06b6d4') // Valid hex, but not in the palette
+  })
+
+  it('drops unknown and repeated list items, and reads an empty list as none', () => {
+    expect(read('filters=crown,bogus,crown').filters).toEqual(['crown'])
+    expect(read('filters=').filters).toEqual([])
+  })
+
+  it('trims long text', () => {
+    expect(read('note=abcdefghijklmnop').note).toBe('abcdefghij')
+  })
+
+  it('reads whole numbers in range', () => {
+    const pages = defineUrlState({ page: { key: 'page', codec: urlParam.integer(1, 50), fallback: 1 } })
+    const page = (query: string) => readUrlState(pages, new URLSearchParams(query)).page
+    expect(page('page=12')).toBe(12)
+    expect(page('page=0')).toBe(1)
+    expect(page('page=51')).toBe(1)
+    expect(page('page=2.5')).toBe(1)
+    expect(page('page=two')).toBe(1)
+  })
+})
+
+describe('writeUrlState', () => {
+  it('writes changed fields and keeps unrelated parameters', () => {
+    const params = writeUrlState(schema, { content: 'portal', filters: ['crown', 'glasses'] }, new URLSearchParams('debug=1'))
+    expect(params.get('debug')).toBe('1')
+    expect(params.get('content')).toBe('portal')
+    expect(params.get('filters')).toBe('crown,glasses')
+  })
+
+  it('removes fields set back to their fallback', () => {
+    const params = writeUrlState(schema, { content: 'cube', draw: true }, new URLSearchParams('content=portal&draw=0'))
+    expect(params.toString()).toBe('')
+  })
+
+  it('round-trips through read', () => {
+    const state = { filters: [], content: 'portal' as const, draw: false, color: '#8b5cf6', note: 'a&b=c' }
+    expect(readUrlState(schema, writeUrlState(schema, state, new URLSearchParams()))).toEqual(state)
+  })
+})
+
+describe('saved defaults', () => {
+  const defaults = { color: '#8b5cf6', draw: false }
+
+  it('fill in missing parameters, but the URL wins', () => {
+    expect(readUrlState(schema, new URLSearchParams(''), defaults)).toMatchObject({ color: '#8b5cf6', draw: false })
+    expect(readUrlState(schema, new URLSearchParams('draw=1'), defaults).draw).toBe(true)
+  })
+
+  it('keep values that differ from either the fallback or the default in the URL', () => {
+    // Back to the fallback, which the saved default would otherwise override
+    expect(writeUrlState(schema, { color: '#06b6d4' }, new URLSearchParams(), defaults).get('color')).toBe('06b6d4')
+    // Matches the sender's default, which the receiver may not have
+    expect(writeUrlState(schema, { draw: false }, new URLSearchParams(), defaults).get('draw')).toBe('0')
+    // Matches both
+    expect(writeUrlState(schema, { content: 'cube' }, new URLSearchParams('content=portal'), defaults).has('content')).toBe(false)
+  })
+})
+
+describe('defineUrlState', () => {
+  it('rejects keys the GitHub Pages redirect uses', () => {
+    expect(() => defineUrlState({ page: { key: 'p', codec: urlParam.text(), fallback: '' } })).toThrow(/reserved/)
+  })
+
+  it('rejects duplicate keys', () => {
+    expect(() => defineUrlState({
+      a: { key: 'x', codec: urlParam.boolean, fallback: false },
+      b: { key: 'x', codec: urlParam.boolean, fallback: false },
+    })).toThrow(/twice/)
+  })
+})
+
+describe('pagesRedirectTarget', () => {
+  // What public/404.html does to a deep link before bouncing to the app
+  function redirectFrom(path: string, query: string) {
+    return '?p=' + encodeURIComponent(path.replace('/ar-lab/', '')) + (query ? '&q=' + encodeURIComponent(query.slice(1)) : '')
+  }
+
+  it('ignores URLs that are not redirects', () => {
+    expect(pagesRedirectTarget('/ar-lab/', '?filters=crown', '')).toBeNull()
+  })
+
+  it('restores the path, query and hash of a deep link', () => {
+    const search = redirectFrom('/ar-lab/02-face-tracking', '?filters=crown,mustache&note=a%26b')
+    const target = pagesRedirectTarget('/ar-lab/', search, '#info')
+    expect(target).toBe('/ar-lab/02-face-tracking?filters=crown%2Cmustache&note=a%26b#info')
+
+    const url = new URL(target!, 'https://example.com')
+    expect(readUrlState(schema, url.searchParams).filters).toEqual(['crown', 'mustache'])
+    expect(url.searchParams.get('note')).toBe('a&b')
+  })
+
+  it('restores a path without a query', () => {
+    expect(pagesRedirectTarget('/ar-lab/', redirectFrom('/ar-lab/06-hand-tracking', ''), '')).toBe('/ar-lab/06-hand-tracking')
+  })
+})
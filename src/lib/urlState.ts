@@ -0,0 +1,162 @@
+/**
+ * Experiment state in the URL
+ *
+ * Each experiment declares the options worth sharing (selected filter,
+ * colour, toggles...) as a schema of query parameters with a codec and a
+ * fallback. Reading never fails: missing or invalid values fall back, and
+ * values equal to their fallback are left out of the URL, so a page with
+ * default settings keeps a clean address.
+ *
+ * A page can also pass defaults (the user's saved settings) that take the
+ * fallback's place when the URL has no value. A value is only left out when
+ * it matches both, so a shared link never depends on the sender's defaults
+ * once they've changed something.
+ *
+ * GitHub Pages serves public/404.html for deep links, which bounces to the
+ * app as ?p=<path>&q=<query>; restorePagesRedirect() turns that back into the
+ * original URL before the router starts. p and q are therefore reserved.
+ */
+
+export interface ParamCodec<T> {
+  parse(raw: string): T | undefined // undefined = invalid, use the fallback
+  serialize(value: T): string
+}
+
+export interface UrlField<T> {
+  key: string // Query parameter name
+  codec: ParamCodec<T>
+  fallback: T
+}
+
+export type UrlSchema<S> = { [K in keyof S]: UrlField<S[K]> }
+
+// Query parameters used by the GitHub Pages redirect
+const REDIRECT_PATH = 'p'
+const REDIRECT_QUERY = 'q'
+
+export const urlParam = {
+  // One of a fixed set of ids
+  oneOf<T extends string>(values: readonly T[]): ParamCodec<T> {
+    return {
+      parse: (raw) => values.find((value) => value === raw),
+      serialize: (value) => value,
+    }
+  },
+
+  // Comma-separated ids; unknown ones are dropped, an empty value means none
+  listOf<T extends string>(values: readonly T[]): ParamCodec<T[]> {
+    return {
+      parse: (raw) => [...new Set(raw.split(',').filter((item): item is T => values.includes(item as T)))],
+      serialize: (list) => list.join(','),
+    }
+  },
+
+  boolean: {
+    parse: (raw) => (raw === '1' || raw === 'true' ? true : raw === '0' || raw === 'false' ? false : undefined),
+    serialize: (value) => (value ? '1' : '0'),
+  } satisfies ParamCodec<boolean>,
+
+  // #rrggbb colour, written without the # so it needs no escaping
+  color(palette?: readonly string[]): ParamCodec<string> {
+    return {
+      parse: (raw) => {
+        const color = `#${raw.replace(/^#/, '').toLowerCase()}`
+        if (!/^#[0-9a-f]{6}$/.test(color)) return undefined
+        return palette ? palette.find((entry) => entry.toLowerCase() === color) : color
+      },
+      serialize: (value) => value.replace(/^#/, '').toLowerCase(),
+    }
+  },
+
+  // Whole number within [min, max]
+  integer(min: number, max = Number.MAX_SAFE_INTEGER): ParamCodec<number> {
+    return {
+      parse: (raw) => {
+        if (!/^-?\d+$/.test(raw)) return undefined
+        const value = Number(raw)
+        return value >= min && value <= max ? value : undefined
+      },
+      serialize: (value) => String(Math.round(value)),
+    }
+  },
+
+  // Free text, trimmed to a sane length
+  text(maxLength = 100): ParamCodec<string> {
+    return {
+      parse: (raw) => raw.slice(0, maxLength),
+      serialize: (value) => value.slice(0, maxLength),
+    }
+  },
+}
+
+// Check a schema once at module load: keys must be unique and not reserved
+export function defineUrlState<S>(schema: UrlSchema<S>): UrlSchema<S> {
+  const keys = Object.values<UrlField<unknown>>(schema).map((field) => field.key)
+  for (const key of keys) {
+    if (key === REDIRECT_PATH || key === REDIRECT_QUERY) {
+      throw new Error(`URL state key "${key}" is reserved for the GitHub Pages redirect`)
+    }
+    if (keys.indexOf(key) !== keys.lastIndexOf(key)) {
+      throw new Error(`URL state key "${key}" is used twice`)
+    }
+  }
+  return schema
+}
+
+export function readUrlState<S>(schema: UrlSchema<S>, params: URLSearchParams, defaults: Partial<S> = {}): S {
+  const state = {} as S
+  for (const name in schema) {
+    const { key, codec, fallback } = schema[name]
+    const raw = params.get(key)
+    state[name] = (raw === null ? undefined : codec.parse(raw)) ?? defaults[name] ?? fallback
+  }
+  return state
+}
+
+// New params with the changed fields written in; everything else is kept
+export function writeUrlState<S>(
+  schema: UrlSchema<S>,
+  changes: Partial<S>,
+  params: URLSearchParams,
+  defaults: Partial<S> = {}
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  for (const name in changes) {
+    const field = schema[name]
+    const value = changes[name] as S[typeof name]
+    const serialized = field.codec.serialize(value)
+    const fallback = field.codec.serialize(field.fallback)
+    const preferred = field.codec.serialize(defaults[name] ?? field.fallback)
+    if (serialized === fallback && serialized === preferred) {
+      next.delete(field.key)
+    } else {
+      next.set(field.key, serialized)
+    }
+  }
+  return next
+}
+
+// The URL public/404.html redirected from, or null if this isn't a redirect.
+// base is the app's base path (import.meta.env.BASE_URL).
+export function pagesRedirectTarget(base: string, search: string, hash: string): string | null {
+  const params = new URLSearchParams(search)
+  const path = params.get(REDIRECT_PATH)
+  if (path === null) return null
+
+  const query = new URLSearchParams(params.get(REDIRECT_QUERY) ?? '')
+  // Anything else on the redirect URL itself is kept too
+  params.delete(REDIRECT_PATH)
+  params.delete(REDIRECT_QUERY)
+  params.forEach((value, key) => {
+    if (!query.has(key)) query.append(key, value)
+  })
+
+  const queryString = query.toString()
+  return base + path.replace(/^\/+/, '') + (queryString ? `?${queryString}` : '') + hash
+}
+
+// Put the redirected URL back in place before the router reads it
+export function restorePagesRedirect(base: string = import.meta.env.BASE_URL) {
+  const target = pagesRedirectTarget(base, window.location.search, window.location.hash)
+  if (target) window.history.replaceState(null, '', target)
+}
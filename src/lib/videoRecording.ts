@@ -0,0 +1,209 @@
+/**
+ * Video recording of composited experiment output
+ *
+ * Re-composites the capture container into a canvas every frame (see
+ * composite.ts) and records that canvas's capture stream with MediaRecorder,
+ * optionally with a microphone track. Recording stops on its own at the
+ * maximum duration.
+ *
+ * Browsers differ in what they can encode: Chrome and Firefox record WebM,
+ * Safari records MP4, and recent Chrome does both. Only supported containers
+ * are offered.
+ */
+
+import { createCompositor } from './composite'
+import type { Compositor } from './composite'
+import { captureFilename } from './fileSharing'
+import { DEFAULT_WATERMARK } from './photoCapture'
+
+export type VideoContainer = 'webm' | 'mp4'
+
+export interface VideoOptions {
+  container: VideoContainer
+  fps: number
+  maxDurationMs: number
+  microphone: boolean
+  watermark: string | null
+}
+
+export const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+  container: 'webm',
+  fps: 30,
+  maxDurationMs: 30_000,
+  microphone: false,
+  watermark: DEFAULT_WATERMARK,
+}
+
+export const MAX_DURATION_CHOICES = [10_000, 30_000, 60_000, 120_000]
+
+export const VIDEO_CONTAINERS: Record<VideoContainer, { label: string; extension: string }> = {
+  webm: { label: 'WebM', extension: 'webm' },
+  mp4: { label: 'MP4', extension: 'mp4' },
+}
+
+// Most to least preferred; the first one the browser supports is used
+const MIME_TYPES: Record<VideoContainer, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+}
+
+const VIDEO_BITS_PER_SECOND = 8_000_000
+const CHUNK_MS = 1000 // Hand over data every second so a crash loses little
+
+export interface VideoClip {
+  blob: Blob
+  filename: string
+  durationMs: number
+  width: number
+  height: number
+}
+
+interface RecorderCallbacks {
+  // Re-render WebGL canvases right before each composite
+  beforeDraw?: () => void
+  // Recording hit the maximum duration and stopped by itself
+  onAutoStop?: (clip: VideoClip) => void
+}
+
+export function pickMimeType(container: VideoContainer): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return MIME_TYPES[container].find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+export function supportedContainers(): VideoContainer[] {
+  return (Object.keys(MIME_TYPES) as VideoContainer[]).filter((container) => pickMimeType(container) !== null)
+}
+
+// Microphone track, or null if it was denied or there is none
+async function openMicrophone(): Promise<MediaStream | null> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: true })
+  } catch (err) {
+    console.warn('Recording without audio:', err)
+    return null
+  }
+}
+
+export class CompositeVideoRecorder {
+  readonly hasAudio: boolean
+  private compositor: Compositor
+  private recorder: MediaRecorder
+  private microphone: MediaStream | null
+  private chunks: Blob[] = []
+  private startedAt = performance.now()
+  private frame: number | null = null
+  private lastDraw = 0
+  private timer: number
+  private stopping: Promise<VideoClip> | null = null
+  private filename: string
+
+  private constructor(
+    compositor: Compositor,
+    microphone: MediaStream | null,
+    mimeType: string,
+    name: string,
+    options: VideoOptions,
+    { beforeDraw, onAutoStop }: RecorderCallbacks
+  ) {
+    this.compositor = compositor
+    this.microphone = microphone
+    this.hasAudio = microphone !== null
+    this.filename = captureFilename(name, 'clip', VIDEO_CONTAINERS[options.container].extension)
+
+    const stream = compositor.canvas.captureStream(options.fps)
+    microphone?.getAudioTracks().forEach((track) => stream.addTrack(track))
+
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND })
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data)
+    }
+
+    // Composite at most at the recording frame rate
+    const frameMs = 1000 / options.fps
+    const loop = (now: number) => {
+      if (now - this.lastDraw >= frameMs - 1) {
+        this.lastDraw = now
+        compositor.draw(beforeDraw, options.watermark)
+      }
+      this.frame = requestAnimationFrame(loop)
+    }
+    compositor.draw(beforeDraw, options.watermark)
+    this.frame = requestAnimationFrame(loop)
+
+    this.recorder.start(CHUNK_MS)
+    this.timer = window.setTimeout(() => {
+      this.stop().then((clip) => onAutoStop?.(clip), () => {})
+    }, options.maxDurationMs)
+  }
+
+  static async start(
+    container: HTMLElement,
+    name: string,
+    options: VideoOptions,
+    callbacks: RecorderCallbacks = {}
+  ): Promise<CompositeVideoRecorder> {
+    const mimeType = pickMimeType(options.container)
+    if (!mimeType) {
+      throw new Error(`This browser can't record ${VIDEO_CONTAINERS[options.container].label} video`)
+    }
+
+    const compositor = createCompositor(container)
+    const microphone = options.microphone ? await openMicrophone() : null
+    return new CompositeVideoRecorder(compositor, microphone, mimeType, name, options, callbacks)
+  }
+
+  get elapsedMs(): number {
+    return performance.now() - this.startedAt
+  }
+
+  // Finish the clip; safe to call more than once
+  stop(): Promise<VideoClip> {
+    if (this.stopping) return this.stopping
+
+    clearTimeout(this.timer)
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame)
+      this.frame = null
+    }
+    const durationMs = this.elapsedMs
+
+    this.stopping = new Promise((resolve, reject) => {
+      const finish = () => {
+        this.release()
+        if (this.chunks.length === 0) {
+          reject(new Error('Nothing was recorded'))
+          return
+        }
+        const { width, height } = this.compositor.canvas
+        resolve({
+          blob: new Blob(this.chunks, { type: this.recorder.mimeType }),
+          filename: this.filename,
+          durationMs,
+          width,
+          height,
+        })
+      }
+
+      // The recorder may already have stopped itself (e.g. after an encoder error)
+      if (this.recorder.state === 'inactive') {
+        finish()
+      } else {
+        this.recorder.onstop = finish
+        this.recorder.stop()
+      }
+    })
+    return this.stopping
+  }
+
+  private release() {
+    this.recorder.stream.getTracks().forEach((track) => track.stop())
+    this.microphone?.getTracks().forEach((track) => track.stop())
+    this.microphone = null
+  }
+}
+
+// m:ss for the recording indicator
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
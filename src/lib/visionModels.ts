@@ -0,0 +1,63 @@
+/**
+ * Landmarker model options
+ *
+ * The variants, delegates and limits the model options panel offers per
+ * task, and a short label for a configuration. Kept apart from
+ * visionTasks.ts, which imports MediaPipe itself, so pages can use these
+ * without pulling MediaPipe into their bundle (it only runs in the worker).
+ *
+ * MediaPipe only publishes one hand landmarker; the pose landmarker comes
+ * in lite, full and heavy.
+ */
+
+import type { MediaPipeModel } from './mediapipeAssets'
+import type { VisionDelegate, VisionTaskConfig, VisionTaskName, VisionTaskSettings } from './visionTasks'
+
+interface ModelOption {
+  value: MediaPipeModel
+  label: string
+}
+
+// Fastest first
+export const VISION_MODELS = {
+  hand: [{ value: 'hand_landmarker', label: 'Full' }],
+  pose: [
+    { value: 'pose_landmarker_lite', label: 'Lite' },
+    { value: 'pose_landmarker_full', label: 'Full' },
+    { value: 'pose_landmarker_heavy', label: 'Heavy' },
+  ],
+} as const satisfies Record<VisionTaskName, readonly ModelOption[]>
+
+export const VISION_DELEGATES = [
+  { value: 'GPU', label: 'GPU' },
+  { value: 'CPU', label: 'CPU' },
+] as const satisfies readonly { value: VisionDelegate; label: string }[]
+
+function modelLabel(model: MediaPipeModel): string {
+  const options: readonly ModelOption[] = [...VISION_MODELS.hand, ...VISION_MODELS.pose]
+  return options.find((option) => option.value === model)?.label ?? model
+}
+
+function trackedLabel(task: VisionTaskName, config: VisionTaskConfig<VisionTaskName>): string {
+  if (task === 'hand') {
+    const { numHands = 1 } = config.settings as VisionTaskSettings<'hand'>
+    return `${numHands} hand${numHands === 1 ? '' : 's'}`
+  }
+  const { numPoses = 1 } = config.settings as VisionTaskSettings<'pose'>
+  return `${numPoses} pose${numPoses === 1 ? '' : 's'}`
+}
+
+// Detection / presence / tracking confidence, in that order
+function thresholdsLabel(task: VisionTaskName, config: VisionTaskConfig<VisionTaskName>): string {
+  const settings = config.settings as Partial<VisionTaskSettings<'hand'> & VisionTaskSettings<'pose'>>
+  const thresholds = task === 'hand'
+    ? [settings.minHandDetectionConfidence, settings.minHandPresenceConfidence, settings.minTrackingConfidence]
+    : [settings.minPoseDetectionConfidence, settings.minPosePresenceConfidence, settings.minTrackingConfidence]
+  return thresholds.map((value) => (value ?? 0.5).toFixed(2)).join('/')
+}
+
+// e.g. "Lite · GPU · 3 poses · 0.50/0.50/0.50"; also identifies the config
+export function describeVisionConfig<T extends VisionTaskName>(task: T, config: VisionTaskConfig<T>): string {
+  const generic = config as VisionTaskConfig<VisionTaskName>
+  return [modelLabel(config.model), config.delegate, trackedLabel(task, generic), thresholdsLabel(task, generic)].join(' · ')
+}
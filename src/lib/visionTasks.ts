@@ -0,0 +1,77 @@
+/**
+ * MediaPipe vision tasks for the inference worker
+ *
+ * Each entry says how to create a task and which result fields to send back
+ * to the page. Results cross a worker boundary, so only plain data survives
+ * (no masks or methods). Supporting a new task means adding an entry here.
+ *
+ * Also holds the message protocol between the page and the worker.
+ */
+
+import { HandLandmarker, PoseLandmarker } from '@mediapipe/tasks-vision'
+import type { HandLandmarkerOptions, PoseLandmarkerOptions } from '@mediapipe/tasks-vision'
+import { snapshotResult } from './landmarkSession'
+import type { HandFrameResult, PoseFrameResult } from './landmarkSession'
+import type { MediaPipeModel } from './mediapipeAssets'
+
+type WasmFileset = Parameters<typeof HandLandmarker.createFromOptions>[0]
+
+export type VisionDelegate = 'GPU' | 'CPU'
+
+interface VisionTaskRunner<R> {
+  detectForVideo(frame: VideoFrame | ImageBitmap, timestamp: number): R
+  close(): void
+}
+
+interface VisionTaskDefinition<O, R> {
+  create: (fileset: WasmFileset, options: O) => Promise<VisionTaskRunner<R>>
+  snapshot: (result: R) => R // Plain-data copy that can be posted
+}
+
+export const VISION_TASKS = {
+  hand: {
+    create: (fileset, options) => HandLandmarker.createFromOptions(fileset, options),
+    snapshot: (result) => snapshotResult('hand', result),
+  } satisfies VisionTaskDefinition<HandLandmarkerOptions, HandFrameResult>,
+  pose: {
+    create: (fileset, options) => PoseLandmarker.createFromOptions(fileset, options),
+    snapshot: (result) => snapshotResult('pose', result),
+  } satisfies VisionTaskDefinition<PoseLandmarkerOptions, PoseFrameResult>,
+}
+
+export type VisionTaskName = keyof typeof VISION_TASKS
+
+// The worker only knows which task it runs at runtime
+export function getVisionTask(task: VisionTaskName): VisionTaskDefinition<object, unknown> {
+  return VISION_TASKS[task] as unknown as VisionTaskDefinition<object, unknown>
+}
+
+type TaskDefinition<T extends VisionTaskName> = (typeof VISION_TASKS)[T]
+
+// Task options, minus what the worker fills in itself (model, delegate, canvas, mode)
+export type VisionTaskSettings<T extends VisionTaskName> = Omit<
+  Parameters<TaskDefinition<T>['create']>[1],
+  'baseOptions' | 'canvas' | 'runningMode'
+>
+
+export type VisionTaskResult<T extends VisionTaskName> = Awaited<
+  ReturnType<TaskDefinition<T>['create']>
+> extends VisionTaskRunner<infer R> ? R : never
+
+export interface VisionTaskConfig<T extends VisionTaskName> {
+  model: MediaPipeModel
+  delegate: VisionDelegate // Preferred; the worker falls back to CPU if GPU fails
+  settings: VisionTaskSettings<T>
+}
+
+// Page -> worker
+export type VisionWorkerRequest =
+  | { type: 'init'; task: VisionTaskName; config: VisionTaskConfig<VisionTaskName> }
+  | { type: 'detect'; frame: VideoFrame | ImageBitmap; timestamp: number }
+
+// Worker -> page
+export type VisionWorkerResponse =
+  | { type: 'loaded' }
+  | { type: 'ready'; delegate: VisionDelegate }
+  | { type: 'result'; result: unknown; inferenceMs: number }
+  | { type: 'error'; message: string; phase: 'init' | 'detect' }
@@ -0,0 +1,154 @@
+/**
+ * Vision task worker client
+ *
+ * Page side of the inference worker. Frames are captured as VideoFrame
+ * (zero-copy) or ImageBitmap and transferred, and at most one frame is in
+ * flight: while the worker is busy new frames are skipped rather than
+ * queued, so results never fall further behind the input.
+ *
+ * Results arrive asynchronously; the render loop picks up the latest one
+ * with takeResult().
+ */
+
+import type {
+  VisionDelegate,
+  VisionTaskConfig,
+  VisionTaskName,
+  VisionTaskResult,
+  VisionWorkerRequest,
+  VisionWorkerResponse,
+} from './visionTasks'
+
+export interface VisionDetection<T extends VisionTaskName> {
+  result: VisionTaskResult<T>
+  inferenceMs: number // Time detectForVideo took inside the worker
+}
+
+interface VisionWorkerOptions {
+  signal?: AbortSignal // Aborting during init terminates the worker
+  onLoaded?: () => void // Wasm and model are loaded; the task is being created
+  onError?: (error: Error) => void // A detect call failed or the worker crashed
+}
+
+// Zero-copy where WebCodecs is available; ImageBitmap everywhere else
+async function captureFrame(source: HTMLVideoElement | HTMLImageElement): Promise<VideoFrame | ImageBitmap> {
+  if (typeof VideoFrame !== 'undefined' && source instanceof HTMLVideoElement) {
+    return new VideoFrame(source)
+  }
+  return createImageBitmap(source)
+}
+
+export class VisionTaskWorker<T extends VisionTaskName> {
+  readonly delegate: VisionDelegate // The delegate actually in use
+  private worker: Worker
+  private onError?: (error: Error) => void
+  private busy = false
+  private closed = false
+  private latest: VisionDetection<T> | null = null
+
+  private constructor(worker: Worker, delegate: VisionDelegate, onError?: (error: Error) => void) {
+    this.worker = worker
+    this.delegate = delegate
+    this.onError = onError
+
+    worker.onmessage = (event: MessageEvent<VisionWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'result') {
+        this.busy = false
+        this.latest = { result: message.result as VisionTaskResult<T>, inferenceMs: message.inferenceMs }
+      } else if (message.type === 'error') {
+        this.busy = false
+        this.onError?.(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      // Nothing more will come back from a crashed worker; the page rebuilds it
+      this.close()
+      this.onError?.(new Error(event.message || 'Vision worker crashed'))
+    }
+  }
+
+  // Start a worker and create the task in it; resolves once it can detect
+  static create<T extends VisionTaskName>(
+    task: T,
+    config: VisionTaskConfig<T>,
+    { signal, onLoaded, onError }: VisionWorkerOptions = {}
+  ): Promise<VisionTaskWorker<T>> {
+    const worker = new Worker(new URL('../workers/visionTask.worker.ts', import.meta.url), { type: 'module' })
+
+    return new Promise((resolve, reject) => {
+      const abort = () => fail(new DOMException('Aborted', 'AbortError'))
+      const fail = (error: unknown) => {
+        signal?.removeEventListener('abort', abort)
+        worker.terminate()
+        reject(error)
+      }
+
+      if (signal?.aborted) {
+        abort()
+        return
+      }
+      // Only until the task is ready: aborting later must not kill a worker in use
+      signal?.addEventListener('abort', abort, { once: true })
+
+      worker.onmessage = (event: MessageEvent<VisionWorkerResponse>) => {
+        const message = event.data
+        if (message.type === 'loaded') {
+          onLoaded?.()
+        } else if (message.type === 'ready') {
+          signal?.removeEventListener('abort', abort)
+          resolve(new VisionTaskWorker<T>(worker, message.delegate, onError))
+        } else if (message.type === 'error') {
+          fail(new Error(message.message))
+        }
+      }
+      worker.onerror = (event) => {
+        fail(new Error(event.message || 'Vision worker failed to start'))
+      }
+
+      const request: VisionWorkerRequest = {
+        type: 'init',
+        task,
+        config: config as VisionTaskConfig<VisionTaskName>,
+      }
+      worker.postMessage(request)
+    })
+  }
+
+  // Send a frame for detection. Returns false (and skips it) while busy or closed.
+  detect(source: HTMLVideoElement | HTMLImageElement, timestamp: number): boolean {
+    if (this.busy || this.closed) return false
+    this.busy = true
+
+    captureFrame(source).then(
+      (frame) => {
+        if (this.closed) {
+          frame.close()
+          return
+        }
+        const request: VisionWorkerRequest = { type: 'detect', frame, timestamp }
+        this.worker.postMessage(request, [frame])
+      },
+      (err) => {
+        // No decodable frame yet (e.g. the video is still loading); try the next one
+        console.warn('Failed to capture frame for detection:', err)
+        this.busy = false
+      }
+    )
+    return true
+  }
+
+  // The newest result since the last call, or null if none has arrived
+  takeResult(): VisionDetection<T> | null {
+    const latest = this.latest
+    this.latest = null
+    return latest
+  }
+
+  close() {
+    this.closed = true
+    this.worker.terminate()
+    this.busy = false
+    this.latest = null
+  }
+}
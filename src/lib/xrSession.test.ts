@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { exitSession, watchSessionEnd } from './xrSession'
+import type { SessionEndReason } from './xrSession'
+
+// Just enough of an XRSession: events, a visibility state and end()
+class FakeSession extends EventTarget {
+  visibilityState: XRVisibilityState = 'visible'
+
+  setVisibility(state: XRVisibilityState) {
+    this.visibilityState = state
+    this.dispatchEvent(new Event('visibilitychange'))
+  }
+
+  async end() {
+    this.dispatchEvent(new Event('end'))
+  }
+}
+
+function watch(session: FakeSession) {
+  const reasons: SessionEndReason[] = []
+  watchSessionEnd(session as unknown as XRSession, (reason) => reasons.push(reason))
+  return reasons
+}
+
+describe('watchSessionEnd', () => {
+  const page = { visibilityState: 'visible' as DocumentVisibilityState }
+
+  beforeEach(() => {
+    page.visibilityState = 'visible'
+    vi.stubGlobal('document', page)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('treats a clean end while visible as the user leaving', async () => {
+    const session = new FakeSession()
+    const reasons = watch(session)
+    await session.end()
+    expect(reasons).toEqual(['exited'])
+  })
+
+  it('reports a session hidden before it ended as interrupted', async () => {
+    const session = new FakeSession()
+    const reasons = watch(session)
+    session.setVisibility('hidden')
+    await session.end()
+    expect(reasons).toEqual(['interrupted'])
+  })
+
+  it('forgets a hide the session came back from', async () => {
+    const session = new FakeSession()
+    const reasons = watch(session)
+    session.setVisibility('hidden')
+    session.setVisibility('visible-blurred')
+    await session.end()
+    expect(reasons).toEqual(['exited'])
+  })
+
+  it('reports an end while the page is in the background as interrupted', async () => {
+    const session = new FakeSession()
+    const reasons = watch(session)
+    page.visibilityState = 'hidden'
+    await session.end()
+    expect(reasons).toEqual(['interrupted'])
+  })
+
+  it('always treats the page exit button as the user leaving', () => {
+    const session = new FakeSession()
+    const reasons = watch(session)
+    session.setVisibility('hidden')
+    exitSession(session as unknown as XRSession)
+    expect(reasons).toEqual(['exited'])
+  })
+
+  it('stops watching once unwatched', async () => {
+    const session = new FakeSession()
+    const onEnd = vi.fn()
+    const unwatch = watchSessionEnd(session as unknown as XRSession, onEnd)
+    unwatch()
+    await session.end()
+    expect(onEnd).not.toHaveBeenCalled()
+  })
+})
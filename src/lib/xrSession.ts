@@ -0,0 +1,47 @@
+/**
+ * WebXR session endings
+ *
+ * A session ends with the same 'end' event whether the user left AR (the
+ * page's exit button, the system back gesture) or the browser or system took
+ * it away (another app grabbed the camera, the screen locked). What happened
+ * just before the end tells them apart:
+ * - The page asked to exit through exitSession → 'exited'
+ * - The session or the page was hidden when it ended → 'interrupted'
+ * - Anything else is a clean end while visible, e.g. system back → 'exited'
+ */
+
+export type SessionEndReason = 'exited' | 'interrupted'
+
+const exiting = new WeakSet<XRSession>()
+
+// End a session on the user's behalf; it reports as 'exited'
+export function exitSession(session: XRSession) {
+  exiting.add(session)
+  session.end().catch(() => {
+    // Already ending
+  })
+}
+
+// Call onEnd once when the session ends; returns a function that stops watching
+export function watchSessionEnd(session: XRSession, onEnd: (reason: SessionEndReason) => void): () => void {
+  let hidden = session.visibilityState === 'hidden'
+
+  const handleVisibilityChange = () => {
+    hidden = session.visibilityState === 'hidden'
+  }
+
+  const handleEnd = () => {
+    unwatch()
+    const interrupted = hidden || document.visibilityState === 'hidden'
+    onEnd(exiting.has(session) || !interrupted ? 'exited' : 'interrupted')
+  }
+
+  const unwatch = () => {
+    session.removeEventListener('visibilitychange', handleVisibilityChange)
+    session.removeEventListener('end', handleEnd)
+  }
+
+  session.addEventListener('visibilitychange', handleVisibilityChange)
+  session.addEventListener('end', handleEnd)
+  return unwatch
+}
@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { restorePagesRedirect } from './lib/urlState'
+
+// GitHub Pages deep links arrive as ?p=<path>&q=<query> (see public/404.html)
+restorePagesRedirect()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,78 @@
+// MindAR ships untyped ES modules; these cover the parts the experiments use
+
+declare module 'mind-ar/dist/mindar-face-three.prod.js' {
+  import type { BufferGeometry, Camera, Group, Material, Scene, WebGLRenderer } from 'three'
+  import type { CSS3DRenderer } from 'three/addons/renderers/CSS3DRenderer.js'
+
+  export interface MindARFaceConfig {
+    container: HTMLElement
+    uiLoading?: string
+    uiScanning?: string
+    uiError?: string
+    filterMinCF?: number
+    filterBeta?: number
+    disableFaceMirror?: boolean
+  }
+
+  // Internal; only touched to time tracking updates
+  export interface MindARFaceController {
+    faceMeshHelper: {
+      detect(input: HTMLVideoElement | HTMLCanvasElement): Promise<unknown>
+    }
+  }
+
+  export class MindARThree {
+    constructor(config: MindARFaceConfig)
+    controller: MindARFaceController
+    renderer: WebGLRenderer
+    cssRenderer: CSS3DRenderer
+    scene: Scene
+    camera: Camera
+    addAnchor(landmarkIndex: number): { group: Group }
+    addFaceMesh(): { material: Material; geometry: BufferGeometry; group: Group }
+    start(): Promise<void>
+    stop(): void
+  }
+}
+
+declare module 'mind-ar/dist/mindar-image-three.prod.js' {
+  import type { Camera, Group, Scene, WebGLRenderer } from 'three'
+  import type { CSS3DRenderer } from 'three/addons/renderers/CSS3DRenderer.js'
+
+  export interface MindARImageConfig {
+    container: HTMLElement
+    imageTargetSrc: string
+    maxTrack?: number
+    uiLoading?: string
+    uiScanning?: string
+    uiError?: string
+    filterMinCF?: number
+    filterBeta?: number
+  }
+
+  export interface MindARImageAnchor {
+    group: Group
+    onTargetFound: (() => void) | null
+    onTargetLost: (() => void) | null
+  }
+
+  // Internal (created on start); only touched to time tracking updates
+  export interface MindARImageController {
+    inputLoader: {
+      loadInput(input: HTMLVideoElement): unknown
+    }
+    onUpdate: ((data: { type: string }) => void) | null
+  }
+
+  export class MindARThree {
+    constructor(config: MindARImageConfig)
+    controller: MindARImageController
+    renderer: WebGLRenderer
+    cssRenderer: CSS3DRenderer
+    scene: Scene
+    camera: Camera
+    addAnchor(targetIndex: number): MindARImageAnchor
+    start(): Promise<void>
+    stop(): void
+  }
+}
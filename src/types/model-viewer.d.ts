@@ -1,30 +1,83 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-declare namespace JSX {
-  interface IntrinsicElements {
-    'model-viewer': React.DetailedHTMLProps<
-      React.HTMLAttributes<HTMLElement> & {
-        src?: string
-        alt?: string
-        ar?: boolean
-        'ar-modes'?: string
-        'camera-controls'?: boolean
-        'auto-rotate'?: boolean
-        'shadow-intensity'?: string
-        'environment-image'?: string
-        poster?: string
-        loading?: 'auto' | 'lazy' | 'eager'
-        reveal?: 'auto' | 'manual'
-        [key: string]: any
-      },
-      HTMLElement
-    >
-  }
+// <model-viewer> as a JSX element. The element class comes with the package's
+// own typings; these cover the HTML attributes and the events' details
+
+import type { ModelViewerElement } from '@google/model-viewer'
+import type { DetailedHTMLProps, HTMLAttributes } from 'react'
+
+export type ModelViewerLoading = 'auto' | 'lazy' | 'eager'
+export type ModelViewerReveal = 'auto' | 'manual'
+export type ModelViewerARMode = 'webxr' | 'scene-viewer' | 'quick-look'
+export type ModelViewerARStatus = 'not-presenting' | 'session-started' | 'object-placed' | 'failed'
+
+export interface ModelViewerAttributes {
+  // Loading
+  src?: string
+  alt?: string
+  poster?: string
+  loading?: ModelViewerLoading
+  reveal?: ModelViewerReveal
+  'with-credentials'?: boolean
+
+  // AR
+  ar?: boolean
+  'ar-modes'?: string // Space-separated ModelViewerARMode values, in order of preference
+  'ar-scale'?: 'auto' | 'fixed'
+  'ar-placement'?: 'floor' | 'wall'
+  'ios-src'?: string
+  'xr-environment'?: boolean
+
+  // Camera and controls
+  'camera-controls'?: boolean
+  'disable-pan'?: boolean
+  'disable-tap'?: boolean
+  'disable-zoom'?: boolean
+  'touch-action'?: 'pan-y' | 'pan-x' | 'none'
+  'camera-orbit'?: string
+  'camera-target'?: string
+  'field-of-view'?: string
+  'min-camera-orbit'?: string
+  'max-camera-orbit'?: string
+  'interaction-prompt'?: 'auto' | 'none'
+  'auto-rotate'?: boolean
+  'auto-rotate-delay'?: number
+  'rotation-per-second'?: string
+
+  // Lighting and environment
+  'environment-image'?: string
+  'skybox-image'?: string
+  'skybox-height'?: string
+  exposure?: number
+  'shadow-intensity'?: number
+  'shadow-softness'?: number
+  'tone-mapping'?: 'neutral' | 'aces' | 'agx' | 'reinhard' | 'cineon' | 'linear' | 'none'
+
+  // Animation
+  'animation-name'?: string
+  'animation-crossfade-duration'?: number
+  autoplay?: boolean
+}
+
+export interface ModelViewerLoadDetail {
+  url: string
+}
+
+export interface ModelViewerProgressDetail {
+  totalProgress: number // 0–1
+}
+
+export interface ModelViewerErrorDetail {
+  type: 'loadfailure' | 'webglcontextlost'
+  sourceError: unknown
+}
+
+export interface ModelViewerARStatusDetail {
+  status: ModelViewerARStatus
 }
 
-declare module '@google/model-viewer' {
-  export default class ModelViewerElement extends HTMLElement {
-    src: string
-    alt: string
-    ar: boolean
+declare module 'react' {
+  namespace JSX {
+    interface IntrinsicElements {
+      'model-viewer': DetailedHTMLProps<HTMLAttributes<ModelViewerElement>, ModelViewerElement> & ModelViewerAttributes
+    }
   }
 }
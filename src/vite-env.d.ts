@@ -1,29 +1,9 @@
 /// <reference types="vite/client" />
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
-declare namespace JSX {
-  interface IntrinsicElements {
-    'model-viewer': React.DetailedHTMLProps<
-      React.HTMLAttributes<HTMLElement> & {
-        src?: string
-        alt?: string
-        ar?: boolean
-        'ar-modes'?: string
-        'camera-controls'?: boolean
-        'auto-rotate'?: boolean
-        'shadow-intensity'?: string
-        'environment-image'?: string
-        poster?: string
-        loading?: 'auto' | 'lazy' | 'eager'
-        reveal?: 'auto' | 'manual'
-        [key: string]: any
-      },
-      HTMLElement
-    >
-  }
+interface ImportMetaEnv {
+  // Base URL for self-hosted MediaPipe wasm/models (defaults to <base>/mediapipe/)
+  readonly VITE_MEDIAPIPE_ASSET_BASE?: string
 }
 
-declare module '@google/model-viewer' {
-  const ModelViewerElement: any
-  export default ModelViewerElement
-}
+// Installed @mediapipe/tasks-vision version, injected by vite.config.ts
+declare const __MEDIAPIPE_VERSION__: string
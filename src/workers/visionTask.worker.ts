@@ -0,0 +1,113 @@
+/**
+ * Vision task worker
+ *
+ * Runs one MediaPipe vision task off the main thread so inference doesn't
+ * block rendering or input:
+ * - init: load the verified wasm and model, then create the task (GPU,
+ *   falling back to CPU when the worker can't get a WebGL context)
+ * - detect: run detectForVideo on a transferred frame, close the frame and
+ *   post the result back with its inference time
+ */
+
+import { loadModelAsset, loadVisionFileset } from '../lib/mediapipeAssets'
+import { getVisionTask } from '../lib/visionTasks'
+import type {
+  VisionDelegate,
+  VisionTaskConfig,
+  VisionTaskName,
+  VisionWorkerRequest,
+  VisionWorkerResponse,
+} from '../lib/visionTasks'
+
+interface Runner {
+  detectForVideo(frame: VideoFrame | ImageBitmap, timestamp: number): unknown
+  snapshot(result: unknown): unknown
+}
+
+const scope = self as unknown as {
+  import: (url: string) => Promise<void>
+  postMessage: (message: VisionWorkerResponse) => void
+  onmessage: ((event: MessageEvent<VisionWorkerRequest>) => void) | null
+}
+
+// MediaPipe loads its wasm glue with importScripts, which module workers
+// don't have, and falls back to self.import. The glue is a classic script
+// declaring a global ModuleFactory, so import it through a module wrapper
+// that puts that global back.
+scope.import = async (url) => {
+  const source = await (await fetch(url)).text()
+  const moduleUrl = URL.createObjectURL(
+    new Blob([source, '\nself.ModuleFactory = ModuleFactory\n'], { type: 'text/javascript' })
+  )
+  try {
+    await import(/* @vite-ignore */ moduleUrl)
+  } finally {
+    URL.revokeObjectURL(moduleUrl)
+  }
+}
+
+let runner: Runner | null = null
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+async function init(task: VisionTaskName, { model, delegate, settings }: VisionTaskConfig<VisionTaskName>) {
+  const [fileset, modelAssetBuffer] = await Promise.all([loadVisionFileset(), loadModelAsset(model)])
+  const definition = getVisionTask(task)
+  scope.postMessage({ type: 'loaded' })
+
+  const create = (delegate: VisionDelegate) =>
+    definition.create(fileset, {
+      ...settings,
+      baseOptions: { modelAssetBuffer, delegate },
+      runningMode: 'VIDEO',
+    })
+
+  let used = delegate
+  let instance: Awaited<ReturnType<typeof create>>
+  try {
+    instance = await create(delegate)
+  } catch (err) {
+    if (delegate !== 'GPU') throw err
+    console.warn('GPU delegate unavailable in worker, falling back to CPU:', err)
+    used = 'CPU'
+    instance = await create('CPU')
+  }
+
+  runner = {
+    detectForVideo: (frame, timestamp) => instance.detectForVideo(frame, timestamp),
+    snapshot: definition.snapshot,
+  }
+  scope.postMessage({ type: 'ready', delegate: used })
+}
+
+function detect(frame: VideoFrame | ImageBitmap, timestamp: number) {
+  try {
+    if (!runner) throw new Error('Vision task is not initialized')
+
+    const start = performance.now()
+    const result = runner.detectForVideo(frame, timestamp)
+    const inferenceMs = performance.now() - start
+
+    scope.postMessage({ type: 'result', result: runner.snapshot(result), inferenceMs })
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: errorMessage(err), phase: 'detect' })
+  } finally {
+    frame.close()
+  }
+}
+
+scope.onmessage = (event) => {
+  const message = event.data
+  switch (message.type) {
+    case 'init':
+      init(message.task, message.config).catch((err) => {
+        scope.postMessage({ type: 'error', message: errorMessage(err), phase: 'init' })
+      })
+      break
+    case 'detect':
+      detect(message.frame, message.timestamp)
+      break
+  }
+}
@@ -1,8 +1,50 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Installed MediaPipe version, checked against the self-hosted asset manifest
+const mediapipeVersion: string = JSON.parse(
+  readFileSync(new URL('./node_modules/@mediapipe/tasks-vision/package.json', import.meta.url), 'utf8')
+).version
+
+const MINDAR_THREE_ID = '\0mindar-three'
+
+// MindAR's dist still imports sRGBEncoding, which three r152 removed. Give its
+// modules a copy of our three with that constant added back, so MindAR shares
+// the app's single three.js instead of needing a pinned CDN build.
+function mindarThreeCompat(): Plugin {
+  return {
+    name: 'mindar-three-compat',
+    enforce: 'pre',
+    resolveId(source, importer) {
+      if (source === 'three' && importer?.includes('/node_modules/mind-ar/')) {
+        return MINDAR_THREE_ID
+      }
+    },
+    load(id) {
+      if (id === MINDAR_THREE_ID) {
+        // Only assigned to renderer.outputEncoding, which current three ignores
+        // (outputColorSpace already defaults to sRGB)
+        return "export * from 'three'\nexport const sRGBEncoding = 3001\n"
+      }
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [mindarThreeCompat(), react()],
   base: '/ar-lab/',
+  define: {
+    __MEDIAPIPE_VERSION__: JSON.stringify(mediapipeVersion),
+  },
+  worker: {
+    // Module workers in the build too, matching dev (see visionTask.worker.ts)
+    format: 'es',
+  },
+  optimizeDeps: {
+    // Keep MindAR out of esbuild pre-bundling so the compat plugin sees its imports
+    exclude: ['mind-ar'],
+  },
 })